@@ -233,7 +233,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         return res.status(400).json({ error: 'User ID is required' });
       }
 
-      const { name, first_name, last_name, role, active, password, auth_id } = req.body;
+      const { name, first_name, last_name, role, active, shift_minutes, password, auth_id } = req.body;
 
       // Update public.users
       const updateData: any = {};
@@ -242,6 +242,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       if (last_name !== undefined) updateData.last_name = last_name;
       if (role !== undefined) updateData.role = role;
       if (active !== undefined) updateData.active = active;
+      if (shift_minutes !== undefined) updateData.shift_minutes = shift_minutes;
 
       const { error: userError } = await supabaseAdmin
         .from('users')
@@ -5,7 +5,11 @@ import {
   Users,
   DoorOpen,
   LogOut,
-  BarChart
+  BarChart,
+  ClipboardCheck,
+  ListChecks,
+  Repeat,
+  Trash2
 } from "lucide-react";
 import { NavLink } from "react-router-dom";
 import { Button } from "@/components/ui/button";
@@ -38,8 +42,12 @@ const receptionNavItems = [
 
 const adminNavItems = [
   { title: "Raporty", url: "/admin/reports", icon: BarChart },
+  { title: "Kontrole", url: "/admin/inspections", icon: ClipboardCheck },
+  { title: "Zadania cykliczne", url: "/admin/recurring", icon: Repeat },
+  { title: "Kosz", url: "/admin/trash", icon: Trash2 },
   { title: "Użytkownicy", url: "/admin/users", icon: Users, adminOnly: true },
   { title: "Pokoje", url: "/admin/rooms", icon: DoorOpen, adminOnly: true },
+  { title: "Listy kontrolne", url: "/admin/checklists", icon: ListChecks, adminOnly: true },
 ];
 
 export function AdminSidebar({ onSignOut }: AdminSidebarProps) {
@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { CheckCircle2, Undo2 } from "lucide-react";
+import { INSPECTION_CHECKLIST, inspectionScore, type InspectionChecklistItem } from "@/lib/inspection";
+import type { InspectableTask } from "@/hooks/useInspectionQueue";
+
+interface InspectionDialogProps {
+  task: InspectableTask | null;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (taskId: string, passed: boolean, checklist: InspectionChecklistItem[], comments: string) => Promise<boolean>;
+  isSubmitting: boolean;
+}
+
+const freshChecklist = (): InspectionChecklistItem[] => INSPECTION_CHECKLIST.map(item => ({ item, ok: true }));
+
+export function InspectionDialog({ task, onOpenChange, onSubmit, isSubmitting }: InspectionDialogProps) {
+  const [checklist, setChecklist] = useState<InspectionChecklistItem[]>(freshChecklist);
+  const [comments, setComments] = useState("");
+
+  useEffect(() => {
+    if (task) {
+      setChecklist(freshChecklist());
+      setComments("");
+    }
+  }, [task]);
+
+  const score = inspectionScore(checklist);
+  const failedItems = checklist.filter(i => !i.ok).map(i => i.item);
+
+  const handleSubmit = async (passed: boolean) => {
+    if (!task) return;
+    // Failed checklist items go along with the comments so the housekeeper knows what to redo
+    const sendBackComments = !passed && failedItems.length > 0
+      ? [failedItems.join(", "), comments.trim()].filter(Boolean).join(" — ")
+      : comments;
+    const success = await onSubmit(task.id, passed, checklist, sendBackComments);
+    if (success) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!task} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Kontrola pokoju {task?.room.name}</DialogTitle>
+          <DialogDescription>
+            {task?.user ? `Sprzątał(a): ${task.user.name}` : "Brak przypisanej osoby"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-2">
+          {checklist.map((entry, index) => (
+            <div key={entry.item} className="flex items-center gap-2">
+              <Checkbox
+                id={`inspection-item-${index}`}
+                checked={entry.ok}
+                onCheckedChange={(checked) =>
+                  setChecklist(prev => prev.map((e, i) => i === index ? { ...e, ok: checked === true } : e))
+                }
+                disabled={isSubmitting}
+              />
+              <Label htmlFor={`inspection-item-${index}`} className="font-normal">{entry.item}</Label>
+            </div>
+          ))}
+          <p className="text-sm text-muted-foreground">Wynik: {score ?? "-"}%</p>
+
+          <div className="space-y-1">
+            <Label htmlFor="inspection-comments">Uwagi</Label>
+            <Textarea
+              id="inspection-comments"
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              placeholder="Wymagane przy odesłaniu do poprawy"
+              maxLength={2000}
+              disabled={isSubmitting}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            className="text-destructive border-destructive"
+            onClick={() => handleSubmit(false)}
+            disabled={isSubmitting || (!comments.trim() && failedItems.length === 0)}
+          >
+            <Undo2 className="mr-1 h-4 w-4" /> Odeślij do poprawy
+          </Button>
+          <Button onClick={() => handleSubmit(true)} disabled={isSubmitting}>
+            <CheckCircle2 className="mr-1 h-4 w-4" /> Zalicz
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
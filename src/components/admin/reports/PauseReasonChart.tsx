@@ -0,0 +1,105 @@
+import { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Bar, BarChart, Pie, PieChart, Cell, XAxis, YAxis, CartesianGrid } from "recharts";
+import type { PauseReportData } from '@/hooks/useAdminReports';
+import {
+  PAUSE_REASONS,
+  PAUSE_REASON_LABELS,
+  UNKNOWN_PAUSE_REASON_LABEL,
+  sumPauseMinutesByReason,
+} from '@/lib/pause-reasons';
+
+interface PauseReasonChartProps {
+  pauses: PauseReportData[];
+}
+
+const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8'];
+
+const reasonLabel = (reason: string) =>
+  reason === 'unknown' ? UNKNOWN_PAUSE_REASON_LABEL : PAUSE_REASON_LABELS[reason as keyof typeof PAUSE_REASON_LABELS];
+
+export function PauseReasonChart({ pauses }: PauseReasonChartProps) {
+  // Pause minutes per reason
+  const minutesByReasonData = useMemo(() => {
+    const totals = sumPauseMinutesByReason(pauses);
+    return [...PAUSE_REASONS, 'unknown' as const]
+      .map(reason => ({ name: reasonLabel(reason), value: totals[reason] }))
+      .filter(item => item.value > 0);
+  }, [pauses]);
+
+  // Number of pauses per reason
+  const countByReasonData = useMemo(() => {
+    const counts: Record<string, number> = {};
+    pauses.forEach(pause => {
+      const key = pause.reason ?? 'unknown';
+      counts[key] = (counts[key] || 0) + 1;
+    });
+    return Object.entries(counts)
+      .map(([reason, count]) => ({ name: reasonLabel(reason), pauzy: count }))
+      .sort((a, b) => b.pauzy - a.pauzy);
+  }, [pauses]);
+
+  if (pauses.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">
+          Brak pauz w wybranym okresie
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      {/* Pause minutes by reason */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Czas pauz według powodu</CardTitle>
+          <CardDescription>Łączna liczba minut pauz w sprzątaniu</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={{}}>
+            <PieChart>
+              <Pie
+                data={minutesByReasonData}
+                dataKey="value"
+                nameKey="name"
+                cx="50%"
+                cy="50%"
+                outerRadius={100}
+                label
+              >
+                {minutesByReasonData.map((entry, index) => (
+                  <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                ))}
+              </Pie>
+              <ChartTooltip content={<ChartTooltipContent />} />
+            </PieChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      {/* Pause count by reason */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Liczba pauz według powodu</CardTitle>
+          <CardDescription>Ile razy sprzątanie zostało wstrzymane</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={{
+            pauzy: { label: "Pauzy", color: "hsl(var(--chart-3))" },
+          }}>
+            <BarChart data={countByReasonData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" />
+              <YAxis allowDecimals={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="pauzy" fill="#FF8042" />
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Bar, BarChart, XAxis, YAxis, CartesianGrid, Legend } from "recharts";
+import type { AttemptReportData, TaskReportData } from '@/hooks/useAdminReports';
+import { SERVICE_REFUSAL_REASON_LABELS, countAttemptsByUser } from '@/lib/service-refusals';
+
+interface ServiceAttemptsChartProps {
+  tasks: TaskReportData[];
+  attempts: AttemptReportData[];
+}
+
+export function ServiceAttemptsChart({ tasks, attempts }: ServiceAttemptsChartProps) {
+  // Refused visits next to real completions, per housekeeper
+  const perStaffData = useMemo(() => {
+    const names = new Map<string, string>();
+    attempts.forEach(attempt => names.set(attempt.user_id ?? 'unknown', attempt.user_name ?? 'Nieprzypisane'));
+
+    const completed: Record<string, number> = {};
+    tasks.forEach(task => {
+      if (task.status !== 'done' || !task.user_id) return;
+      completed[task.user_id] = (completed[task.user_id] || 0) + 1;
+    });
+
+    return Object.entries(countAttemptsByUser(attempts))
+      .map(([userId, counts]) => ({
+        name: names.get(userId) ?? 'Nieprzypisane',
+        ukonczone: completed[userId] || 0,
+        dnd: counts.do_not_disturb,
+        odmowy: counts.guest_refused,
+      }))
+      .sort((a, b) => (b.dnd + b.odmowy) - (a.dnd + a.odmowy));
+  }, [tasks, attempts]);
+
+  // Tasks that needed more than one visit
+  const retriedTasks = useMemo(() => {
+    const perTask = new Map<string, number>();
+    attempts.forEach(attempt => perTask.set(attempt.task_id, (perTask.get(attempt.task_id) || 0) + 1));
+    return perTask.size;
+  }, [attempts]);
+
+  if (attempts.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">
+          Brak odmów w wybranym okresie
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Odmowy i DND według personelu</CardTitle>
+        <CardDescription>
+          {attempts.length} nieudanych prób w {retriedTasks} zadaniach — liczone osobno od ukończonych
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={{
+          ukonczone: { label: "Ukończone" },
+          dnd: { label: SERVICE_REFUSAL_REASON_LABELS.do_not_disturb },
+          odmowy: { label: SERVICE_REFUSAL_REASON_LABELS.guest_refused },
+        }}>
+          <BarChart data={perStaffData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="name" />
+            <YAxis allowDecimals={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Legend />
+            <Bar dataKey="ukonczone" fill="#00C49F" />
+            <Bar dataKey="dnd" stackId="attempts" fill="#8884d8" />
+            <Bar dataKey="odmowy" stackId="attempts" fill="#FF8042" />
+          </BarChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,16 +2,20 @@ import { useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
 import { Bar, BarChart, Pie, PieChart, Cell, XAxis, YAxis, CartesianGrid, Legend } from "recharts";
-import type { TaskReportData, WorkLogReportData } from '@/hooks/useAdminReports';
+import type { InspectionReportData, SegmentReportData, TaskReportData, WorkLogReportData } from '@/hooks/useAdminReports';
+import { inspectionRatesByHousekeeper } from '@/lib/inspection';
+import { cleaningMinutesByUser } from '@/lib/task-segments';
 
 interface StaffPerformanceChartProps {
   tasks: TaskReportData[];
   workLogs: WorkLogReportData[];
+  segments?: SegmentReportData[];
+  inspections?: InspectionReportData[];
 }
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8', '#82CA9D'];
 
-export function StaffPerformanceChart({ tasks, workLogs }: StaffPerformanceChartProps) {
+export function StaffPerformanceChart({ tasks, workLogs, segments = [], inspections = [] }: StaffPerformanceChartProps) {
   // Staff productivity (tasks completed)
   const staffProductivityData = useMemo(() => {
     const staffTaskCounts: Record<string, { name: string; tasks: number; completed: number }> = {};
@@ -69,6 +73,25 @@ export function StaffPerformanceChart({ tasks, workLogs }: StaffPerformanceChart
       .slice(0, 10); // Top 10
   }, [workLogs]);
 
+  // Cleaning time per staff, each person credited only for their own part of handed-over tasks
+  const cleaningTimeData = useMemo(() => {
+    const names: Record<string, string> = {};
+    tasks.forEach(task => {
+      if (task.user_id && task.user_name) names[task.user_id] = task.user_name;
+    });
+    segments.forEach(segment => {
+      if (segment.user_id && segment.user_name) names[segment.user_id] = segment.user_name;
+    });
+
+    return Object.entries(cleaningMinutesByUser(tasks, segments))
+      .map(([userId, minutes]) => ({
+        name: names[userId] || 'Nieznany',
+        godziny: Math.round(minutes / 60 * 10) / 10,
+      }))
+      .sort((a, b) => b.godziny - a.godziny)
+      .slice(0, 10); // Top 10
+  }, [tasks, segments]);
+
   // Tasks per hour (efficiency)
   const efficiencyData = useMemo(() => {
     const staffEfficiency: Record<string, { name: string; tasks: number; hours: number }> = {};
@@ -104,6 +127,26 @@ export function StaffPerformanceChart({ tasks, workLogs }: StaffPerformanceChart
       .slice(0, 10); // Top 10
   }, [tasks, workLogs]);
 
+  // Inspection pass/fail per staff
+  const inspectionData = useMemo(() => {
+    const names: Record<string, string> = {};
+    inspections.forEach(inspection => {
+      if (inspection.housekeeper_id && inspection.housekeeper_name) {
+        names[inspection.housekeeper_id] = inspection.housekeeper_name;
+      }
+    });
+
+    return Object.entries(inspectionRatesByHousekeeper(inspections))
+      .map(([userId, rate]) => ({
+        name: names[userId] || 'Nieznany',
+        zaliczone: rate.passed,
+        odesłane: rate.failed,
+        skuteczność: rate.passRate,
+      }))
+      .sort((a, b) => b.skuteczność - a.skuteczność)
+      .slice(0, 10); // Top 10
+  }, [inspections]);
+
   // Break time breakdown
   const breakTimeData = useMemo(() => {
     const totalBreak = workLogs.reduce((sum, log) => sum + (log.break_minutes || 0), 0);
@@ -167,6 +210,29 @@ export function StaffPerformanceChart({ tasks, workLogs }: StaffPerformanceChart
         </CardContent>
       </Card>
 
+      {/* Cleaning Time */}
+      {cleaningTimeData.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Czas sprzątania</CardTitle>
+            <CardDescription>Godziny sprzątania ukończonych zadań; przekazane zadania dzielone między osoby</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={{
+              godziny: { label: "Godziny sprzątania", color: "hsl(var(--chart-1))" },
+            }}>
+              <BarChart data={cleaningTimeData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" angle={-45} textAnchor="end" height={100} />
+                <YAxis />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="godziny" fill="#82CA9D" />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Efficiency (Tasks per hour) */}
       {efficiencyData.length > 0 && (
         <Card>
@@ -188,6 +254,40 @@ export function StaffPerformanceChart({ tasks, workLogs }: StaffPerformanceChart
         </Card>
       )}
 
+      {/* Inspection Results */}
+      {inspectionData.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Wyniki kontroli</CardTitle>
+            <CardDescription>Pokoje zaliczone i odesłane do poprawy na personel</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={{
+              zaliczone: { label: "Zaliczone", color: "hsl(var(--chart-1))" },
+              odesłane: { label: "Odesłane", color: "hsl(var(--chart-2))" },
+            }}>
+              <BarChart data={inspectionData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" angle={-45} textAnchor="end" height={100} />
+                <YAxis allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Legend />
+                <Bar dataKey="zaliczone" stackId="inspection" fill="#00C49F" />
+                <Bar dataKey="odesłane" stackId="inspection" fill="#FF8042" />
+              </BarChart>
+            </ChartContainer>
+            <div className="mt-2 space-y-1 text-sm">
+              {inspectionData.map(staff => (
+                <div key={staff.name} className="flex justify-between">
+                  <span>{staff.name}</span>
+                  <span className="text-muted-foreground">{staff.skuteczność}% zaliczonych</span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Break Time Breakdown */}
       {breakTimeData.length > 0 && (
         <Card>
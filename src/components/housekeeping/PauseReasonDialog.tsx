@@ -0,0 +1,43 @@
+// src/components/housekeeping/PauseReasonDialog.tsx
+import { Button } from "@/components/ui/button";
+import { DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogClose } from "@/components/ui/dialog";
+import { PAUSE_REASONS, PAUSE_REASON_LABELS, type PauseReason } from '@/lib/pause-reasons';
+import type { Task } from '@/pages/Housekeeping';
+
+interface PauseReasonDialogProps {
+  task: Task;
+  onSelect: (taskId: string, reason: PauseReason) => void;
+  onClose: () => void;
+}
+
+export function PauseReasonDialog({ task, onSelect, onClose }: PauseReasonDialogProps) {
+  const handleSelect = (reason: PauseReason) => {
+    onClose();
+    onSelect(task.id, reason);
+  };
+
+  return (
+    <DialogContent onClick={(e) => e.stopPropagation()}>
+      <DialogHeader>
+        <DialogTitle>Wstrzymaj pokój {task.room?.name || 'Nieznany'}</DialogTitle>
+        <DialogDescription>Dlaczego wstrzymujesz sprzątanie?</DialogDescription>
+      </DialogHeader>
+      <div className="grid grid-cols-1 gap-2 py-2">
+        {PAUSE_REASONS.map(reason => (
+          <Button
+            key={reason}
+            type="button"
+            variant="outline"
+            className="h-12 justify-start text-base"
+            onClick={() => handleSelect(reason)}
+          >
+            {PAUSE_REASON_LABELS[reason]}
+          </Button>
+        ))}
+      </div>
+      <DialogFooter>
+        <DialogClose asChild><Button type="button" variant="secondary">Anuluj</Button></DialogClose>
+      </DialogFooter>
+    </DialogContent>
+  );
+}
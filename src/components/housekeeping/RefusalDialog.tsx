@@ -0,0 +1,60 @@
+// src/components/housekeeping/RefusalDialog.tsx
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogClose } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { SERVICE_REFUSAL_REASONS, SERVICE_REFUSAL_REASON_LABELS, type ServiceRefusalReason } from '@/lib/service-refusals';
+import type { Task } from '@/pages/Housekeeping';
+
+interface RefusalDialogProps {
+  task: Task;
+  onSelect: (taskId: string, reason: ServiceRefusalReason, note?: string) => void;
+  onClose: () => void;
+}
+
+export function RefusalDialog({ task, onSelect, onClose }: RefusalDialogProps) {
+  const [note, setNote] = useState('');
+
+  const handleSelect = (reason: ServiceRefusalReason) => {
+    onClose();
+    onSelect(task.id, reason, note);
+  };
+
+  return (
+    <DialogContent onClick={(e) => e.stopPropagation()}>
+      <DialogHeader>
+        <DialogTitle>Nie można posprzątać pokoju {task.room?.name || 'Nieznany'}</DialogTitle>
+        <DialogDescription>
+          Zadanie wróci do listy, a recepcja może zaplanować kolejną próbę.
+        </DialogDescription>
+      </DialogHeader>
+      <div className="space-y-2">
+        <Label htmlFor={`refusal-note-${task.id}`}>Notatka (opcjonalnie)</Label>
+        <Textarea
+          id={`refusal-note-${task.id}`}
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          maxLength={500}
+          placeholder="np. gość prosi o sprzątanie po 14:00"
+        />
+      </div>
+      <div className="grid grid-cols-1 gap-2 py-2">
+        {SERVICE_REFUSAL_REASONS.map(reason => (
+          <Button
+            key={reason}
+            type="button"
+            variant="outline"
+            className="h-12 justify-start text-base"
+            onClick={() => handleSelect(reason)}
+          >
+            {SERVICE_REFUSAL_REASON_LABELS[reason]}
+          </Button>
+        ))}
+      </div>
+      <DialogFooter>
+        <DialogClose asChild><Button type="button" variant="secondary">Anuluj</Button></DialogClose>
+      </DialogFooter>
+    </DialogContent>
+  );
+}
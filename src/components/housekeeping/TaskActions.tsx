@@ -1,23 +1,37 @@
 // src/components/housekeeping/TaskActions.tsx
+import { useState } from 'react';
 import { Button } from "@/components/ui/button";
-import { Play, Pause, Square } from "lucide-react";
+import { Dialog } from "@/components/ui/dialog";
+import { Play, Pause, Square, DoorClosed } from "lucide-react";
+import { PauseReasonDialog } from './PauseReasonDialog';
+import { RefusalDialog } from './RefusalDialog';
+import type { PauseReason } from '@/lib/pause-reasons';
+import type { ServiceRefusalReason } from '@/lib/service-refusals';
 import type { Task } from '@/pages/Housekeeping'; // Assuming Task type is exported or moved
 
 interface TaskActionsProps {
   task: Task;
   activeTaskId: string | null;
   onStart: (taskId: string) => void;
-  onPause: (taskId: string) => void;
+  onPause: (taskId: string, reason: PauseReason) => void;
   onResume: (taskId: string) => void;
   onStop: (taskId: string) => void;
+  /** DND sign or guest refused; the button is hidden when not given. */
+  onRecordRefusal?: (taskId: string, reason: ServiceRefusalReason, note?: string) => void;
 }
 
-export function TaskActions({ task, activeTaskId, onStart, onPause, onResume, onStop }: TaskActionsProps) {
+export function TaskActions({ task, activeTaskId, onStart, onPause, onResume, onStop, onRecordRefusal }: TaskActionsProps) {
   const isThisTaskActive = activeTaskId === task.id;
   // Can start/resume if NO task is active OR if THIS task was the one paused (implied by status='paused' check below)
   // Can pause/stop ONLY if THIS task is the currently active one
   const canStartOrResume = !activeTaskId || task.status === 'paused';
   const canPauseOrStop = isThisTaskActive;
+  const [isPauseDialogOpen, setIsPauseDialogOpen] = useState(false);
+  const [isRefusalDialogOpen, setIsRefusalDialogOpen] = useState(false);
+  // Not while another task is running: the refusal is recorded at this room's door
+  const canRecordRefusal = !!onRecordRefusal
+    && (task.status === 'todo' || task.status === 'in_progress' || task.status === 'paused')
+    && (!activeTaskId || isThisTaskActive);
 
   return (
     <div className="flex gap-2 flex-wrap">
@@ -31,7 +45,7 @@ export function TaskActions({ task, activeTaskId, onStart, onPause, onResume, on
       {/* Show Pause and Stop buttons when 'in_progress', only if this is the active task */}
       {task.status === "in_progress" && (
         <>
-          <Button size="sm" variant="outline" onClick={() => onPause(task.id)} disabled={!canPauseOrStop} className="text-orange-600 border-orange-600 hover:bg-orange-50 dark:text-orange-400 dark:border-orange-600 dark:hover:bg-orange-900/30">
+          <Button size="sm" variant="outline" onClick={() => setIsPauseDialogOpen(true)} disabled={!canPauseOrStop} className="text-orange-600 border-orange-600 hover:bg-orange-50 dark:text-orange-400 dark:border-orange-600 dark:hover:bg-orange-900/30">
             <Pause className="mr-1 h-4 w-4" /> Pauza
           </Button>
           <Button size="sm" onClick={() => onStop(task.id)} disabled={!canPauseOrStop} className="bg-blue-600 hover:bg-blue-700 text-white">
@@ -54,6 +68,25 @@ export function TaskActions({ task, activeTaskId, onStart, onPause, onResume, on
         </>
       )}
 
+      {canRecordRefusal && (
+        <Button size="sm" variant="outline" onClick={() => setIsRefusalDialogOpen(true)} className="text-slate-600 border-slate-400 hover:bg-slate-50 dark:text-slate-300 dark:border-slate-600 dark:hover:bg-slate-800/50">
+          <DoorClosed className="mr-1 h-4 w-4" /> DND / Odmowa
+        </Button>
+      )}
+
+      {/* Pause asks for a reason first; rendered only when open */}
+      <Dialog open={isPauseDialogOpen} onOpenChange={setIsPauseDialogOpen}>
+        {isPauseDialogOpen && (
+          <PauseReasonDialog task={task} onSelect={onPause} onClose={() => setIsPauseDialogOpen(false)} />
+        )}
+      </Dialog>
+
+      <Dialog open={isRefusalDialogOpen} onOpenChange={setIsRefusalDialogOpen}>
+        {isRefusalDialogOpen && onRecordRefusal && (
+          <RefusalDialog task={task} onSelect={onRecordRefusal} onClose={() => setIsRefusalDialogOpen(false)} />
+        )}
+      </Dialog>
+
       {/* Show Completed text when done */}
       {task.status === "done" && <span className="text-sm text-muted-foreground self-center">Zakończone</span>}
     </div>
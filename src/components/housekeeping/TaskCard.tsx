@@ -2,14 +2,17 @@
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Check, Info, Sparkles } from "lucide-react";
-import { cn } from "@/lib/utils";
+import { AlarmClock, Check, Clock, DoorClosed, Info, Sparkles } from "lucide-react";
+import { cn, formatMinutesAsHm } from "@/lib/utils";
 import { useNavigate } from "react-router-dom";
 import { CAPACITY_ID_TO_LABEL, renderCapacityIconPattern } from "@/lib/capacity-utils";
 import { TaskActions } from './TaskActions';
 import { SecondaryTaskActions } from './SecondaryTaskActions';
 import { TaskTimerDisplay } from '@/pages/Housekeeping';
-import { isAwaitingCleaning } from '@/lib/task-utils';
+import { isAwaitingCleaning, isReadySoon, minutesUntilReady, timeOfDay } from '@/lib/task-utils';
+import { deadlineLevel, minutesUntilDue, type DeadlineLevel } from '@/lib/task-deadline';
+import type { PauseReason } from '@/lib/pause-reasons';
+import { formatAttemptBadge, type ServiceRefusalReason } from '@/lib/service-refusals';
 import type { Task } from '@/pages/Housekeeping';
 
 // --- Utility Functions (Keep consistent with Housekeeping.tsx or move to utils) ---
@@ -48,15 +51,24 @@ const getCleaningTypeLabel = (type: string): string => {
 // --- END Utility Functions ---
 
 
+// Deadline countdown: plenty of time, tight, missed
+const deadlineBadgeClasses: Record<DeadlineLevel, string> = {
+  ok: "border-sky-300 text-sky-800 dark:border-sky-700 dark:text-sky-200",
+  at_risk: "border-amber-400 bg-amber-50 text-amber-800 dark:border-amber-700 dark:bg-amber-900/30 dark:text-amber-200",
+  overdue: "border-red-400 bg-red-50 text-red-800 dark:border-red-700 dark:bg-red-900/30 dark:text-red-200",
+};
+
 interface TaskCardProps {
   task: Task;
   isActive: boolean;
   activeTaskId: string | null; // Needed for disabling buttons in TaskActions
+  now?: Date; // Clock for scheduled readiness; the page ticks it so countdowns update
   // Action handlers from useTaskActions
   onStart: (taskId: string) => void;
-  onPause: (taskId: string) => void;
+  onPause: (taskId: string, reason: PauseReason) => void;
   onResume: (taskId: string) => void;
   onStop: (taskId: string) => void;
+  onRecordRefusal?: (taskId: string, reason: ServiceRefusalReason, note?: string) => void;
   onSaveNote: (taskId: string, note: string) => Promise<boolean>;
   onReportIssue: (taskId: string, description: string, photo: File | null) => Promise<boolean>;
   onAcknowledgeNote: (taskId: string) => Promise<boolean>;
@@ -66,10 +78,12 @@ export function TaskCard({
   task,
   isActive,
   activeTaskId,
+  now = new Date(),
   onStart,
   onPause,
   onResume,
   onStop,
+  onRecordRefusal,
   onSaveNote,
   onReportIssue,
   onAcknowledgeNote
@@ -80,7 +94,11 @@ export function TaskCard({
   // const showAcknowledge = task.reception_notes && !task.reception_note_acknowledged;
   const showAcknowledge = task.reception_notes; // Temporarily show if notes exist
 
-  const readyToClean = isAwaitingCleaning(task);
+  const readyToClean = isAwaitingCleaning(task, now);
+  const readySoon = !readyToClean && isReadySoon(task, now);
+  const deadline = deadlineLevel(task, now.getTime());
+  const minutesToDeadline = minutesUntilDue(task, now.getTime());
+  const attemptBadge = task.status !== 'done' ? formatAttemptBadge(task) : null;
 
   return (
     <Card
@@ -100,11 +118,35 @@ export function TaskCard({
         <div className="flex-1 min-w-0 pr-2">
           <CardTitle className="text-lg font-semibold text-foreground">{task.room?.name || 'Nieznany Pokój'}</CardTitle>
           {readyToClean && (
-            <Badge className="mt-1.5 bg-emerald-100 text-emerald-800 hover:bg-emerald-100 hover:text-emerald-800 dark:bg-emerald-900/40 dark:text-emerald-200 dark:hover:bg-emerald-900/40 dark:hover:text-emerald-200 text-xs font-medium px-2 py-0.5">
+            <Badge className="mt-1.5 mr-1 bg-emerald-100 text-emerald-800 hover:bg-emerald-100 hover:text-emerald-800 dark:bg-emerald-900/40 dark:text-emerald-200 dark:hover:bg-emerald-900/40 dark:hover:text-emerald-200 text-xs font-medium px-2 py-0.5">
               <Sparkles className="h-3 w-3 mr-1" />
               Gotowy do sprzątania
             </Badge>
           )}
+          {readySoon && (
+            <Badge variant="outline" className="mt-1.5 mr-1 border-amber-300 text-amber-800 dark:border-amber-700 dark:text-amber-200 text-xs font-medium px-2 py-0.5">
+              <Clock className="h-3 w-3 mr-1" />
+              Wolny za {minutesUntilReady(task, now)} min
+            </Badge>
+          )}
+          {deadline && minutesToDeadline !== null && (
+            <Badge
+              variant="outline"
+              data-deadline={deadline}
+              className={cn("mt-1.5 mr-1 text-xs font-medium px-2 py-0.5", deadlineBadgeClasses[deadline])}
+            >
+              <AlarmClock className="h-3 w-3 mr-1" />
+              Do {timeOfDay(task.due_by)} · {minutesToDeadline < 0
+                ? `po terminie ${formatMinutesAsHm(-minutesToDeadline)}`
+                : `zostało ${formatMinutesAsHm(minutesToDeadline)}`}
+            </Badge>
+          )}
+          {attemptBadge && (
+            <Badge variant="outline" className="mt-1.5 border-slate-400 text-slate-700 dark:border-slate-600 dark:text-slate-200 text-xs font-medium px-2 py-0.5">
+              <DoorClosed className="h-3 w-3 mr-1" />
+              {attemptBadge}{task.retry_at ? ` · ponów o ${timeOfDay(task.retry_at)}` : ''}
+            </Badge>
+          )}
           <p className="text-xs text-muted-foreground pt-1.5 leading-relaxed">
             Typ: <span className="font-semibold text-foreground">{getCleaningTypeLabel(task.cleaning_type)}</span> / Goście: <span className="font-semibold text-foreground inline-flex items-center">{renderCapacityIconPattern(CAPACITY_ID_TO_LABEL[task.guest_count] || task.guest_count)}</span> / Limit: <span className="font-semibold text-foreground">{task.time_limit ? `${task.time_limit}m` : 'N/A'}</span>
           </p>
@@ -169,6 +211,7 @@ export function TaskCard({
             onPause={onPause}
             onResume={onResume}
             onStop={onStop}
+            onRecordRefusal={onRecordRefusal}
           />
         )}
 
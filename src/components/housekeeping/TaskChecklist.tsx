@@ -0,0 +1,71 @@
+// src/components/housekeeping/TaskChecklist.tsx
+import { useEffect, useState } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { checklistProgress, type TaskChecklistItem } from "@/lib/cleaning-checklist";
+
+interface TaskChecklistProps {
+  items: TaskChecklistItem[];
+  /** Ticking is only possible while the task is running or paused. */
+  disabled: boolean;
+  onToggle: (itemId: string, done: boolean) => Promise<boolean>;
+}
+
+export function TaskChecklist({ items, disabled, onToggle }: TaskChecklistProps) {
+  // Ticks shown before the server confirms them; dropped once fresh items arrive
+  const [pending, setPending] = useState<Record<string, boolean>>({});
+
+  const itemsKey = JSON.stringify(items);
+  useEffect(() => {
+    setPending({});
+  }, [itemsKey]);
+
+  const shown = items.map(item => (item.id in pending ? { ...item, done: pending[item.id] } : item));
+  const { done, total } = checklistProgress(shown);
+
+  const handleToggle = async (itemId: string, checked: boolean) => {
+    setPending(prev => ({ ...prev, [itemId]: checked }));
+    const saved = await onToggle(itemId, checked);
+    if (!saved) {
+      setPending(prev => {
+        const next = { ...prev };
+        delete next[itemId];
+        return next;
+      });
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-sm text-muted-foreground font-semibold">Lista kontrolna</p>
+        <span className="text-xs text-muted-foreground">{done}/{total}</span>
+      </div>
+      <div className="space-y-1">
+        {shown.map(item => (
+          <label
+            key={item.id}
+            className={cn(
+              "flex items-center gap-3 rounded-md p-2 min-h-11",
+              disabled ? "cursor-default" : "cursor-pointer hover:bg-muted/50"
+            )}
+          >
+            <Checkbox
+              checked={item.done}
+              disabled={disabled}
+              onCheckedChange={(checked) => handleToggle(item.id, checked === true)}
+              className="h-5 w-5"
+            />
+            <span className={cn("text-sm flex-1", item.done && "line-through text-muted-foreground")}>
+              {item.label}
+            </span>
+            {item.required && !item.done && (
+              <Badge variant="outline" className="text-xs">Wymagane</Badge>
+            )}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
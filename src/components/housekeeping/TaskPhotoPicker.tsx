@@ -0,0 +1,75 @@
+// src/components/housekeeping/TaskPhotoPicker.tsx
+import React, { useEffect, useMemo } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { validateTaskPhoto } from '@/lib/task-photos';
+
+interface TaskPhotoPickerProps {
+  taskId: string;
+  photos: File[];
+  onChange: (photos: File[]) => void;
+  required: boolean;
+  disabled?: boolean;
+}
+
+export function TaskPhotoPicker({ taskId, photos, onChange, required, disabled }: TaskPhotoPickerProps) {
+  const { toast } = useToast();
+  const previews = useMemo(() => photos.map(photo => URL.createObjectURL(photo)), [photos]);
+
+  // Clean up preview URLs when the selection changes or the picker closes
+  useEffect(() => () => previews.forEach(url => URL.revokeObjectURL(url)), [previews]);
+
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = ''; // Allow picking the same file again after removing it
+    const accepted = selected.filter(file => {
+      const problem = validateTaskPhoto(file);
+      if (problem) toast({ title: "Nieprawidłowy Plik", description: problem, variant: "destructive" });
+      return !problem;
+    });
+    if (accepted.length > 0) onChange([...photos, ...accepted]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={`taskPhotos-${taskId}`}>
+        {required ? "Zdjęcia po sprzątaniu*" : "Zdjęcia po sprzątaniu (Opcjonalnie)"}
+      </Label>
+      <Input
+        id={`taskPhotos-${taskId}`}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        multiple
+        onChange={handleSelect}
+        disabled={disabled}
+      />
+      {required && photos.length === 0 && (
+        <p className="text-xs text-orange-700 dark:text-orange-300">Ten pokój wymaga co najmniej jednego zdjęcia.</p>
+      )}
+      {previews.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {previews.map((url, index) => (
+            <div key={url} className="relative">
+              <img src={url} alt={`Zdjęcie ${index + 1}`} className="h-20 w-20 object-cover rounded border" />
+              <Button
+                type="button"
+                variant="secondary"
+                size="icon"
+                className="absolute -top-2 -right-2 h-6 w-6 rounded-full"
+                onClick={() => onChange(photos.filter((_, i) => i !== index))}
+                disabled={disabled}
+              >
+                <X className="h-3 w-3" />
+                <span className="sr-only">Usuń zdjęcie</span>
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -285,6 +285,20 @@ const getTimeLimitFromRoom = (room: Room | null, capacityId: string, cleaningTyp
     return cleaningTypeConfig.time_limit;
 };
 
+// Capacity and cleaning type a new task starts with once a room is picked
+const roomTaskDefaults = (room: Room): Pick<NewTaskState, 'capacityId' | 'cleaningType'> => {
+    const guestOptions = getGuestCountOptionsFromRoom(room);
+    const capacityId = room.group_type === 'OTHER'
+        ? '1'  // Use numeric '1' for OTHER rooms to match limits table
+        : guestOptions.length > 0
+            ? guestOptions[0].value
+            : 'd';  // Default to 'd' instead of number 1
+
+    const availableTypes = getAvailableCleaningTypesFromRoom(room);
+    const cleaningType = availableTypes.length > 0 ? availableTypes[0] : 'W';
+    return { capacityId, cleaningType };
+};
+
 interface AddTaskDialogProps {
     availableRooms: Room[];
     allStaff: Staff[];
@@ -292,6 +306,11 @@ interface AddTaskDialogProps {
     onSubmit: (newTask: NewTaskState) => Promise<boolean>;
     isSubmitting: boolean;
     triggerButton?: React.ReactNode;
+    // Controlled use without a trigger, e.g. opened from a week calendar cell
+    open?: boolean;
+    onOpenChange?: (open: boolean) => void;
+    // Room and date filled in when the dialog opens
+    prefill?: { roomId: string; date: string } | null;
 }
 
 // Helper function to check if a room allows multiple tasks on the same date
@@ -312,10 +331,15 @@ export function AddTaskDialog({
     initialState,
     onSubmit,
     isSubmitting,
-    triggerButton
+    triggerButton,
+    open,
+    onOpenChange,
+    prefill = null
 }: AddTaskDialogProps) {
     const { toast } = useToast();
-    const [isOpen, setIsOpen] = useState(false);
+    const [internalOpen, setInternalOpen] = useState(false);
+    const isOpen = open ?? internalOpen;
+    const setIsOpen = onOpenChange ?? setInternalOpen;
     const [selectedGroup, setSelectedGroup] = useState<RoomGroup | null>(null);
     const [newTask, setNewTask] = useState<NewTaskState>(initialState);
     const prevIsOpen = useRef(isOpen);
@@ -501,14 +525,17 @@ export function AddTaskDialog({
         if (!prevIsOpen.current && isOpen) {
             console.log("Dialog opened, resetting state.");
             const resetState = { ...initialState };
+            const prefilledRoom = prefill ? availableRooms.find(room => room.id === prefill.roomId) : undefined;
 
-            // Don't set a default date - let user choose
+            // Don't set a default date - let user choose (unless opened for a given day)
+            if (prefill) resetState.date = prefill.date;
+            if (prefilledRoom) Object.assign(resetState, { roomId: prefilledRoom.id }, roomTaskDefaults(prefilledRoom));
             setNewTask(resetState);
-            setSelectedGroup(null); // Reset group selection
+            setSelectedGroup(prefilledRoom?.group_type ?? null); // Reset group selection
             setAssignedRoomIds(new Set()); // Clear assigned rooms initially
         }
         prevIsOpen.current = isOpen;
-    }, [isOpen, initialState]);
+    }, [isOpen, initialState, prefill, availableRooms]);
 
     // Handle group change
     const handleGroupChange = (group: RoomGroup) => {
@@ -530,24 +557,11 @@ export function AddTaskDialog({
         const selectedRoom = availableRooms.find(r => r.id === roomId);
         if (!selectedRoom) return;
 
-        const guestOptions = getGuestCountOptionsFromRoom(selectedRoom);
-        const defaultGuestCount = selectedRoom.group_type === 'OTHER'
-            ? '1'  // Use numeric '1' for OTHER rooms to match limits table
-            : guestOptions.length > 0
-                ? guestOptions[0].value
-                : 'd';  // Default to 'd' instead of number 1
-
-
-        // Get available cleaning types for this room
-        const availableTypes = getAvailableCleaningTypesFromRoom(selectedRoom);
-        const defaultCleaningType = availableTypes.length > 0 ? availableTypes[0] : 'W';
-
         setNewTask(prev => ({
             ...prev,
             roomId,
             staffId: "", // Clear staff selection when room changes
-            capacityId: defaultGuestCount, // Reset to first available capacity option (now capacity_id)
-            cleaningType: defaultCleaningType // Reset to first available cleaning type for this room
+            ...roomTaskDefaults(selectedRoom) // First available capacity option and cleaning type for this room
         }));
     };
 
@@ -716,7 +730,7 @@ export function AddTaskDialog({
 
     return (
         <Dialog open={isOpen} onOpenChange={setIsOpen}>
-            {triggerButton ? (
+            {open !== undefined && !triggerButton ? null : triggerButton ? (
                 // Use asChild to prevent rendering an extra button element if triggerButton is already a button
                 <DialogTrigger asChild>
                     {triggerButton}
@@ -918,6 +932,23 @@ export function AddTaskDialog({
                         </Select>
                     </div>
 
+                    {/* Deadline: early arrival or VIP */}
+                    <div className="grid grid-cols-4 items-center gap-4">
+                        <Label htmlFor="dueTime-modal" className="text-right">Termin</Label>
+                        <Input
+                            id="dueTime-modal"
+                            type="time"
+                            value={newTask.dueTime ?? ''}
+                            onChange={(e) => setNewTask(prev => ({ ...prev, dueTime: e.target.value }))}
+                            className="col-span-3"
+                            disabled={isSubmitting}
+                            aria-describedby="dueTime-hint"
+                        />
+                        <p id="dueTime-hint" className="col-span-3 col-start-2 -mt-3 text-xs text-muted-foreground">
+                            Opcjonalnie: do której pokój musi być gotowy (wcześniejszy przyjazd, VIP).
+                        </p>
+                    </div>
+
                     {/* Reception Notes Textarea */}
                     <div className="grid grid-cols-4 items-center gap-4">
                         <Label htmlFor="notes-modal" className="text-right">Notes</Label>
@@ -0,0 +1,51 @@
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi } from 'vitest';
+import { AssignmentBoard } from './AssignmentBoard';
+
+const anna = { id: 'anna', name: 'Anna' };
+
+const task = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  status: 'todo',
+  time_limit: 30,
+  user: anna as { id: string; name: string } | null,
+  room: { name: id },
+  cleaning_type: 'T',
+  ...overrides,
+});
+
+const renderBoard = (tasks: ReturnType<typeof task>[], props: Record<string, unknown> = {}) =>
+  render(
+    <AssignmentBoard
+      tasks={tasks}
+      staff={[{ ...anna, shift_minutes: 60 }, { id: 'ewa', name: 'Ewa' }]}
+      canDrag
+      onMove={vi.fn()}
+      onViewDetails={vi.fn()}
+      {...props}
+    />
+  );
+
+describe('AssignmentBoard', () => {
+  it('shows a column per housekeeper and one for unassigned tasks', () => {
+    renderBoard([task('101'), task('102', { user: null })]);
+    expect(within(screen.getByTestId('board-column-anna')).getByText('101')).toBeInTheDocument();
+    expect(within(screen.getByTestId('board-column-ewa')).queryAllByTestId('board-card')).toHaveLength(0);
+    expect(within(screen.getByTestId('board-column-unassigned')).getByText('102')).toBeInTheDocument();
+  });
+
+  it('compares planned minutes with the shift and marks an overbooked person', () => {
+    renderBoard([task('101'), task('102', { time_limit: 45 })]);
+    const total = within(screen.getByTestId('board-column-anna')).getByText(/1h 15m \/ 1h/);
+    expect(total).toHaveClass('text-red-600');
+    expect(within(screen.getByTestId('board-column-ewa')).getByText(/0m \/ 7h/)).not.toHaveClass('text-red-600');
+  });
+
+  it('opens the task on click', async () => {
+    const onViewDetails = vi.fn();
+    renderBoard([task('101')], { onViewDetails });
+    await userEvent.click(screen.getByText('101'));
+    expect(onViewDetails).toHaveBeenCalledWith(expect.objectContaining({ id: '101' }));
+  });
+});
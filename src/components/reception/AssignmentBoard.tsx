@@ -0,0 +1,197 @@
+// src/components/reception/AssignmentBoard.tsx
+import { useEffect, useMemo, useState } from "react";
+import {
+  DndContext,
+  closestCorners,
+  KeyboardSensor,
+  PointerSensor,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from "@dnd-kit/core";
+import { SortableContext, sortableKeyboardCoordinates, useSortable, verticalListSortingStrategy } from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { Badge } from "@/components/ui/badge";
+import { DoorClosed, Lock } from "lucide-react";
+import { cn, formatMinutesAsHm } from "@/lib/utils";
+import {
+  buildBoardColumns,
+  isBoardTaskLocked,
+  moveBoardTask,
+  plannedMinutes,
+  type BoardColumn,
+  type BoardStaff,
+  type BoardTask,
+} from "@/lib/assignment-board";
+
+export interface AssignmentBoardTask extends BoardTask {
+  room: { name: string };
+  cleaning_type: string;
+  ready_to_clean?: boolean;
+}
+
+/** A card dropped on the board: who it goes to and the target column's order before and after. */
+export interface BoardMove {
+  taskId: string;
+  staffId: string | null;
+  reassigned: boolean;
+  targetOldIds: string[];
+  targetNewIds: string[];
+}
+
+interface AssignmentBoardProps<T extends AssignmentBoardTask> {
+  tasks: T[];
+  staff: BoardStaff[];
+  /** False while filters hide part of the day; the order can only be saved for the whole day. */
+  canDrag: boolean;
+  onMove: (move: BoardMove) => Promise<void>;
+  onViewDetails: (task: T) => void;
+}
+
+const statusColors: Record<string, string> = {
+  todo: "bg-rose-100 text-brand-primary dark:bg-rose-900/30 dark:text-rose-200",
+  in_progress: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-200",
+  paused: "bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-200",
+  done: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200",
+  repair_needed: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-200",
+};
+
+const statusLabels: Record<string, string> = {
+  todo: "Do sprzątania",
+  in_progress: "W trakcie",
+  paused: "Wstrzymane",
+  done: "Skończone",
+  repair_needed: "Naprawa",
+};
+
+const COLUMN_PREFIX = "column:";
+
+export function AssignmentBoard<T extends AssignmentBoardTask>({ tasks, staff, canDrag, onMove, onViewDetails }: AssignmentBoardProps<T>) {
+  // Shows a drop right away; replaced by the reloaded tasks once the move is saved
+  const [pendingColumns, setPendingColumns] = useState<BoardColumn<T>[] | null>(null);
+  useEffect(() => setPendingColumns(null), [tasks]);
+
+  const columns = useMemo(() => pendingColumns ?? buildBoardColumns(tasks, staff), [pendingColumns, tasks, staff]);
+
+  const sensors = useSensors(
+    // A short distance keeps a plain click for opening the task
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
+  const handleDragEnd = async (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over) return;
+    const taskId = String(active.id);
+    const overId = String(over.id);
+    const toColumn = overId.startsWith(COLUMN_PREFIX)
+      ? columns.find(column => COLUMN_PREFIX + column.id === overId)
+      : columns.find(column => column.tasks.some(task => task.id === overId));
+    if (!toColumn) return;
+
+    const next = moveBoardTask(columns, taskId, toColumn.id, overId.startsWith(COLUMN_PREFIX) ? null : overId);
+    if (!next) return;
+
+    const fromColumn = columns.find(column => column.tasks.some(task => task.id === taskId))!;
+    setPendingColumns(next);
+    await onMove({
+      taskId,
+      staffId: toColumn.staffId,
+      reassigned: fromColumn.id !== toColumn.id,
+      targetOldIds: toColumn.tasks.map(task => task.id),
+      targetNewIds: next.find(column => column.id === toColumn.id)!.tasks.map(task => task.id),
+    });
+  };
+
+  return (
+    <DndContext sensors={sensors} collisionDetection={closestCorners} onDragEnd={handleDragEnd}>
+      {!canDrag && (
+        <p className="px-4 pt-3 text-xs text-muted-foreground">Wyczyść filtry, aby przenosić zadania między osobami.</p>
+      )}
+      <div className="flex gap-3 overflow-x-auto p-4" data-testid="assignment-board">
+        {columns.map(column => (
+          <BoardColumnView key={column.id} column={column} canDrag={canDrag} onViewDetails={onViewDetails} />
+        ))}
+      </div>
+    </DndContext>
+  );
+}
+
+interface BoardColumnViewProps<T extends AssignmentBoardTask> {
+  column: BoardColumn<T>;
+  canDrag: boolean;
+  onViewDetails: (task: T) => void;
+}
+
+function BoardColumnView<T extends AssignmentBoardTask>({ column, canDrag, onViewDetails }: BoardColumnViewProps<T>) {
+  const { setNodeRef, isOver } = useDroppable({ id: COLUMN_PREFIX + column.id, disabled: !canDrag });
+  const planned = plannedMinutes(column.tasks);
+  const overShift = column.shiftMinutes !== null && planned > column.shiftMinutes;
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn("flex w-60 flex-shrink-0 flex-col rounded-lg border bg-muted/30", isOver && "ring-2 ring-primary/40")}
+      data-testid={`board-column-${column.id}`}
+    >
+      <div className="border-b px-3 py-2">
+        <div className="truncate text-sm font-medium">{column.name}</div>
+        <div className={cn("text-xs tabular-nums", overShift ? "font-medium text-red-600" : "text-muted-foreground")}>
+          {column.tasks.length} zadań · {formatMinutesAsHm(planned)}
+          {column.shiftMinutes !== null && ` / ${formatMinutesAsHm(column.shiftMinutes)}`}
+        </div>
+      </div>
+      <SortableContext items={column.tasks.map(task => task.id)} strategy={verticalListSortingStrategy}>
+        <div className="flex min-h-[80px] flex-col gap-2 p-2">
+          {column.tasks.map(task => (
+            <BoardCard key={task.id} task={task} canDrag={canDrag} onViewDetails={onViewDetails} />
+          ))}
+        </div>
+      </SortableContext>
+    </div>
+  );
+}
+
+interface BoardCardProps<T extends AssignmentBoardTask> {
+  task: T;
+  canDrag: boolean;
+  onViewDetails: (task: T) => void;
+}
+
+function BoardCard<T extends AssignmentBoardTask>({ task, canDrag, onViewDetails }: BoardCardProps<T>) {
+  const locked = isBoardTaskLocked(task);
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: task.id,
+    disabled: locked || !canDrag,
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition, opacity: isDragging ? 0.5 : undefined }}
+      {...attributes}
+      {...listeners}
+      onClick={() => onViewDetails(task)}
+      className={cn(
+        "rounded-md border bg-background px-3 py-2 text-sm shadow-sm",
+        !locked && canDrag ? "cursor-grab" : "cursor-pointer"
+      )}
+      title={locked ? "Rozpoczęte zadanie można przekazać w szczegółach zadania" : undefined}
+      data-testid="board-card"
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium">{task.room.name}</span>
+        <span className="text-xs text-muted-foreground">{task.cleaning_type}</span>
+      </div>
+      <div className="mt-1 flex items-center gap-1.5">
+        <Badge className={cn(statusColors[task.status] ?? "bg-muted text-muted-foreground", "px-1.5 py-0 text-[10px]")}>
+          {statusLabels[task.status] ?? task.status}
+        </Badge>
+        {task.ready_to_clean && task.status === "todo" && <DoorClosed className="h-3.5 w-3.5 text-green-600" aria-label="Pokój wolny" />}
+        {locked && <Lock className="h-3 w-3 text-muted-foreground" />}
+        <span className="ml-auto text-xs tabular-nums text-muted-foreground">{formatMinutesAsHm(task.time_limit)}</span>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { useToast } from "@/hooks/use-toast";
 import { DndContext, closestCenter, PointerSensor, KeyboardSensor, useSensor, useSensors, type DragEndEvent } from '@dnd-kit/core';
 import { SortableContext, sortableKeyboardCoordinates, verticalListSortingStrategy, useSortable, arrayMove } from '@dnd-kit/sortable';
@@ -12,15 +12,18 @@ import { Textarea } from "@/components/ui/textarea";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { format } from "date-fns";
 import { pl } from "date-fns/locale";
-import { CalendarIcon, ChevronDown, ChevronRight, GripVertical, Plus, Trash2, Users } from "lucide-react";
+import { CalendarIcon, ChevronDown, ChevronRight, GripVertical, Plus, Shuffle, Trash2, Upload, Users } from "lucide-react";
 import type { Database } from "@/integrations/supabase/types";
 import type { Room, Staff } from '@/hooks/useReceptionData';
 import type { NewTaskState } from '@/hooks/useReceptionActions';
 import { useBatchTaskWizard, type AssignmentGroup, type BatchTask } from '@/hooks/useBatchTaskWizard';
 import { normalizeCapacityLabel, renderCapacityIconPattern, LABEL_TO_CAPACITY_ID, getCapacitySortKey } from "@/lib/capacity-utils";
-import { cn } from "@/lib/utils";
+import { cn, formatMinutesAsHm } from "@/lib/utils";
+import { parseReservationsCsv, planTasksFromReservations, type ImportIssue } from "@/lib/reservation-import";
+import { fetchTimeLimits, type TimeLimitRow } from "@/lib/task-time-limits";
 
 type CleaningType = Database["public"]["Enums"]["cleaning_type"];
 type RoomGroup = Database["public"]["Enums"]["room_group"];
@@ -266,6 +269,18 @@ function TaskRow({ task, groupId, availableRooms, roomGroupType, onRoomGroupChan
                         </div>
                     </div>
 
+                    {/* Deadline */}
+                    <div className="space-y-1">
+                        <Label className="text-xs text-muted-foreground">Termin (opcjonalnie)</Label>
+                        <Input
+                            type="time"
+                            value={task.dueTime}
+                            onChange={e => onUpdate({ dueTime: e.target.value })}
+                            className="h-8 w-32 text-sm"
+                            disabled={isSubmitting || task.status === 'success'}
+                        />
+                    </div>
+
                     {/* Notes */}
                     <div className="space-y-1">
                         <Label className="text-xs text-muted-foreground">Notatki</Label>
@@ -314,12 +329,14 @@ interface GroupSectionProps {
     onToggleTask: (taskId: string) => void;
     onReorderTasks: (newTaskIds: string[]) => void;
     isSubmitting: boolean;
+    // Sum of the tasks' time limits
+    plannedMinutes: number;
 }
 
 function GroupSection({
     group, allStaff, availableRooms, taskRoomGroups,
     onRoomGroupChange, onToggle, onRemove, onAddTask,
-    onRemoveTask, onUpdateTask, onToggleTask, onReorderTasks, isSubmitting,
+    onRemoveTask, onUpdateTask, onToggleTask, onReorderTasks, isSubmitting, plannedMinutes,
 }: GroupSectionProps) {
     const sensors = useSensors(
         useSensor(PointerSensor),
@@ -355,6 +372,9 @@ function GroupSection({
                     <span className="text-xs text-muted-foreground">
                         {taskCount === 0 ? 'brak zadań' : `${successCount}/${taskCount} zadań`}
                     </span>
+                    {plannedMinutes > 0 && (
+                        <span className="text-xs text-muted-foreground tabular-nums">· {formatMinutesAsHm(plannedMinutes)}</span>
+                    )}
                 </div>
                 <Button
                     type="button"
@@ -379,7 +399,7 @@ function GroupSection({
                                         task={task}
                                         groupId={group.id}
                                         availableRooms={availableRooms}
-                                        roomGroupType={taskRoomGroups[task.id] ?? ''}
+                                        roomGroupType={taskRoomGroups[task.id] ?? availableRooms.find(r => r.id === task.roomId)?.group_type ?? ''}
                                         onRoomGroupChange={gt => onRoomGroupChange(task.id, gt)}
                                         onUpdate={updates => onUpdateTask(task.id, updates)}
                                         onRemove={() => onRemoveTask(task.id)}
@@ -406,6 +426,73 @@ function GroupSection({
     );
 }
 
+// ─── Auto-distribute ─────────────────────────────────────────────────────────
+
+const DEFAULT_MAX_MINUTES_PER_PERSON = 420;
+
+interface AutoDistributePanelProps {
+    housekeepers: Staff[];
+    initialSelection: string[];
+    unassignedCount: number;
+    onDistribute: (staffIds: string[], maxMinutes: number | null) => void;
+    disabled: boolean;
+}
+
+function AutoDistributePanel({ housekeepers, initialSelection, unassignedCount, onDistribute, disabled }: AutoDistributePanelProps) {
+    const [selected, setSelected] = useState<string[]>(initialSelection);
+    const [maxMinutes, setMaxMinutes] = useState(String(DEFAULT_MAX_MINUTES_PER_PERSON));
+
+    const toggle = (staffId: string, checked: boolean) =>
+        setSelected(prev => checked ? [...prev, staffId] : prev.filter(id => id !== staffId));
+
+    const parsedMax = parseInt(maxMinutes, 10);
+
+    return (
+        <div className="border rounded-lg px-4 py-3 space-y-3">
+            <div className="flex items-center gap-2 text-sm font-medium">
+                <Shuffle className="h-4 w-4 text-muted-foreground" />
+                Rozdziel automatycznie ({unassignedCount} nieprzypisanych)
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+                {housekeepers.map(s => (
+                    <div key={s.id} className="flex items-center gap-2">
+                        <Checkbox
+                            id={`distribute-${s.id}`}
+                            checked={selected.includes(s.id)}
+                            onCheckedChange={checked => toggle(s.id, checked === true)}
+                            disabled={disabled}
+                        />
+                        <Label htmlFor={`distribute-${s.id}`} className="text-sm font-normal">{s.name}</Label>
+                    </div>
+                ))}
+            </div>
+            <div className="flex flex-wrap items-end gap-3">
+                <div className="space-y-1">
+                    <Label htmlFor="distribute-max" className="text-xs text-muted-foreground">Maks. minut na osobę</Label>
+                    <Input
+                        id="distribute-max"
+                        type="number"
+                        min={1}
+                        value={maxMinutes}
+                        onChange={e => setMaxMinutes(e.target.value)}
+                        placeholder="Bez limitu"
+                        className="h-8 w-32"
+                        disabled={disabled}
+                    />
+                </div>
+                <Button
+                    type="button"
+                    size="sm"
+                    onClick={() => onDistribute(selected, isNaN(parsedMax) || parsedMax <= 0 ? null : parsedMax)}
+                    disabled={disabled || selected.length === 0}
+                >
+                    Rozdziel zadania
+                </Button>
+            </div>
+        </div>
+    );
+}
+
 // ─── Main wizard ─────────────────────────────────────────────────────────────
 
 interface BatchTaskWizardProps {
@@ -419,16 +506,50 @@ export function BatchTaskWizard({ availableRooms, allStaff, onSubmit, isSubmitti
     const [open, setOpen] = useState(false);
     const [datePickerOpen, setDatePickerOpen] = useState(false);
     const [taskRoomGroups, setTaskRoomGroups] = useState<Record<string, string>>({});
+    const [importIssues, setImportIssues] = useState<ImportIssue[]>([]);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [timeLimits, setTimeLimits] = useState<TimeLimitRow[]>([]);
     const { toast } = useToast();
 
-    const wizard = useBatchTaskWizard({ allStaff, onSubmit });
+    // Limits for rooms without their own, used when balancing workloads
+    useEffect(() => {
+        if (!open) return;
+        fetchTimeLimits()
+            .then(setTimeLimits)
+            .catch(error => console.warn("Could not load the limits table:", error));
+    }, [open]);
+
+    const wizard = useBatchTaskWizard({ allStaff, onSubmit, availableRooms, timeLimits });
 
     const handleClose = () => {
         setOpen(false);
         setTaskRoomGroups({});
+        setImportIssues([]);
         wizard.reset();
     };
 
+    // Fills the wizard from a PMS reservations export for the selected date
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow importing the same file again
+        if (!file || !wizard.date) return;
+        try {
+            const parsed = parseReservationsCsv(await file.text());
+            const planned = planTasksFromReservations(parsed.reservations, availableRooms, wizard.date);
+            wizard.importTasks(planned.tasks);
+            setImportIssues([...parsed.issues, ...planned.issues].sort((a, b) => a.line - b.line));
+            toast({
+                title: planned.tasks.length > 0 ? "Zaimportowano rezerwacje" : "Brak zadań do dodania",
+                description: planned.tasks.length > 0
+                    ? `Zadania do przejrzenia: ${planned.tasks.length}. Sprawdź je w grupie "Nieprzypisane" przed utworzeniem.`
+                    : "Plik nie zawiera wyjazdów ani pobytów w wybranym dniu.",
+            });
+        } catch (error) {
+            console.error("Error importing reservations:", error);
+            toast({ title: "Błąd", description: "Nie udało się odczytać pliku.", variant: "destructive" });
+        }
+    };
+
     const handleAddGroup = (staffId: string) => {
         wizard.addGroup(staffId);
     };
@@ -437,6 +558,16 @@ export function BatchTaskWizard({ availableRooms, allStaff, onSubmit, isSubmitti
         setTaskRoomGroups(prev => ({ ...prev, [taskId]: groupType }));
     };
 
+    const handleAutoDistribute = (staffIds: string[], maxMinutes: number | null) => {
+        const result = wizard.autoDistribute(staffIds, maxMinutes);
+        toast({
+            title: "Rozdzielono zadania",
+            description: result.unassigned > 0
+                ? `Przypisano: ${result.assigned}. Bez przydziału (limit minut): ${result.unassigned}.`
+                : `Przypisano: ${result.assigned}. Plan można jeszcze zmienić przed utworzeniem.`,
+        });
+    };
+
     const handleSubmit = async () => {
         const result = await wizard.submit();
         if (result.failed === 0 && result.succeeded > 0) {
@@ -451,6 +582,10 @@ export function BatchTaskWizard({ availableRooms, allStaff, onSubmit, isSubmitti
         wizard.groups.every(g => g.tasks.length === 0 || g.tasks.every(t => t.status === 'success'));
 
     const availableForNewGroup = wizard.availableStaff.filter(s => s.role === 'housekeeping');
+    const housekeepers = allStaff.filter(s => s.role === 'housekeeping');
+    const unassignedCount = wizard.groups
+        .find(g => g.staffId === 'unassigned')?.tasks
+        .filter(t => t.roomId !== '' && t.status !== 'success').length ?? 0;
     const canAddUnassigned = !wizard.groups.some(g => g.staffId === 'unassigned');
 
     return (
@@ -499,6 +634,41 @@ export function BatchTaskWizard({ availableRooms, allStaff, onSubmit, isSubmitti
                             </Popover>
                         </div>
 
+                        {/* Import from a PMS export */}
+                        <div className="space-y-2">
+                            <div className="flex flex-wrap items-center gap-2">
+                                <input
+                                    ref={fileInputRef}
+                                    type="file"
+                                    accept=".csv,text/csv"
+                                    className="hidden"
+                                    onChange={handleImportFile}
+                                />
+                                <Button
+                                    type="button"
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => fileInputRef.current?.click()}
+                                    disabled={isSubmitting || !wizard.date}
+                                >
+                                    <Upload className="h-3.5 w-3.5 mr-1" /> Importuj rezerwacje (CSV)
+                                </Button>
+                                <span className="text-xs text-muted-foreground">
+                                    Wyjazdy i pobyty z eksportu PMS na wybrany dzień
+                                </span>
+                            </div>
+                            {importIssues.length > 0 && (
+                                <div className="rounded-md border border-amber-300 bg-amber-50 dark:border-amber-800 dark:bg-amber-900/20 p-2 text-xs">
+                                    <p className="font-medium mb-1">Pominięte wiersze ({importIssues.length})</p>
+                                    <ul className="space-y-0.5 max-h-24 overflow-y-auto">
+                                        {importIssues.map((issue, index) => (
+                                            <li key={index}>Wiersz {issue.line}: {issue.message}</li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+                        </div>
+
                         {/* Groups */}
                         <div className="space-y-2">
                             {wizard.groups.map(group => (
@@ -517,10 +687,21 @@ export function BatchTaskWizard({ availableRooms, allStaff, onSubmit, isSubmitti
                                     onToggleTask={taskId => wizard.toggleTaskExpanded(group.id, taskId)}
                                     onReorderTasks={newTaskIds => wizard.reorderTasks(group.id, newTaskIds)}
                                     isSubmitting={isSubmitting}
+                                    plannedMinutes={group.tasks.filter(t => t.roomId !== '').reduce((sum, t) => sum + wizard.taskMinutes(t), 0)}
                                 />
                             ))}
                         </div>
 
+                        {unassignedCount > 0 && housekeepers.length > 0 && (
+                            <AutoDistributePanel
+                                housekeepers={housekeepers}
+                                initialSelection={wizard.groups.map(g => g.staffId).filter(id => id !== 'unassigned')}
+                                unassignedCount={unassignedCount}
+                                onDistribute={handleAutoDistribute}
+                                disabled={isSubmitting}
+                            />
+                        )}
+
                         {/* Add group — selecting a person immediately creates the group */}
                         {(availableForNewGroup.length > 0 || canAddUnassigned) && (
                             <div className="space-y-1">
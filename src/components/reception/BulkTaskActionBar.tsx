@@ -0,0 +1,205 @@
+// src/components/reception/BulkTaskActionBar.tsx
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Check, Trash2, X } from "lucide-react";
+import { TRASH_RETENTION_DAYS } from "@/lib/task-trash";
+import {
+  BULK_ACTION_LABELS,
+  summarizeBulkResults,
+  type BulkTaskAction,
+  type BulkTaskResult,
+  type BulkTaskTarget,
+} from "@/lib/bulk-task-actions";
+import { CLEANING_TYPES, CLEANING_TYPE_LABELS, type CleaningType } from "@/lib/cleaning-types";
+
+const UNASSIGNED = "unassigned";
+
+interface BulkTaskActionBarProps {
+  selectedTasks: BulkTaskTarget[];
+  staff: { id: string; name: string }[];
+  onApply: (tasks: BulkTaskTarget[], action: BulkTaskAction) => Promise<BulkTaskResult[]>;
+  isApplying: boolean;
+  /** Called with the ids that stay selected. */
+  onSelectionChange: (taskIds: string[]) => void;
+}
+
+export function BulkTaskActionBar({ selectedTasks, staff, onApply, isApplying, onSelectionChange }: BulkTaskActionBarProps) {
+  const [staffId, setStaffId] = useState("");
+  const [date, setDate] = useState("");
+  const [cleaningType, setCleaningType] = useState<CleaningType | "">("");
+  const [report, setReport] = useState<{ action: BulkTaskAction; results: BulkTaskResult[] } | null>(null);
+
+  const apply = async (action: BulkTaskAction) => {
+    const results = await onApply(selectedTasks, action);
+    // Rows that failed stay selected so they can be fixed and retried
+    onSelectionChange(results.filter(result => !result.ok).map(result => result.taskId));
+    if (summarizeBulkResults(results).failed > 0) setReport({ action, results });
+  };
+
+  return (
+    <>
+      {selectedTasks.length > 0 && (
+        <div
+          className="flex flex-wrap items-center gap-2 border-b bg-muted/40 px-4 py-2 text-sm"
+          data-testid="bulk-action-bar"
+        >
+          <span className="font-medium">Zaznaczono: {selectedTasks.length}</span>
+
+          <div className="flex items-center gap-1">
+            <Select value={staffId} onValueChange={setStaffId} disabled={isApplying}>
+              <SelectTrigger className="h-8 w-[160px]" aria-label="Personel dla zaznaczonych">
+                <SelectValue placeholder="Personel..." />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNASSIGNED}>Nieprzypisane</SelectItem>
+                {staff.map(s => <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-8"
+              disabled={isApplying || !staffId}
+              onClick={() => apply({ kind: "reassign", staffId: staffId === UNASSIGNED ? null : staffId })}
+            >
+              Przypisz
+            </Button>
+          </div>
+
+          <div className="flex items-center gap-1">
+            <Input
+              type="date"
+              className="h-8 w-[150px]"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              disabled={isApplying}
+              aria-label="Nowa data dla zaznaczonych"
+            />
+            <Button size="sm" variant="outline" className="h-8" disabled={isApplying || !date} onClick={() => apply({ kind: "move", date })}>
+              Przenieś
+            </Button>
+          </div>
+
+          <div className="flex items-center gap-1">
+            <Select value={cleaningType} onValueChange={(value) => setCleaningType(value as CleaningType)} disabled={isApplying}>
+              <SelectTrigger className="h-8 w-[140px]" aria-label="Typ sprzątania dla zaznaczonych">
+                <SelectValue placeholder="Typ..." />
+              </SelectTrigger>
+              <SelectContent>
+                {CLEANING_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{CLEANING_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-8"
+              disabled={isApplying || !cleaningType}
+              onClick={() => cleaningType && apply({ kind: "cleaning_type", cleaningType })}
+            >
+              Zmień typ
+            </Button>
+          </div>
+
+          <Button size="sm" variant="outline" className="h-8" disabled={isApplying} onClick={() => apply({ kind: "ready_to_clean", readyToClean: true })}>
+            Pokój wolny
+          </Button>
+          <Button size="sm" variant="outline" className="h-8" disabled={isApplying} onClick={() => apply({ kind: "ready_to_clean", readyToClean: false })}>
+            Pokój zajęty
+          </Button>
+
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button size="sm" variant="outline" className="h-8 text-red-600 hover:text-red-700" disabled={isApplying}>
+                <Trash2 className="mr-1 h-4 w-4" /> Usuń
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Usunąć {selectedTasks.length} zadań?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Zaznaczone zadania trafią do kosza. Administrator może je przywrócić przez {TRASH_RETENTION_DAYS} dni.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Anuluj</AlertDialogCancel>
+                <AlertDialogAction
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  onClick={() => apply({ kind: "delete" })}
+                >
+                  Usuń
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+
+          <Button size="sm" variant="ghost" className="h-8 ml-auto" disabled={isApplying} onClick={() => onSelectionChange([])}>
+            <X className="mr-1 h-4 w-4" /> Odznacz
+          </Button>
+        </div>
+      )}
+
+      {report && (
+        <BulkResultsDialog
+          title={BULK_ACTION_LABELS[report.action.kind]}
+          results={report.results}
+          onClose={() => setReport(null)}
+        />
+      )}
+    </>
+  );
+}
+
+interface BulkResultsDialogProps {
+  title: string;
+  results: BulkTaskResult[];
+  onClose: () => void;
+}
+
+// Outcome per task, so reception sees which rows were rejected and why
+const BulkResultsDialog = ({ title, results, onClose }: BulkResultsDialogProps) => {
+  const { succeeded, failed } = summarizeBulkResults(results);
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Zmieniono {succeeded} z {results.length} zadań, {failed} pominięto. Pominięte zadania pozostają zaznaczone.
+          </DialogDescription>
+        </DialogHeader>
+        <ul className="flex-grow overflow-y-auto divide-y border rounded-md">
+          {results.map(result => (
+            <li key={result.taskId} className="flex items-start gap-3 px-3 py-2 text-sm" data-ok={result.ok}>
+              {result.ok
+                ? <Check className="h-4 w-4 mt-0.5 flex-shrink-0 text-green-600" />
+                : <X className="h-4 w-4 mt-0.5 flex-shrink-0 text-red-600" />}
+              <span className="font-medium w-20 flex-shrink-0">{result.roomName}</span>
+              <span className={result.ok ? "text-muted-foreground" : "text-red-700 dark:text-red-300"}>
+                {result.ok ? "Zmieniono" : result.error}
+              </span>
+            </li>
+          ))}
+        </ul>
+        <DialogFooter>
+          <Button onClick={onClose}>Zamknij</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,218 @@
+// src/components/reception/CopyDayPlanDialog.tsx
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Copy } from "lucide-react";
+import { addDays, format } from "date-fns";
+import { cn } from "@/lib/utils";
+import {
+  COPY_CONFLICT_LABELS,
+  createTaskCopies,
+  fetchCopyPlanTasks,
+  planDayCopy,
+  type CopyPlanFilter,
+  type PlanOpenTask,
+  type PlanSourceTask,
+} from "@/lib/copy-plan";
+import { summarizeBulkResults, type BulkTaskResult } from "@/lib/bulk-task-actions";
+import type { Staff } from "@/hooks/useReceptionData";
+import type { Database } from "@/integrations/supabase/types";
+import { CLEANING_TYPE_LABELS, type CleaningType } from "@/lib/cleaning-types";
+
+type RoomGroup = Database["public"]["Enums"]["room_group"];
+
+const roomGroupLabels: Record<RoomGroup, string> = {
+  P1: "Pokoje P1", P2: "Pokoje P2", A1S: "Apartamenty A1S", A2S: "Apartamenty A2S", OTHER: "Inne Przestrzenie",
+};
+
+const toDateString = (date: Date) => format(date, "yyyy-MM-dd");
+
+interface CopyDayPlanDialogProps {
+  allStaff: Staff[];
+  /** Called after at least one copy was created. */
+  onCopied: () => void;
+}
+
+export function CopyDayPlanDialog({ allStaff, onCopied }: CopyDayPlanDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [sourceDate, setSourceDate] = useState(() => toDateString(new Date()));
+  const [targetDate, setTargetDate] = useState(() => toDateString(addDays(new Date(), 1)));
+  const [filter, setFilter] = useState<CopyPlanFilter>({ staffId: "all", roomGroup: "all" });
+  const [preview, setPreview] = useState<{ sourceTasks: PlanSourceTask[]; targetOpenTasks: PlanOpenTask[] } | null>(null);
+  const [loadingPreview, setLoadingPreview] = useState(false);
+  const [isCopying, setIsCopying] = useState(false);
+  const [results, setResults] = useState<Map<string, BulkTaskResult>>(() => new Map());
+  const { toast } = useToast();
+
+  const sameDate = sourceDate === targetDate;
+
+  // Reload both days whenever the dates change; the filter is applied locally
+  useEffect(() => {
+    if (!open || !sourceDate || !targetDate || sameDate) {
+      setPreview(null);
+      return;
+    }
+    let cancelled = false;
+    setLoadingPreview(true);
+    setResults(new Map());
+    fetchCopyPlanTasks(sourceDate, targetDate)
+      .then(data => { if (!cancelled) setPreview(data); })
+      .catch(error => {
+        console.error("Error loading plan to copy:", error);
+        if (!cancelled) {
+          setPreview(null);
+          toast({ title: "Błąd", description: "Nie udało się wczytać planu.", variant: "destructive" });
+        }
+      })
+      .finally(() => { if (!cancelled) setLoadingPreview(false); });
+    return () => { cancelled = true; };
+  }, [open, sourceDate, targetDate, sameDate, toast]);
+
+  const plan = useMemo(
+    () => preview ? planDayCopy(preview.sourceTasks, preview.targetOpenTasks, filter) : [],
+    [preview, filter]
+  );
+  const copies = plan.filter(entry => entry.conflict === null && !results.get(entry.task.id)?.ok);
+  const conflictCount = plan.length - plan.filter(entry => entry.conflict === null).length;
+
+  const staffName = (userId: string | null) =>
+    userId ? allStaff.find(s => s.id === userId)?.name ?? "Nieznany" : "Nieprzypisane";
+
+  const handleClose = () => {
+    setOpen(false);
+    setPreview(null);
+    setResults(new Map());
+  };
+
+  const handleCopy = async () => {
+    setIsCopying(true);
+    try {
+      const copyResults = await createTaskCopies(copies.map(entry => entry.task), targetDate);
+      const { succeeded, failed } = summarizeBulkResults(copyResults);
+      setResults(prev => new Map([...prev, ...copyResults.map(result => [result.taskId, result] as const)]));
+      toast({
+        title: failed > 0 ? "Nie wszystkie zadania skopiowano" : "Skopiowano plan",
+        description: `Utworzono ${succeeded} z ${copyResults.length} zadań na ${targetDate}.`,
+        variant: failed > 0 ? "destructive" : undefined,
+      });
+      if (succeeded > 0) onCopied();
+      if (failed === 0) handleClose();
+    } finally {
+      setIsCopying(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)}>
+        <Copy className="mr-2 h-4 w-4" />
+        Kopiuj plan
+      </Button>
+
+      <Dialog open={open} onOpenChange={isOpen => { if (!isOpen) handleClose(); }}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Kopiuj plan dnia</DialogTitle>
+            <DialogDescription>
+              Zadania z wybranego dnia zostaną utworzone jako „do zrobienia” z tym samym personelem, typem, gośćmi i kolejnością.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="copy-plan-source">Z dnia</Label>
+              <Input id="copy-plan-source" type="date" value={sourceDate} onChange={e => setSourceDate(e.target.value)} disabled={isCopying} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="copy-plan-target">Na dzień</Label>
+              <Input id="copy-plan-target" type="date" value={targetDate} onChange={e => setTargetDate(e.target.value)} disabled={isCopying} />
+            </div>
+            <div className="space-y-1">
+              <Label>Personel</Label>
+              <Select value={filter.staffId} onValueChange={staffId => setFilter(prev => ({ ...prev, staffId }))} disabled={isCopying}>
+                <SelectTrigger aria-label="Personel do skopiowania"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Wszyscy</SelectItem>
+                  <SelectItem value="unassigned">Nieprzypisane</SelectItem>
+                  {allStaff.filter(s => s.role === "housekeeping").map(s => (
+                    <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Grupa pokoi</Label>
+              <Select
+                value={filter.roomGroup}
+                onValueChange={roomGroup => setFilter(prev => ({ ...prev, roomGroup: roomGroup as RoomGroup | "all" }))}
+                disabled={isCopying}
+              >
+                <SelectTrigger aria-label="Grupa pokoi do skopiowania"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Wszystkie</SelectItem>
+                  {(Object.keys(roomGroupLabels) as RoomGroup[]).map(group => (
+                    <SelectItem key={group} value={group}>{roomGroupLabels[group]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex-grow overflow-y-auto min-h-[120px]">
+            {sameDate ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">Wybierz inny dzień docelowy.</p>
+            ) : loadingPreview ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">Wczytywanie planu...</p>
+            ) : plan.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">Brak zadań do skopiowania.</p>
+            ) : (
+              <>
+                <p className="mb-2 text-sm" data-testid="copy-plan-summary">
+                  Do skopiowania: {copies.length}
+                  {conflictCount > 0 && <span className="text-red-600"> · konflikty: {conflictCount}</span>}
+                </p>
+                <ul className="divide-y border rounded-md">
+                  {plan.map(({ task, conflict }) => {
+                    const result = results.get(task.id);
+                    const problem = conflict ? COPY_CONFLICT_LABELS[conflict] : result && !result.ok ? result.error : null;
+                    return (
+                      <li
+                        key={task.id}
+                        className={cn("flex items-center gap-3 px-3 py-2 text-sm", problem && "bg-red-50 dark:bg-red-900/20")}
+                        data-conflict={conflict ?? undefined}
+                      >
+                        <span className="font-medium w-20 flex-shrink-0">{task.room.name}</span>
+                        <span className="w-24 flex-shrink-0 text-muted-foreground">{CLEANING_TYPE_LABELS[task.cleaning_type]}</span>
+                        <span className="flex-grow truncate">{staffName(task.user_id)}</span>
+                        {problem ? (
+                          <span className="text-right text-red-700 dark:text-red-300">{problem}</span>
+                        ) : result?.ok ? (
+                          <span className="text-green-700 dark:text-green-400">Utworzono</span>
+                        ) : null}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handleClose} disabled={isCopying}>Anuluj</Button>
+            <Button
+              type="button"
+              onClick={handleCopy}
+              disabled={isCopying || loadingPreview || sameDate || copies.length === 0}
+            >
+              {isCopying ? "Kopiowanie..." : `Skopiuj ${copies.length} zadań`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
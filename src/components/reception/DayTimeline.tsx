@@ -0,0 +1,164 @@
+// src/components/reception/DayTimeline.tsx
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { cn } from "@/lib/utils";
+import {
+  buildTimelineLanes,
+  timelineHours,
+  timelineRange,
+  type TimelinePause,
+  type TimelineSegment,
+  type TimelineShift,
+  type TimelineTask,
+  type TimeSpan,
+} from "@/lib/day-timeline";
+
+// Running bars grow on this clock between realtime updates
+const TIMELINE_TICK_MS = 30_000;
+
+const formatClock = (time: number) =>
+  new Date(time).toLocaleTimeString("pl-PL", { hour: "2-digit", minute: "2-digit" });
+
+interface DayTimelineProps<T extends TimelineTask> {
+  tasks: T[];
+  staff: { id: string; name: string }[];
+  workLogs: TimelineShift[];
+  onSelectTask: (task: T) => void;
+}
+
+export function DayTimeline<T extends TimelineTask>({ tasks, staff, workLogs, onSelectTask }: DayTimelineProps<T>) {
+  const [now, setNow] = useState(() => new Date());
+  const [pauses, setPauses] = useState<TimelinePause[]>([]);
+  const [segments, setSegments] = useState<TimelineSegment[]>([]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), TIMELINE_TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Reload when a task changes state, so a new pause or handover shows up
+  const taskKey = tasks.map(task => `${task.id}:${task.status}`).join(",");
+
+  useEffect(() => {
+    const taskIds = taskKey ? taskKey.split(",").map(entry => entry.split(":")[0]) : [];
+    if (taskIds.length === 0) {
+      setPauses([]);
+      setSegments([]);
+      return;
+    }
+    let cancelled = false;
+
+    const fetchTimelineDetails = async () => {
+      const [pausesResult, segmentsResult] = await Promise.all([
+        supabase.from("task_pauses").select("task_id, started_at, ended_at").in("task_id", taskIds),
+        supabase.from("task_segments").select("task_id, user_id, started_at, ended_at").in("task_id", taskIds),
+      ]);
+      if (cancelled) return;
+      // Either table may not exist yet (migration pending) — draw without it.
+      if (pausesResult.error) console.error("Error fetching task pauses:", pausesResult.error);
+      if (segmentsResult.error) console.error("Error fetching task segments:", segmentsResult.error);
+      setPauses(pausesResult.data ?? []);
+      setSegments(segmentsResult.data ?? []);
+    };
+
+    fetchTimelineDetails();
+    return () => { cancelled = true; };
+  }, [taskKey]);
+
+  const lanes = useMemo(
+    () => buildTimelineLanes(tasks, pauses, segments, workLogs, staff, now),
+    [tasks, pauses, segments, workLogs, staff, now]
+  );
+  const range = useMemo(() => timelineRange(lanes), [lanes]);
+  const tasksById = useMemo(() => new Map(tasks.map(task => [task.id, task])), [tasks]);
+
+  if (!range) {
+    return (
+      <div className="py-12 text-center text-muted-foreground">
+        Nikt jeszcze nie rozpoczął pracy w tym dniu.
+      </div>
+    );
+  }
+
+  const duration = range.end - range.start;
+  const position = (span: TimeSpan) => ({
+    left: `${((span.start - range.start) / duration) * 100}%`,
+    width: `${((span.end - span.start) / duration) * 100}%`,
+  });
+  const hours = timelineHours(range);
+
+  return (
+    <div className="overflow-x-auto p-4" data-testid="day-timeline">
+      <div className="min-w-[720px] space-y-1">
+        <div className="flex">
+          <div className="w-36 flex-shrink-0" />
+          <div className="relative h-5 flex-grow text-xs text-muted-foreground">
+            {hours.map(hour => (
+              <span key={hour} className="absolute -translate-x-1/2" style={{ left: position({ start: hour, end: hour }).left }}>
+                {formatClock(hour)}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {lanes.map(lane => (
+          <div key={lane.userId} className="flex items-center" data-testid={`timeline-lane-${lane.userId}`}>
+            <div className="w-36 flex-shrink-0 truncate pr-2 text-sm font-medium">{lane.name}</div>
+            <div className="relative h-10 flex-grow rounded-sm border bg-muted/20">
+              {hours.map(hour => (
+                <div key={hour} className="absolute inset-y-0 border-l border-dashed border-muted" style={{ left: position({ start: hour, end: hour }).left }} />
+              ))}
+              {lane.shift && (
+                <div
+                  className="absolute inset-y-0 bg-sky-100 dark:bg-sky-900/30"
+                  style={position(lane.shift)}
+                  title={`Zmiana ${formatClock(lane.shift.start)}–${formatClock(lane.shift.end)}`}
+                  data-testid="timeline-shift"
+                />
+              )}
+              {lane.bars.map(bar => {
+                const task = tasksById.get(bar.taskId);
+                const label = `${bar.roomName} ${formatClock(bar.start)}–${bar.running ? "teraz" : formatClock(bar.end)}`;
+                return (
+                  <button
+                    key={`${bar.taskId}-${bar.start}`}
+                    type="button"
+                    className={cn(
+                      "absolute inset-y-1 overflow-hidden rounded px-1 text-left text-[11px] font-medium text-white",
+                      bar.handedOver ? "bg-slate-400" : bar.running ? "bg-amber-500" : "bg-emerald-600"
+                    )}
+                    style={position(bar)}
+                    title={label}
+                    aria-label={label}
+                    onClick={() => task && onSelectTask(task)}
+                  >
+                    {bar.pauses.map(pause => (
+                      <span
+                        key={pause.start}
+                        className="absolute inset-y-0 bg-[repeating-linear-gradient(45deg,rgba(255,255,255,0.6)_0,rgba(255,255,255,0.6)_3px,transparent_3px,transparent_6px)]"
+                        style={{
+                          left: `${((pause.start - bar.start) / (bar.end - bar.start)) * 100}%`,
+                          width: `${((pause.end - pause.start) / (bar.end - bar.start)) * 100}%`,
+                        }}
+                        data-testid="timeline-pause"
+                      />
+                    ))}
+                    <span className="relative truncate">{bar.roomName}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+
+        <div className="flex flex-wrap gap-4 pl-36 pt-2 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-sm bg-emerald-600" /> Zakończone</span>
+          <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-sm bg-amber-500" /> W trakcie</span>
+          <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-sm bg-slate-400" /> Przed przekazaniem</span>
+          <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-sm bg-[repeating-linear-gradient(45deg,#94a3b8_0,#94a3b8_2px,transparent_2px,transparent_4px)]" /> Przerwa</span>
+          <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-sm border bg-sky-100" /> Zmiana (czas pracy)</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+// src/components/reception/DeadlinesAtRiskPanel.tsx
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlarmClock } from "lucide-react";
+import { cn, formatMinutesAsHm } from "@/lib/utils";
+import type { DeadlineAlert } from "@/lib/task-deadline";
+import { timeOfDay } from "@/lib/task-utils";
+
+interface DeadlinesAtRiskPanelProps {
+  alerts: DeadlineAlert[];
+}
+
+export function DeadlinesAtRiskPanel({ alerts }: DeadlinesAtRiskPanelProps) {
+  const overdueCount = alerts.filter(alert => alert.level === 'overdue').length;
+
+  return (
+    <Card className={cn(overdueCount > 0 && "border-red-300 dark:border-red-800")}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlarmClock className="h-5 w-5" />
+          Zagrożone terminy ({alerts.length})
+        </CardTitle>
+        <CardDescription>
+          Pokoje z terminem, które mogą nie zostać skończone na czas
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {alerts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Wszystkie terminy są niezagrożone.</p>
+        ) : (
+          <ul className="divide-y">
+            {alerts.map(alert => (
+              <li key={alert.taskId} className="flex items-center justify-between gap-4 py-2 text-sm">
+                <div>
+                  <span className="font-medium">{alert.roomName}</span>
+                  <span className="text-muted-foreground"> · {alert.staffName || "Nieprzypisane"}</span>
+                </div>
+                <div className="flex items-center gap-2 tabular-nums">
+                  <span className="text-muted-foreground">
+                    do {timeOfDay(alert.dueBy)} · zostało pracy {formatMinutesAsHm(alert.remainingMinutes)}
+                  </span>
+                  <Badge
+                    className={cn(
+                      "text-xs",
+                      alert.level === 'overdue'
+                        ? "bg-red-100 text-red-800 hover:bg-red-100 dark:bg-red-900/30 dark:text-red-200"
+                        : "bg-amber-100 text-amber-800 hover:bg-amber-100 dark:bg-amber-900/30 dark:text-amber-200"
+                    )}
+                  >
+                    {alert.level === 'overdue'
+                      ? `po terminie ${formatMinutesAsHm(-alert.minutesLeft)}`
+                      : `za ${formatMinutesAsHm(alert.minutesLeft)}`}
+                  </Badge>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
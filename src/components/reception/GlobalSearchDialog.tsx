@@ -0,0 +1,257 @@
+// src/components/reception/GlobalSearchDialog.tsx
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, ClipboardList, Search } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { TaskDetailDialog } from "@/components/reception/TaskDetailDialog";
+import { IssueDetailDialog, type IssueWithRelations } from "@/components/reception/NewIssueDetailDialog";
+import {
+  MIN_SEARCH_LENGTH,
+  groupSearchHits,
+  searchTasksAndIssues,
+  splitSnippet,
+  type SearchFilter,
+  type SearchHit,
+} from "@/lib/global-search";
+import type { Room, Staff, Task } from "@/hooks/useReceptionData";
+import type { EditableTaskState } from "@/hooks/useReceptionActions";
+
+// Wait for a pause in typing before querying
+const SEARCH_DEBOUNCE_MS = 300;
+
+const ISSUE_SELECT = `
+  *,
+  room:rooms(id, name, color),
+  assigned_to:users!issues_assigned_to_user_id_fkey(id, name, first_name, last_name),
+  reported_by:users!issues_reported_by_user_id_fkey(id, name, first_name, last_name),
+  resolved_by:users!issues_resolved_by_user_id_fkey(id, name, first_name, last_name),
+  task:tasks(id, date)
+`;
+
+const TASK_SELECT = `*,
+  room:rooms!inner(id, name, group_type, color),
+  user:users!tasks_user_id_fkey(id, name, first_name, last_name)`;
+
+const formatDate = (date: string) => new Date(`${date}T12:00:00`).toLocaleDateString("pl-PL");
+
+interface GlobalSearchDialogProps {
+  availableRooms: Room[];
+  allStaff: Staff[];
+  onUpdateTask: (taskId: string, updates: Partial<EditableTaskState>) => Promise<boolean>;
+  isUpdatingTask: boolean;
+  onHandoverTask?: (taskId: string, newStaffId: string) => Promise<boolean>;
+  isHandingOverTask?: boolean;
+}
+
+export function GlobalSearchDialog({
+  availableRooms,
+  allStaff,
+  onUpdateTask,
+  isUpdatingTask,
+  onHandoverTask,
+  isHandingOverTask,
+}: GlobalSearchDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [filter, setFilter] = useState<SearchFilter>({ from: null, to: null, roomId: "all" });
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [searchKey, setSearchKey] = useState(0);
+  const [selectedTask, setSelectedTask] = useState<Task | null>(null);
+  const [selectedIssue, setSelectedIssue] = useState<IssueWithRelations | null>(null);
+  const { toast } = useToast();
+
+  // Ctrl+K / Cmd+K opens the search from anywhere in the panel
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "k") {
+        event.preventDefault();
+        setOpen(true);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const trimmedQuery = query.trim();
+
+  useEffect(() => {
+    if (!open || trimmedQuery.length < MIN_SEARCH_LENGTH) {
+      setHits([]);
+      return;
+    }
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      setSearching(true);
+      searchTasksAndIssues(trimmedQuery, filter)
+        .then(data => { if (!cancelled) setHits(data); })
+        .catch(error => {
+          console.error("Error searching tasks and issues:", error);
+          if (!cancelled) {
+            setHits([]);
+            toast({ title: "Błąd wyszukiwania", description: error.message, variant: "destructive" });
+          }
+        })
+        .finally(() => { if (!cancelled) setSearching(false); });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [open, trimmedQuery, filter, searchKey, toast]);
+
+  const grouped = useMemo(() => groupSearchHits(hits), [hits]);
+  const sortedRooms = useMemo(
+    () => [...availableRooms].sort((a, b) => a.name.localeCompare(b.name, "pl", { numeric: true })),
+    [availableRooms]
+  );
+
+  const openHit = async (hit: SearchHit) => {
+    if (hit.kind === "task") {
+      const { data, error } = await supabase.from("tasks").select(TASK_SELECT).eq("id", hit.id).single();
+      if (error || !data) {
+        console.error("Error loading task:", error);
+        toast({ title: "Błąd", description: "Nie udało się otworzyć zadania.", variant: "destructive" });
+        return;
+      }
+      setSelectedTask(data as unknown as Task);
+    } else {
+      const { data, error } = await supabase.from("issues").select(ISSUE_SELECT).eq("id", hit.id).single();
+      if (error || !data) {
+        console.error("Error loading issue:", error);
+        toast({ title: "Błąd", description: "Nie udało się otworzyć zgłoszenia.", variant: "destructive" });
+        return;
+      }
+      setSelectedIssue(data as unknown as IssueWithRelations);
+    }
+  };
+
+  const renderGroup = (label: string, icon: JSX.Element, groupHits: SearchHit[]) => groupHits.length > 0 && (
+    <div className="space-y-1">
+      <div className="flex items-center gap-1.5 text-xs font-semibold uppercase text-muted-foreground">
+        {icon} {label} ({groupHits.length})
+      </div>
+      {groupHits.map(hit => (
+        <button
+          key={`${hit.kind}-${hit.id}`}
+          type="button"
+          className="w-full rounded-md border px-3 py-2 text-left text-sm hover:bg-muted"
+          onClick={() => openHit(hit)}
+          data-testid="search-hit"
+        >
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium">{hit.title ?? `Pokój ${hit.room_name}`}</span>
+            <span className="text-xs text-muted-foreground">
+              {hit.title && `${hit.room_name} · `}{formatDate(hit.date)}
+            </span>
+          </div>
+          {hit.snippet && (
+            <p className="mt-1 line-clamp-2 text-xs text-muted-foreground">
+              {splitSnippet(hit.snippet).map((part, index) =>
+                part.match
+                  ? <mark key={index} className="rounded bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-700">{part.text}</mark>
+                  : <span key={index}>{part.text}</span>
+              )}
+            </p>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <>
+      <Button variant="outline" size="sm" className="ml-auto h-8 gap-2 text-muted-foreground" onClick={() => setOpen(true)}>
+        <Search className="h-4 w-4" />
+        <span className="hidden sm:inline">Szukaj w notatkach i zgłoszeniach</span>
+        <kbd className="hidden rounded border px-1 text-[10px] md:inline">Ctrl K</kbd>
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-[640px]">
+          <DialogHeader>
+            <DialogTitle>Szukaj</DialogTitle>
+            <DialogDescription>Notatki i opisy problemów w zadaniach oraz zgłoszenia.</DialogDescription>
+          </DialogHeader>
+
+          <Input
+            autoFocus
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="np. suszarka, klucz…"
+            aria-label="Szukana fraza"
+          />
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="search-from" className="text-xs">Od</Label>
+              <Input id="search-from" type="date" className="h-8" value={filter.from ?? ""}
+                onChange={e => setFilter(prev => ({ ...prev, from: e.target.value || null }))} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="search-to" className="text-xs">Do</Label>
+              <Input id="search-to" type="date" className="h-8" value={filter.to ?? ""}
+                onChange={e => setFilter(prev => ({ ...prev, to: e.target.value || null }))} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="search-room" className="text-xs">Pokój</Label>
+              <Select value={filter.roomId} onValueChange={roomId => setFilter(prev => ({ ...prev, roomId }))}>
+                <SelectTrigger id="search-room" className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Wszystkie pokoje</SelectItem>
+                  {sortedRooms.map(room => (
+                    <SelectItem key={room.id} value={room.id}>{room.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="max-h-[50vh] space-y-4 overflow-y-auto">
+            {trimmedQuery.length < MIN_SEARCH_LENGTH ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">Wpisz co najmniej {MIN_SEARCH_LENGTH} znaki.</p>
+            ) : searching && hits.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">Szukam…</p>
+            ) : hits.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">Brak wyników dla „{trimmedQuery}”.</p>
+            ) : (
+              <>
+                {renderGroup("Zadania", <ClipboardList className="h-3.5 w-3.5" />, grouped.task)}
+                {renderGroup("Zgłoszenia", <AlertTriangle className="h-3.5 w-3.5" />, grouped.issue)}
+              </>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <TaskDetailDialog
+        task={selectedTask}
+        allStaff={allStaff}
+        availableRooms={availableRooms}
+        isOpen={selectedTask !== null}
+        onOpenChange={isOpen => { if (!isOpen) setSelectedTask(null); }}
+        onUpdate={async (taskId, updates) => {
+          const updated = await onUpdateTask(taskId, updates);
+          if (updated) setSearchKey(key => key + 1);
+          return updated;
+        }}
+        isUpdating={isUpdatingTask}
+        onHandover={onHandoverTask}
+        isHandingOver={isHandingOverTask}
+      />
+      <IssueDetailDialog
+        issue={selectedIssue}
+        allStaff={allStaff}
+        isOpen={selectedIssue !== null}
+        onOpenChange={isOpen => { if (!isOpen) setSelectedIssue(null); }}
+        onUpdate={() => setSearchKey(key => key + 1)}
+      />
+    </>
+  );
+}
@@ -14,7 +14,7 @@ import { useToast } from "@/hooks/use-toast";
 import type { Staff } from '@/hooks/useReceptionData';
 
 type Issue = Database["public"]["Tables"]["issues"]["Row"];
-type IssueWithRelations = Issue & {
+export type IssueWithRelations = Issue & {
     room: { id: string; name: string; color: string | null };
     assigned_to?: { id: string; name: string; first_name: string | null; last_name: string | null } | null;
     reported_by?: { id: string; name: string; first_name: string | null; last_name: string | null } | null;
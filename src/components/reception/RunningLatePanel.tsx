@@ -0,0 +1,74 @@
+// src/components/reception/RunningLatePanel.tsx
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Hourglass } from "lucide-react";
+import { cn, formatDifferenceAsHm, formatMinutesAsHm } from "@/lib/utils";
+import { OVERRUN_WARNING_PERCENT_OPTIONS, type OverrunAlert } from "@/lib/task-overrun";
+
+interface RunningLatePanelProps {
+  alerts: OverrunAlert[];
+  warningPercent: number;
+  onWarningPercentChange: (percent: number) => void;
+}
+
+export function RunningLatePanel({ alerts, warningPercent, onWarningPercentChange }: RunningLatePanelProps) {
+  const overCount = alerts.filter(alert => alert.level === 'over').length;
+
+  return (
+    <Card className={cn(overCount > 0 && "border-red-300 dark:border-red-800")}>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Hourglass className="h-5 w-5" />
+            Opóźnione zadania ({alerts.length})
+          </CardTitle>
+          <CardDescription>
+            Zadania w trakcie, które przekroczyły limit czasu lub zbliżają się do niego
+          </CardDescription>
+        </div>
+        <Select value={String(warningPercent)} onValueChange={(value) => onWarningPercentChange(Number(value))}>
+          <SelectTrigger className="w-32" aria-label="Próg ostrzeżenia">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {OVERRUN_WARNING_PERCENT_OPTIONS.map(percent => (
+              <SelectItem key={percent} value={String(percent)}>od {percent}%</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {alerts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Wszystkie zadania w trakcie mieszczą się w limicie.</p>
+        ) : (
+          <ul className="divide-y">
+            {alerts.map(alert => (
+              <li key={alert.taskId} className="flex items-center justify-between gap-4 py-2 text-sm">
+                <div>
+                  <span className="font-medium">{alert.roomName}</span>
+                  <span className="text-muted-foreground"> · {alert.staffName || "Nieprzypisane"}</span>
+                </div>
+                <div className="flex items-center gap-2 tabular-nums">
+                  <span className="text-muted-foreground">
+                    {formatMinutesAsHm(alert.elapsedMinutes)} / {formatMinutesAsHm(alert.timeLimit)}
+                  </span>
+                  <Badge
+                    className={cn(
+                      "text-xs",
+                      alert.level === 'over'
+                        ? "bg-red-100 text-red-800 hover:bg-red-100 dark:bg-red-900/30 dark:text-red-200"
+                        : "bg-amber-100 text-amber-800 hover:bg-amber-100 dark:bg-amber-900/30 dark:text-amber-200"
+                    )}
+                  >
+                    {alert.level === 'over' ? formatDifferenceAsHm(alert.elapsedMinutes - alert.timeLimit) : `${alert.percent}%`}
+                  </Badge>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
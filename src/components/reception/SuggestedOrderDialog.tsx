@@ -0,0 +1,73 @@
+// src/components/reception/SuggestedOrderDialog.tsx
+import { useMemo } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { orderChanges, type RouteTask } from "@/lib/route-order";
+import { CLEANING_TYPE_LABELS } from "@/lib/cleaning-types";
+
+interface SuggestedOrderDialogProps<T extends RouteTask> {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  staffName: string;
+  currentTasks: T[];
+  suggestedTasks: T[];
+  onConfirm: () => void;
+  isSaving: boolean;
+}
+
+export function SuggestedOrderDialog<T extends RouteTask>({
+  open, onOpenChange, staffName, currentTasks, suggestedTasks, onConfirm, isSaving,
+}: SuggestedOrderDialogProps<T>) {
+  const changes = useMemo(
+    () => new Map(orderChanges(currentTasks.map(t => t.id), suggestedTasks.map(t => t.id)).map(c => [c.id, c])),
+    [currentTasks, suggestedTasks]
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Proponowana kolejność — {staffName}</DialogTitle>
+          <DialogDescription>
+            {changes.size === 0
+              ? "Obecna kolejność jest już zgodna z propozycją."
+              : `Zmieni się pozycja ${changes.size} z ${suggestedTasks.length} zadań. Wyjazdy przed pobytami, pokoje grupami i piętrami, stałe lokalizacje o swojej porze.`}
+          </DialogDescription>
+        </DialogHeader>
+        <ol className="flex-grow overflow-y-auto divide-y border rounded-md">
+          {suggestedTasks.map((task, index) => {
+            const change = changes.get(task.id);
+            return (
+              <li
+                key={task.id}
+                className={cn("flex items-center gap-3 px-3 py-2 text-sm", change && "bg-amber-50 dark:bg-amber-900/20")}
+              >
+                <span className="w-6 text-right tabular-nums text-muted-foreground">{index + 1}.</span>
+                <span className="flex-1">
+                  <span className="font-medium">{task.room.name}</span>
+                  <span className="text-muted-foreground"> · {CLEANING_TYPE_LABELS[task.cleaning_type] ?? task.cleaning_type}</span>
+                </span>
+                {change ? (
+                  <span className="flex items-center gap-1 text-xs text-amber-700 dark:text-amber-300 tabular-nums">
+                    {change.to < change.from ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+                    było {change.from}.
+                  </span>
+                ) : (
+                  <span className="text-xs text-muted-foreground">bez zmian</span>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>Anuluj</Button>
+          <Button onClick={onConfirm} disabled={isSaving || changes.size === 0}>
+            {isSaving ? "Zapisywanie..." : "Zastosuj kolejność"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
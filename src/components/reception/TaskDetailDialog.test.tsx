@@ -3,6 +3,7 @@ import userEvent from '@testing-library/user-event';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { TaskDetailDialog } from './TaskDetailDialog';
 import type { Staff } from '@/hooks/useReceptionData';
+import { timeOnTaskDate } from '@/lib/task-utils';
 
 vi.mock('@/components/ui/dialog', () => ({
   Dialog: ({ children }: any) => <div>{children}</div>,
@@ -39,6 +40,7 @@ vi.mock('@/integrations/supabase/client', () => ({
       select: () => ({
         eq: () => ({
           order: () => Promise.resolve({ data: [], error: null }),
+          maybeSingle: () => Promise.resolve({ data: null, error: null }),
         }),
       }),
     }),
@@ -196,6 +198,58 @@ describe('TaskDetailDialog OTHER-location capacity validation', () => {
   });
 });
 
+describe('TaskDetailDialog moving a task to another date', () => {
+  const room = {
+    id: 'room-other',
+    name: 'Parter + winda',
+    group_type: 'OTHER',
+    color: null,
+    capacity_configurations: [
+      { capacity: 0, capacity_id: 'other', capacity_label: 'N/A', cleaning_types: [{ type: 'S', time_limit: 10 }] },
+    ],
+  } as never;
+
+  const scheduledTask = {
+    ...baseTask,
+    date: todayDate,
+    status: 'todo',
+    actual_time: null,
+    cleaning_type: 'S' as const,
+    guest_count: 'other',
+    due_by: timeOnTaskDate(todayDate, '15:00'),
+    ready_at: timeOnTaskDate(todayDate, '11:30'),
+    room: { id: 'room-other', name: 'Parter + winda', group_type: 'OTHER', color: null },
+  };
+
+  it('moves the deadline and the planned free time to the new date', async () => {
+    mockUseAuth.mockReturnValue({ userRole: 'admin' });
+    const onUpdate = vi.fn().mockResolvedValue(true);
+
+    render(
+      <TaskDetailDialog
+        task={scheduledTask}
+        allStaff={[housekeeper]}
+        availableRooms={[room]}
+        isOpen={true}
+        onOpenChange={vi.fn()}
+        onUpdate={onUpdate}
+        isUpdating={false}
+      />
+    );
+
+    await userEvent.click(screen.getByRole('button', { name: /edit/i }));
+    fireEvent.change(screen.getByDisplayValue(todayDate), { target: { value: futureDate } });
+    await userEvent.click(screen.getByRole('button', { name: /save changes/i }));
+
+    await waitFor(() => expect(onUpdate).toHaveBeenCalled());
+    expect(onUpdate.mock.calls[0][1]).toMatchObject({
+      date: futureDate,
+      dueBy: timeOnTaskDate(futureDate, '15:00'),
+      readyAt: timeOnTaskDate(futureDate, '11:30'),
+    });
+  });
+});
+
 describe('TaskDetailDialog actual-time gate', () => {
   it('actual time input is enabled for admin when task is done', async () => {
     mockUseAuth.mockReturnValue({ userRole: 'admin' });
@@ -8,8 +8,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 // Added PlayCircle and Square icons
-import { CalendarDays, Clock, User, DoorOpen, BedDouble, StickyNote, AlertTriangle, Image as ImageIcon, Edit2, X, Timer, PlayCircle, Square } from "lucide-react";
+import { CalendarDays, Clock, User, DoorOpen, BedDouble, StickyNote, AlertTriangle, Image as ImageIcon, Edit2, X, Timer, PlayCircle, Square, ListChecks, CheckCircle2, Circle, History, ArrowRightLeft, AlarmClock } from "lucide-react";
 import type { Database } from "@/integrations/supabase/types";
 import type { Room, Staff } from '@/hooks/useReceptionData';
 import { cn } from "@/lib/utils";
@@ -18,10 +19,21 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { renderCapacityIconPattern, LABEL_TO_CAPACITY_ID, CAPACITY_ID_TO_LABEL, normalizeCapacityLabel } from "@/lib/capacity-utils";
 import { ActualTimeDialog } from "./ActualTimeDialog";
+import { TaskHandoverDialog } from "./TaskHandoverDialog";
+import { PAUSE_REASON_LABELS, UNKNOWN_PAUSE_REASON_LABEL, pauseMinutes } from "@/lib/pause-reasons";
+import { checklistProgress, parseTaskChecklist, type TaskChecklistItem } from "@/lib/cleaning-checklist";
+import type { TaskEventLookups } from "@/lib/task-events";
+import { currentSegmentMinutes, type TaskSegment } from "@/lib/task-segments";
+import { TaskHistoryTimeline, type TaskHistoryEvent } from "./TaskHistoryTimeline";
+import { timeOfDay, timeOnTaskDate } from "@/lib/task-utils";
+import { canChangeStatus } from "@/lib/task-transitions";
 
 type Issue = Database["public"]["Tables"]["issues"]["Row"];
 type IssueStatus = Database["public"]["Enums"]["issue_status"];
 type IssuePriority = Database["public"]["Enums"]["issue_priority"];
+type TaskStatus = Database["public"]["Enums"]["task_status"];
+type TaskPause = Database["public"]["Tables"]["task_pauses"]["Row"];
+type TaskPhoto = Database["public"]["Tables"]["task_photos"]["Row"];
 
 interface TaskIssue extends Issue {
     reported_by?: { id: string; name: string; first_name: string | null; last_name: string | null } | null;
@@ -249,6 +261,10 @@ const getTimeLimitFromRoom = (room: Room | null, capacityId: string, cleaningTyp
     return cleaningTypeConfig.time_limit;
 };
 
+// Postgres and toISOString format the same instant differently; compare in one form
+const normalizeTimestamp = (value: string | null | undefined): string | null =>
+    value ? new Date(value).toISOString() : null;
+
 // Interface needs start_time and stop_time for display
 interface Task {
     id: string;
@@ -272,6 +288,8 @@ interface Task {
     pause_start: string | null;
     pause_stop: string | null;
     total_pause: number | null;
+    due_by?: string | null;
+    ready_at?: string | null;
     created_at?: string;
 }
 
@@ -285,6 +303,8 @@ interface EditableTaskState {
     timeLimit: number | null;
     status: string;
     actualTime: number | null;
+    dueBy: string | null;
+    readyAt: string | null;
 }
 
 interface TaskDetailDialogProps {
@@ -295,6 +315,8 @@ interface TaskDetailDialogProps {
     onOpenChange: (open: boolean) => void;
     onUpdate: (taskId: string, updates: Partial<EditableTaskState>) => Promise<boolean>;
     isUpdating: boolean;
+    onHandover?: (taskId: string, newStaffId: string) => Promise<boolean>;
+    isHandingOver?: boolean;
 }
 
 export function TaskDetailDialog({
@@ -304,7 +326,9 @@ export function TaskDetailDialog({
     isOpen,
     onOpenChange,
     onUpdate,
-    isUpdating
+    isUpdating,
+    onHandover,
+    isHandingOver = false
 }: TaskDetailDialogProps) {
     const { toast } = useToast();
     const { userRole } = useAuth();
@@ -313,6 +337,14 @@ export function TaskDetailDialog({
     const [isEditMode, setIsEditMode] = useState(false);
     const [availableStaffOptions, setAvailableStaffOptions] = useState<Staff[]>([]);
     const [taskIssues, setTaskIssues] = useState<TaskIssue[]>([]);
+    const [taskPauses, setTaskPauses] = useState<TaskPause[]>([]);
+    const [taskSegments, setTaskSegments] = useState<TaskSegment[]>([]);
+    const [isHandoverDialogOpen, setIsHandoverDialogOpen] = useState(false);
+    const [taskChecklist, setTaskChecklist] = useState<TaskChecklistItem[]>([]);
+    const [taskPhotos, setTaskPhotos] = useState<TaskPhoto[]>([]);
+    const [activeTab, setActiveTab] = useState<'details' | 'history'>('details');
+    const [taskEvents, setTaskEvents] = useState<TaskHistoryEvent[]>([]);
+    const [isLoadingEvents, setIsLoadingEvents] = useState(false);
     const [isActualTimeDialogOpen, setIsActualTimeDialogOpen] = useState(false);
     const [pendingUpdates, setPendingUpdates] = useState<Partial<EditableTaskState> | null>(null);
     const housekeepingStaff = useMemo(
@@ -370,6 +402,8 @@ export function TaskDetailDialog({
                 timeLimit: task.time_limit,
                 status: task.status,
                 actualTime: task.actual_time ?? null,
+                dueBy: normalizeTimestamp(task.due_by),
+                readyAt: normalizeTimestamp(task.ready_at),
             });
             setSelectedGroup((selectedRoom?.group_type ?? task.room.group_type) as RoomGroup);
             setIsEditMode(false);
@@ -377,6 +411,7 @@ export function TaskDetailDialog({
             setEditableState(null);
             setSelectedGroup(null);
             setIsEditMode(false);
+            setActiveTab('details');
         }
     }, [task, isOpen, availableRooms]);
 
@@ -426,6 +461,147 @@ export function TaskDetailDialog({
         fetchTaskIssues();
     }, [isOpen, task?.id]);
 
+    // Fetch the pause timeline for this task
+    useEffect(() => {
+        if (!isOpen || !task?.id) {
+            setTaskPauses([]);
+            return;
+        }
+
+        const fetchTaskPauses = async () => {
+            const { data, error } = await supabase
+                .from('task_pauses')
+                .select('*')
+                .eq('task_id', task.id)
+                .order('started_at', { ascending: true });
+
+            if (error) {
+                // Table may not exist yet (migration pending) — just show no pauses.
+                console.error('Error fetching task pauses:', error);
+                setTaskPauses([]);
+                return;
+            }
+            setTaskPauses(data || []);
+        };
+
+        fetchTaskPauses();
+    }, [isOpen, task?.id, task?.status]);
+
+    // Fetch the segments handed over to another housekeeper
+    useEffect(() => {
+        if (!isOpen || !task?.id) {
+            setTaskSegments([]);
+            return;
+        }
+
+        const fetchTaskSegments = async () => {
+            const { data, error } = await supabase
+                .from('task_segments')
+                .select('*')
+                .eq('task_id', task.id)
+                .order('started_at', { ascending: true });
+
+            if (error) {
+                // Table may not exist yet (migration pending) — just show no handovers.
+                console.error('Error fetching task segments:', error);
+                setTaskSegments([]);
+                return;
+            }
+            setTaskSegments(data || []);
+        };
+
+        fetchTaskSegments();
+    }, [isOpen, task?.id, task?.status]);
+
+    // Fetch the checklist the housekeeper ticked off
+    useEffect(() => {
+        if (!isOpen || !task?.id) {
+            setTaskChecklist([]);
+            return;
+        }
+
+        const fetchTaskChecklist = async () => {
+            const { data, error } = await supabase
+                .from('tasks')
+                .select('checklist')
+                .eq('id', task.id)
+                .maybeSingle();
+
+            if (error) {
+                // Column may not exist yet (migration pending) — just show no checklist.
+                console.error('Error fetching task checklist:', error);
+                setTaskChecklist([]);
+                return;
+            }
+            setTaskChecklist(parseTaskChecklist(data?.checklist));
+        };
+
+        fetchTaskChecklist();
+    }, [isOpen, task?.id, task?.status]);
+
+    // Fetch the "after" photos attached when the task was finished
+    useEffect(() => {
+        if (!isOpen || !task?.id) {
+            setTaskPhotos([]);
+            return;
+        }
+
+        const fetchTaskPhotos = async () => {
+            const { data, error } = await supabase
+                .from('task_photos')
+                .select('*')
+                .eq('task_id', task.id)
+                .order('created_at', { ascending: true });
+
+            if (error) {
+                // Table may not exist yet (migration pending) — just show no photos.
+                console.error('Error fetching task photos:', error);
+                setTaskPhotos([]);
+                return;
+            }
+            setTaskPhotos(data || []);
+        };
+
+        fetchTaskPhotos();
+    }, [isOpen, task?.id, task?.status]);
+
+    // Fetch the change history whenever the Historia tab is opened
+    useEffect(() => {
+        if (!isOpen || !task?.id || activeTab !== 'history') {
+            setTaskEvents([]);
+            return;
+        }
+
+        const fetchTaskEvents = async () => {
+            setIsLoadingEvents(true);
+            const { data, error } = await supabase
+                .from('task_events')
+                .select('*, actor:users(id, name, first_name, last_name)')
+                .eq('task_id', task.id)
+                .order('created_at', { ascending: false });
+            setIsLoadingEvents(false);
+
+            if (error) {
+                // Table may not exist yet (migration pending) — just show no history.
+                console.error('Error fetching task history:', error);
+                setTaskEvents([]);
+                return;
+            }
+            setTaskEvents(data || []);
+        };
+
+        fetchTaskEvents();
+    }, [isOpen, task?.id, activeTab]);
+
+    const historyLookups = useMemo<TaskEventLookups>(() => {
+        const staffNames = new Map(allStaff.map(staff => [staff.id, staff.name]));
+        const roomNames = new Map(availableRooms.map(room => [room.id, room.name]));
+        return {
+            staffName: id => staffNames.get(id),
+            roomName: id => roomNames.get(id),
+        };
+    }, [allStaff, availableRooms]);
+
     const staffOptions = useMemo(() => {
         const baseOptions = availableStaffOptions.length > 0 ? availableStaffOptions : housekeepingStaff;
         const assignedId = editableState?.staffId;
@@ -472,6 +648,14 @@ export function TaskDetailDialog({
                 }
             }
 
+            // The deadline and the planned free time are times on the task's date, so they move with the date
+            if (field === 'date' && typeof value === 'string' && prev.dueBy) {
+                nextState.dueBy = timeOnTaskDate(value, timeOfDay(prev.dueBy));
+            }
+            if (field === 'date' && typeof value === 'string' && prev.readyAt) {
+                nextState.readyAt = timeOnTaskDate(value, timeOfDay(prev.readyAt));
+            }
+
             if (field === 'date' && typeof value === 'string' && value > todayDateString && nextState.status !== 'todo') {
                 nextState.status = 'todo';
             }
@@ -499,6 +683,7 @@ export function TaskDetailDialog({
         if (!selectedGroup && task) {
             setSelectedGroup(task.room.group_type as RoomGroup);
         }
+        setActiveTab('details');
         setIsEditMode(true);
     };
 
@@ -518,6 +703,8 @@ export function TaskDetailDialog({
             timeLimit: task.time_limit,
             status: task.status,
             actualTime: task.actual_time ?? null,
+            dueBy: normalizeTimestamp(task.due_by),
+            readyAt: normalizeTimestamp(task.ready_at),
         });
         setSelectedGroup((selectedRoom?.group_type ?? task.room.group_type) as RoomGroup);
         setIsEditMode(false);
@@ -604,6 +791,8 @@ export function TaskDetailDialog({
         if (editableState.date !== task.date) { updates.date = editableState.date; changed = true; }
         if (editableState.timeLimit !== task.time_limit) { updates.timeLimit = editableState.timeLimit; changed = true; }
         if (editableState.status !== task.status) { updates.status = editableState.status; changed = true; }
+        if (editableState.dueBy !== normalizeTimestamp(task.due_by)) { updates.dueBy = editableState.dueBy; changed = true; }
+        if (editableState.readyAt !== normalizeTimestamp(task.ready_at)) { updates.readyAt = editableState.readyAt; changed = true; }
         // Admin can edit actualTime when task is done
         if (canEditActualTime && editableState.actualTime !== task.actual_time) {
             updates.actualTime = editableState.actualTime;
@@ -639,8 +828,10 @@ export function TaskDetailDialog({
                         actual_time,
                         difference,
                         reception_notes,
+                        due_by,
+                        ready_at,
                         room:rooms(id, name, group_type, color),
-                        user:users(id, name, first_name, last_name)
+                        user:users!tasks_user_id_fkey(id, name, first_name, last_name)
                     `)
                     .eq('id', task.id)
                     .single();
@@ -662,6 +853,8 @@ export function TaskDetailDialog({
                         task.guest_count = refreshedTask.guest_count;
                         task.time_limit = refreshedTask.time_limit;
                         task.reception_notes = refreshedTask.reception_notes;
+                        task.due_by = refreshedTask.due_by;
+                        task.ready_at = refreshedTask.ready_at;
                         task.date = refreshedTask.date;
                         task.status = refreshedTask.status;
                         task.actual_time = refreshedTask.actual_time;
@@ -686,6 +879,8 @@ export function TaskDetailDialog({
                         timeLimit: refreshedTask.time_limit,
                         status: refreshedTask.status,
                         actualTime: refreshedTask.actual_time ?? null,
+                        dueBy: normalizeTimestamp(refreshedTask.due_by),
+                        readyAt: normalizeTimestamp(refreshedTask.ready_at),
                     });
                     setSelectedGroup((updatedRoom?.group_type ?? task.room.group_type) as RoomGroup);
                 } else {
@@ -700,6 +895,15 @@ export function TaskDetailDialog({
         }
     };
 
+    const handleHandoverConfirm = async (newStaffId: string) => {
+        if (!task || !onHandover) return;
+        const success = await onHandover(task.id, newStaffId);
+        if (success) {
+            setIsHandoverDialogOpen(false);
+            onOpenChange(false);
+        }
+    };
+
     const handleActualTimeConfirm = async (actualTime: number | null) => {
         if (!task || !pendingUpdates) return;
         const updates = { ...pendingUpdates, actualTime };
@@ -712,7 +916,7 @@ export function TaskDetailDialog({
                         id, date, status, cleaning_type, guest_count, time_limit,
                         actual_time, difference, reception_notes,
                         room:rooms(id, name, group_type, color),
-                        user:users(id, name, first_name, last_name)
+                        user:users!tasks_user_id_fkey(id, name, first_name, last_name)
                     `)
                     .eq('id', task.id)
                     .single();
@@ -841,6 +1045,9 @@ export function TaskDetailDialog({
     const isTaskClosed = task.status === 'done';
     const canEditTimeLimit = isTaskClosed;
     const canEditActualTime = userRole === 'admin' && task.status === 'done';
+    const canHandover = !!onHandover
+        && (task.status === 'in_progress' || task.status === 'paused')
+        && (userRole === 'admin' || userRole === 'manager' || userRole === 'reception');
 
     const getStatusLabel = (status: string) => {
         // ... (keep existing getStatusLabel) ...
@@ -926,11 +1133,11 @@ export function TaskDetailDialog({
                                             <SelectValue />
                                         </SelectTrigger>
                                         <SelectContent>
-                                            <SelectItem value="todo">Do sprzątania</SelectItem>
-                                            <SelectItem value="in_progress">W trakcie</SelectItem>
-                                            <SelectItem value="paused">Wstrzymane</SelectItem>
-                                            <SelectItem value="done">Skończone</SelectItem>
-                                            <SelectItem value="repair_needed">Naprawa</SelectItem>
+                                            <SelectItem value="todo" disabled={!canChangeStatus(task.status as TaskStatus, "todo")}>Do sprzątania</SelectItem>
+                                            <SelectItem value="in_progress" disabled={!canChangeStatus(task.status as TaskStatus, "in_progress")}>W trakcie</SelectItem>
+                                            <SelectItem value="paused" disabled={!canChangeStatus(task.status as TaskStatus, "paused")}>Wstrzymane</SelectItem>
+                                            <SelectItem value="done" disabled={!canChangeStatus(task.status as TaskStatus, "done")}>Skończone</SelectItem>
+                                            <SelectItem value="repair_needed" disabled={!canChangeStatus(task.status as TaskStatus, "repair_needed")}>Naprawa</SelectItem>
                                         </SelectContent>
                                     </Select>
                                 ) : (
@@ -941,7 +1148,22 @@ export function TaskDetailDialog({
                     </div>
                 </DialogHeader>
 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-4 py-4 overflow-y-auto px-1 flex-grow">
+                <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'details' | 'history')}>
+                    <TabsList>
+                        <TabsTrigger value="details">Szczegóły</TabsTrigger>
+                        <TabsTrigger value="history" disabled={isEditMode} className="gap-1">
+                            <History className="h-4 w-4" />Historia
+                        </TabsTrigger>
+                    </TabsList>
+                </Tabs>
+
+                {activeTab === 'history' && (
+                    <div className="py-4 overflow-y-auto px-1 flex-grow">
+                        <TaskHistoryTimeline events={taskEvents} isLoading={isLoadingEvents} lookups={historyLookups} />
+                    </div>
+                )}
+
+                <div className={cn("grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-4 py-4 overflow-y-auto px-1 flex-grow", activeTab !== 'details' && "hidden")}>
                     {/* Column 1: Core Task Info */}
                     <div className="space-y-4">
                         {/* ... (Date, Room, Type, Guests, Staff, Reception Notes - keep existing structure) ... */}
@@ -1137,6 +1359,21 @@ export function TaskDetailDialog({
                                 : (<p className="text-sm border p-2 rounded bg-muted/30">{task.time_limit ?? 'None'}</p>)}
                         </div>
 
+                        {/* Deadline */}
+                        <div className="space-y-1">
+                            <Label htmlFor="detail-dueBy" className="flex items-center gap-1 text-muted-foreground"><AlarmClock className="h-4 w-4" />Termin</Label>
+                            {isEditMode ? (
+                                <Input
+                                    id="detail-dueBy"
+                                    type="time"
+                                    value={timeOfDay(editableState.dueBy)}
+                                    onChange={(e) => handleFieldChange('dueBy', timeOnTaskDate(editableState.date, e.target.value))}
+                                    disabled={isUpdating}
+                                />
+                            )
+                                : (<p className="text-sm border p-2 rounded bg-muted/30">{task.due_by ? `do ${timeOfDay(task.due_by)}` : 'Brak'}</p>)}
+                        </div>
+
                         {/* ** MODIFICATION START: Simplified Time Display Card ** */}
                         <Card className="bg-muted/30">
                             <CardHeader className="p-3">
@@ -1177,9 +1414,93 @@ export function TaskDetailDialog({
                                 <div className={cn("col-span-1 mt-1", task.difference !== null && (task.difference > 0 ? "text-red-600 dark:text-red-400" : "text-green-600 dark:text-green-400"))}>
                                     <span className="text-muted-foreground">Diff:</span> {task.difference !== null ? `${task.difference > 0 ? '+' : ''}${task.difference} min` : '-'}
                                 </div>
+                                {/* Pause timeline */}
+                                {taskPauses.length > 0 && (
+                                    <div className="col-span-2 mt-2 space-y-1">
+                                        <span className="text-muted-foreground">Pauzy ({taskPauses.length}):</span>
+                                        {taskPauses.map((pause) => (
+                                            <div key={pause.id} className="flex items-center justify-between gap-2 text-xs border-l-2 border-orange-400 pl-2">
+                                                <span>
+                                                    {formatDisplayTime(pause.started_at)}–{pause.ended_at ? formatDisplayTime(pause.ended_at) : 'trwa'}
+                                                    {' · '}
+                                                    {pause.reason ? PAUSE_REASON_LABELS[pause.reason] : UNKNOWN_PAUSE_REASON_LABEL}
+                                                </span>
+                                                <span className="text-muted-foreground">{pauseMinutes(pause)} min</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                                {/* Handed-over segments; the time after the last one belongs to the current assignee */}
+                                {taskSegments.length > 0 && (
+                                    <div className="col-span-2 mt-2 space-y-1">
+                                        <span className="text-muted-foreground">Przekazania ({taskSegments.length}):</span>
+                                        {taskSegments.map((segment) => (
+                                            <div key={segment.id} className="flex items-center justify-between gap-2 text-xs border-l-2 border-sky-400 pl-2">
+                                                <span className="flex items-center gap-1">
+                                                    {(segment.user_id && historyLookups.staffName(segment.user_id)) || 'Nieznany pracownik'}
+                                                    {' · '}
+                                                    {formatDisplayTime(segment.started_at)}–{formatDisplayTime(segment.ended_at)}
+                                                    <ArrowRightLeft className="h-3 w-3 text-muted-foreground" />
+                                                    {(segment.handed_over_to && historyLookups.staffName(segment.handed_over_to)) || 'Nieznany pracownik'}
+                                                </span>
+                                                <span className="text-muted-foreground">{segment.worked_minutes} min</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
                             </CardContent>
                         </Card>
 
+                        {/* Cleaning checklist */}
+                        {taskChecklist.length > 0 && (
+                            <div className="space-y-1">
+                                <Label className="flex items-center gap-1 text-muted-foreground">
+                                    <ListChecks className="h-4 w-4" />
+                                    Lista kontrolna ({checklistProgress(taskChecklist).done}/{taskChecklist.length})
+                                </Label>
+                                <ul className="text-sm border p-2 rounded bg-muted/30 space-y-1">
+                                    {taskChecklist.map((item) => (
+                                        <li key={item.id} className={cn("flex items-center gap-2", !item.done && item.required && "text-orange-700 dark:text-orange-300")}>
+                                            {item.done
+                                                ? <CheckCircle2 className="h-4 w-4 text-green-600 flex-shrink-0" />
+                                                : <Circle className="h-4 w-4 text-muted-foreground flex-shrink-0" />}
+                                            <span>{item.label}</span>
+                                            {item.required && !item.done && <span className="text-xs">(wymagane)</span>}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+
+                        {/* Photos of the finished work */}
+                        {taskPhotos.length > 0 && (
+                            <div className="space-y-1">
+                                <Label className="flex items-center gap-1 text-muted-foreground">
+                                    <ImageIcon className="h-4 w-4" />
+                                    Zdjęcia po sprzątaniu ({taskPhotos.length})
+                                </Label>
+                                <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                                    {taskPhotos.map((photo) => (
+                                        <a
+                                            key={photo.id}
+                                            href={photo.photo_url}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="block hover:opacity-80"
+                                            title={formatDisplayTime(photo.created_at)}
+                                        >
+                                            <img
+                                                src={photo.photo_url}
+                                                alt="Zdjęcie po sprzątaniu"
+                                                className="aspect-square w-full object-cover rounded border"
+                                                loading="lazy"
+                                            />
+                                        </a>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
                         {/* Housekeeping Note */}
                         {task.housekeeping_notes && (
                             <div className="space-y-1">
@@ -1247,6 +1568,11 @@ export function TaskDetailDialog({
                             <DialogClose asChild>
                                 <Button type="button" variant="outline">Close</Button>
                             </DialogClose>
+                            {canHandover && (
+                                <Button type="button" variant="outline" onClick={() => setIsHandoverDialogOpen(true)} disabled={isHandingOver}>
+                                    <ArrowRightLeft className="mr-2 h-4 w-4" /> Przekaż
+                                </Button>
+                            )}
                             <Button type="button" onClick={handleEditClick}>
                                 <Edit2 className="mr-2 h-4 w-4" /> Edit
                             </Button>
@@ -1265,6 +1591,15 @@ export function TaskDetailDialog({
             initialValue={task?.actual_time ?? null}
             isSubmitting={isUpdating}
         />
+        <TaskHandoverDialog
+            isOpen={isHandoverDialogOpen}
+            onOpenChange={setIsHandoverDialogOpen}
+            onConfirm={handleHandoverConfirm}
+            staffOptions={housekeepingStaff.filter(staff => staff.id !== task.user?.id)}
+            currentStaffName={task.user?.name ?? null}
+            workedMinutes={isHandoverDialogOpen ? currentSegmentMinutes(task) : 0}
+            isSubmitting={isHandingOver}
+        />
         </>
     );
 }
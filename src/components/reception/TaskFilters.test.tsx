@@ -76,3 +76,28 @@ describe('showDoneStatus', () => {
     expect(screen.queryByRole('option', { name: 'Skończone' })).not.toBeInTheDocument();
   });
 });
+
+describe('filter presets', () => {
+  const preset = {
+    id: 'p1',
+    name: 'P2 wyjazdy',
+    filters: { date: null, status: 'todo' as const, staffId: 'all', roomGroup: 'P2' as const, roomId: 'all', scope: 'upcoming' as const },
+  };
+
+  it('is hidden without onApplyPreset', () => {
+    render(<TaskFilters {...defaultProps} presets={[preset]} />);
+    expect(screen.queryByRole('button', { name: 'P2 wyjazdy' })).not.toBeInTheDocument();
+  });
+
+  it('applies and deletes a saved preset', async () => {
+    const onApplyPreset = vi.fn();
+    const onDeletePreset = vi.fn();
+    render(<TaskFilters {...defaultProps} presets={[preset]} onApplyPreset={onApplyPreset} onDeletePreset={onDeletePreset} />);
+
+    await userEvent.click(screen.getByRole('button', { name: 'P2 wyjazdy' }));
+    expect(onApplyPreset).toHaveBeenCalledWith(preset);
+
+    await userEvent.click(screen.getByRole('button', { name: 'Usuń preset P2 wyjazdy' }));
+    expect(onDeletePreset).toHaveBeenCalledWith('p1');
+  });
+});
@@ -1,16 +1,18 @@
 // src/components/reception/TaskFilters.tsx
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
-import { X, CalendarIcon } from "lucide-react";
+import { X, CalendarIcon, Bookmark, Save } from "lucide-react";
 import { format } from "date-fns";
 import { pl } from "date-fns/locale";
 import { cn } from "@/lib/utils";
 import type { Staff, Room } from '@/hooks/useReceptionData'; // Import Room type
 import type { Database } from "@/integrations/supabase/types"; // Import Database types
+import type { FilterPreset } from "@/hooks/useFilterPresets";
 
 type TaskStatus = Database["public"]["Enums"]["task_status"];
 type RoomGroup = Database["public"]["Enums"]["room_group"];
@@ -60,6 +62,11 @@ interface TaskFiltersProps {
   lockedDate?: string | null;
   availableStatusValues?: Set<string>;
   showUnassigned?: boolean;
+  // Saved presets of the signed-in user; the bar is hidden without onApplyPreset
+  presets?: FilterPreset[];
+  onApplyPreset?: (preset: FilterPreset) => void;
+  onSavePreset?: (name: string) => Promise<boolean>;
+  onDeletePreset?: (presetId: string) => void;
 }
 
 export const TaskFilters = ({
@@ -89,6 +96,10 @@ export const TaskFilters = ({
   lockedDate = null,
   availableStatusValues,
   showUnassigned = true,
+  presets = [],
+  onApplyPreset,
+  onSavePreset,
+  onDeletePreset,
 }: TaskFiltersProps) => {
   // Filter available rooms based on selected room group
   const filteredRooms = useMemo(() => {
@@ -151,6 +162,10 @@ export const TaskFilters = ({
 
   return (
     <div className={`grid gap-4 md:grid-cols-2 ${showRoomGroupFilter ? (showDateRange ? 'lg:grid-cols-7' : 'lg:grid-cols-6') : (showDateRange ? 'lg:grid-cols-6' : 'lg:grid-cols-5')} mb-4 items-end`}>
+      {/* Saved presets span the whole row above the filters */}
+      {onApplyPreset && (
+        <FilterPresetBar presets={presets} onApply={onApplyPreset} onSave={onSavePreset} onDelete={onDeletePreset} />
+      )}
       {/* Date Filter: single date or date range (Od / Do) with calendar picker */}
       {showDateRange ? (
         <>
@@ -373,3 +388,77 @@ export const TaskFilters = ({
     </div>
   );
 };
+
+interface FilterPresetBarProps {
+  presets: FilterPreset[];
+  onApply: (preset: FilterPreset) => void;
+  onSave?: (name: string) => Promise<boolean>;
+  onDelete?: (presetId: string) => void;
+}
+
+const FilterPresetBar = ({ presets, onApply, onSave, onDelete }: FilterPresetBarProps) => {
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!onSave || !name.trim()) return;
+    setSaving(true);
+    const saved = await onSave(name);
+    setSaving(false);
+    if (saved) {
+      setName("");
+      setSaveOpen(false);
+    }
+  };
+
+  return (
+    <div className="col-span-full flex flex-wrap items-center gap-2">
+      <span className="flex items-center gap-1 text-sm text-muted-foreground">
+        <Bookmark className="h-4 w-4" /> Presety:
+      </span>
+      {presets.length === 0 && <span className="text-sm text-muted-foreground">brak zapisanych</span>}
+      {presets.map(preset => (
+        <span key={preset.id} className="inline-flex items-center rounded-md border bg-card">
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => onApply(preset)}>
+            {preset.name}
+          </Button>
+          {onDelete && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-1.5 text-muted-foreground"
+              onClick={() => onDelete(preset.id)}
+              aria-label={`Usuń preset ${preset.name}`}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          )}
+        </span>
+      ))}
+      {onSave && (
+        <Popover open={saveOpen} onOpenChange={setSaveOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="h-7 text-xs">
+              <Save className="mr-1 h-3.5 w-3.5" />
+              Zapisz filtry
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64 space-y-2" align="start">
+            <Label htmlFor="filter-preset-name">Nazwa presetu</Label>
+            <Input
+              id="filter-preset-name"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              onKeyDown={e => { if (e.key === "Enter") handleSave(); }}
+              placeholder="np. P2 wyjazdy dziś"
+            />
+            <Button size="sm" className="w-full" onClick={handleSave} disabled={saving || !name.trim()}>
+              Zapisz
+            </Button>
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+// src/components/reception/TaskHandoverDialog.tsx
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Staff } from "@/hooks/useReceptionData";
+
+interface TaskHandoverDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (newStaffId: string) => void;
+  /** Housekeepers the task can go to; the current assignee is left out. */
+  staffOptions: Staff[];
+  currentStaffName: string | null;
+  /** Minutes the current assignee has worked on the task so far. */
+  workedMinutes: number;
+  isSubmitting?: boolean;
+}
+
+export function TaskHandoverDialog({
+  isOpen,
+  onOpenChange,
+  onConfirm,
+  staffOptions,
+  currentStaffName,
+  workedMinutes,
+  isSubmitting = false,
+}: TaskHandoverDialogProps) {
+  const [staffId, setStaffId] = useState<string>("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setStaffId("");
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const handleConfirm = () => {
+    if (!staffId) {
+      setError("Wybierz osobę, która dokończy zadanie.");
+      return;
+    }
+    setError(null);
+    onConfirm(staffId);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Przekaż zadanie</DialogTitle>
+          <DialogDescription>
+            {currentStaffName ?? "Obecna osoba"} zachowuje {workedMinutes} min przepracowanych przy tym zadaniu.
+            Zadanie zostanie wstrzymane i będzie czekać, aż nowa osoba je wznowi.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="handover-staff">Dokończy</Label>
+            <Select
+              value={staffId}
+              onValueChange={(value) => {
+                setStaffId(value);
+                setError(null);
+              }}
+              disabled={isSubmitting}
+            >
+              <SelectTrigger id="handover-staff">
+                <SelectValue placeholder="Wybierz personel..." />
+              </SelectTrigger>
+              <SelectContent>
+                {staffOptions.map(staff => (
+                  <SelectItem key={staff.id} value={staff.id}>
+                    {staff.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Anuluj
+          </Button>
+          <Button onClick={handleConfirm} disabled={isSubmitting}>
+            {isSubmitting ? "Przekazywanie..." : "Przekaż"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
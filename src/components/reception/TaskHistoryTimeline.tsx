@@ -0,0 +1,82 @@
+// src/components/reception/TaskHistoryTimeline.tsx
+import { useMemo } from "react";
+import { ArrowRight } from "lucide-react";
+import {
+  CHANGE_SOURCE_LABELS,
+  describeTaskEventChanges,
+  type TaskEvent,
+  type TaskEventLookups,
+} from "@/lib/task-events";
+
+export interface TaskHistoryEvent extends TaskEvent {
+  actor?: { id: string; name: string; first_name: string | null; last_name: string | null } | null;
+}
+
+interface TaskHistoryTimelineProps {
+  events: TaskHistoryEvent[];
+  isLoading: boolean;
+  lookups: TaskEventLookups;
+}
+
+const formatEventTime = (value: string) =>
+  new Date(value).toLocaleString("pl-PL", { day: "2-digit", month: "2-digit", hour: "2-digit", minute: "2-digit" });
+
+const actorName = (event: TaskHistoryEvent) => {
+  if (!event.actor) return event.source === "system" ? "System" : "Nieznany użytkownik";
+  return event.actor.first_name && event.actor.last_name
+    ? `${event.actor.first_name} ${event.actor.last_name}`
+    : event.actor.name;
+};
+
+export function TaskHistoryTimeline({ events, isLoading, lookups }: TaskHistoryTimelineProps) {
+  const entries = useMemo(
+    () => events.map(event => ({ event, changes: describeTaskEventChanges(event.changes, lookups) })),
+    [events, lookups]
+  );
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground py-6 text-center">Ładowanie historii...</p>;
+  }
+
+  if (entries.length === 0) {
+    return (
+      <p className="text-sm border p-2 rounded bg-muted/30 italic text-muted-foreground/70">
+        Brak zapisanej historii zmian dla tego zadania.
+      </p>
+    );
+  }
+
+  return (
+    <ol className="relative border-l ml-2 space-y-4">
+      {entries.map(({ event, changes }) => (
+        <li key={event.id} className="ml-4">
+          <span className="absolute -left-[5px] mt-1.5 h-2.5 w-2.5 rounded-full bg-primary" />
+          <div className="flex flex-wrap items-baseline gap-x-2 text-sm">
+            <span className="font-medium">{event.action === "created" ? "Utworzono zadanie" : "Zmiana"}</span>
+            <span className="text-muted-foreground">{actorName(event)}</span>
+            {event.source && (
+              <span className="text-xs rounded bg-muted px-1.5 py-0.5 text-muted-foreground">
+                {CHANGE_SOURCE_LABELS[event.source]}
+              </span>
+            )}
+            <span className="ml-auto text-xs text-muted-foreground tabular-nums">{formatEventTime(event.created_at)}</span>
+          </div>
+          <ul className="mt-1 space-y-0.5 text-sm">
+            {changes.map(change => (
+              <li key={change.field} className="flex flex-wrap items-center gap-1">
+                <span className="text-muted-foreground">{change.label}:</span>
+                {event.action === "updated" && (
+                  <>
+                    <span className="line-through text-muted-foreground/80">{change.from ?? "—"}</span>
+                    <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                  </>
+                )}
+                <span>{change.to ?? "—"}</span>
+              </li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ol>
+  );
+}
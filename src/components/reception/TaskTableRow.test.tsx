@@ -18,6 +18,10 @@ const baseTask = {
   difference: null,
   issue_flag: false,
   ready_to_clean: false,
+  ready_at: null as string | null,
+  attempt_count: 0,
+  last_attempt_reason: null as string | null,
+  retry_at: null as string | null,
   housekeeping_notes: null,
   reception_notes: null,
   start_time: null,
@@ -113,6 +117,16 @@ describe('room indicator', () => {
     expect(screen.getByTestId('room-indicator').className).toContain('bg-emerald-500');
   });
 
+  it('is green once a scheduled release time has passed', () => {
+    renderRow({ status: 'todo', ready_at: '2020-01-01T10:00:00Z' });
+    expect(screen.getByTestId('room-indicator').className).toContain('bg-emerald-500');
+  });
+
+  it('stays red until a scheduled release time', () => {
+    renderRow({ status: 'todo', ready_at: '2999-01-01T10:00:00Z' });
+    expect(screen.getByTestId('room-indicator').className).toContain('bg-red-500');
+  });
+
   it.each(['in_progress', 'paused', 'done', 'repair_needed'])(
     'is hidden for status %s',
     (status) => {
@@ -121,3 +135,94 @@ describe('room indicator', () => {
     }
   );
 });
+
+describe('scheduled release time', () => {
+  it('sets the time on the task date', async () => {
+    const onSchedule = vi.fn().mockResolvedValue(true);
+    renderRow({}, { onToggleReadyToClean: vi.fn(), onScheduleReadyToClean: onSchedule });
+
+    await userEvent.click(screen.getByRole('button', { name: /Godzina zwolnienia/ }));
+    const input = document.querySelector('input[type="time"]') as HTMLInputElement;
+    await userEvent.type(input, '11:00');
+    await userEvent.click(screen.getByRole('button', { name: 'Ustaw' }));
+
+    expect(onSchedule).toHaveBeenCalledWith('task-1', new Date('2026-08-15T11:00').toISOString());
+  });
+
+  it('is not offered once the room is flagged free', () => {
+    renderRow({ ready_to_clean: true }, { onToggleReadyToClean: vi.fn(), onScheduleReadyToClean: vi.fn() });
+    expect(screen.queryByRole('button', { name: /Godzina zwolnienia/ })).not.toBeInTheDocument();
+  });
+});
+
+describe('refused attempts', () => {
+  it('shows the attempt count with the latest reason', () => {
+    renderRow({ attempt_count: 2, last_attempt_reason: 'do_not_disturb' });
+    expect(screen.getByTestId('attempt-badge')).toHaveTextContent('DND · 2×');
+  });
+
+  it('shows nothing for a task without attempts', () => {
+    renderRow({});
+    expect(screen.queryByTestId('attempt-badge')).not.toBeInTheDocument();
+  });
+
+  it('schedules a retry on the task date', async () => {
+    const onScheduleRetry = vi.fn().mockResolvedValue(true);
+    renderRow({ attempt_count: 1, last_attempt_reason: 'guest_refused' }, { onScheduleRetry });
+
+    await userEvent.click(screen.getByRole('button', { name: /Godzina ponowienia/ }));
+    const input = document.querySelector('input[type="time"]') as HTMLInputElement;
+    await userEvent.type(input, '14:30');
+    await userEvent.click(screen.getByRole('button', { name: 'Ustaw' }));
+
+    expect(onScheduleRetry).toHaveBeenCalledWith('task-1', new Date('2026-08-15T14:30').toISOString());
+  });
+
+  it('does not offer a retry once the task is done', () => {
+    renderRow({ status: 'done', attempt_count: 1, last_attempt_reason: 'guest_refused' }, { onScheduleRetry: vi.fn() });
+    expect(screen.getByTestId('attempt-badge')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /Godzina ponowienia/ })).not.toBeInTheDocument();
+  });
+});
+
+describe('overrun highlight', () => {
+  const alert = { taskId: 'task-1', roomName: '101', staffName: null, elapsedMinutes: 45, timeLimit: 30, percent: 150 };
+
+  it('marks a task past its limit and shows the live elapsed time', () => {
+    renderRow({ status: 'in_progress' }, { overrun: { ...alert, level: 'over' } });
+    expect(screen.getByRole('row')).toHaveAttribute('data-overrun', 'over');
+    expect(screen.getByText('45m')).toHaveClass('text-red-600');
+  });
+
+  it('marks a task nearing its limit as a warning', () => {
+    renderRow({ status: 'in_progress' }, { overrun: { ...alert, level: 'warning', elapsedMinutes: 27, percent: 90 } });
+    expect(screen.getByRole('row')).toHaveAttribute('data-overrun', 'warning');
+  });
+
+  it('leaves a task without an alert unmarked', () => {
+    renderRow({});
+    expect(screen.getByRole('row')).not.toHaveAttribute('data-overrun');
+  });
+});
+
+describe('row selection', () => {
+  it('shows no checkbox when selection is off', () => {
+    renderRow({});
+    expect(screen.queryByRole('checkbox', { name: 'Zaznacz — 101' })).not.toBeInTheDocument();
+  });
+
+  it('reports the row being selected', async () => {
+    const onSelectChange = vi.fn();
+    renderRow({}, { isSelected: false, onSelectChange });
+
+    await userEvent.click(screen.getByRole('checkbox', { name: 'Zaznacz — 101' }));
+
+    expect(onSelectChange).toHaveBeenCalledWith('task-1', true);
+  });
+
+  it('highlights a selected row', () => {
+    renderRow({}, { isSelected: true, onSelectChange: vi.fn() });
+    expect(screen.getByRole('checkbox', { name: 'Zaznacz — 101' })).toBeChecked();
+    expect(screen.getByRole('row')).toHaveClass('bg-primary/5');
+  });
+});
@@ -1,12 +1,19 @@
 // src/components/reception/TaskTableRow.tsx
-import React from "react";
+import React, { useState } from "react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { TableCell, TableRow } from "@/components/ui/table";
-import { User, Eye, Trash2, AlertTriangle, MessageSquare, CalendarDays, GripVertical } from "lucide-react";
+import { User, Eye, Trash2, AlertTriangle, MessageSquare, CalendarDays, GripVertical, Clock, DoorClosed } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { cn, formatMinutesAsHm, formatDifferenceAsHm } from "@/lib/utils";
 import { CAPACITY_ID_TO_LABEL, renderCapacityIconPattern } from "@/lib/capacity-utils";
+import type { OverrunAlert } from "@/lib/task-overrun";
+import { TRASH_RETENTION_DAYS } from "@/lib/task-trash";
+import { isAwaitingCleaning as isReadyToClean, timeOfDay, timeOnTaskDate } from "@/lib/task-utils";
+import { SERVICE_REFUSAL_REASON_LABELS, formatAttemptBadge, type ServiceRefusalReason } from "@/lib/service-refusals";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -39,6 +46,11 @@ interface Task {
   difference: number | null;
   issue_flag: boolean;
   ready_to_clean?: boolean;
+  ready_at?: string | null;
+  attempt_count?: number;
+  last_attempt_reason?: ServiceRefusalReason | null;
+  last_attempt_at?: string | null;
+  retry_at?: string | null;
   housekeeping_notes: string | null;
   reception_notes: string | null;
   start_time: string | null; // Keep if needed elsewhere (e.g., detail view)
@@ -61,17 +73,26 @@ interface TaskTableRowProps {
   isDeleting: boolean;
   onToggleReadyToClean?: (taskId: string, readyToClean: boolean) => Promise<boolean>;
   isTogglingReadyToClean?: boolean;
+  onScheduleReadyToClean?: (taskId: string, readyAt: string | null) => Promise<boolean>;
+  // Next attempt after a DND / refused visit (null clears it)
+  onScheduleRetry?: (taskId: string, retryAt: string | null) => Promise<boolean>;
+  isSchedulingRetry?: boolean;
+  // Row selection for the bulk action bar; the checkbox is hidden when not given
+  isSelected?: boolean;
+  onSelectChange?: (taskId: string, selected: boolean) => void;
   innerRef?: React.Ref<HTMLTableRowElement>;
   dragStyle?: React.CSSProperties;
   dragListeners?: Record<string, unknown>;
   dragAttributes?: React.HTMLAttributes<HTMLElement>;
   showDragHandle?: boolean;
+  // Set while the task is running close to or past its time limit
+  overrun?: OverrunAlert | null;
 }
 
 export const TaskTableRow = ({
   task, staff, onViewDetails, onDeleteTask, isDeleting,
-  onToggleReadyToClean, isTogglingReadyToClean,
-  innerRef, dragStyle, dragListeners, dragAttributes, showDragHandle,
+  onToggleReadyToClean, isTogglingReadyToClean, onScheduleReadyToClean, onScheduleRetry, isSchedulingRetry, isSelected, onSelectChange,
+  innerRef, dragStyle, dragListeners, dragAttributes, showDragHandle, overrun,
 }: TaskTableRowProps) => {
 
   const getStatusColor = (status: string) => {
@@ -139,7 +160,12 @@ export const TaskTableRow = ({
   // it drives the dot next to the room name and enables the switch. Every other
   // status hides the dot and locks the switch.
   const isAwaitingCleaning = task.status === 'todo';
-  const isRoomFree = !!task.ready_to_clean;
+  // A scheduled ready_at that has passed counts as free before the database job flips the flag
+  const isRoomFree = isReadyToClean(task);
+  const scheduledTime = !isRoomFree && task.ready_at ? timeOfDay(task.ready_at) : null;
+  // Refused visits (DND, guest said no) are counted apart from the completion
+  const attemptBadge = formatAttemptBadge(task);
+  const retryTime = task.retry_at ? timeOfDay(task.retry_at) : null;
 
   const hasNotes = !!task.housekeeping_notes || !!task.reception_notes;
   // Construct tooltip content, handling null notes
@@ -150,8 +176,23 @@ export const TaskTableRow = ({
       ref={innerRef}
       style={dragStyle}
       {...(dragAttributes || {})}
-      className="border-b hover:bg-muted/50 transition-colors text-sm"
+      className={cn(
+        "border-b hover:bg-muted/50 transition-colors text-sm",
+        overrun?.level === 'over' && "bg-red-50 hover:bg-red-100/70 dark:bg-red-900/20 dark:hover:bg-red-900/30",
+        overrun?.level === 'warning' && "bg-amber-50 hover:bg-amber-100/70 dark:bg-amber-900/20 dark:hover:bg-amber-900/30",
+        isSelected && "bg-primary/5"
+      )}
+      data-overrun={overrun?.level}
     >
+      {onSelectChange && (
+        <TableCell className="w-8 p-2 align-middle">
+          <Checkbox
+            checked={!!isSelected}
+            onCheckedChange={(checked) => onSelectChange(task.id, checked === true)}
+            aria-label={`Zaznacz — ${task.room.name}`}
+          />
+        </TableCell>
+      )}
       {showDragHandle && (
         <TableCell className="w-8 p-2 cursor-grab touch-none" {...(dragListeners as any || {})}>
           <GripVertical className="h-4 w-4 text-muted-foreground" />
@@ -162,6 +203,40 @@ export const TaskTableRow = ({
         <Badge className={cn(getStatusColor(task.status), "whitespace-nowrap text-xs px-2 py-0.5")}>
           {getStatusLabel(task.status)}
         </Badge>
+        {attemptBadge && (
+          <span className="mt-1 flex items-center gap-1">
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Badge
+                  variant="outline"
+                  data-testid="attempt-badge"
+                  className="whitespace-nowrap border-slate-400 text-slate-700 dark:border-slate-600 dark:text-slate-200 text-xs px-1.5 py-0"
+                >
+                  <DoorClosed className="h-3 w-3 mr-1" />
+                  {attemptBadge}
+                </Badge>
+              </TooltipTrigger>
+              <TooltipContent side="top">
+                <p>
+                  {task.last_attempt_reason ? SERVICE_REFUSAL_REASON_LABELS[task.last_attempt_reason] : 'Nieudana próba'}
+                  {task.last_attempt_at ? ` o ${timeOfDay(task.last_attempt_at)}` : ''}
+                  {retryTime ? ` · ponowienie o ${retryTime}` : ''}
+                </p>
+              </TooltipContent>
+            </Tooltip>
+            {onScheduleRetry && task.status === 'todo' && (
+              <TimeOfDayPopover
+                task={task}
+                currentTime={retryTime}
+                heading="Ponów sprzątanie o"
+                triggerLabel="Godzina ponowienia"
+                prefix="o"
+                disabled={!!isSchedulingRetry}
+                onSchedule={onScheduleRetry}
+              />
+            )}
+          </span>
+        )}
       </TableCell>
       {/* Room — dot shows whether the room is free */}
       <TableCell className="p-2 align-middle font-medium text-center">
@@ -178,7 +253,7 @@ export const TaskTableRow = ({
                 />
               </TooltipTrigger>
               <TooltipContent side="top">
-                <p>{isRoomFree ? "Pokój wolny" : "Pokój zajęty"}</p>
+                <p>{isRoomFree ? "Pokój wolny" : scheduledTime ? `Pokój wolny od ${scheduledTime}` : "Pokój zajęty"}</p>
               </TooltipContent>
             </Tooltip>
           )}
@@ -188,30 +263,43 @@ export const TaskTableRow = ({
       {/* Room free switch */}
       <TableCell className="p-2 align-middle text-center">
         {onToggleReadyToClean ? (
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <span className="inline-flex items-center justify-center">
-                <Switch
-                  checked={!!task.ready_to_clean}
-                  disabled={isTogglingReadyToClean || !isAwaitingCleaning}
-                  onCheckedChange={(checked) => onToggleReadyToClean(task.id, checked)}
-                  aria-label={`Pokój wolny — ${task.room.name}`}
-                  className="data-[state=checked]:bg-emerald-500"
-                />
-              </span>
-            </TooltipTrigger>
-            <TooltipContent side="top">
-              <p>
-                {!isAwaitingCleaning
-                  ? "Dostępne tylko dla zadań do sprzątania"
-                  : task.ready_to_clean
-                    ? "Pokój wolny — wyłącz, aby cofnąć"
-                    : "Włącz, gdy pokój jest wolny"}
-              </p>
-            </TooltipContent>
-          </Tooltip>
+          <span className="inline-flex items-center justify-center gap-1">
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <span className="inline-flex items-center justify-center">
+                  <Switch
+                    checked={!!task.ready_to_clean}
+                    disabled={isTogglingReadyToClean || !isAwaitingCleaning}
+                    onCheckedChange={(checked) => onToggleReadyToClean(task.id, checked)}
+                    aria-label={`Pokój wolny — ${task.room.name}`}
+                    className="data-[state=checked]:bg-emerald-500"
+                  />
+                </span>
+              </TooltipTrigger>
+              <TooltipContent side="top">
+                <p>
+                  {!isAwaitingCleaning
+                    ? "Dostępne tylko dla zadań do sprzątania"
+                    : task.ready_to_clean
+                      ? "Pokój wolny — wyłącz, aby cofnąć"
+                      : "Włącz, gdy pokój jest wolny"}
+                </p>
+              </TooltipContent>
+            </Tooltip>
+            {onScheduleReadyToClean && isAwaitingCleaning && !task.ready_to_clean && (
+              <TimeOfDayPopover
+                task={task}
+                currentTime={scheduledTime}
+                heading="Pokój wolny od"
+                triggerLabel="Godzina zwolnienia"
+                prefix="od"
+                disabled={!!isTogglingReadyToClean}
+                onSchedule={onScheduleReadyToClean}
+              />
+            )}
+          </span>
         ) : (
-          <span className="text-muted-foreground">{task.ready_to_clean ? "Tak" : "-"}</span>
+          <span className="text-muted-foreground">{task.ready_to_clean ? "Tak" : scheduledTime ? `od ${scheduledTime}` : "-"}</span>
         )}
       </TableCell>
       {/* Type Column */}
@@ -272,7 +360,30 @@ export const TaskTableRow = ({
       </TableCell>
       {/* Actual */}
       <TableCell className="p-2 align-middle text-center tabular-nums">
-        {formatMinutesAsHm(task.actual_time)}
+        {overrun ? (
+          // Still running, so show the live elapsed time instead of the empty actual time
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <span
+                className={cn(
+                  "font-medium",
+                  overrun.level === 'over' ? "text-red-600 dark:text-red-400" : "text-amber-600 dark:text-amber-400"
+                )}
+              >
+                {formatMinutesAsHm(overrun.elapsedMinutes)}
+              </span>
+            </TooltipTrigger>
+            <TooltipContent side="top">
+              <p>
+                {overrun.level === 'over'
+                  ? `Przekroczono limit o ${formatMinutesAsHm(overrun.elapsedMinutes - overrun.timeLimit)}`
+                  : `Wykorzystano ${overrun.percent}% limitu`}
+              </p>
+            </TooltipContent>
+          </Tooltip>
+        ) : (
+          formatMinutesAsHm(task.actual_time)
+        )}
       </TableCell>
       {/* Difference */}
       <TableCell
@@ -324,9 +435,10 @@ export const TaskTableRow = ({
               <AlertDialogHeader>
                 <AlertDialogTitle>Jesteś pewien?</AlertDialogTitle>
                 <AlertDialogDescription>
-                  Tej operacji nie można cofnąć. To trwale usunie zadanie dla pokoju{" "}
+                  Zadanie dla pokoju{" "}
                   <span className="font-medium">{task.room.name}</span> zaplanowane na{" "}
-                  <span className="font-medium">{formatShortDate(task.date)}</span>.
+                  <span className="font-medium">{formatShortDate(task.date)}</span> trafi do kosza.
+                  Administrator może je przywrócić przez {TRASH_RETENTION_DAYS} dni.
                 </AlertDialogDescription>
               </AlertDialogHeader>
               <AlertDialogFooter>
@@ -346,3 +458,65 @@ export const TaskTableRow = ({
     </TableRow>
   );
 };
+
+interface TimeOfDayPopoverProps {
+  task: Task;
+  /** Currently set time as HH:mm, or null when none is set. */
+  currentTime: string | null;
+  /** Heading inside the popover, e.g. "Pokój wolny od". */
+  heading: string;
+  /** Accessible name of the trigger, followed by the room name. */
+  triggerLabel: string;
+  /** Shown before the set time on the trigger, e.g. "od". */
+  prefix: string;
+  disabled: boolean;
+  onSchedule: (taskId: string, value: string | null) => Promise<boolean>;
+}
+
+// Picks a time of day on the task's date (a checkout hour, a retry); "Usuń" clears it
+const TimeOfDayPopover = ({ task, currentTime, heading, triggerLabel, prefix, disabled, onSchedule }: TimeOfDayPopoverProps) => {
+  const [open, setOpen] = useState(false);
+  const [time, setTime] = useState(currentTime ?? "");
+  const value = timeOnTaskDate(task.date, time);
+
+  const submit = async (next: string | null) => {
+    if (await onSchedule(task.id, next)) setOpen(false);
+  };
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (next) setTime(currentTime ?? "");
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-1.5 text-xs text-muted-foreground"
+          disabled={disabled}
+          aria-label={`${triggerLabel} — ${task.room.name}`}
+        >
+          <Clock className="h-3.5 w-3.5" />
+          {currentTime && <span className="ml-1">{prefix} {currentTime}</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-56 space-y-3" align="center">
+        <p className="text-sm font-medium">{heading}</p>
+        <Input type="time" value={time} onChange={(e) => setTime(e.target.value)} />
+        <div className="flex justify-end gap-2">
+          {currentTime && (
+            <Button variant="outline" size="sm" disabled={disabled} onClick={() => submit(null)}>
+              Usuń
+            </Button>
+          )}
+          <Button size="sm" disabled={disabled || !value} onClick={() => submit(value)}>
+            Ustaw
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,275 @@
+// src/components/reception/WeekCalendar.tsx
+import { useEffect, useMemo, useState } from "react";
+import { DndContext, PointerSensor, useDraggable, useDroppable, useSensor, useSensors, type DragEndEvent } from "@dnd-kit/core";
+import { CSS } from "@dnd-kit/utilities";
+import { format } from "date-fns";
+import { pl } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronLeft, ChevronRight, Plus } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { isMultipleAssignmentLocation } from "@/lib/task-utils";
+import { AddTaskDialog } from "@/components/reception/AddTaskDialog";
+import {
+  buildWeekRows,
+  fetchWeekTasks,
+  matchesWeekFilter,
+  shiftWeek,
+  weekDates,
+  weekMoveBlockReason,
+  weekStartOf,
+  type WeekCalendarFilter,
+  type WeekTask,
+} from "@/lib/week-calendar";
+import type { Room, Staff } from "@/hooks/useReceptionData";
+import type { NewTaskState } from "@/hooks/useReceptionActions";
+
+const statusColors: Record<string, string> = {
+  todo: "bg-rose-100 text-brand-primary dark:bg-rose-900/30 dark:text-rose-200",
+  in_progress: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-200",
+  paused: "bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-200",
+  done: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200",
+  repair_needed: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-200",
+};
+
+const CELL_SEPARATOR = "|";
+
+const parseDate = (date: string) => new Date(`${date}T12:00:00`);
+
+interface WeekCalendarProps<T extends { id: string }> {
+  /** Live task list; a change reloads the week and opens full task details. */
+  tasks: T[];
+  availableRooms: Room[];
+  allStaff: Staff[];
+  filter: WeekCalendarFilter;
+  /** Week shown first; today's week when null. */
+  initialDate: string | null;
+  today: string;
+  initialNewTaskState: NewTaskState;
+  onAddTask: (task: NewTaskState) => Promise<boolean>;
+  isSubmittingTask: boolean;
+  onMoveTask: (task: WeekTask, date: string) => Promise<boolean>;
+  onViewDetails: (task: T) => void;
+}
+
+export function WeekCalendar<T extends { id: string }>({
+  tasks,
+  availableRooms,
+  allStaff,
+  filter,
+  initialDate,
+  today,
+  initialNewTaskState,
+  onAddTask,
+  isSubmittingTask,
+  onMoveTask,
+  onViewDetails,
+}: WeekCalendarProps<T>) {
+  const [weekStart, setWeekStart] = useState(() => weekStartOf(initialDate ?? today));
+  const [weekTasks, setWeekTasks] = useState<WeekTask[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [newTaskCell, setNewTaskCell] = useState<{ roomId: string; date: string } | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (initialDate) setWeekStart(weekStartOf(initialDate));
+  }, [initialDate]);
+
+  const dates = useMemo(() => weekDates(weekStart), [weekStart]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetchWeekTasks(dates)
+      .then(data => { if (!cancelled) setWeekTasks(data); })
+      .catch(error => {
+        console.error("Error loading week tasks:", error);
+        if (!cancelled) toast({ title: "Błąd", description: "Nie udało się wczytać zadań tygodnia.", variant: "destructive" });
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [dates, tasks, reloadKey, toast]);
+
+  const rows = useMemo(() => {
+    const rooms = availableRooms.filter(room =>
+      (filter.roomGroup === "all" || room.group_type === filter.roomGroup) &&
+      (filter.roomId === "all" || room.id === filter.roomId)
+    );
+    return buildWeekRows(rooms, weekTasks.filter(task => matchesWeekFilter(task, filter)), dates);
+  }, [availableRooms, weekTasks, filter, dates]);
+
+  const tasksById = useMemo(() => new Map(tasks.map(task => [task.id, task])), [tasks]);
+
+  // A short distance keeps a plain click for opening the task
+  const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 5 } }));
+
+  const handleDragEnd = async (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over) return;
+    const task = weekTasks.find(t => t.id === String(active.id));
+    const [roomId, date] = String(over.id).split(CELL_SEPARATOR);
+    // A task moves between days only; the room stays the same
+    if (!task || roomId !== task.room.id || date === task.date) return;
+
+    const dayTasks = weekTasks.filter(t => t.room.id === roomId && t.date === date);
+    const reason = weekMoveBlockReason(task, date, dayTasks, today);
+    if (reason) {
+      toast({ title: "Nie można przenieść zadania", description: reason, variant: "destructive" });
+      return;
+    }
+
+    setWeekTasks(prev => prev.map(t => t.id === task.id ? { ...t, date } : t));
+    if (!await onMoveTask(task, date)) setReloadKey(key => key + 1);
+  };
+
+  const handleAddTask = async (newTask: NewTaskState) => {
+    const added = await onAddTask(newTask);
+    if (added) setReloadKey(key => key + 1);
+    return added;
+  };
+
+  return (
+    <div className="p-4" data-testid="week-calendar">
+      <div className="mb-3 flex items-center gap-2">
+        <Button variant="outline" size="sm" className="h-8 px-2" onClick={() => setWeekStart(shiftWeek(weekStart, -1))} aria-label="Poprzedni tydzień">
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="sm" className="h-8" onClick={() => setWeekStart(weekStartOf(today))}>
+          Ten tydzień
+        </Button>
+        <Button variant="outline" size="sm" className="h-8 px-2" onClick={() => setWeekStart(shiftWeek(weekStart, 1))} aria-label="Następny tydzień">
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+        <span className="ml-2 text-sm font-medium">
+          {format(parseDate(dates[0]), "d MMMM", { locale: pl })} – {format(parseDate(dates[6]), "d MMMM yyyy", { locale: pl })}
+        </span>
+        {loading && <div className="ml-2 h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />}
+      </div>
+
+      <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+        <div className="overflow-x-auto rounded-md border">
+          <table className="w-full min-w-[900px] border-collapse text-sm">
+            <thead>
+              <tr className="bg-muted/50">
+                <th className="sticky left-0 z-10 w-24 bg-muted px-2 py-2 text-left font-medium">Pokój</th>
+                {dates.map(date => (
+                  <th
+                    key={date}
+                    className={cn("px-2 py-2 text-left font-medium capitalize", date === today && "text-brand-primary", date < today && "text-muted-foreground")}
+                  >
+                    {format(parseDate(date), "EEEEEE d.MM", { locale: pl })}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.room.id} className="border-t">
+                  <td className="sticky left-0 z-10 bg-background px-2 py-1 font-medium">{row.room.name}</td>
+                  {dates.map(date => (
+                    <WeekCell
+                      key={date}
+                      roomId={row.room.id}
+                      date={date}
+                      tasks={row.cells[date] ?? []}
+                      past={date < today}
+                      canAdd={date >= today && (!row.cells[date]?.length || isMultipleAssignmentLocation(row.room.name))}
+                      onAdd={() => setNewTaskCell({ roomId: row.room.id, date })}
+                      onSelectTask={task => {
+                        const fullTask = tasksById.get(task.id);
+                        if (fullTask) onViewDetails(fullTask);
+                      }}
+                    />
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </DndContext>
+      <p className="mt-2 text-xs text-muted-foreground">
+        Przeciągnij zadanie na inny dzień w tym samym wierszu, aby je przenieść. Kliknij pustą komórkę, aby dodać zadanie.
+      </p>
+
+      <AddTaskDialog
+        availableRooms={availableRooms}
+        allStaff={allStaff}
+        initialState={initialNewTaskState}
+        onSubmit={handleAddTask}
+        isSubmitting={isSubmittingTask}
+        open={newTaskCell !== null}
+        onOpenChange={open => { if (!open) setNewTaskCell(null); }}
+        prefill={newTaskCell}
+      />
+    </div>
+  );
+}
+
+interface WeekCellProps {
+  roomId: string;
+  date: string;
+  tasks: WeekTask[];
+  past: boolean;
+  canAdd: boolean;
+  onAdd: () => void;
+  onSelectTask: (task: WeekTask) => void;
+}
+
+function WeekCell({ roomId, date, tasks, past, canAdd, onAdd, onSelectTask }: WeekCellProps) {
+  const { setNodeRef, isOver } = useDroppable({ id: `${roomId}${CELL_SEPARATOR}${date}`, disabled: past });
+
+  return (
+    <td
+      ref={setNodeRef}
+      className={cn("group h-10 border-l px-1 py-1 align-top", past && "bg-muted/30", isOver && "bg-primary/10")}
+      data-testid={`week-cell-${roomId}-${date}`}
+    >
+      <div className="flex flex-col gap-1">
+        {tasks.map(task => (
+          <WeekTaskChip key={task.id} task={task} draggable={!past && task.status === "todo"} onSelect={() => onSelectTask(task)} />
+        ))}
+        {canAdd && (
+          <button
+            type="button"
+            className="flex h-6 items-center justify-center rounded text-muted-foreground opacity-0 hover:bg-muted focus:opacity-100 group-hover:opacity-100"
+            onClick={onAdd}
+            aria-label={`Dodaj zadanie ${date}`}
+          >
+            <Plus className="h-3.5 w-3.5" />
+          </button>
+        )}
+      </div>
+    </td>
+  );
+}
+
+interface WeekTaskChipProps {
+  task: WeekTask;
+  draggable: boolean;
+  onSelect: () => void;
+}
+
+function WeekTaskChip({ task, draggable, onSelect }: WeekTaskChipProps) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({ id: task.id, disabled: !draggable });
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Translate.toString(transform), opacity: isDragging ? 0.5 : undefined }}
+      {...attributes}
+      {...listeners}
+      onClick={onSelect}
+      className={cn(
+        "flex items-center gap-1 rounded px-1.5 py-0.5 text-xs",
+        statusColors[task.status] ?? "bg-muted text-muted-foreground",
+        draggable ? "cursor-grab" : "cursor-pointer"
+      )}
+      title={task.user?.name ?? "Nieprzypisane"}
+      data-testid="week-task"
+    >
+      <span className="font-semibold">{task.cleaning_type}</span>
+      <span className="truncate">{task.user?.name ?? "—"}</span>
+    </div>
+  );
+}
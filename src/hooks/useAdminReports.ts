@@ -13,6 +13,9 @@ type CleaningType = Database["public"]["Enums"]["cleaning_type"];
 type IssueStatus = Database["public"]["Enums"]["issue_status"];
 type IssuePriority = Database["public"]["Enums"]["issue_priority"];
 type RoomGroup = Database["public"]["Enums"]["room_group"];
+type PauseReason = Database["public"]["Enums"]["pause_reason"];
+type InspectionResult = Database["public"]["Enums"]["inspection_result"];
+type ServiceRefusalReason = Database["public"]["Enums"]["service_refusal_reason"];
 
 export interface TaskReportData {
   id: string;
@@ -54,6 +57,40 @@ export interface WorkLogReportData {
   laundry_minutes: number | null;
 }
 
+export interface PauseReportData {
+  id: string;
+  task_id: string;
+  reason: PauseReason | null;
+  started_at: string;
+  ended_at: string | null;
+}
+
+export interface SegmentReportData {
+  id: string;
+  task_id: string;
+  user_id: string | null;
+  user_name: string | null;
+  worked_minutes: number;
+}
+
+export interface InspectionReportData {
+  id: string;
+  task_id: string;
+  housekeeper_id: string | null;
+  housekeeper_name: string | null;
+  result: InspectionResult;
+  score: number | null;
+}
+
+export interface AttemptReportData {
+  id: string;
+  task_id: string;
+  user_id: string | null;
+  user_name: string | null;
+  reason: ServiceRefusalReason;
+  attempted_at: string;
+}
+
 export interface RoomReportData {
   id: string;
   name: string;
@@ -65,6 +102,10 @@ export interface ReportsData {
   issues: IssueReportData[];
   workLogs: WorkLogReportData[];
   rooms: RoomReportData[];
+  pauses: PauseReportData[];
+  segments: SegmentReportData[];
+  inspections: InspectionReportData[];
+  attempts: AttemptReportData[];
   loading: boolean;
   error: string | null;
 }
@@ -76,6 +117,10 @@ export function useAdminReports(dateRange: DateRange) {
     issues: [],
     workLogs: [],
     rooms: [],
+    pauses: [],
+    segments: [],
+    inspections: [],
+    attempts: [],
     loading: true,
     error: null,
   });
@@ -105,7 +150,7 @@ export function useAdminReports(dateRange: DateRange) {
           room_id,
           created_at,
           room:rooms!inner(id, name, group_type),
-          user:users(id, name, first_name, last_name)
+          user:users!tasks_user_id_fkey(id, name, first_name, last_name)
         `)
         .gte('date', fromDate)
         .lte('date', toDate)
@@ -165,6 +210,38 @@ export function useAdminReports(dateRange: DateRange) {
 
       if (roomsError) throw roomsError;
 
+      // Fetch pause intervals for tasks in the range
+      const { data: pausesData, error: pausesError } = await supabase
+        .from('task_pauses')
+        .select('id, task_id, reason, started_at, ended_at, task:tasks!inner(date)')
+        .gte('task.date', fromDate)
+        .lte('task.date', toDate);
+
+      // Graceful fallback: the pause breakdown stays empty until the task_pauses
+      // migration is applied instead of failing the whole report.
+      if (pausesError) {
+        console.warn('task_pauses not available — apply migration 20261019000100_add_task_pauses.sql in the Supabase dashboard SQL editor.', pausesError);
+      }
+
+      // Fetch handed-over segments of tasks in the range
+      const { data: segmentsData, error: segmentsError } = await supabase
+        .from('task_segments')
+        .select(`
+          id,
+          task_id,
+          user_id,
+          worked_minutes,
+          task:tasks!inner(date),
+          user:users!task_segments_user_id_fkey(id, name, first_name, last_name)
+        `)
+        .gte('task.date', fromDate)
+        .lte('task.date', toDate);
+
+      // Without the migration every task is credited to its assignee, as before.
+      if (segmentsError) {
+        console.warn('task_segments not available — apply migration 20261019000900_add_task_segments.sql in the Supabase dashboard SQL editor.', segmentsError);
+      }
+
       // Transform tasks data
       const transformedTasks: TaskReportData[] = (tasksData || []).map(task => ({
         id: task.id,
@@ -219,11 +296,97 @@ export function useAdminReports(dateRange: DateRange) {
         group_type: room.group_type as RoomGroup,
       }));
 
+      // Fetch inspections of tasks in the range
+      const { data: inspectionsData, error: inspectionsError } = await supabase
+        .from('task_inspections')
+        .select(`
+          id,
+          task_id,
+          housekeeper_id,
+          result,
+          score,
+          task:tasks!inner(date),
+          housekeeper:users!task_inspections_housekeeper_id_fkey(id, name, first_name, last_name)
+        `)
+        .gte('task.date', fromDate)
+        .lte('task.date', toDate);
+
+      if (inspectionsError) {
+        console.warn('task_inspections not available — apply migration 20261019000200_add_task_inspections.sql in the Supabase dashboard SQL editor.', inspectionsError);
+      }
+
+      // Fetch refused visits (DND, guest refused) of tasks in the range
+      const { data: attemptsData, error: attemptsError } = await supabase
+        .from('task_attempts')
+        .select(`
+          id,
+          task_id,
+          user_id,
+          reason,
+          attempted_at,
+          task:tasks!inner(date),
+          user:users!task_attempts_user_id_fkey(id, name, first_name, last_name)
+        `)
+        .gte('task.date', fromDate)
+        .lte('task.date', toDate);
+
+      if (attemptsError) {
+        console.warn('task_attempts not available — apply migration 20261019001200_add_task_service_attempts.sql in the Supabase dashboard SQL editor.', attemptsError);
+      }
+
+      // Transform pauses data
+      const transformedPauses: PauseReportData[] = (pausesError ? [] : pausesData || []).map(pause => ({
+        id: pause.id,
+        task_id: pause.task_id,
+        reason: pause.reason,
+        started_at: pause.started_at,
+        ended_at: pause.ended_at,
+      }));
+
+      // Transform segments data
+      const transformedSegments: SegmentReportData[] = (segmentsError ? [] : segmentsData || []).map(segment => ({
+        id: segment.id,
+        task_id: segment.task_id,
+        user_id: segment.user_id,
+        user_name: segment.user?.first_name && segment.user?.last_name
+          ? `${segment.user.first_name} ${segment.user.last_name}`
+          : segment.user?.name || null,
+        worked_minutes: segment.worked_minutes,
+      }));
+
+      // Transform inspections data
+      const transformedInspections: InspectionReportData[] = (inspectionsError ? [] : inspectionsData || []).map(inspection => ({
+        id: inspection.id,
+        task_id: inspection.task_id,
+        housekeeper_id: inspection.housekeeper_id,
+        housekeeper_name: inspection.housekeeper?.first_name && inspection.housekeeper?.last_name
+          ? `${inspection.housekeeper.first_name} ${inspection.housekeeper.last_name}`
+          : inspection.housekeeper?.name || null,
+        result: inspection.result,
+        score: inspection.score,
+      }));
+
+      // Transform attempts data
+      const transformedAttempts: AttemptReportData[] = (attemptsError ? [] : attemptsData || []).map(attempt => ({
+        id: attempt.id,
+        task_id: attempt.task_id,
+        user_id: attempt.user_id,
+        user_name: attempt.user?.first_name && attempt.user?.last_name
+          ? `${attempt.user.first_name} ${attempt.user.last_name}`
+          : attempt.user?.name || null,
+        reason: attempt.reason,
+        attempted_at: attempt.attempted_at,
+      }));
+
       setData({
         tasks: transformedTasks,
         issues: transformedIssues,
         workLogs: transformedWorkLogs,
         rooms: transformedRooms,
+        pauses: transformedPauses,
+        segments: transformedSegments,
+        inspections: transformedInspections,
+        attempts: transformedAttempts,
         loading: false,
         error: null,
       });
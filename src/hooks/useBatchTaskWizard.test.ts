@@ -1,7 +1,7 @@
 import { renderHook, act } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { useBatchTaskWizard } from './useBatchTaskWizard';
-import type { Staff } from './useReceptionData';
+import type { Room, Staff } from './useReceptionData';
 
 const anna: Staff = { id: 'h1', name: 'Anna Kowalska', role: 'housekeeping' };
 const maria: Staff = { id: 'h2', name: 'Maria Nowak', role: 'housekeeping' };
@@ -81,6 +81,20 @@ describe('useBatchTaskWizard', () => {
     expect(onSubmit).toHaveBeenCalledWith(expect.objectContaining({ roomId: 'room-1', staffId: anna.id }));
   });
 
+  it('submits the deadline set on a task', async () => {
+    const { result } = renderHook(() => useBatchTaskWizard({ allStaff, onSubmit }));
+
+    act(() => { result.current.setDate('2026-10-19'); });
+    act(() => { result.current.addGroup(anna.id); });
+    const groupId = result.current.groups[0].id;
+    const taskId = result.current.groups[0].tasks[0].id;
+    act(() => { result.current.updateTask(groupId, taskId, { roomId: 'room-1', dueTime: '13:00' }); });
+
+    await act(async () => { await result.current.submit(); });
+
+    expect(onSubmit).toHaveBeenCalledWith(expect.objectContaining({ date: '2026-10-19', dueTime: '13:00' }));
+  });
+
   it('empty groups are skipped during submit', async () => {
     const { result } = renderHook(() => useBatchTaskWizard({ allStaff, onSubmit }));
 
@@ -163,4 +177,76 @@ describe('useBatchTaskWizard', () => {
     expect(tasks[0].status).toBe('success');
     expect(tasks[1].status).toBe('success');
   });
+
+  it('importTasks puts imported tasks in the unassigned group, collapsed', () => {
+    const { result } = renderHook(() => useBatchTaskWizard({ allStaff, onSubmit }));
+
+    act(() => {
+      result.current.importTasks([
+        { roomId: 'room-1', cleaningType: 'W', capacityId: 'd', notes: '' },
+        { roomId: 'room-2', cleaningType: 'T', capacityId: 'b', notes: '' },
+      ]);
+    });
+
+    expect(result.current.groups).toHaveLength(1);
+    expect(result.current.groups[0].staffId).toBe('unassigned');
+    expect(result.current.groups[0].tasks.map(t => [t.roomId, t.cleaningType, t.expanded]))
+      .toEqual([['room-1', 'W', false], ['room-2', 'T', false]]);
+    expect(result.current.canSubmit).toBe(true);
+  });
+
+  it('re-importing replaces the same rooms but keeps tasks already created', async () => {
+    const { result } = renderHook(() => useBatchTaskWizard({ allStaff, onSubmit }));
+
+    act(() => { result.current.setDate('2026-10-19'); });
+    act(() => { result.current.importTasks([{ roomId: 'room-1', cleaningType: 'W', capacityId: 'd', notes: '' }]); });
+    await act(async () => { await result.current.submit(); });
+    act(() => {
+      result.current.importTasks([
+        { roomId: 'room-1', cleaningType: 'T', capacityId: 'd', notes: '' },
+        { roomId: 'room-2', cleaningType: 'W', capacityId: 'd', notes: '' },
+      ]);
+    });
+
+    const tasks = result.current.groups[0].tasks;
+    expect(tasks.map(t => [t.roomId, t.cleaningType, t.status]))
+      .toEqual([['room-1', 'W', 'success'], ['room-2', 'W', 'idle']]);
+  });
+
+  it('autoDistribute spreads unassigned tasks by their time limits and keeps the plan editable', () => {
+    const room = (id: string, group_type: Room['group_type'], minutes: number): Room => ({
+      id, name: id, group_type, capacity: 2,
+      capacity_configurations: [{ capacity_id: 'd', capacity_label: '2', cleaning_types: [{ type: 'W', time_limit: minutes }] }],
+    });
+    const availableRooms = [room('r1', 'P1', 60), room('r2', 'P1', 20), room('r3', 'P2', 40), room('r4', 'P2', 40)];
+    const { result } = renderHook(() => useBatchTaskWizard({ allStaff, onSubmit, availableRooms }));
+
+    act(() => {
+      result.current.importTasks(availableRooms.map(r => ({ roomId: r.id, cleaningType: 'W' as const, capacityId: 'd', notes: '' })));
+    });
+    let outcome = { assigned: 0, unassigned: 0 };
+    act(() => { outcome = result.current.autoDistribute([anna.id, maria.id], null); });
+
+    expect(outcome).toEqual({ assigned: 4, unassigned: 0 });
+    expect(result.current.groups.map(g => g.staffId).sort()).toEqual([anna.id, maria.id]);
+    for (const group of result.current.groups) {
+      expect(group.tasks.reduce((sum, t) => sum + result.current.taskMinutes(t), 0)).toBe(80);
+      expect(group.tasks.every(t => t.status === 'idle')).toBe(true);
+    }
+  });
+
+  it('taskMinutes falls back to the limits table for rooms without their own limit', () => {
+    const availableRooms: Room[] = [{ id: 'r1', name: '101', group_type: 'A1S', capacity: 3, capacity_configurations: null }];
+    const timeLimits = [{ group_type: 'A1S' as const, cleaning_type: 'W' as const, guest_count: '3', time_limit: 70 }];
+    const { result } = renderHook(() => useBatchTaskWizard({ allStaff, onSubmit, availableRooms, timeLimits }));
+
+    act(() => {
+      result.current.importTasks([
+        { roomId: 'r1', cleaningType: 'W', capacityId: 'e', notes: '' },
+        { roomId: 'r1', cleaningType: 'T', capacityId: 'e', notes: '' },
+      ]);
+    });
+
+    expect(result.current.groups[0].tasks.map(t => result.current.taskMinutes(t))).toEqual([70, 30]);
+  });
 });
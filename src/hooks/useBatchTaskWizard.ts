@@ -1,6 +1,9 @@
 import { useState, useMemo } from 'react';
-import type { Staff } from './useReceptionData';
+import type { Room, Staff } from './useReceptionData';
 import type { NewTaskState } from './useReceptionActions';
+import type { ImportedTask } from '@/lib/reservation-import';
+import { DEFAULT_TASK_MINUTES, resolveTimeLimit, type TimeLimitRow } from '@/lib/task-time-limits';
+import { balanceWorkload } from '@/lib/workload-balance';
 
 export type BatchTaskStatus = 'idle' | 'submitting' | 'success' | 'error';
 
@@ -10,6 +13,8 @@ export interface BatchTask {
   cleaningType: string;
   capacityId: string;
   notes: string;
+  /** "HH:mm" deadline on the batch date; empty for none. */
+  dueTime: string;
   expanded: boolean;
   status: BatchTaskStatus;
   errorMessage?: string;
@@ -25,16 +30,26 @@ export interface AssignmentGroup {
 interface UseBatchTaskWizardParams {
   allStaff: Staff[];
   onSubmit: (task: NewTaskState) => Promise<boolean>;
+  // Needed for time limits and room groups when distributing tasks
+  availableRooms?: Room[];
+  // Global limits table, for rooms without their own limit
+  timeLimits?: TimeLimitRow[];
 }
 
 function uuid(): string {
   return Math.random().toString(36).slice(2);
 }
 
-export function useBatchTaskWizard({ allStaff, onSubmit }: UseBatchTaskWizardParams) {
+export function useBatchTaskWizard({ allStaff, onSubmit, availableRooms = [], timeLimits = [] }: UseBatchTaskWizardParams) {
   const [date, setDate] = useState('');
   const [groups, setGroups] = useState<AssignmentGroup[]>([]);
 
+  const roomsById = useMemo(() => new Map(availableRooms.map(r => [r.id, r])), [availableRooms]);
+
+  // Planned minutes for a task: the limit its task will get, or an estimate when none is set
+  const taskMinutes = (task: BatchTask): number =>
+    resolveTimeLimit(roomsById.get(task.roomId) ?? null, task.capacityId, task.cleaningType, timeLimits) ?? DEFAULT_TASK_MINUTES;
+
   const reset = () => {
     setDate('');
     setGroups([]);
@@ -52,6 +67,7 @@ export function useBatchTaskWizard({ allStaff, onSubmit }: UseBatchTaskWizardPar
       cleaningType: 'W',
       capacityId: 'd',
       notes: '',
+      dueTime: '',
       expanded: true,
       status: 'idle',
     };
@@ -72,6 +88,7 @@ export function useBatchTaskWizard({ allStaff, onSubmit }: UseBatchTaskWizardPar
           cleaningType: 'W',
           capacityId: 'd',
           notes: '',
+          dueTime: '',
           expanded: true,
           status: 'idle',
         }],
@@ -102,6 +119,68 @@ export function useBatchTaskWizard({ allStaff, onSubmit }: UseBatchTaskWizardPar
     }));
   };
 
+  // Imported tasks land in the unassigned group, collapsed, for review before submit
+  const importTasks = (imported: ImportedTask[]) => {
+    if (imported.length === 0) return;
+    const tasks: BatchTask[] = imported.map(task => ({
+      id: uuid(),
+      roomId: task.roomId,
+      cleaningType: task.cleaningType,
+      capacityId: task.capacityId,
+      notes: task.notes,
+      dueTime: '',
+      expanded: false,
+      status: 'idle',
+    }));
+    setGroups(prev => {
+      const existing = prev.find(g => g.staffId === 'unassigned');
+      if (!existing) return [...prev, { id: uuid(), staffId: 'unassigned', expanded: true, tasks }];
+      // A re-import replaces earlier entries for the same rooms, except ones already created
+      const createdRoomIds = new Set(existing.tasks.filter(t => t.status === 'success').map(t => t.roomId));
+      const newTasks = tasks.filter(t => !createdRoomIds.has(t.roomId));
+      const importedRoomIds = new Set(newTasks.map(t => t.roomId));
+      return prev.map(g => g.id !== existing.id ? g : {
+        ...g,
+        expanded: true,
+        tasks: [...g.tasks.filter(t => t.roomId !== '' && !importedRoomIds.has(t.roomId)), ...newTasks],
+      });
+    });
+  };
+
+  // Moves the unassigned tasks onto the chosen people, balancing their planned minutes.
+  // Tasks that would take everyone past maxMinutes stay unassigned.
+  const autoDistribute = (staffIds: string[], maxMinutes: number | null): { assigned: number; unassigned: number } => {
+    const pool = groups.find(g => g.staffId === 'unassigned');
+    const movable = pool ? pool.tasks.filter(t => t.roomId !== '' && t.status !== 'success') : [];
+    if (movable.length === 0 || staffIds.length === 0) return { assigned: 0, unassigned: movable.length };
+
+    const people = staffIds.map(id => ({
+      id,
+      minutes: (groups.find(g => g.staffId === id)?.tasks ?? []).reduce((sum, t) => sum + taskMinutes(t), 0),
+    }));
+    const plan = balanceWorkload(
+      movable.map(t => ({ id: t.id, roomGroup: roomsById.get(t.roomId)?.group_type ?? '', minutes: taskMinutes(t) })),
+      people,
+      maxMinutes
+    );
+
+    setGroups(prev => {
+      let next = prev.map(g =>
+        g.staffId !== 'unassigned' ? g : { ...g, tasks: g.tasks.filter(t => !plan.assignments[t.id]) }
+      );
+      for (const staffId of staffIds) {
+        const incoming = movable.filter(t => plan.assignments[t.id] === staffId);
+        if (incoming.length === 0) continue;
+        next = next.some(g => g.staffId === staffId)
+          ? next.map(g => g.staffId !== staffId ? g : { ...g, tasks: [...g.tasks, ...incoming] })
+          : [...next, { id: uuid(), staffId, expanded: true, tasks: incoming }];
+      }
+      return next.filter(g => g.staffId !== 'unassigned' || g.tasks.length > 0);
+    });
+
+    return { assigned: Object.keys(plan.assignments).length, unassigned: plan.unassigned.length };
+  };
+
   const toggleGroupExpanded = (groupId: string) => {
     setGroups(prev => prev.map(g =>
       g.id !== groupId ? g : { ...g, expanded: !g.expanded }
@@ -144,6 +223,7 @@ export function useBatchTaskWizard({ allStaff, onSubmit }: UseBatchTaskWizardPar
           staffId: group.staffId === 'unassigned' ? 'unassigned' : group.staffId,
           notes: task.notes,
           date,
+          dueTime: task.dueTime,
         };
 
         const ok = await onSubmit(newTaskState);
@@ -174,6 +254,9 @@ export function useBatchTaskWizard({ allStaff, onSubmit }: UseBatchTaskWizardPar
     removeTask,
     updateTask,
     reorderTasks,
+    importTasks,
+    autoDistribute,
+    taskMinutes,
     toggleGroupExpanded,
     toggleTaskExpanded,
     canSubmit,
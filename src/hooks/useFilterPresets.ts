@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { parseTaskFilterState, type TaskFilterState } from '@/lib/task-filter-url';
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  filters: TaskFilterState;
+}
+
+// PostgREST reports a table it does not know with PGRST205 (42P01 from Postgres)
+const isMissingTable = (error: { code?: string } | null) => error?.code === 'PGRST205' || error?.code === '42P01';
+const MISSING_TABLE_WARNING = 'task_filter_presets not found — apply migration 20261019001400_add_task_filter_presets.sql in the Supabase dashboard SQL editor.';
+
+/** The signed-in user's saved task filter presets. */
+export function useFilterPresets() {
+  const { userId } = useAuth();
+  const { toast } = useToast();
+  const [presets, setPresets] = useState<FilterPreset[]>([]);
+
+  const fetchPresets = useCallback(async () => {
+    if (!userId) {
+      setPresets([]);
+      return;
+    }
+    const { data, error } = await supabase
+      .from('task_filter_presets')
+      .select('id, name, filters')
+      .eq('user_id', userId)
+      .order('name');
+
+    if (isMissingTable(error)) {
+      console.warn(MISSING_TABLE_WARNING);
+      setPresets([]);
+      return;
+    }
+    if (error) {
+      console.error('Error fetching filter presets:', error);
+      return;
+    }
+    setPresets((data ?? []).map(row => ({
+      id: row.id,
+      name: row.name,
+      // Presets saved before the scope was stored open the upcoming tasks
+      filters: parseTaskFilterState((row.filters ?? {}) as Partial<Record<keyof TaskFilterState, unknown>>),
+    })));
+  }, [userId]);
+
+  useEffect(() => {
+    fetchPresets();
+  }, [fetchPresets]);
+
+  // A preset saved under an existing name replaces it
+  const savePreset = async (name: string, filters: TaskFilterState): Promise<boolean> => {
+    const trimmed = name.trim();
+    if (!userId || !trimmed) return false;
+    const { error } = await supabase
+      .from('task_filter_presets')
+      .upsert({ user_id: userId, name: trimmed, filters: { ...filters } }, { onConflict: 'user_id,name' });
+
+    if (error) {
+      if (isMissingTable(error)) console.warn(MISSING_TABLE_WARNING);
+      else console.error('Error saving filter preset:', error);
+      toast({ title: "Błąd", description: "Nie udało się zapisać presetu filtrów.", variant: "destructive" });
+      return false;
+    }
+    toast({ title: "Changes saved", description: `Zapisano preset „${trimmed}”.` });
+    await fetchPresets();
+    return true;
+  };
+
+  const deletePreset = async (presetId: string): Promise<boolean> => {
+    const { error } = await supabase.from('task_filter_presets').delete().eq('id', presetId);
+    if (error) {
+      console.error('Error deleting filter preset:', error);
+      toast({ title: "Błąd", description: "Nie udało się usunąć presetu.", variant: "destructive" });
+      return false;
+    }
+    setPresets(prev => prev.filter(preset => preset.id !== presetId));
+    return true;
+  };
+
+  return { presets, savePreset, deletePreset };
+}
@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { isNetworkError } from '@/lib/offline-queue';
 import type { Task } from '@/pages/Housekeeping';
 
 export function useHousekeepingTasks() {
@@ -35,11 +36,13 @@ export function useHousekeepingTasks() {
       pause_start, pause_stop, total_pause, stop_time, actual_time, difference,
       housekeeping_notes, reception_notes, issue_flag, issue_description, issue_photo, created_at,
       room:rooms!inner(id, name, group_type, color),
-      user:users(id, name)
+      user:users!tasks_user_id_fkey(id, name)
     `;
     // supabase-js strips unquoted whitespace from the select list before sending,
     // so the layout here is purely for readability.
-    const TASK_COLUMNS = `ready_to_clean, ${BASE_COLUMNS}`;
+    const READY_COLUMNS = `ready_to_clean, ${BASE_COLUMNS}`;
+    const DUE_BY_COLUMNS = `checklist, ready_at, due_by, ${READY_COLUMNS}`;
+    const TASK_COLUMNS = `attempt_count, last_attempt_reason, retry_at, ${DUE_BY_COLUMNS}`;
 
     const fetchAllPages = async (select: string): Promise<{ data: any[] | null; error: any }> => {
       const rows: any[] = [];
@@ -63,6 +66,26 @@ export function useHousekeepingTasks() {
 
     let { data, error } = await fetchAllPages(TASK_COLUMNS);
 
+    if (['attempt_count', 'last_attempt_reason', 'retry_at'].some(column => error?.message?.includes(column))) {
+      console.warn('attempt columns not found — apply migration 20261019001200_add_task_service_attempts.sql in the Supabase dashboard SQL editor.');
+      ({ data, error } = await fetchAllPages(DUE_BY_COLUMNS));
+    }
+
+    if (error?.message?.includes('due_by')) {
+      console.warn('due_by column not found — apply migration 20261019001100_add_task_due_by.sql in the Supabase dashboard SQL editor.');
+      ({ data, error } = await fetchAllPages(`checklist, ready_at, ${READY_COLUMNS}`));
+    }
+
+    if (error?.message?.includes('ready_at')) {
+      console.warn('ready_at column not found — apply migration 20261019001000_add_task_ready_at.sql in the Supabase dashboard SQL editor.');
+      ({ data, error } = await fetchAllPages(`checklist, ${READY_COLUMNS}`));
+    }
+
+    if (error?.message?.includes('checklist')) {
+      console.warn('checklist column not found — apply migration 20261019000300_add_cleaning_checklists.sql in the Supabase dashboard SQL editor.');
+      ({ data, error } = await fetchAllPages(READY_COLUMNS));
+    }
+
     // Graceful fallback: if the ready_to_clean column doesn't exist yet (migration
     // pending), retry without it so the list keeps working.
     if (error?.message?.includes('ready_to_clean')) {
@@ -70,7 +93,11 @@ export function useHousekeepingTasks() {
       ({ data, error } = await fetchAllPages(BASE_COLUMNS));
     }
 
-    if (error) {
+    if (error && isNetworkError(error)) {
+      // Keep showing what we already have; queued actions sync once we're back online.
+      console.warn("Offline — keeping the last fetched tasks.");
+      setLoading(false);
+    } else if (error) {
       console.error("Error fetching tasks:", error);
       toast({
         title: "Error",
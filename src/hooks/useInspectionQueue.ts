@@ -0,0 +1,135 @@
+// src/hooks/useInspectionQueue.ts
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { format, subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import type { Database } from '@/integrations/supabase/types';
+import { inspectionScore, isAwaitingInspection, type InspectionChecklistItem } from '@/lib/inspection';
+import { CHANGE_SOURCE_HEADER } from '@/lib/task-events';
+
+type InspectionResult = Database['public']['Enums']['inspection_result'];
+
+/** How far back finished tasks are offered for inspection. */
+const QUEUE_DAYS = 7;
+
+export interface InspectionRecord {
+  id: string;
+  result: InspectionResult;
+  score: number | null;
+  comments: string | null;
+  inspected_at: string;
+}
+
+export interface InspectableTask {
+  id: string;
+  date: string;
+  cleaning_type: Database['public']['Enums']['cleaning_type'];
+  stop_time: string | null;
+  actual_time: number | null;
+  time_limit: number | null;
+  housekeeping_notes: string | null;
+  room: { id: string; name: string; group_type: Database['public']['Enums']['room_group'] };
+  user: { id: string; name: string } | null;
+  inspections: InspectionRecord[];
+}
+
+export function useInspectionQueue() {
+  const { toast } = useToast();
+  const [tasks, setTasks] = useState<InspectableTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchTasks = useCallback(async () => {
+    setLoading(true);
+    const fromDate = format(subDays(new Date(), QUEUE_DAYS), 'yyyy-MM-dd');
+
+    const { data, error } = await supabase
+      .from('tasks')
+      .select(`
+        id, date, status, cleaning_type, stop_time, actual_time, time_limit, housekeeping_notes,
+        room:rooms!inner(id, name, group_type),
+        user:users!tasks_user_id_fkey(id, name, first_name, last_name),
+        inspections:task_inspections(id, result, score, comments, inspected_at)
+      `)
+      .eq('status', 'done')
+      .gte('date', fromDate)
+      .order('stop_time', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching tasks for inspection:', error);
+      toast({
+        title: 'Błąd',
+        description: error.message?.includes('task_inspections')
+          ? 'Brak tabeli kontroli — zastosuj migrację 20261019000200_add_task_inspections.sql.'
+          : 'Nie udało się pobrać zadań do kontroli.',
+        variant: 'destructive',
+      });
+      setTasks([]);
+    } else {
+      setTasks((data || []).map(task => ({
+        ...task,
+        user: task.user
+          ? {
+            id: task.user.id,
+            name: task.user.first_name && task.user.last_name
+              ? `${task.user.first_name} ${task.user.last_name}`
+              : task.user.name,
+          }
+          : null,
+        inspections: [...(task.inspections || [])].sort(
+          (a, b) => b.inspected_at.localeCompare(a.inspected_at)
+        ),
+      })));
+    }
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    fetchTasks();
+  }, [fetchTasks]);
+
+  const queue = useMemo(
+    () => tasks.filter(task => isAwaitingInspection({ status: 'done', stop_time: task.stop_time }, task.inspections)),
+    [tasks]
+  );
+
+  const inspected = useMemo(
+    () => tasks.filter(task => !isAwaitingInspection({ status: 'done', stop_time: task.stop_time }, task.inspections)),
+    [tasks]
+  );
+
+  const inspect = useCallback(async (
+    taskId: string,
+    passed: boolean,
+    checklist: InspectionChecklistItem[],
+    comments: string
+  ): Promise<boolean> => {
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('inspect_task', {
+        p_task_id: taskId,
+        p_passed: passed,
+        p_checklist: checklist as unknown as Database['public']['Tables']['task_inspections']['Insert']['checklist'],
+        p_score: inspectionScore(checklist) ?? undefined,
+        p_comments: comments.trim() || undefined,
+      }).setHeader(CHANGE_SOURCE_HEADER, 'reception');
+      if (error) throw error;
+
+      toast({
+        title: passed ? 'Pokój zaliczony' : 'Odesłano do poprawy',
+        description: passed ? undefined : 'Zadanie wróciło do tej samej osoby z uwagami kontroli.',
+      });
+      await fetchTasks();
+      return true;
+    } catch (error) {
+      console.error('Error saving inspection:', error);
+      const message = error instanceof Error ? error.message : (error as { message?: string })?.message;
+      toast({ title: 'Błąd', description: `Nie udało się zapisać kontroli: ${message}`, variant: 'destructive' });
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [toast, fetchTasks]);
+
+  return { queue, inspected, loading, isSubmitting, refresh: fetchTasks, inspect };
+}
@@ -0,0 +1,177 @@
+// src/hooks/useOfflineTaskQueue.ts
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  addQueuedTaskAction,
+  deleteQueuedTaskActions,
+  isNetworkError,
+  loadQueuedTaskActions,
+  saveQueuedTaskAction,
+  type QueuedTaskAction,
+} from '@/lib/offline-queue';
+import { INVALID_TRANSITION_CODE, PHOTO_REQUIRED_CODE, runTaskTransition } from '@/lib/task-transitions';
+
+type ReplayResult = 'applied' | 'conflict' | 'offline';
+
+/**
+ * Replays a single queued action. The server row must still be in the status
+ * the device saw when the action was taken; anything else means someone else
+ * changed the task in the meantime and the action is flagged instead of applied.
+ */
+async function replayAction(action: QueuedTaskAction): Promise<{ result: ReplayResult; action: QueuedTaskAction }> {
+  const flag = (serverStatus: QueuedTaskAction['expectedStatus'] | null, message?: string) => ({
+    result: 'conflict' as const,
+    action: { ...action, conflict: { serverStatus, message, detectedAt: new Date().toISOString() } },
+  });
+
+  const { data: current, error: fetchError } = await supabase
+    .from('tasks')
+    .select('status')
+    .eq('id', action.taskId)
+    .maybeSingle();
+
+  if (fetchError) {
+    if (isNetworkError(fetchError)) return { result: 'offline', action };
+    return flag(null, fetchError.message);
+  }
+  if (!current) return flag(null, 'Zadanie nie istnieje.');
+  if (current.status !== action.expectedStatus) return flag(current.status);
+
+  // The transition functions lock the row and re-check the status, so a change
+  // that lands between the read above and this call is still caught.
+  const { error: transitionError } = await runTaskTransition(action.taskId, action.kind, {
+    occurredAt: action.occurredAt,
+    reason: action.reason,
+  });
+
+  if (transitionError) {
+    if (isNetworkError(transitionError)) return { result: 'offline', action };
+    if (transitionError.code === PHOTO_REQUIRED_CODE) {
+      return flag(current.status, 'Brak wymaganego zdjęcia — dodaj je w szczegółach zadania i zakończ ponownie.');
+    }
+    return flag(transitionError.code === INVALID_TRANSITION_CODE ? null : current.status, transitionError.message);
+  }
+
+  return { result: 'applied', action };
+}
+
+/**
+ * Persistent queue for housekeeping timing actions taken without a
+ * connection. Actions are replayed in the order they were taken whenever the
+ * browser comes back online.
+ */
+export function useOfflineTaskQueue(onReplayed: () => Promise<void>) {
+  const { toast } = useToast();
+  const [actions, setActions] = useState<QueuedTaskAction[]>([]);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const replayingRef = useRef(false);
+
+  const reload = useCallback(async () => {
+    try {
+      setActions(await loadQueuedTaskActions());
+    } catch (error) {
+      console.error('Error loading offline queue:', error);
+    }
+  }, []);
+
+  const replay = useCallback(async () => {
+    if (replayingRef.current) return;
+    replayingRef.current = true;
+    setIsReplaying(true);
+
+    let applied = 0;
+    let conflicts = 0;
+    try {
+      const queued = await loadQueuedTaskActions();
+      // Once an action for a task conflicts, the ones after it were built on a
+      // state that never reached the server, so they are flagged too.
+      const conflictedTaskIds = new Set(queued.filter(a => a.conflict).map(a => a.taskId));
+
+      for (const action of queued) {
+        if (action.conflict) continue;
+
+        if (conflictedTaskIds.has(action.taskId)) {
+          await saveQueuedTaskAction({
+            ...action,
+            conflict: { serverStatus: null, message: 'Wcześniejsza akcja dla tego zadania była w konflikcie.', detectedAt: new Date().toISOString() },
+          });
+          conflicts++;
+          continue;
+        }
+
+        const { result, action: replayed } = await replayAction(action);
+        if (result === 'offline') break;
+        if (result === 'conflict') {
+          await saveQueuedTaskAction(replayed);
+          conflictedTaskIds.add(action.taskId);
+          conflicts++;
+        } else {
+          await deleteQueuedTaskActions([action.id!]);
+          applied++;
+        }
+      }
+    } catch (error) {
+      console.error('Error replaying offline queue:', error);
+    } finally {
+      replayingRef.current = false;
+      setIsReplaying(false);
+      await reload();
+    }
+
+    if (applied > 0 || conflicts > 0) {
+      await onReplayed();
+    }
+    if (applied > 0) {
+      toast({ title: 'Zsynchronizowano', description: `Wysłano zaległe akcje: ${applied}.` });
+    }
+    if (conflicts > 0) {
+      toast({
+        title: 'Konflikt synchronizacji',
+        description: `Akcje w konflikcie ze zmianami na serwerze: ${conflicts}.`,
+        variant: 'destructive',
+      });
+    }
+  }, [onReplayed, reload, toast]);
+
+  const enqueue = useCallback(async (action: QueuedTaskAction) => {
+    const saved = await addQueuedTaskAction(action);
+    setActions(prev => [...prev, saved]);
+    return saved;
+  }, []);
+
+  const dismissConflicts = useCallback(async () => {
+    try {
+      await deleteQueuedTaskActions(actions.filter(a => a.conflict).map(a => a.id!));
+    } catch (error) {
+      console.error('Error clearing offline conflicts:', error);
+    }
+    await reload();
+  }, [actions, reload]);
+
+  useEffect(() => {
+    reload().then(() => {
+      if (navigator.onLine) replay();
+    });
+
+    const handleOnline = () => { replay(); };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [reload, replay]);
+
+  const pending = actions.filter(a => !a.conflict);
+  const conflicts = actions.filter(a => a.conflict);
+
+  return {
+    actions,
+    pending,
+    conflicts,
+    isReplaying,
+    enqueue,
+    replay,
+    dismissConflicts,
+    hasPending: (taskId: string) => pending.some(a => a.taskId === taskId),
+  };
+}
+
+export type OfflineTaskQueue = ReturnType<typeof useOfflineTaskQueue>;
@@ -8,23 +8,19 @@ import type { Room, Staff } from './useReceptionData';
 import { taskInputSchema, workLogSchema } from '@/lib/validation';
 import { useAuth } from '@/contexts/AuthContext'; // ✅ FIXED: Import added
 import type { IssueTask } from '@/components/reception/IssueDetailDialog';
-import { LABEL_TO_CAPACITY_ID, CAPACITY_ID_TO_LABEL, normalizeCapacityLabel, getLabelGuestTotal } from '@/lib/capacity-utils';
+import { resolveTaskTimeLimit } from '@/lib/task-time-limits';
+import { INVALID_TRANSITION_CODE, PHOTO_REQUIRED_CODE } from '@/lib/task-transitions';
+import { removeTaskPhotoFiles } from '@/lib/task-photos';
+import { CHANGE_SOURCE_HEADER, type TaskChangeSource } from '@/lib/task-events';
+import { TRASH_RETENTION_DAYS } from '@/lib/task-trash';
+import { isMultipleAssignmentLocation, timeOfDay, timeOnTaskDate } from '@/lib/task-utils';
+import { bulkActionSkipReason, describeBulkError, summarizeBulkResults, type BulkTaskAction, type BulkTaskResult, type BulkTaskTarget } from '@/lib/bulk-task-actions';
 
 type CleaningType = Database["public"]["Enums"]["cleaning_type"];
 type TaskStatus = Database["public"]["Enums"]["task_status"];
 
 const OPEN_TASK_STATUSES: TaskStatus[] = ['todo', 'in_progress', 'paused', 'repair_needed'];
 
-const isMultipleAssignmentLocation = (roomName: string | null | undefined): boolean => {
-  if (!roomName) return false;
-
-  const normalizedName = roomName.trim().toLowerCase();
-  return normalizedName.includes('pralnia') ||
-    normalizedName === 'śniadania' ||
-    normalizedName.includes('przerwa śniadaniowa') ||
-    normalizedName.includes('przerwa sniadaniowa');
-};
-
 export interface NewTaskState {
     roomId: string;
     cleaningType: CleaningType;
@@ -32,6 +28,7 @@ export interface NewTaskState {
     staffId: string | 'unassigned';
     notes: string;
     date: string;
+    dueTime?: string; // "HH:mm" on the task's date the room must be finished by; empty for none
 }
 
 export interface EditableTaskState {
@@ -44,6 +41,8 @@ export interface EditableTaskState {
     timeLimit: number | null;
     status?: string;
     actualTime?: number | null;
+    dueBy?: string | null;
+    readyAt?: string | null;
 }
 
 const initialNewTaskState: NewTaskState = {
@@ -53,6 +52,7 @@ const initialNewTaskState: NewTaskState = {
     staffId: "", // Required field - must be selected
     notes: "",
     date: "", // No default date - user must select
+    dueTime: "",
 };
 
 export function useReceptionActions(
@@ -87,84 +87,14 @@ export function useReceptionActions(
   const [isUpdatingIssue, setIsUpdatingIssue] = useState(false);
   const [isUpdatingTask, setIsUpdatingTask] = useState(false);
   const [isDeletingTask, setIsDeletingTask] = useState(false);
+  const [isHandingOverTask, setIsHandingOverTask] = useState(false);
+  const [isApplyingBulkAction, setIsApplyingBulkAction] = useState(false);
   // Tracked per task so one pending toggle doesn't disable every other row's button
   const [updatingReadyToCleanTaskId, setUpdatingReadyToCleanTaskId] = useState<string | null>(null);
-
-  // Helper function to parse capacity_configurations from a room
-  const parseCapacityConfigurations = (room: Room | null): Array<{
-    capacity_id: string;
-    capacity_label: string;
-    cleaning_types: Array<{ type: CleaningType; time_limit: number }>;
-  }> => {
-    if (!room || !room.capacity_configurations) return [];
-    
-    try {
-      let configs: any[] = [];
-      if (typeof room.capacity_configurations === 'string') {
-        configs = JSON.parse(room.capacity_configurations);
-      } else if (Array.isArray(room.capacity_configurations)) {
-        configs = room.capacity_configurations;
-      }
-      
-      return configs.map((config: any) => {
-        // Prefer capacity_id, fallback to deriving from capacity_label
-        let capacityId = config.capacity_id;
-        const capacityLabel = config.capacity_label || '';
-        
-        if (!capacityId && capacityLabel) {
-          capacityId = LABEL_TO_CAPACITY_ID[normalizeCapacityLabel(capacityLabel)] || '';
-        }
-        
-        return {
-          capacity_id: capacityId || 'd', // Default fallback
-          capacity_label: capacityLabel,
-          cleaning_types: Array.isArray(config.cleaning_types) 
-            ? config.cleaning_types.map((ct: any) => ({
-                type: ct.type as CleaningType,
-                time_limit: Number(ct.time_limit) || 30
-              }))
-            : []
-        };
-      });
-    } catch (e) {
-      console.error("Error parsing capacity_configurations:", e);
-      return [];
-    }
-  };
-
-  // Get time limit from room's capacity_configurations
-  const getTimeLimitFromRoom = (room: Room | null, capacityId: string, cleaningType: CleaningType): number | null => {
-    if (!room) return null;
-    
-    const configs = parseCapacityConfigurations(room);
-    if (configs.length === 0) return null;
-    
-    // For OTHER rooms, capacity_configurations use capacity_id 'other' regardless of the selected guest count
-    // So we need to look for the config with capacity_id 'other' instead of matching the numeric capacityId
-    let config;
-    if (room.group_type === 'OTHER') {
-      // For OTHER rooms, look for capacity_id 'other' (the special placeholder used for OTHER rooms)
-      config = configs.find(c => c.capacity_id === 'other');
-      // If not found, try the first config as fallback (OTHER rooms typically have only one config)
-      if (!config && configs.length > 0) {
-        config = configs[0];
-      }
-    } else {
-      // For regular rooms, match by capacity_id as usual
-      config = configs.find(c => c.capacity_id === capacityId);
-    }
-    
-    if (!config) return null;
-    
-    // Find the cleaning type in that configuration
-    const cleaningTypeConfig = config.cleaning_types.find(ct => ct.type === cleaningType);
-    if (!cleaningTypeConfig) return null;
-    
-    return cleaningTypeConfig.time_limit;
-  };
+  const [schedulingRetryTaskId, setSchedulingRetryTaskId] = useState<string | null>(null);
 
   // --- handleAddTask ---
-    const handleAddTask = async (newTask: NewTaskState): Promise<boolean> => {
+    const handleAddTask = async (newTask: NewTaskState, source: TaskChangeSource = 'reception'): Promise<boolean> => {
         setIsSubmittingTask(true);
         let success = false;
         try {
@@ -295,89 +225,8 @@ export function useReceptionActions(
               return false;
             }
 
-            // Get time limit from room's capacity_configurations
-            let timeLimit = getTimeLimitFromRoom(selectedRoom, newTask.capacityId, newTask.cleaningType);
-            
-            // Fallback to global limits table if not found in room config
-            if (timeLimit === null) {
-              console.log("Time limit not found in room config, trying global limits table...");
-              
-              // Convert capacity_id to numeric guest_count for limits table query
-              // The limits table stores guest_count as INTEGER, not capacity_id
-              let numericGuestCount: number | null = null;
-              
-              // For OTHER rooms, capacityId should be numeric (1, 2, 3, etc.)
-              // For other rooms, convert letter identifiers (a, b, c, etc.) via label to total guest count
-              if (selectedRoom.group_type === 'OTHER') {
-                // For OTHER rooms, capacityId should be numeric string, use it directly
-                const parsed = parseInt(newTask.capacityId, 10);
-                if (!isNaN(parsed)) {
-                  numericGuestCount = parsed;
-                } else if (newTask.capacityId.length === 1 && /[a-z]/.test(newTask.capacityId)) {
-                  // Fallback: if it's a letter identifier, convert via label
-                  const label = CAPACITY_ID_TO_LABEL[newTask.capacityId];
-                  if (label && /^\d+$/.test(label)) {
-                    // If label is numeric (like "1"), use it directly
-                    numericGuestCount = parseInt(label, 10);
-                  } else if (label) {
-                    // Calculate total guests from label (e.g., "1+1" = 2, "2+2" = 4)
-                    numericGuestCount = getLabelGuestTotal(label);
-                  }
-                }
-              } else {
-                // For other room types, convert letter identifiers via label
-                if (newTask.capacityId.length === 1 && /[a-z]/.test(newTask.capacityId)) {
-                  const label = CAPACITY_ID_TO_LABEL[newTask.capacityId];
-                  if (label) {
-                    // Calculate total guests from label (e.g., "1+1" = 2, "2+2" = 4)
-                    numericGuestCount = getLabelGuestTotal(label);
-                  }
-                } else {
-                  // If capacity_id is already a number string, use it directly
-                  const parsed = parseInt(newTask.capacityId, 10);
-                  if (!isNaN(parsed)) {
-                    numericGuestCount = parsed;
-                  }
-                }
-              }
-              
-              if (numericGuestCount !== null) {
-                // Try querying with numeric value first (for INTEGER column)
-                let { data: limitData, error: limitError } = await supabase
-                    .from('limits')
-                    .select('time_limit')
-                    .eq('group_type', selectedRoom.group_type)
-                    .eq('cleaning_type', newTask.cleaningType)
-                    .eq('guest_count', numericGuestCount)
-                    .maybeSingle();
-
-                // If that fails, try with string value (for TEXT column)
-                if (limitError || !limitData) {
-                  const { data: limitDataText, error: limitErrorText } = await supabase
-                      .from('limits')
-                      .select('time_limit')
-                      .eq('group_type', selectedRoom.group_type)
-                      .eq('cleaning_type', newTask.cleaningType)
-                      .eq('guest_count', String(numericGuestCount))
-                      .maybeSingle();
-                  
-                  if (!limitErrorText && limitDataText) {
-                    limitData = limitDataText;
-                    limitError = null;
-                  } else if (limitError) {
-                    limitError = limitErrorText || limitError;
-                  }
-                }
-
-                if (limitError) {
-                  console.warn(`Could not fetch time limit: ${limitError.message}. Proceeding without limit.`);
-                } else {
-                  timeLimit = limitData?.time_limit ?? null;
-                }
-              } else {
-                console.warn(`Could not convert capacity_id '${newTask.capacityId}' to numeric guest_count for limits table query.`);
-              }
-            }
+            // The room's own limit, else the global limits table
+            const timeLimit = await resolveTaskTimeLimit(selectedRoom, newTask.capacityId, newTask.cleaningType);
 
             const todayStr = new Date().toISOString().split('T')[0];
             let display_order: number | null = null;
@@ -393,7 +242,10 @@ export function useReceptionActions(
               display_order = (maxRow?.display_order ?? 0) + 1;
             }
 
+            // Only sent when set, so tasks can still be added before the due_by migration
+            const dueBy = timeOnTaskDate(newTask.date, newTask.dueTime ?? '');
             const taskToInsert = {
+                ...(dueBy ? { due_by: dueBy } : {}),
                 date: newTask.date,
                 room_id: resolvedRoomId,
                 cleaning_type: newTask.cleaningType,
@@ -408,13 +260,13 @@ export function useReceptionActions(
 
             // Try with regular client first
             let insertError = null;
-            const { error: regularError } = await supabase.from('tasks').insert(taskToInsert);
+            const { error: regularError } = await supabase.from('tasks').insert(taskToInsert).setHeader(CHANGE_SOURCE_HEADER, source);
             
             
             // If RLS error and admin client is available, try with admin client
             if (regularError && regularError.code === '42501' && supabaseAdmin) {
                 console.warn("RLS policy violation, retrying with admin client...");
-                const { error: adminError } = await supabaseAdmin.from('tasks').insert(taskToInsert);
+                const { error: adminError } = await supabaseAdmin.from('tasks').insert(taskToInsert).setHeader(CHANGE_SOURCE_HEADER, source);
                 if (adminError) {
                     insertError = adminError;
                 } else {
@@ -428,6 +280,9 @@ export function useReceptionActions(
                 if (insertError.code === '23505') {
                     throw new Error("An open task already exists for this room on the selected date. Close it before creating another.");
                 }
+                if (insertError.message?.includes('due_by')) {
+                    throw new Error("Brak kolumny due_by — zastosuj migrację 20261019001100_add_task_due_by.sql.");
+                }
                 // Provide more helpful error message for RLS violations
                 if (insertError.code === '42501') {
                     throw new Error("Permission denied: You don't have permission to create tasks. Please ensure your account has 'reception' or 'admin' role.");
@@ -666,7 +521,8 @@ export function useReceptionActions(
           const { error } = await supabase
               .from('tasks')
               .update(finalUpdates)
-              .eq('id', taskId);
+              .eq('id', taskId)
+              .setHeader(CHANGE_SOURCE_HEADER, 'reception');
           
 
           if (error) {
@@ -676,7 +532,8 @@ export function useReceptionActions(
                   const { error: adminError } = await supabaseAdmin
                       .from('tasks')
                       .update(finalUpdates)
-                      .eq('id', taskId);
+                      .eq('id', taskId)
+                      .setHeader(CHANGE_SOURCE_HEADER, 'reception');
                   if (adminError) throw adminError;
               } else {
                   throw error;
@@ -696,6 +553,126 @@ export function useReceptionActions(
         return success;
     };
 
+  // --- applyTaskUpdates ---
+  // Writes the edited fields of one task, recomputing the time limit when the room,
+  // type or guests change. Throws on failure; returns false when nothing changed.
+  // Shared by handleUpdateTask and the bulk actions, which report on their own.
+  const applyTaskUpdates = async (taskId: string, updates: Partial<EditableTaskState>): Promise<boolean> => {
+      const dbUpdates: Partial<Database["public"]["Tables"]["tasks"]["Update"]> = {};
+      let needsLimitCheck = false;
+
+      if (updates.roomId !== undefined) { dbUpdates.room_id = updates.roomId; needsLimitCheck = true; }
+      if (updates.cleaningType !== undefined) { dbUpdates.cleaning_type = updates.cleaningType; needsLimitCheck = true; }
+      if (updates.capacityId !== undefined) { dbUpdates.guest_count = updates.capacityId; needsLimitCheck = true; } // guest_count now stores capacity_id
+      if (updates.staffId !== undefined) { 
+        dbUpdates.user_id = (updates.staffId === 'unassigned' || updates.staffId === '' || !updates.staffId) 
+          ? null 
+          : updates.staffId; 
+      }
+      if (updates.notes !== undefined) { dbUpdates.reception_notes = updates.notes || null; }
+      if (updates.date !== undefined) { dbUpdates.date = updates.date; }
+      if (updates.dueBy !== undefined) { dbUpdates.due_by = updates.dueBy; }
+      if (updates.readyAt !== undefined) {
+          dbUpdates.ready_at = updates.readyAt;
+          // As in handleScheduleReadyToClean: a future time takes the flag off until then
+          if (updates.readyAt) dbUpdates.ready_to_clean = new Date(updates.readyAt).getTime() <= Date.now();
+      }
+      if (updates.status !== undefined) { dbUpdates.status = updates.status as Database["public"]["Enums"]["task_status"]; }
+
+      if (updates.actualTime !== undefined) {
+          dbUpdates.actual_time = updates.actualTime;
+          let timeLimitForDiff: number | null = updates.timeLimit ?? null;
+          if (timeLimitForDiff === null) {
+              const { data } = await supabase.from('tasks').select('time_limit').eq('id', taskId).single();
+              timeLimitForDiff = data?.time_limit ?? null;
+          }
+          dbUpdates.difference = (updates.actualTime !== null && timeLimitForDiff !== null)
+              ? updates.actualTime - timeLimitForDiff
+              : null;
+      }
+
+      if (updates.timeLimit !== undefined) {
+         dbUpdates.time_limit = updates.timeLimit;
+      } else if (needsLimitCheck) {
+          const { data: currentTaskInfo, error: currentInfoError } = await supabase
+             .from('tasks')
+             .select('cleaning_type, guest_count, room_id, time_limit, room:rooms!inner(group_type)')
+             .eq('id', taskId)
+             .single();
+
+          if (currentInfoError || !currentTaskInfo) {
+               console.error("Error fetching current task info:", currentInfoError);
+               throw new Error("Could not fetch current task info for limit check.");
+          }
+
+          const finalRoomId = updates.roomId ?? currentTaskInfo.room_id;
+          const room = availableRooms.find(r => r.id === finalRoomId);
+          const groupType = room?.group_type;
+          const cleaningType = updates.cleaningType ?? currentTaskInfo.cleaning_type;
+          const capacityId = updates.capacityId ?? currentTaskInfo.guest_count; // guest_count now stores capacity_id
+          const existingTimeLimit = currentTaskInfo.time_limit; // Preserve existing time limit as fallback
+
+         if (groupType && cleaningType && capacityId && room) {
+              // Same lookup as handleAddTask; keep the existing limit when nothing is configured
+              const timeLimit = await resolveTaskTimeLimit(room, capacityId, cleaningType);
+              dbUpdates.time_limit = timeLimit ?? existingTimeLimit;
+         } else {
+             console.warn("Could not determine all required fields for time limit check. Preserving existing time limit.");
+             // Preserve existing time limit instead of setting to null
+             if (existingTimeLimit !== null && existingTimeLimit !== undefined) {
+                 dbUpdates.time_limit = existingTimeLimit;
+             }
+         }
+      }
+
+      // A status change goes through task_update_details together with the other
+      // edited columns, so the edit is applied whole or not at all. Timing steps
+      // (start, pause, resume, finish) take their times from the database clock;
+      // jumps outside the state machine are refused there.
+      if (dbUpdates.status !== undefined) {
+          const { status, ...changes } = dbUpdates;
+          const { error } = await supabase
+              .rpc('task_update_details', { p_task_id: taskId, p_status: status, p_changes: changes })
+              .setHeader(CHANGE_SOURCE_HEADER, 'reception');
+
+          if (error?.code === 'PGRST202') {
+              console.warn('task_update_details not found — apply migration 20261019001600_task_update_details_rpc.sql in the Supabase dashboard SQL editor.');
+              throw new Error("Zmiana statusu nie jest jeszcze dostępna.");
+          }
+          if (error?.code === INVALID_TRANSITION_CODE) {
+              throw new Error("Tej zmiany statusu nie można zapisać. Zadanie mogło zostać zmienione w międzyczasie.");
+          }
+          if (error?.code === PHOTO_REQUIRED_CODE) {
+              throw new Error("Zadania nie można zakończyć bez wymaganego zdjęcia po sprzątaniu.");
+          }
+          if (error) throw error;
+          return true;
+      }
+
+      if (Object.keys(dbUpdates).length === 0) return false;
+
+      const { error } = await supabase
+          .from('tasks')
+          .update(dbUpdates)
+          .eq('id', taskId)
+          .setHeader(CHANGE_SOURCE_HEADER, 'reception')
+          .select()
+          .single();
+
+      if (error) throw error;
+      return true;
+  };
+
+  // --- moveTaskToDate ---
+  // The deadline and the planned free time keep their time of day on the new
+  // date, as in TaskDetailDialog.
+  const moveTaskToDate = (task: BulkTaskTarget, date: string) =>
+      applyTaskUpdates(task.id, {
+          date,
+          ...(task.due_by ? { dueBy: timeOnTaskDate(date, timeOfDay(task.due_by)) } : {}),
+          ...(task.ready_at ? { readyAt: timeOnTaskDate(date, timeOfDay(task.ready_at)) } : {}),
+      });
+
   // --- handleUpdateTask ---
   const handleUpdateTask = async (taskId: string, updates: Partial<EditableTaskState>): Promise<boolean> => {
       setIsUpdatingTask(true);
@@ -703,172 +680,12 @@ export function useReceptionActions(
       
       
       try {
-          const dbUpdates: Partial<Database["public"]["Tables"]["tasks"]["Update"]> = {};
-          let needsLimitCheck = false;
-
-          if (updates.roomId !== undefined) { dbUpdates.room_id = updates.roomId; needsLimitCheck = true; }
-          if (updates.cleaningType !== undefined) { dbUpdates.cleaning_type = updates.cleaningType; needsLimitCheck = true; }
-          if (updates.capacityId !== undefined) { dbUpdates.guest_count = updates.capacityId; needsLimitCheck = true; } // guest_count now stores capacity_id
-          if (updates.staffId !== undefined) { 
-            dbUpdates.user_id = (updates.staffId === 'unassigned' || updates.staffId === '' || !updates.staffId) 
-              ? null 
-              : updates.staffId; 
-          }
-          if (updates.notes !== undefined) { dbUpdates.reception_notes = updates.notes || null; }
-          if (updates.date !== undefined) { dbUpdates.date = updates.date; }
-          if (updates.status !== undefined) { dbUpdates.status = updates.status as Database["public"]["Enums"]["task_status"]; }
-
-          if (updates.actualTime !== undefined) {
-              dbUpdates.actual_time = updates.actualTime;
-              let timeLimitForDiff: number | null = updates.timeLimit ?? null;
-              if (timeLimitForDiff === null) {
-                  const { data } = await supabase.from('tasks').select('time_limit').eq('id', taskId).single();
-                  timeLimitForDiff = data?.time_limit ?? null;
-              }
-              dbUpdates.difference = (updates.actualTime !== null && timeLimitForDiff !== null)
-                  ? updates.actualTime - timeLimitForDiff
-                  : null;
-          }
-
-          if (updates.timeLimit !== undefined) {
-             dbUpdates.time_limit = updates.timeLimit;
-          } else if (needsLimitCheck) {
-              const { data: currentTaskInfo, error: currentInfoError } = await supabase
-                 .from('tasks')
-                 .select('cleaning_type, guest_count, room_id, time_limit, room:rooms!inner(group_type)')
-                 .eq('id', taskId)
-                 .single();
-
-              if (currentInfoError || !currentTaskInfo) {
-                   console.error("Error fetching current task info:", currentInfoError);
-                   throw new Error("Could not fetch current task info for limit check.");
-              }
-
-              const finalRoomId = updates.roomId ?? currentTaskInfo.room_id;
-              const room = availableRooms.find(r => r.id === finalRoomId);
-              const groupType = room?.group_type;
-              const cleaningType = updates.cleaningType ?? currentTaskInfo.cleaning_type;
-              const capacityId = updates.capacityId ?? currentTaskInfo.guest_count; // guest_count now stores capacity_id
-              const existingTimeLimit = currentTaskInfo.time_limit; // Preserve existing time limit as fallback
-
-             if (groupType && cleaningType && capacityId && room) {
-                  
-                  // First try to get time limit from room's capacity_configurations (same as handleAddTask)
-                  let timeLimit = getTimeLimitFromRoom(room, capacityId, cleaningType);
-                  
-                  
-                  // Fallback to global limits table if not found in room config
-                  if (timeLimit === null) {
-                      console.log("Time limit not found in room config, trying global limits table...");
-                      
-                      // Convert capacity_id to numeric guest_count for limits table query
-                      // The limits table stores guest_count as INTEGER, not capacity_id
-                      let numericGuestCount: number | null = null;
-                      
-                      // For OTHER rooms, capacityId should be numeric (1, 2, 3, etc.)
-                      // For other rooms, convert letter identifiers (a, b, c, etc.) via label to total guest count
-                      if (groupType === 'OTHER') {
-                          // For OTHER rooms, capacityId should be numeric string, use it directly
-                          const parsed = parseInt(capacityId, 10);
-                          if (!isNaN(parsed)) {
-                              numericGuestCount = parsed;
-                          } else if (capacityId.length === 1 && /[a-z]/.test(capacityId)) {
-                              // Fallback: if it's a letter identifier, convert via label
-                              const label = CAPACITY_ID_TO_LABEL[capacityId];
-                              if (label && /^\d+$/.test(label)) {
-                                  // If label is numeric (like "1"), use it directly
-                                  numericGuestCount = parseInt(label, 10);
-                              } else if (label) {
-                                  // Calculate total guests from label (e.g., "1+1" = 2, "2+2" = 4)
-                                  numericGuestCount = getLabelGuestTotal(label);
-                              }
-                          }
-                      } else {
-                          // For other room types, convert letter identifiers via label
-                          if (capacityId.length === 1 && /[a-z]/.test(capacityId)) {
-                              const label = CAPACITY_ID_TO_LABEL[capacityId];
-                              if (label) {
-                                  // Calculate total guests from label (e.g., "1+1" = 2, "2+2" = 4)
-                                  numericGuestCount = getLabelGuestTotal(label);
-                              }
-                          } else {
-                              // If capacity_id is already a number string, use it directly
-                              const parsed = parseInt(capacityId, 10);
-                              if (!isNaN(parsed)) {
-                                  numericGuestCount = parsed;
-                              }
-                          }
-                      }
-                      
-                      
-                      if (numericGuestCount !== null) {
-                          // Try querying with numeric value first (for INTEGER column)
-                          let { data: limitData, error: limitError } = await supabase
-                             .from('limits')
-                             .select('time_limit')
-                             .eq('group_type', groupType)
-                             .eq('cleaning_type', cleaningType)
-                             .eq('guest_count', numericGuestCount)
-                             .maybeSingle();
-
-                          // If that fails, try with string value (for TEXT column)
-                          if (limitError || !limitData) {
-                            const { data: limitDataText, error: limitErrorText } = await supabase
-                                .from('limits')
-                                .select('time_limit')
-                                .eq('group_type', groupType)
-                                .eq('cleaning_type', cleaningType)
-                                .eq('guest_count', String(numericGuestCount))
-                                .maybeSingle();
-                            
-                            if (!limitErrorText && limitDataText) {
-                              limitData = limitDataText;
-                              limitError = null;
-                            } else if (limitError) {
-                              limitError = limitErrorText || limitError;
-                            }
-                          }
-
-                          if (limitError) {
-                              console.warn("Could not fetch new time limit during update:", limitError.message);
-                          } else {
-                              timeLimit = limitData?.time_limit ?? null;
-                          }
-                          
-                      } else {
-                          console.warn(`Could not convert capacity_id '${capacityId}' to numeric guest_count for limits table query.`);
-                      }
-                  }
-                  
-                  // If still not found, preserve existing time limit instead of setting to null
-                  const finalTimeLimit = timeLimit ?? existingTimeLimit;
-                  
-                  
-                  dbUpdates.time_limit = finalTimeLimit;
-             } else {
-                 console.warn("Could not determine all required fields for time limit check. Preserving existing time limit.");
-                 // Preserve existing time limit instead of setting to null
-                 if (existingTimeLimit !== null && existingTimeLimit !== undefined) {
-                     dbUpdates.time_limit = existingTimeLimit;
-                 }
-             }
-          }
-
-          if (Object.keys(dbUpdates).length === 0) {
+          if (!await applyTaskUpdates(taskId, updates)) {
               toast({ title: "No Changes Detected", description: "Task details were not modified." });
               setIsUpdatingTask(false);
               return true;
           }
 
-          const { data, error } = await supabase
-              .from('tasks')
-              .update(dbUpdates)
-              .eq('id', taskId)
-              .select()
-              .single();
-
-          if (error) throw error;
-
           toast({ title: "Changes saved", description: "Task details updated successfully." });
           onTaskUpdated?.();
           success = true;
@@ -894,7 +711,8 @@ export function useReceptionActions(
           const { error } = await supabase
               .from('tasks')
               .update({ ready_to_clean: readyToClean })
-              .eq('id', taskId);
+              .eq('id', taskId)
+              .setHeader(CHANGE_SOURCE_HEADER, 'reception');
 
           if (error) throw error;
 
@@ -917,19 +735,206 @@ export function useReceptionActions(
       return success;
   };
 
-  // --- handleDeleteTask ---
-  const handleDeleteTask = async (taskId: string): Promise<boolean> => {
-      setIsDeletingTask(true);
+  // --- handleScheduleReadyToClean ---
+  // Sets the time the room is expected to be free (null clears it). A future
+  // time takes the flag off until then; release_scheduled_tasks turns it back
+  // on once the time has passed.
+  const handleScheduleReadyToClean = async (taskId: string, readyAt: string | null): Promise<boolean> => {
+      setUpdatingReadyToCleanTaskId(taskId);
       let success = false;
       try {
+          const changes: Database["public"]["Tables"]["tasks"]["Update"] = { ready_at: readyAt };
+          if (readyAt) {
+              changes.ready_to_clean = new Date(readyAt).getTime() <= Date.now();
+          }
+
           const { error } = await supabase
+              .from('tasks')
+              .update(changes)
+              .eq('id', taskId)
+              .setHeader(CHANGE_SOURCE_HEADER, 'reception');
+
+          if (error) throw error;
+
+          toast({
+              title: "Changes saved",
+              description: readyAt
+                ? `Pokój będzie gotowy do sprzątania od ${new Date(readyAt).toLocaleTimeString('pl-PL', { hour: '2-digit', minute: '2-digit' })}.`
+                : "Usunięto zaplanowaną godzinę gotowości.",
+          });
+          onTaskUpdated?.();
+          success = true;
+
+      } catch (error) {
+          console.error("Error scheduling ready_to_clean:", error);
+          const message = (error as Error).message;
+          toast({
+              title: "Error Updating Task",
+              description: message?.includes('ready_at')
+                ? "Brak kolumny ready_at — zastosuj migrację 20261019001000_add_task_ready_at.sql."
+                : message,
+              variant: "destructive",
+          });
+          success = false;
+      } finally {
+          setUpdatingReadyToCleanTaskId(null);
+      }
+      return success;
+  };
+
+  // --- handleScheduleRetry ---
+  // Sets when the housekeeper should try again after a DND sign or a refused
+  // visit (null clears it). The time is on the task's date, so it stays the same day.
+  const handleScheduleRetry = async (taskId: string, retryAt: string | null): Promise<boolean> => {
+      setSchedulingRetryTaskId(taskId);
+      let success = false;
+      try {
+          const { error } = await supabase
+              .from('tasks')
+              .update({ retry_at: retryAt })
+              .eq('id', taskId)
+              .setHeader(CHANGE_SOURCE_HEADER, 'reception');
+
+          if (error) throw error;
+
+          toast({
+              title: "Changes saved",
+              description: retryAt
+                ? `Kolejna próba o ${new Date(retryAt).toLocaleTimeString('pl-PL', { hour: '2-digit', minute: '2-digit' })}.`
+                : "Usunięto godzinę kolejnej próby.",
+          });
+          onTaskUpdated?.();
+          success = true;
+
+      } catch (error) {
+          console.error("Error scheduling retry:", error);
+          const message = (error as Error).message;
+          toast({
+              title: "Error Updating Task",
+              description: message?.includes('retry_at')
+                ? "Brak kolumny retry_at — zastosuj migrację 20261019001200_add_task_service_attempts.sql."
+                : message,
+              variant: "destructive",
+          });
+          success = false;
+      } finally {
+          setSchedulingRetryTaskId(null);
+      }
+      return success;
+  };
+
+  // --- handleAssignTask ---
+  // Reassigns a task dropped on another column of the assignment board. Returns the
+  // task's new updated_at, so the board can save the column order right after, or
+  // null when the change was refused. No refresh here: the board saves its order first.
+  const handleAssignTask = async (taskId: string, staffId: string | null): Promise<{ updatedAt: string | null } | null> => {
+      try {
+          const { data, error } = await supabase
+              .from('tasks')
+              .update({ user_id: staffId })
+              .eq('id', taskId)
+              .select('updated_at')
+              .single()
+              .setHeader(CHANGE_SOURCE_HEADER, 'reception');
+
+          if (error) throw error;
+          return { updatedAt: data.updated_at };
+
+      } catch (error) {
+          console.error("Error assigning task:", error);
+          toast({ title: "Error Updating Task", description: describeBulkError(error), variant: "destructive" });
+          return null;
+      }
+  };
+
+  // --- handleMoveTaskToDate ---
+  // Moves one task to another day, e.g. dragged on the week calendar. The
+  // duplicate trigger refuses a day on which the room already has an open task.
+  const handleMoveTaskToDate = async (task: BulkTaskTarget, date: string): Promise<boolean> => {
+      setIsUpdatingTask(true);
+      let success = false;
+      try {
+          await moveTaskToDate(task, date);
+          toast({ title: "Changes saved", description: `Zadanie ${task.room.name} przeniesiono na ${new Date(`${date}T12:00:00`).toLocaleDateString('pl-PL')}.` });
+          onTaskUpdated?.();
+          success = true;
+
+      } catch (error) {
+          console.error("Error moving task:", error);
+          toast({ title: "Error Updating Task", description: describeBulkError(error), variant: "destructive" });
+          success = false;
+      } finally {
+          setIsUpdatingTask(false);
+      }
+      return success;
+  };
+
+  // --- handleHandoverTask ---
+  // Closes the current housekeeper's segment (their minutes stay credited to them)
+  // and leaves the task paused for the new person to resume.
+  const handleHandoverTask = async (taskId: string, newStaffId: string): Promise<boolean> => {
+      setIsHandingOverTask(true);
+      let success = false;
+      try {
+          const { error } = await supabase
+              .rpc('task_handover', { p_task_id: taskId, p_user_id: newStaffId })
+              .setHeader(CHANGE_SOURCE_HEADER, 'reception');
+
+          if (error?.code === 'PGRST202') {
+              console.warn('task_handover not found — apply migration 20261019000900_add_task_segments.sql in the Supabase dashboard SQL editor.');
+              throw new Error("Przekazywanie zadań nie jest jeszcze dostępne.");
+          }
+          if (error?.code === '55000') {
+              throw new Error("Można przekazać tylko zadanie w trakcie lub wstrzymane.");
+          }
+          if (error) throw error;
+
+          toast({ title: "Changes saved", description: "Zadanie przekazano. Czeka wstrzymane, aż nowa osoba je wznowi." });
+          onTaskUpdated?.();
+          success = true;
+
+      } catch (error) {
+          console.error("Error handing over task:", error);
+          toast({ title: "Error Updating Task", description: (error as Error).message, variant: "destructive" });
+          success = false;
+      } finally {
+          setIsHandingOverTask(false);
+      }
+      return success;
+  };
+
+  // --- moveTaskToTrash ---
+  // Deleted tasks go to the trash (admin "Kosz" view) and can be restored from there.
+  // Throws on failure.
+  const moveTaskToTrash = async (taskId: string): Promise<void> => {
+      const { error } = await supabase
+          .rpc('soft_delete_task', { p_task_id: taskId })
+          .setHeader(CHANGE_SOURCE_HEADER, 'reception');
+
+      if (error?.code === 'PGRST202') {
+          console.warn('soft_delete_task not found — apply migration 20261019000800_soft_delete_tasks.sql in the Supabase dashboard SQL editor.');
+          const { error: deleteError } = await supabase
               .from('tasks')
               .delete()
               .eq('id', taskId);
 
-          if (error) throw error;
+          if (deleteError) throw deleteError;
+
+          // The photo rows went with the task; the files in storage have to be removed separately.
+          await removeTaskPhotoFiles(taskId);
+      } else if (error) {
+          throw error;
+      }
+  };
+
+  // --- handleDeleteTask ---
+  const handleDeleteTask = async (taskId: string): Promise<boolean> => {
+      setIsDeletingTask(true);
+      let success = false;
+      try {
+          await moveTaskToTrash(taskId);
 
-          toast({ title: "Changes saved", description: "Task removed successfully." });
+          toast({ title: "Changes saved", description: `Zadanie przeniesiono do kosza. Można je przywrócić przez ${TRASH_RETENTION_DAYS} dni.` });
           onTaskDeleted?.();
           success = true;
 
@@ -943,6 +948,68 @@ export function useReceptionActions(
       return success;
   };
 
+  // --- handleBulkTaskAction ---
+  // Applies one action to the selected tasks one row at a time, so a row the
+  // database rejects (e.g. prevent_duplicate_open_room_tasks on a move) does not
+  // stop the others. Every task gets its own result for the summary dialog.
+  const handleBulkTaskAction = async (tasks: BulkTaskTarget[], action: BulkTaskAction): Promise<BulkTaskResult[]> => {
+      setIsApplyingBulkAction(true);
+      const results: BulkTaskResult[] = [];
+      try {
+          for (const task of tasks) {
+              const skipReason = bulkActionSkipReason(task, action);
+              if (skipReason) {
+                  results.push({ taskId: task.id, roomName: task.room.name, ok: false, error: skipReason });
+                  continue;
+              }
+
+              try {
+                  switch (action.kind) {
+                      case 'reassign':
+                          await applyTaskUpdates(task.id, { staffId: action.staffId ?? 'unassigned' });
+                          break;
+                      case 'move':
+                          await moveTaskToDate(task, action.date);
+                          break;
+                      case 'cleaning_type':
+                          await applyTaskUpdates(task.id, { cleaningType: action.cleaningType });
+                          break;
+                      case 'ready_to_clean': {
+                          const { error } = await supabase
+                              .from('tasks')
+                              .update({ ready_to_clean: action.readyToClean })
+                              .eq('id', task.id)
+                              .setHeader(CHANGE_SOURCE_HEADER, 'reception');
+                          if (error) throw error;
+                          break;
+                      }
+                      case 'delete':
+                          await moveTaskToTrash(task.id);
+                          break;
+                  }
+                  results.push({ taskId: task.id, roomName: task.room.name, ok: true, error: null });
+              } catch (error) {
+                  console.error(`Error applying bulk ${action.kind} to task ${task.id}:`, error);
+                  results.push({ taskId: task.id, roomName: task.room.name, ok: false, error: describeBulkError(error) });
+              }
+          }
+      } finally {
+          setIsApplyingBulkAction(false);
+      }
+
+      const { succeeded, failed } = summarizeBulkResults(results);
+      toast({
+          title: failed > 0 ? "Nie wszystkie zadania zmieniono" : "Changes saved",
+          description: `Zmieniono ${succeeded} z ${results.length} zadań.`,
+          variant: failed > 0 ? "destructive" : undefined,
+      });
+      if (succeeded > 0) {
+          if (action.kind === 'delete') onTaskDeleted?.();
+          else onTaskUpdated?.();
+      }
+      return results;
+  };
+
   return {
       handleAddTask,
       isSubmittingTask,
@@ -956,8 +1023,17 @@ export function useReceptionActions(
       handleUpdateTask,
       isUpdatingTask,
       handleToggleReadyToClean,
+      handleScheduleReadyToClean,
       updatingReadyToCleanTaskId,
+      handleScheduleRetry,
+      schedulingRetryTaskId,
       handleDeleteTask,
       isDeletingTask,
+      handleHandoverTask,
+      isHandingOverTask,
+      handleAssignTask,
+      handleBulkTaskAction,
+      handleMoveTaskToDate,
+      isApplyingBulkAction,
   };
 }
@@ -1,5 +1,7 @@
+import { createElement, type ReactNode } from 'react';
 import { renderHook, act, waitFor } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MemoryRouter, useLocation, useNavigate } from 'react-router-dom';
 import { useReceptionData } from './useReceptionData';
 
 // Mutable state the mock reads from – update per test to control return values
@@ -48,15 +50,19 @@ vi.mock('@/integrations/supabase/client', () => {
   return {
     supabase: {
       from:          (table: string) => makeChain(table),
+      rpc:           () => ({ setHeader: () => Promise.resolve({ data: 0, error: null }) }),
       channel:       vi.fn(channelMock),
       removeChannel: vi.fn().mockResolvedValue(undefined),
     },
   };
 });
 
-vi.mock('@/hooks/use-toast', () => ({
-  useToast: () => ({ toast: vi.fn() }),
-}));
+// One toast function for every render, like the real hook; a new one each time
+// would re-run the hook's load effect, which depends on it
+vi.mock('@/hooks/use-toast', () => {
+  const toast = vi.fn();
+  return { useToast: () => ({ toast }) };
+});
 
 beforeEach(() => {
   mockData.scope = 'upcoming';
@@ -64,13 +70,17 @@ beforeEach(() => {
   mockData.archiveTasks = [];
 });
 
+// The hook keeps its filters in the query string
+const routerAt = (url = '/reception/tasks') => ({ children }: { children: ReactNode }) =>
+  createElement(MemoryRouter, { initialEntries: [url] }, children);
+
 const upcomingTask = { id: '1', date: '2099-12-31', status: 'todo', room: { id: 'r1', name: '101', group_type: 'P1', color: null }, user: null, cleaning_type: 'W', guest_count: 'a', time_limit: null, actual_time: null, difference: null, issue_flag: false, housekeeping_notes: null, reception_notes: null, start_time: null, stop_time: null, issue_description: null, issue_photo: null, pause_start: null, pause_stop: null, total_pause: null, created_at: '2026-01-01' };
 const archiveTask  = { ...upcomingTask, id: '2', date: '2020-01-01' };
 
 describe('cachedUpcomingTasks', () => {
   it('is populated after an upcoming-scope fetch', async () => {
     mockData.upcomingTasks = [upcomingTask];
-    const { result } = renderHook(() => useReceptionData());
+    const { result } = renderHook(() => useReceptionData(), { wrapper: routerAt() });
 
     await waitFor(() => {
       expect(result.current.cachedUpcomingTasks).toHaveLength(1);
@@ -80,7 +90,7 @@ describe('cachedUpcomingTasks', () => {
 
   it('is not overwritten when scope switches to archive', async () => {
     mockData.upcomingTasks = [upcomingTask];
-    const { result } = renderHook(() => useReceptionData());
+    const { result } = renderHook(() => useReceptionData(), { wrapper: routerAt() });
 
     await waitFor(() => expect(result.current.cachedUpcomingTasks).toHaveLength(1));
 
@@ -99,7 +109,7 @@ describe('cachedUpcomingTasks', () => {
 
   it('updates when scope switches back to upcoming', async () => {
     mockData.upcomingTasks = [upcomingTask];
-    const { result } = renderHook(() => useReceptionData());
+    const { result } = renderHook(() => useReceptionData(), { wrapper: routerAt() });
     await waitFor(() => expect(result.current.cachedUpcomingTasks).toHaveLength(1));
 
     // Go to archive
@@ -123,3 +133,63 @@ describe('cachedUpcomingTasks', () => {
     });
   });
 });
+
+describe('filters in the URL', () => {
+  it('start from the query string', async () => {
+    const { result } = renderHook(() => useReceptionData(), {
+      wrapper: routerAt('/reception/tasks?status=todo&staff=anna&group=P2&scope=archive'),
+    });
+
+    expect(result.current.filters).toMatchObject({ status: 'todo', staffId: 'anna', roomGroup: 'P2', roomId: 'all', date: null });
+    expect(result.current.taskFetchScope).toBe('archive');
+    await waitFor(() => expect(result.current.loading).toBe(false));
+  });
+
+  it('are written back when they change', async () => {
+    const { result } = renderHook(() => ({ data: useReceptionData(), location: useLocation() }), { wrapper: routerAt() });
+    await waitFor(() => expect(result.current.data.loading).toBe(false));
+
+    act(() => {
+      result.current.data.actions.applyFilters({ date: '2099-12-31', status: 'all', staffId: 'anna', roomGroup: 'all', roomId: 'all', scope: 'upcoming' });
+    });
+
+    await waitFor(() => expect(result.current.location.search).toBe('?date=2099-12-31&staff=anna'));
+    expect(result.current.location.pathname).toBe('/reception/tasks');
+  });
+
+  it('follow the query string when it changes', async () => {
+    const { result } = renderHook(() => ({ data: useReceptionData(), navigate: useNavigate() }), { wrapper: routerAt() });
+    await waitFor(() => expect(result.current.data.loading).toBe(false));
+
+    act(() => {
+      result.current.navigate('/reception/tasks?status=done&scope=archive');
+    });
+
+    await waitFor(() => expect(result.current.data.filters.status).toBe('done'));
+    expect(result.current.data.taskFetchScope).toBe('archive');
+  });
+
+  it('restore the scope of an applied preset', async () => {
+    const { result } = renderHook(() => ({ data: useReceptionData(), location: useLocation() }), { wrapper: routerAt() });
+    await waitFor(() => expect(result.current.data.loading).toBe(false));
+
+    act(() => {
+      result.current.data.actions.applyFilters({ date: null, status: 'all', staffId: 'all', roomGroup: 'P2', roomId: 'all', scope: 'archive' });
+    });
+
+    expect(result.current.data.taskFetchScope).toBe('archive');
+    await waitFor(() => expect(result.current.location.search).toBe('?group=P2&scope=archive'));
+  });
+
+  it('stay out of the query string of other pages', async () => {
+    const { result } = renderHook(() => ({ data: useReceptionData(), location: useLocation() }), { wrapper: routerAt('/reception/issues') });
+    await waitFor(() => expect(result.current.data.loading).toBe(false));
+
+    act(() => {
+      result.current.data.filterSetters.setStaffId('anna');
+    });
+
+    expect(result.current.data.filters.staffId).toBe('anna');
+    expect(result.current.location.search).toBe('');
+  });
+});
@@ -1,8 +1,13 @@
 // src/hooks/useReceptionData.ts
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useLocation, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import type { Database } from "@/integrations/supabase/types";
+import { DEFAULT_OVERRUN_WARNING_PERCENT, findOverrunAlerts } from '@/lib/task-overrun';
+import { findDeadlineAlerts } from '@/lib/task-deadline';
+import { generateRecurringTasks } from '@/lib/recurring-tasks';
+import { hasTaskFilterParams, readTaskFilterParams, writeTaskFilterParams, type TaskFilterState } from '@/lib/task-filter-url';
 
 // Define necessary types
 type TaskStatus = Database["public"]["Enums"]["task_status"];
@@ -37,12 +42,20 @@ export interface Task {
   pause_start: string | null;
   pause_stop: string | null;
   total_pause: number | null;
+  due_by?: string | null;
+  attempt_count?: number;
+  last_attempt_reason?: Database["public"]["Enums"]["service_refusal_reason"] | null;
+  last_attempt_at?: string | null;
+  retry_at?: string | null;
   created_at?: string;
+  updated_at?: string;
 }
 export interface Staff {
   id: string;
   name: string;
   role: string;
+  /** Shift length in minutes; null or missing means DEFAULT_SHIFT_MINUTES. */
+  shift_minutes?: number | null;
 }
 export interface WorkLog {
   id: string;
@@ -58,6 +71,18 @@ export interface WorkLog {
 
 const getTodayDateString = () => new Date().toISOString().split("T")[0];
 const TASK_FETCH_PAGE_SIZE = 1000;
+// How often running tasks are re-checked against their time limit
+const OVERRUN_CHECK_INTERVAL_MS = 30000;
+const OVERRUN_WARNING_PERCENT_KEY = 'reception_overrun_warning_percent';
+
+const readOverrunWarningPercent = (): number => {
+  try {
+    const stored = Number(localStorage.getItem(OVERRUN_WARNING_PERCENT_KEY));
+    return stored > 0 && stored <= 100 ? stored : DEFAULT_OVERRUN_WARNING_PERCENT;
+  } catch {
+    return DEFAULT_OVERRUN_WARNING_PERCENT;
+  }
+};
 
 // Define active statuses for the 'all' filter and stats calculation
 const ACTIVE_TASK_STATUSES: TaskStatus[] = ['todo', 'in_progress', 'paused'];
@@ -86,14 +111,79 @@ export function useReceptionData() {
   });
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const [overrunWarningPercent, setOverrunWarningPercentState] = useState<number>(readOverrunWarningPercent);
+  const notifiedOverrunIdsRef = useRef<Set<string>>(new Set());
+
+  // Filters State — kept in the query string of the task list, so a bookmarked or
+  // shared link opens with the same filters and back/forward restore earlier ones.
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { pathname } = useLocation();
+  // The layouts mount this hook for every page; only the task list owns the query string
+  const onTasksRoute = /\/tasks\/?$/.test(pathname);
+  const [initialUrlFilters] = useState(() => readTaskFilterParams(searchParams));
+  const [filterDate, setFilterDate] = useState<string | null>(initialUrlFilters.date);
+  const [filterStatus, setFilterStatus] = useState<TaskStatus | 'all'>(initialUrlFilters.status);
+  const [filterStaffId, setFilterStaffId] = useState<string>(initialUrlFilters.staffId);
+  const [filterRoomGroup, setFilterRoomGroup] = useState<RoomGroup | 'all'>(initialUrlFilters.roomGroup);
+  const [filterRoomId, setFilterRoomId] = useState<string>(initialUrlFilters.roomId);
+  const [taskFetchScope, setTaskFetchScope] = useState<'upcoming' | 'archive'>(initialUrlFilters.scope);
+
+  const filterState = useMemo<TaskFilterState>(() => ({
+    date: filterDate,
+    status: filterStatus,
+    staffId: filterStaffId,
+    roomGroup: filterRoomGroup,
+    roomId: filterRoomId,
+    scope: taskFetchScope,
+  }), [filterDate, filterStatus, filterStaffId, filterRoomGroup, filterRoomId, taskFetchScope]);
+
+  const applyFilterState = useCallback((state: TaskFilterState) => {
+    setFilterDate(state.date);
+    setFilterStatus(state.status);
+    setFilterStaffId(state.staffId);
+    setFilterRoomGroup(state.roomGroup);
+    setFilterRoomId(state.roomId);
+    setTaskFetchScope(state.scope);
+  }, []);
+
+  // The query string the filters were last read from or written to
+  const syncedQueryRef = useRef(searchParams.toString());
+  const wasOnTasksRouteRef = useRef(false);
+  const onTasksRouteRef = useRef(onTasksRoute);
+  onTasksRouteRef.current = onTasksRoute;
+  const searchParamsRef = useRef(searchParams);
+  searchParamsRef.current = searchParams;
+  const filterStateRef = useRef(filterState);
+  filterStateRef.current = filterState;
+
+  const writeFiltersToUrl = useCallback((state: TaskFilterState) => {
+    const current = searchParamsRef.current;
+    const next = writeTaskFilterParams(current, state);
+    syncedQueryRef.current = next.toString();
+    // replace: filter changes should not fill the browser history
+    if (next.toString() !== current.toString()) setSearchParams(next, { replace: true });
+  }, [setSearchParams]);
+
+  // URL -> filters: a link or the back/forward buttons changed the query string
+  useEffect(() => {
+    const entered = onTasksRoute && !wasOnTasksRouteRef.current;
+    wasOnTasksRouteRef.current = onTasksRoute;
+    if (!onTasksRoute) return;
+    // Opening the list from the menu keeps the filters already set
+    if (entered && !hasTaskFilterParams(searchParams)) {
+      writeFiltersToUrl(filterStateRef.current);
+      return;
+    }
+    if (searchParams.toString() === syncedQueryRef.current) return;
+    syncedQueryRef.current = searchParams.toString();
+    applyFilterState(readTaskFilterParams(searchParams));
+  }, [searchParams, onTasksRoute, applyFilterState, writeFiltersToUrl]);
 
-  // Filters State
-  const [filterDate, setFilterDate] = useState<string | null>(null);
-  const [filterStatus, setFilterStatus] = useState<TaskStatus | 'all'>("all");
-  const [filterStaffId, setFilterStaffId] = useState<string>("all");
-  const [filterRoomGroup, setFilterRoomGroup] = useState<RoomGroup | 'all'>("all");
-  const [filterRoomId, setFilterRoomId] = useState<string>("all");
-  const [taskFetchScope, setTaskFetchScope] = useState<'upcoming' | 'archive'>('upcoming');
+  // Filters -> URL, on the task list only
+  useEffect(() => {
+    if (onTasksRouteRef.current) writeFiltersToUrl(filterState);
+  }, [filterState, writeFiltersToUrl]);
 
   // Ref for checking mount status in async callbacks
   const isMountedRef = useRef(true);
@@ -113,7 +203,16 @@ export function useReceptionData() {
 
   const fetchStaff = useCallback(async () => {
      // Fetch all active users (not just housekeeping) for broader functionality
-     const { data, error } = await supabase.from("users").select("id, name, first_name, last_name, role").eq("active", true).order("name");
+     const runFetch = (columns: string) =>
+       supabase.from("users").select(columns).eq("active", true).order("name") as unknown as Promise<{
+         data: { id: string; name: string; first_name: string | null; last_name: string | null; role: string; shift_minutes?: number | null }[] | null;
+         error: { message: string } | null;
+       }>;
+     let { data, error } = await runFetch("id, name, first_name, last_name, role, shift_minutes");
+     if (error?.message?.includes('shift_minutes')) {
+       console.warn('shift_minutes column not found — apply migration 20261019001300_add_user_shift_minutes.sql in the Supabase dashboard SQL editor.');
+       ({ data, error } = await runFetch("id, name, first_name, last_name, role"));
+     }
      if (error) { console.error("Error fetching staff:", error); toast({ title: "Error", description: "Failed to fetch staff list.", variant: "destructive"}); }
      else if (isMountedRef.current) {
        const staffWithDisplayNames = (data || []).map(staff => ({
@@ -139,15 +238,15 @@ export function useReceptionData() {
      const baseColumns = `
         id, date, status, cleaning_type, guest_count, time_limit, actual_time,
         difference, issue_flag, housekeeping_notes, reception_notes, start_time,
-        stop_time, issue_description, issue_photo, pause_start, pause_stop, total_pause, created_at,
+        stop_time, issue_description, issue_photo, pause_start, pause_stop, total_pause, created_at, updated_at,
         room:rooms!inner(id, name, group_type, color),
-        user:users(id, name, first_name, last_name)
+        user:users!tasks_user_id_fkey(id, name, first_name, last_name)
       `;
-     const taskSelect = `id, display_order, ready_to_clean, date, status, cleaning_type, guest_count, time_limit, actual_time,
+     const taskSelect = `id, display_order, ready_to_clean, ready_at, due_by, attempt_count, last_attempt_reason, last_attempt_at, retry_at, date, status, cleaning_type, guest_count, time_limit, actual_time,
         difference, issue_flag, housekeeping_notes, reception_notes, start_time,
-        stop_time, issue_description, issue_photo, pause_start, pause_stop, total_pause, created_at,
+        stop_time, issue_description, issue_photo, pause_start, pause_stop, total_pause, created_at, updated_at,
         room:rooms!inner(id, name, group_type, color),
-        user:users(id, name, first_name, last_name)`;
+        user:users!tasks_user_id_fkey(id, name, first_name, last_name)`;
 
      const buildTasksQuery = (select: string, from?: number, to?: number) => {
        let query = supabase.from("tasks")
@@ -189,13 +288,29 @@ export function useReceptionData() {
        }
      };
 
-    let { data, error } = await runFetch(taskSelect);
+    let select = taskSelect;
+    let { data, error } = await runFetch(select);
+
+    if (['attempt_count', 'last_attempt_reason', 'last_attempt_at', 'retry_at'].some(column => error?.message?.includes(column))) {
+      console.warn('attempt columns not found — apply migration 20261019001200_add_task_service_attempts.sql in the Supabase dashboard SQL editor.');
+      select = select.replace('attempt_count, last_attempt_reason, last_attempt_at, retry_at, ', '');
+      ({ data, error } = await runFetch(select));
+    }
+
+    if (error?.message?.includes('due_by')) {
+      console.warn('due_by column not found — apply migration 20261019001100_add_task_due_by.sql in the Supabase dashboard SQL editor.');
+      select = select.replace('due_by, ', '');
+      ({ data, error } = await runFetch(select));
+    }
 
     // Graceful fallback: if an optional column doesn't exist yet (migration pending),
     // retry without it so the app keeps working.
     if (error?.message?.includes('display_order')) {
       console.warn('display_order column not found — apply migration 20260525000100_add_display_order_to_tasks.sql in the Supabase dashboard SQL editor.');
       ({ data, error } = await runFetch(baseColumns));
+    } else if (error?.message?.includes('ready_at')) {
+      console.warn('ready_at column not found — apply migration 20261019001000_add_task_ready_at.sql in the Supabase dashboard SQL editor.');
+      ({ data, error } = await runFetch(select.replace('ready_at, ', '')));
     } else if (error?.message?.includes('ready_to_clean')) {
       console.warn('ready_to_clean column not found — apply migration 20260815000000_add_ready_to_clean_to_tasks.sql in the Supabase dashboard SQL editor.');
       ({ data, error } = await runFetch(baseColumns));
@@ -237,17 +352,24 @@ export function useReceptionData() {
     try {
       console.log("fetchAllTasksForStats: Starting fetch...");
       // Use left join instead of inner join to include all tasks even if room is missing
-      const { data, error } = await supabase
-        .from("tasks")
-        .select(`
+      const statsColumns = `
           id, date, status, cleaning_type, guest_count, time_limit, actual_time,
           difference, issue_flag, housekeeping_notes, reception_notes, start_time,
           stop_time, issue_description, issue_photo, pause_start, pause_stop, total_pause, created_at,
           room:rooms(id, name, group_type, color),
-          user:users(id, name, first_name, last_name)
-        `)
+          user:users!tasks_user_id_fkey(id, name, first_name, last_name)
+        `;
+      const fetchStatsTasks = (select: string) => supabase
+        .from("tasks")
+        .select(select)
         .order("created_at", { ascending: true });
 
+      // due_by feeds the deadlines-at-risk list
+      let { data, error } = await fetchStatsTasks(`due_by, ${statsColumns}`);
+      if (error?.message?.includes('due_by')) {
+        ({ data, error } = await fetchStatsTasks(statsColumns));
+      }
+
       if (error) {
         console.error("Error fetching all tasks for stats:", error);
         toast({ title: "Error", description: `Failed to fetch tasks for stats: ${error.message}`, variant: "destructive" });
@@ -590,6 +712,67 @@ export function useReceptionData() {
     setFilterRoomId("all");
   };
 
+  // Sets all filters and the scope at once, e.g. from a saved preset
+  const handleApplyFilters = applyFilterState;
+
+  // --- Recurring tasks ---
+  // The nightly job normally creates today's tasks already; this catches a missed run
+  // or a template added during the day. Generated rows arrive through the tasks channel.
+  useEffect(() => {
+    generateRecurringTasks(getTodayDateString()).then(({ created, error }) => {
+      if (error) {
+        console.error("Error generating recurring tasks:", error);
+      } else if (created > 0) {
+        toast({
+          title: "Dodano zadania cykliczne",
+          description: `Utworzono zadania z szablonów na dziś: ${created}.`,
+        });
+      }
+    });
+  }, [toast]);
+
+  // --- Overrun alerts ---
+  // Task rows are kept current by the realtime channel above; the clock only has to
+  // move forward between updates for a running task to cross its limit.
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), OVERRUN_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const setOverrunWarningPercent = useCallback((percent: number) => {
+    setOverrunWarningPercentState(percent);
+    try {
+      localStorage.setItem(OVERRUN_WARNING_PERCENT_KEY, String(percent));
+    } catch (error) {
+      console.warn("Could not store overrun warning percent:", error);
+    }
+  }, []);
+
+  const overrunAlerts = useMemo(() => {
+    const source = allTasksForStats.length > 0 ? allTasksForStats : tasks;
+    return findOverrunAlerts(source, now, overrunWarningPercent);
+  }, [allTasksForStats, tasks, now, overrunWarningPercent]);
+
+  // Deadlines move closer on the same clock as the overrun check
+  const deadlineAlerts = useMemo(() => {
+    const source = allTasksForStats.length > 0 ? allTasksForStats : tasks;
+    return findDeadlineAlerts(source, now);
+  }, [allTasksForStats, tasks, now]);
+
+  // Toast once per task when it goes over its limit
+  useEffect(() => {
+    const overIds = new Set(overrunAlerts.filter(alert => alert.level === 'over').map(alert => alert.taskId));
+    overrunAlerts.forEach(alert => {
+      if (alert.level !== 'over' || notifiedOverrunIdsRef.current.has(alert.taskId)) return;
+      toast({
+        title: "Przekroczony limit czasu",
+        description: `Pokój ${alert.roomName}${alert.staffName ? ` (${alert.staffName})` : ''}: ${alert.elapsedMinutes} z ${alert.timeLimit} min.`,
+        variant: "destructive",
+      });
+    });
+    notifiedOverrunIdsRef.current = overIds;
+  }, [overrunAlerts, toast]);
+
   // --- Derived State (Stats calculation) ---
   const stats = useMemo(() => {
     // ** FIXED: Calculate from unfiltered tasks for accurate dashboard metrics **
@@ -654,9 +837,12 @@ export function useReceptionData() {
   return {
     tasks, cachedUpcomingTasks, allStaff, availableRooms, workLogs, loading, refreshing,
     filters: { date: filterDate, status: filterStatus, staffId: filterStaffId, roomGroup: filterRoomGroup, roomId: filterRoomId },
+    taskFetchScope,
     filterSetters: { setDate: setFilterDate, setStatus: setFilterStatus, setStaffId: setFilterStaffId, setRoomGroup: setFilterRoomGroup, setRoomId: setFilterRoomId, setTaskFetchScope },
-    actions: { refresh: handleRefresh, clearFilters: handleClearFilters },
+    actions: { refresh: handleRefresh, clearFilters: handleClearFilters, applyFilters: handleApplyFilters },
     stats,
+    overrun: { alerts: overrunAlerts, warningPercent: overrunWarningPercent, setWarningPercent: setOverrunWarningPercent },
+    deadlines: { alerts: deadlineAlerts },
     allTasksTotalCount,
     fetchWorkLogs // Expose fetchWorkLogs if needed by other components
   };
@@ -3,54 +3,115 @@ import { useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
+import { isNetworkError, type TaskActionKind } from '@/lib/offline-queue';
+import { INVALID_TRANSITION_CODE, PHOTO_REQUIRED_CODE, runTaskTransition } from '@/lib/task-transitions';
+import { CHANGE_SOURCE_HEADER } from '@/lib/task-events';
+import { openRequiredItems, parseTaskChecklist } from '@/lib/cleaning-checklist';
+import { uploadTaskPhotos } from '@/lib/task-photos';
+import type { PauseReason } from '@/lib/pause-reasons';
+import { SERVICE_REFUSAL_REASON_LABELS, type ServiceRefusalReason } from '@/lib/service-refusals';
+import type { OfflineTaskQueue } from '@/hooks/useOfflineTaskQueue';
 import type { Task } from '@/pages/Housekeeping'; // Assuming Task type is exported
 
+const PHOTO_REQUIRED_TOAST = {
+  title: "Wymagane zdjęcie",
+  description: "Ten pokój wymaga zdjęcia po sprzątaniu. Dodaj je w szczegółach zadania.",
+  variant: "destructive",
+} as const;
+
 // Add fetchTasks to the hook's parameters
 export function useTaskActions(
   tasks: Task[], // Keep tasks for quick checks like current status
   setActiveTaskId: (id: string | null) => void,
   activeTaskId: string | null,
-  fetchTasks: () => Promise<void> // Add the fetch function
+  fetchTasks: () => Promise<void>, // Add the fetch function
+  offlineQueue?: OfflineTaskQueue // Stores timing actions taken without a connection
 ) {
   const { toast } = useToast();
   const { userId } = useAuth();
 
+  // Once a task has queued actions, later ones must queue behind them so the
+  // server sees them in the order they were taken.
+  const shouldQueue = useCallback((taskId: string) => (
+    !!offlineQueue && (!navigator.onLine || offlineQueue.hasPending(taskId))
+  ), [offlineQueue]);
+
+  const queueOffline = useCallback(async (task: Task, kind: TaskActionKind, occurredAt: string, reason?: PauseReason) => {
+    if (!offlineQueue) return false;
+    try {
+      await offlineQueue.enqueue({
+        taskId: task.id, roomName: task.room?.name ?? '', kind, occurredAt, expectedStatus: task.status, reason,
+      });
+    } catch (error) {
+      console.error("Error queueing offline action:", error);
+      return false;
+    }
+    toast({ title: "Zapisano bez połączenia", description: "Akcja zostanie wysłana po odzyskaniu połączenia." });
+    if (navigator.onLine) offlineQueue.replay();
+    return true;
+  }, [offlineQueue, toast]);
+
+  // Runs a timing action through the server-side state machine, or queues it
+  // when the device is offline. Returns how the action was handled, or null
+  // when it failed.
+  const runAction = useCallback(async (task: Task, kind: TaskActionKind, reason?: PauseReason): Promise<'applied' | 'queued' | null> => {
+    const occurredAt = new Date().toISOString();
+    if (shouldQueue(task.id)) {
+      return await queueOffline(task, kind, occurredAt, reason) ? 'queued' : null;
+    }
+
+    const { error } = await runTaskTransition(task.id, kind, { reason });
+    if (!error) return 'applied';
+
+    if (isNetworkError(error)) {
+      return await queueOffline(task, kind, occurredAt, reason) ? 'queued' : null;
+    }
+    if (error.code === INVALID_TRANSITION_CODE) {
+      toast({ title: "Action Denied", description: "The task was changed in the meantime. Refreshing.", variant: "destructive" });
+      await fetchTasks();
+    } else if (error.code === PHOTO_REQUIRED_CODE) {
+      toast(PHOTO_REQUIRED_TOAST);
+    } else {
+      toast({ title: "Error", description: `Failed to ${kind} task: ${error.message}`, variant: "destructive" });
+    }
+    return null;
+  }, [shouldQueue, queueOffline, toast, fetchTasks]);
+
   const handleStart = useCallback(async (taskId: string) => {
     if (activeTaskId && activeTaskId !== taskId) {
       toast({ title: "Action Denied", description: "Another task is already in progress.", variant: "destructive" });
       return;
     }
-    const { error } = await supabase.from("tasks").update({
-      status: "in_progress", start_time: new Date().toISOString(),
-      pause_start: null, pause_stop: null, stop_time: null,
-      actual_time: null, difference: null
-    }).eq("id", taskId);
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) {
+      toast({ title: "Error", description: "Cannot start task.", variant: "destructive" });
+      return;
+    }
 
-    if (error) { toast({ title: "Error", description: `Failed to start task: ${error.message}`, variant: "destructive" }); }
-    else {
-      setActiveTaskId(taskId); // Optimistic UI update
+    const result = await runAction(task, 'start');
+    if (!result) return;
+    setActiveTaskId(taskId); // Optimistic UI update
+    if (result === 'applied') {
       toast({ title: "Task started" });
       await fetchTasks(); // Fetch latest data to confirm state
     }
-  }, [activeTaskId, setActiveTaskId, toast, fetchTasks]); // Add fetchTasks dependency
+  }, [tasks, activeTaskId, setActiveTaskId, toast, fetchTasks, runAction]);
 
-  const handlePause = useCallback(async (taskId: string) => {
+  const handlePause = useCallback(async (taskId: string, reason?: PauseReason) => {
     const task = tasks.find(t => t.id === taskId);
     if (task?.status !== 'in_progress') {
       toast({ title: "Action Denied", description: "Task must be 'In Progress' to pause.", variant: "destructive" });
       return;
     }
-    const { error } = await supabase.from("tasks").update({
-      status: "paused", pause_start: new Date().toISOString(),
-    }).eq("id", taskId);
 
-    if (error) { toast({ title: "Error", description: `Failed to pause task: ${error.message}`, variant: "destructive" }); }
-    else {
-      setActiveTaskId(null); // Optimistic UI update
+    const result = await runAction(task, 'pause', reason);
+    if (!result) return;
+    setActiveTaskId(null); // Optimistic UI update
+    if (result === 'applied') {
       toast({ title: "Task paused" });
       await fetchTasks(); // Fetch latest data
     }
-  }, [tasks, setActiveTaskId, toast, fetchTasks]); // Add fetchTasks dependency
+  }, [tasks, setActiveTaskId, toast, fetchTasks, runAction]);
 
   const handleResume = useCallback(async (taskId: string) => {
     if (activeTaskId && activeTaskId !== taskId) {
@@ -63,63 +124,129 @@ export function useTaskActions(
       return;
     }
 
-    const pauseEndTime = new Date();
-    const pauseStartTime = new Date(task.pause_start);
-    const pauseDuration = Math.max(0, Math.floor((pauseEndTime.getTime() - pauseStartTime.getTime()) / 60000));
-    const currentTotalPause = task.total_pause || 0;
-
-    const { error } = await supabase.from("tasks").update({
-      status: "in_progress", total_pause: currentTotalPause + pauseDuration,
-      pause_start: null, pause_stop: pauseEndTime.toISOString(),
-    }).eq("id", taskId);
-
-    if (error) { toast({ title: "Error", description: `Failed to resume task: ${error.message}`, variant: "destructive" }); }
-    else {
-      setActiveTaskId(taskId); // Optimistic UI update
+    // Pause length is computed by task_resume from the database clock
+    const result = await runAction(task, 'resume');
+    if (!result) return;
+    setActiveTaskId(taskId); // Optimistic UI update
+    if (result === 'applied') {
       toast({ title: "Task resumed" });
       await fetchTasks(); // Fetch latest data
     }
-  }, [tasks, activeTaskId, setActiveTaskId, toast, fetchTasks]); // Add fetchTasks dependency
-
-  const handleStop = useCallback(async (taskId: string) => {
-    // Fetch latest state before stopping (keep this logic)
-    const { data: currentTaskData, error: fetchError } = await supabase
-      .from("tasks").select("start_time, total_pause, pause_start, time_limit, status, pause_stop").eq("id", taskId).single();
-
-    if (fetchError || !currentTaskData) { /* ... error handling ... */ return; }
-    const { start_time, total_pause, pause_start, time_limit, status, pause_stop } = currentTaskData;
-    if (!start_time || status === 'done' || status === 'todo') { /* ... error handling ... */ return; }
-
-    let finalTotalPause = total_pause || 0;
-    const stopTime = new Date();
-    let finalPauseStop = pause_stop;
-    if (status === 'paused' && pause_start) {
-      const lastPauseStartTime = new Date(pause_start);
-      if (!isNaN(lastPauseStartTime.getTime())) {
-        finalTotalPause += Math.max(0, Math.floor((stopTime.getTime() - lastPauseStartTime.getTime()) / 60000));
-        finalPauseStop = stopTime.toISOString();
-      }
+  }, [tasks, activeTaskId, setActiveTaskId, toast, fetchTasks, runAction]);
+
+  // allowOpenChecklist is set once the housekeeper has confirmed finishing with
+  // required checklist steps still open (TaskDetails asks before calling this).
+  // photos are the "after" photos picked in TaskDetails; they are uploaded first.
+  // Returns true when the task was finished or queued.
+  const handleStop = useCallback(async (
+    taskId: string,
+    { allowOpenChecklist = false, photos = [] }: { allowOpenChecklist?: boolean; photos?: File[] } = {}
+  ) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task || (task.status !== 'in_progress' && task.status !== 'paused')) {
+      toast({ title: "Error", description: "Cannot stop task.", variant: "destructive" });
+      return false;
     }
 
-    let actual_time = null; let difference = null;
-    const startTime = new Date(start_time);
-    if (!isNaN(startTime.getTime())) {
-      actual_time = Math.max(0, Math.floor((stopTime.getTime() - startTime.getTime()) / 60000) - finalTotalPause);
-      if (time_limit != null) { difference = actual_time - time_limit; }
+    const openItems = openRequiredItems(parseTaskChecklist(task.checklist));
+    if (openItems.length > 0 && !allowOpenChecklist) {
+      toast({
+        title: "Lista kontrolna niezakończona",
+        description: `Niezaznaczone: ${openItems.map(item => item.label).join(', ')}. Otwórz szczegóły zadania, aby dokończyć.`,
+        variant: "destructive",
+      });
+      return false;
     }
 
-    const { error } = await supabase.from("tasks").update({
-      status: "done", stop_time: stopTime.toISOString(), pause_start: null, pause_stop: finalPauseStop,
-      total_pause: finalTotalPause, actual_time: actual_time, difference: difference,
-    }).eq("id", taskId);
+    if (photos.length > 0) {
+      const { error } = await uploadTaskPhotos(taskId, userId, photos);
+      if (error) {
+        console.error("Error uploading task photos:", error);
+        toast({ title: "Błąd", description: `Nie udało się przesłać zdjęć: ${error.message}`, variant: "destructive" });
+        return false;
+      }
+    } else if (!shouldQueue(taskId)) {
+      const { data: needsPhoto, error } = await supabase.rpc('task_needs_photo', { p_task_id: taskId });
+      if (error?.code === 'PGRST202') {
+        console.warn('task_needs_photo not found — apply migration 20261019000400_add_task_photos.sql in the Supabase dashboard SQL editor.');
+      } else if (error) {
+        console.error("Error checking photo requirement:", error);
+      }
+      if (needsPhoto) {
+        toast(PHOTO_REQUIRED_TOAST);
+        return false;
+      }
+    }
 
-    if (error) { /* ... error handling ... */ }
-    else {
-      setActiveTaskId(null); // Optimistic UI update
+    // actual_time, difference and total_pause are computed by task_finish, which
+    // also refuses the finish while the required photo is missing (e.g. when queued)
+    const result = await runAction(task, 'stop');
+    if (!result) return false;
+    setActiveTaskId(null); // Optimistic UI update
+    if (result === 'applied') {
       toast({ title: "Task completed!" });
       await fetchTasks(); // Fetch latest data
     }
-  }, [setActiveTaskId, toast, fetchTasks]); // Add fetchTasks dependency
+    return true;
+  }, [tasks, userId, setActiveTaskId, toast, fetchTasks, runAction, shouldQueue]);
+
+  const handleToggleChecklistItem = useCallback(async (taskId: string, itemId: string, done: boolean) => {
+    const { error } = await supabase
+      .rpc('set_task_checklist_item', { p_task_id: taskId, p_item_id: itemId, p_done: done })
+      .setHeader(CHANGE_SOURCE_HEADER, 'housekeeping');
+    if (error) {
+      console.error("Error updating checklist:", error);
+      toast({
+        title: "Błąd",
+        description: error.code === INVALID_TRANSITION_CODE
+          ? "Listę można odhaczać tylko w trakcie zadania."
+          : `Nie udało się zapisać listy kontrolnej: ${error.message}`,
+        variant: "destructive",
+      });
+      return false;
+    }
+    await fetchTasks();
+    return true;
+  }, [toast, fetchTasks]);
+
+  // DND sign or the guest turned the cleaning down: logs the attempt and puts the
+  // task back to 'todo' for reception to schedule a retry. Needs a connection.
+  const handleRecordRefusal = useCallback(async (taskId: string, reason: ServiceRefusalReason, note?: string) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task || !['todo', 'in_progress', 'paused'].includes(task.status)) {
+      toast({ title: "Błąd", description: "Nie można zapisać odmowy dla tego zadania.", variant: "destructive" });
+      return false;
+    }
+    if (shouldQueue(taskId)) {
+      toast({ title: "Brak połączenia", description: "Odmowę można zapisać dopiero po odzyskaniu połączenia.", variant: "destructive" });
+      return false;
+    }
+
+    const { error } = await supabase
+      .rpc('task_record_refusal', { p_task_id: taskId, p_reason: reason, p_note: note?.trim() || undefined })
+      .setHeader(CHANGE_SOURCE_HEADER, 'housekeeping');
+    if (error) {
+      if (error.code === 'PGRST202') {
+        console.warn('task_record_refusal not found — apply migration 20261019001200_add_task_service_attempts.sql in the Supabase dashboard SQL editor.');
+      } else {
+        console.error("Error recording refusal:", error);
+      }
+      toast({
+        title: "Błąd",
+        description: error.code === INVALID_TRANSITION_CODE
+          ? "Zadanie zmieniło się w międzyczasie. Odświeżam."
+          : `Nie udało się zapisać odmowy: ${error.message}`,
+        variant: "destructive",
+      });
+      if (error.code === INVALID_TRANSITION_CODE) await fetchTasks();
+      return false;
+    }
+
+    if (activeTaskId === taskId) setActiveTaskId(null);
+    toast({ title: "Zapisano odmowę", description: SERVICE_REFUSAL_REASON_LABELS[reason] });
+    await fetchTasks();
+    return true;
+  }, [tasks, activeTaskId, setActiveTaskId, shouldQueue, toast, fetchTasks]);
 
   // SaveNote and ReportIssue often trigger a realtime update anyway,
   // but adding fetchTasks ensures immediate consistency if needed.
@@ -129,7 +256,7 @@ export function useTaskActions(
       return false;
     }
 
-    const { error } = await supabase.from("tasks").update({ housekeeping_notes: currentNote }).eq("id", noteTaskId);
+    const { error } = await supabase.from("tasks").update({ housekeeping_notes: currentNote }).eq("id", noteTaskId).setHeader(CHANGE_SOURCE_HEADER, 'housekeeping');
     if (error) { toast({ title: "Error", description: `Failed to save note: ${error.message}`, variant: "destructive" }); return false; }
     else {
       toast({ title: "Note saved" });
@@ -250,7 +377,8 @@ export function useTaskActions(
         issue_description: issueDescription, 
         issue_photo: photoUrl,
       })
-      .eq("id", issueTaskId);
+      .eq("id", issueTaskId)
+      .setHeader(CHANGE_SOURCE_HEADER, 'housekeeping');
 
     if (updateError) {
       console.error("Error updating task:", updateError);
@@ -326,6 +454,8 @@ export function useTaskActions(
     handlePause,
     handleResume,
     handleStop,
+    handleToggleChecklistItem,
+    handleRecordRefusal,
     handleSaveNote,
     handleReportIssue,
     handleAcknowledgeNote,
@@ -2,50 +2,95 @@ import { renderHook, act } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { useTaskOrder } from './useTaskOrder';
 
-const { mockEq, mockUpdate } = vi.hoisted(() => {
-  const mockEq = vi.fn().mockResolvedValue({ error: null });
+const { mockSetHeader, mockEq, mockUpdate, mockRpc } = vi.hoisted(() => {
+  const mockSetHeader = vi.fn().mockResolvedValue({ error: null });
+  const mockEq = vi.fn(() => ({ setHeader: mockSetHeader }));
   const mockUpdate = vi.fn(() => ({ eq: mockEq }));
-  return { mockEq, mockUpdate };
+  const mockRpc = vi.fn().mockResolvedValue({ data: 0, error: null });
+  return { mockSetHeader, mockEq, mockUpdate, mockRpc };
 });
 
 vi.mock('@/integrations/supabase/client', () => ({
   supabase: {
     from: vi.fn(() => ({ update: mockUpdate })),
+    rpc: vi.fn((fn: string, args: unknown) => ({
+      setHeader: (name: string, value: string) => {
+        mockSetHeader(name, value);
+        return mockRpc(fn, args);
+      },
+    })),
   },
 }));
 
 beforeEach(() => {
   vi.clearAllMocks();
-  mockEq.mockResolvedValue({ error: null });
+  mockSetHeader.mockResolvedValue({ error: null });
+  mockEq.mockImplementation(() => ({ setHeader: mockSetHeader }));
   mockUpdate.mockImplementation(() => ({ eq: mockEq }));
+  mockRpc.mockResolvedValue({ data: 0, error: null });
 });
 
+const tasks = [
+  { id: 'id-a', updated_at: '2026-10-19T08:00:00.123456+00:00' },
+  { id: 'id-b', updated_at: '2026-10-19T08:05:00+00:00' },
+  { id: 'id-c', updated_at: '2026-10-19T08:10:00+00:00' },
+];
+
 describe('useTaskOrder', () => {
-  it('reorder assigns sequential display_order values starting at 1', async () => {
+  it('reorder saves the whole order in one call with the loaded updated_at values', async () => {
+    const { result } = renderHook(() => useTaskOrder());
+
+    let outcome;
+    await act(async () => {
+      outcome = await result.current.reorder(tasks);
+    });
+
+    expect(mockRpc).toHaveBeenCalledTimes(1);
+    expect(mockRpc).toHaveBeenCalledWith('reorder_tasks', {
+      p_task_ids: ['id-a', 'id-b', 'id-c'],
+      p_loaded_updated_at: ['2026-10-19T08:00:00.123456+00:00', '2026-10-19T08:05:00+00:00', '2026-10-19T08:10:00+00:00'],
+    });
+    expect(mockSetHeader).toHaveBeenCalledWith('x-change-source', 'reception');
+    expect(mockUpdate).not.toHaveBeenCalled();
+    expect(outcome).toEqual({ conflict: false, error: null });
+  });
+
+  it('reorder reports a conflict when a task changed since it was loaded', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: { code: '40001', message: 'Task order changed since it was loaded (1 tasks)' } });
+    const { result } = renderHook(() => useTaskOrder());
+
+    let outcome;
+    await act(async () => {
+      outcome = await result.current.reorder(tasks);
+    });
+
+    expect(outcome).toEqual({ conflict: true, error: null });
+  });
+
+  it('reorder returns other errors', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockRpc.mockResolvedValue({ data: null, error: { code: '42501', message: 'Not allowed to reorder tasks' } });
     const { result } = renderHook(() => useTaskOrder());
 
+    let outcome;
     await act(async () => {
-      await result.current.reorder(['id-a', 'id-b', 'id-c']);
+      outcome = await result.current.reorder(tasks);
     });
 
-    expect(mockUpdate).toHaveBeenCalledTimes(3);
-    expect(mockUpdate).toHaveBeenNthCalledWith(1, { display_order: 1 });
-    expect(mockUpdate).toHaveBeenNthCalledWith(2, { display_order: 2 });
-    expect(mockUpdate).toHaveBeenNthCalledWith(3, { display_order: 3 });
-    expect(mockEq).toHaveBeenNthCalledWith(1, 'id', 'id-a');
-    expect(mockEq).toHaveBeenNthCalledWith(2, 'id', 'id-b');
-    expect(mockEq).toHaveBeenNthCalledWith(3, 'id', 'id-c');
+    expect(outcome).toEqual({ conflict: false, error: { code: '42501', message: 'Not allowed to reorder tasks' } });
   });
 
-  it('reorder with a single task sets display_order to 1', async () => {
+  it('reorder returns the error without writing rows while the migration is pending', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockRpc.mockResolvedValue({ data: null, error: { code: 'PGRST202', message: 'Could not find the function' } });
     const { result } = renderHook(() => useTaskOrder());
 
+    let outcome;
     await act(async () => {
-      await result.current.reorder(['only-task']);
+      outcome = await result.current.reorder(tasks);
     });
 
-    expect(mockUpdate).toHaveBeenCalledTimes(1);
-    expect(mockUpdate).toHaveBeenCalledWith({ display_order: 1 });
-    expect(mockEq).toHaveBeenCalledWith('id', 'only-task');
+    expect(outcome).toEqual({ conflict: false, error: { code: 'PGRST202', message: 'Could not find the function' } });
+    expect(mockUpdate).not.toHaveBeenCalled();
   });
 });
@@ -1,12 +1,43 @@
 import { supabase } from '@/integrations/supabase/client';
+import { CHANGE_SOURCE_HEADER } from '@/lib/task-events';
+
+/** SQLSTATE raised by reorder_tasks when a task changed after the caller loaded it. */
+export const REORDER_CONFLICT_CODE = '40001';
+
+export interface OrderedTask {
+  id: string;
+  /** updated_at as last loaded; the save is refused if the row has changed since. */
+  updated_at?: string | null;
+}
+
+export interface ReorderResult {
+  /** Someone else changed one of the tasks first; nothing was saved. */
+  conflict: boolean;
+  error: { message: string } | null;
+}
 
 export function useTaskOrder() {
-  const reorder = async (orderedTaskIds: string[]): Promise<void> => {
-    await Promise.all(
-      orderedTaskIds.map((id, index) =>
-        supabase.from('tasks').update({ display_order: index + 1 }).eq('id', id)
-      )
-    );
+  const reorder = async (orderedTasks: OrderedTask[]): Promise<ReorderResult> => {
+    const { error } = await supabase
+      .rpc('reorder_tasks', {
+        p_task_ids: orderedTasks.map(t => t.id),
+        p_loaded_updated_at: orderedTasks.map(t => t.updated_at ?? null) as string[],
+      })
+      .setHeader(CHANGE_SOURCE_HEADER, 'reception');
+
+    // Without the function (migration pending) the save fails rather than
+    // writing display_order row by row with no conflict check.
+    if (error?.code === 'PGRST202') {
+      console.warn('reorder_tasks not found — apply migration 20261019000600_reorder_tasks_rpc.sql in the Supabase dashboard SQL editor.');
+      return { conflict: false, error };
+    }
+
+    if (error?.code === REORDER_CONFLICT_CODE) return { conflict: true, error: null };
+    if (error) {
+      console.error('Error saving task order:', error);
+      return { conflict: false, error };
+    }
+    return { conflict: false, error: null };
   };
 
   return { reorder };
@@ -14,6 +14,54 @@ export type Database = {
   }
   public: {
     Tables: {
+      cleaning_checklist_items: {
+        Row: {
+          cleaning_type: Database["public"]["Enums"]["cleaning_type"]
+          created_at: string
+          id: string
+          label: string
+          position: number
+          required: boolean
+          room_group: Database["public"]["Enums"]["room_group"] | null
+        }
+        Insert: {
+          cleaning_type: Database["public"]["Enums"]["cleaning_type"]
+          created_at?: string
+          id?: string
+          label: string
+          position?: number
+          required?: boolean
+          room_group?: Database["public"]["Enums"]["room_group"] | null
+        }
+        Update: {
+          cleaning_type?: Database["public"]["Enums"]["cleaning_type"]
+          created_at?: string
+          id?: string
+          label?: string
+          position?: number
+          required?: boolean
+          room_group?: Database["public"]["Enums"]["room_group"] | null
+        }
+        Relationships: []
+      }
+      cleaning_type_settings: {
+        Row: {
+          cleaning_type: Database["public"]["Enums"]["cleaning_type"]
+          photo_required: boolean
+          updated_at: string
+        }
+        Insert: {
+          cleaning_type: Database["public"]["Enums"]["cleaning_type"]
+          photo_required?: boolean
+          updated_at?: string
+        }
+        Update: {
+          cleaning_type?: Database["public"]["Enums"]["cleaning_type"]
+          photo_required?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
       issues: {
         Row: {
           assigned_to_user_id: string | null
@@ -134,6 +182,84 @@ export type Database = {
         }
         Relationships: []
       }
+      orphaned_task_photos: {
+        Row: {
+          purged_at: string
+          storage_path: string
+        }
+        Insert: {
+          purged_at?: string
+          storage_path: string
+        }
+        Update: {
+          purged_at?: string
+          storage_path?: string
+        }
+        Relationships: []
+      }
+      recurring_task_templates: {
+        Row: {
+          active: boolean
+          cleaning_type: Database["public"]["Enums"]["cleaning_type"]
+          created_at: string
+          guest_count: string
+          id: string
+          reception_notes: string | null
+          room_id: string
+          time_limit: number | null
+          updated_at: string
+          user_id: string | null
+          valid_from: string
+          valid_until: string | null
+          weekdays: number[]
+        }
+        Insert: {
+          active?: boolean
+          cleaning_type: Database["public"]["Enums"]["cleaning_type"]
+          created_at?: string
+          guest_count?: string
+          id?: string
+          reception_notes?: string | null
+          room_id: string
+          time_limit?: number | null
+          updated_at?: string
+          user_id?: string | null
+          valid_from?: string
+          valid_until?: string | null
+          weekdays?: number[]
+        }
+        Update: {
+          active?: boolean
+          cleaning_type?: Database["public"]["Enums"]["cleaning_type"]
+          created_at?: string
+          guest_count?: string
+          id?: string
+          reception_notes?: string | null
+          room_id?: string
+          time_limit?: number | null
+          updated_at?: string
+          user_id?: string | null
+          valid_from?: string
+          valid_until?: string | null
+          weekdays?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_task_templates_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_task_templates_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       rooms: {
         Row: {
           active: boolean | null
@@ -145,6 +271,7 @@ export type Database = {
           group_type: Database["public"]["Enums"]["room_group"]
           id: string
           name: string
+          photo_required: boolean
         }
         Insert: {
           active?: boolean | null
@@ -156,6 +283,7 @@ export type Database = {
           group_type: Database["public"]["Enums"]["room_group"]
           id?: string
           name: string
+          photo_required?: boolean
         }
         Update: {
           active?: boolean | null
@@ -167,28 +295,367 @@ export type Database = {
           group_type?: Database["public"]["Enums"]["room_group"]
           id?: string
           name?: string
+          photo_required?: boolean
         }
         Relationships: []
       }
+      task_attempts: {
+        Row: {
+          attempted_at: string
+          created_at: string
+          id: string
+          note: string | null
+          reason: Database["public"]["Enums"]["service_refusal_reason"]
+          task_id: string
+          user_id: string | null
+        }
+        Insert: {
+          attempted_at: string
+          created_at?: string
+          id?: string
+          note?: string | null
+          reason: Database["public"]["Enums"]["service_refusal_reason"]
+          task_id: string
+          user_id?: string | null
+        }
+        Update: {
+          attempted_at?: string
+          created_at?: string
+          id?: string
+          note?: string | null
+          reason?: Database["public"]["Enums"]["service_refusal_reason"]
+          task_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_attempts_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_attempts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_events: {
+        Row: {
+          action: string
+          actor_id: string | null
+          changes: Json
+          created_at: string
+          id: string
+          source: Database["public"]["Enums"]["task_change_source"] | null
+          task_id: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          changes: Json
+          created_at?: string
+          id?: string
+          source?: Database["public"]["Enums"]["task_change_source"] | null
+          task_id: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          changes?: Json
+          created_at?: string
+          id?: string
+          source?: Database["public"]["Enums"]["task_change_source"] | null
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_events_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_filter_presets: {
+        Row: {
+          created_at: string
+          filters: Json
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_filter_presets_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_inspections: {
+        Row: {
+          actual_time: number | null
+          checklist: Json
+          comments: string | null
+          housekeeper_id: string | null
+          id: string
+          inspected_at: string
+          inspector_id: string | null
+          result: Database["public"]["Enums"]["inspection_result"]
+          score: number | null
+          task_id: string
+        }
+        Insert: {
+          actual_time?: number | null
+          checklist?: Json
+          comments?: string | null
+          housekeeper_id?: string | null
+          id?: string
+          inspected_at?: string
+          inspector_id?: string | null
+          result: Database["public"]["Enums"]["inspection_result"]
+          score?: number | null
+          task_id: string
+        }
+        Update: {
+          actual_time?: number | null
+          checklist?: Json
+          comments?: string | null
+          housekeeper_id?: string | null
+          id?: string
+          inspected_at?: string
+          inspector_id?: string | null
+          result?: Database["public"]["Enums"]["inspection_result"]
+          score?: number | null
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_inspections_housekeeper_id_fkey"
+            columns: ["housekeeper_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_inspections_inspector_id_fkey"
+            columns: ["inspector_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_inspections_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_pauses: {
+        Row: {
+          created_at: string
+          ended_at: string | null
+          id: string
+          reason: Database["public"]["Enums"]["pause_reason"] | null
+          started_at: string
+          task_id: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          reason?: Database["public"]["Enums"]["pause_reason"] | null
+          started_at: string
+          task_id: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          reason?: Database["public"]["Enums"]["pause_reason"] | null
+          started_at?: string
+          task_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_pauses_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_pauses_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_photos: {
+        Row: {
+          created_at: string
+          id: string
+          photo_url: string
+          storage_path: string
+          task_id: string
+          uploaded_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          photo_url: string
+          storage_path: string
+          task_id: string
+          uploaded_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          photo_url?: string
+          storage_path?: string
+          task_id?: string
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_photos_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_photos_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_segments: {
+        Row: {
+          created_at: string
+          ended_at: string
+          handed_over_to: string | null
+          id: string
+          pause_minutes: number
+          started_at: string
+          task_id: string
+          user_id: string | null
+          worked_minutes: number
+        }
+        Insert: {
+          created_at?: string
+          ended_at: string
+          handed_over_to?: string | null
+          id?: string
+          pause_minutes?: number
+          started_at: string
+          task_id: string
+          user_id?: string | null
+          worked_minutes?: number
+        }
+        Update: {
+          created_at?: string
+          ended_at?: string
+          handed_over_to?: string | null
+          id?: string
+          pause_minutes?: number
+          started_at?: string
+          task_id?: string
+          user_id?: string | null
+          worked_minutes?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_segments_handed_over_to_fkey"
+            columns: ["handed_over_to"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_segments_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_segments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tasks: {
         Row: {
           actual_time: number | null
+          attempt_count: number
+          checklist: Json | null
           cleaning_type: Database["public"]["Enums"]["cleaning_type"]
           created_at: string | null
           date: string
+          deleted_at: string | null
+          deleted_by: string | null
           difference: number | null
           display_order: number | null
+          due_by: string | null
           guest_count: string
           housekeeping_notes: string | null
           id: string
           issue_description: string | null
           issue_flag: boolean | null
           issue_photo: string | null
+          last_attempt_at: string | null
+          last_attempt_reason: Database["public"]["Enums"]["service_refusal_reason"] | null
           pause_start: string | null
           pause_stop: string | null
+          ready_at: string | null
           ready_to_clean: boolean
           ready_to_clean_at: string | null
           reception_notes: string | null
+          recurring_template_id: string | null
+          retry_at: string | null
           room_id: string | null
           start_time: string | null
           status: Database["public"]["Enums"]["task_status"] | null
@@ -200,22 +667,32 @@ export type Database = {
         }
         Insert: {
           actual_time?: number | null
+          attempt_count?: number
+          checklist?: Json | null
           cleaning_type: Database["public"]["Enums"]["cleaning_type"]
           created_at?: string | null
           date?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           difference?: number | null
           display_order?: number | null
+          due_by?: string | null
           guest_count?: string
           housekeeping_notes?: string | null
           id?: string
           issue_description?: string | null
           issue_flag?: boolean | null
           issue_photo?: string | null
+          last_attempt_at?: string | null
+          last_attempt_reason?: Database["public"]["Enums"]["service_refusal_reason"] | null
           pause_start?: string | null
           pause_stop?: string | null
+          ready_at?: string | null
           ready_to_clean?: boolean
           ready_to_clean_at?: string | null
           reception_notes?: string | null
+          recurring_template_id?: string | null
+          retry_at?: string | null
           room_id?: string | null
           start_time?: string | null
           status?: Database["public"]["Enums"]["task_status"] | null
@@ -227,22 +704,32 @@ export type Database = {
         }
         Update: {
           actual_time?: number | null
+          attempt_count?: number
+          checklist?: Json | null
           cleaning_type?: Database["public"]["Enums"]["cleaning_type"]
           created_at?: string | null
           date?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           difference?: number | null
           display_order?: number | null
+          due_by?: string | null
           guest_count?: string
           housekeeping_notes?: string | null
           id?: string
           issue_description?: string | null
           issue_flag?: boolean | null
           issue_photo?: string | null
+          last_attempt_at?: string | null
+          last_attempt_reason?: Database["public"]["Enums"]["service_refusal_reason"] | null
           pause_start?: string | null
           pause_stop?: string | null
+          ready_at?: string | null
           ready_to_clean?: boolean
           ready_to_clean_at?: string | null
           reception_notes?: string | null
+          recurring_template_id?: string | null
+          retry_at?: string | null
           room_id?: string | null
           start_time?: string | null
           status?: Database["public"]["Enums"]["task_status"] | null
@@ -267,6 +754,13 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "tasks_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
         ]
       }
       user_roles: {
@@ -300,6 +794,7 @@ export type Database = {
           last_name: string | null
           name: string
           role: Database["public"]["Enums"]["user_role"]
+          shift_minutes: number | null
         }
         Insert: {
           active?: boolean | null
@@ -310,6 +805,7 @@ export type Database = {
           last_name?: string | null
           name: string
           role?: Database["public"]["Enums"]["user_role"]
+          shift_minutes?: number | null
         }
         Update: {
           active?: boolean | null
@@ -320,6 +816,7 @@ export type Database = {
           last_name?: string | null
           name?: string
           role?: Database["public"]["Enums"]["user_role"]
+          shift_minutes?: number | null
         }
         Relationships: []
       }
@@ -378,6 +875,19 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      build_task_checklist: {
+        Args: {
+          p_cleaning_type: Database["public"]["Enums"]["cleaning_type"]
+          p_room_group: Database["public"]["Enums"]["room_group"]
+        }
+        Returns: Json
+      }
+      generate_recurring_tasks: {
+        Args: {
+          p_date?: string
+        }
+        Returns: number
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -385,13 +895,175 @@ export type Database = {
         }
         Returns: boolean
       }
+      inspect_task: {
+        Args: {
+          p_task_id: string
+          p_passed: boolean
+          p_checklist?: Json
+          p_score?: number
+          p_comments?: string
+        }
+        Returns: Database["public"]["Tables"]["task_inspections"]["Row"]
+      }
+      list_deleted_tasks: {
+        Args: never
+        Returns: {
+          id: string
+          date: string
+          status: Database["public"]["Enums"]["task_status"]
+          cleaning_type: Database["public"]["Enums"]["cleaning_type"]
+          room_name: string | null
+          staff_name: string | null
+          actual_time: number | null
+          reception_notes: string | null
+          housekeeping_notes: string | null
+          deleted_at: string
+          deleted_by_name: string | null
+        }[]
+      }
+      lock_task_for_transition: {
+        Args: {
+          p_task_id: string
+        }
+        Returns: Database["public"]["Tables"]["tasks"]["Row"]
+      }
+      purge_expired_tasks: {
+        Args: never
+        Returns: number
+      }
+      purge_task: {
+        Args: {
+          p_task_id: string
+        }
+        Returns: undefined
+      }
+      release_scheduled_tasks: {
+        Args: never
+        Returns: number
+      }
+      reorder_tasks: {
+        Args: {
+          p_task_ids: string[]
+          p_loaded_updated_at: string[]
+        }
+        Returns: number
+      }
+      restore_task: {
+        Args: {
+          p_task_id: string
+        }
+        Returns: undefined
+      }
+      search_tasks_and_issues: {
+        Args: {
+          p_query: string
+          p_from?: string | null
+          p_to?: string | null
+          p_room_id?: string | null
+          p_limit?: number
+        }
+        Returns: {
+          kind: string
+          id: string
+          room_id: string
+          room_name: string
+          date: string
+          title: string | null
+          snippet: string
+          rank: number
+        }[]
+      }
+      set_task_checklist_item: {
+        Args: {
+          p_task_id: string
+          p_item_id: string
+          p_done: boolean
+        }
+        Returns: Database["public"]["Tables"]["tasks"]["Row"]
+      }
+      soft_delete_task: {
+        Args: {
+          p_task_id: string
+        }
+        Returns: undefined
+      }
+      task_finish: {
+        Args: {
+          p_task_id: string
+          p_at?: string
+        }
+        Returns: Database["public"]["Tables"]["tasks"]["Row"]
+      }
+      task_handed_over_minutes: {
+        Args: {
+          p_task_id: string
+        }
+        Returns: number
+      }
+      task_handover: {
+        Args: {
+          p_task_id: string
+          p_user_id: string
+          p_at?: string
+        }
+        Returns: Database["public"]["Tables"]["tasks"]["Row"]
+      }
+      task_needs_photo: {
+        Args: {
+          p_task_id: string
+        }
+        Returns: boolean
+      }
+      task_pause: {
+        Args: {
+          p_task_id: string
+          p_at?: string
+          p_reason?: Database["public"]["Enums"]["pause_reason"]
+        }
+        Returns: Database["public"]["Tables"]["tasks"]["Row"]
+      }
+      task_record_refusal: {
+        Args: {
+          p_task_id: string
+          p_reason: Database["public"]["Enums"]["service_refusal_reason"]
+          p_note?: string
+          p_at?: string
+        }
+        Returns: Database["public"]["Tables"]["tasks"]["Row"]
+      }
+      task_resume: {
+        Args: {
+          p_task_id: string
+          p_at?: string
+        }
+        Returns: Database["public"]["Tables"]["tasks"]["Row"]
+      }
+      task_start: {
+        Args: {
+          p_task_id: string
+          p_at?: string
+        }
+        Returns: Database["public"]["Tables"]["tasks"]["Row"]
+      }
+      task_update_details: {
+        Args: {
+          p_task_id: string
+          p_status: Database["public"]["Enums"]["task_status"]
+          p_changes?: Json
+        }
+        Returns: Database["public"]["Tables"]["tasks"]["Row"]
+      }
     }
     Enums: {
       app_role: "admin" | "manager" | "reception" | "housekeeping"
       cleaning_type: "W" | "P" | "T" | "O" | "G" | "S"
+      inspection_result: "passed" | "failed"
       issue_priority: "low" | "medium" | "high" | "urgent"
       issue_status: "open" | "in_progress" | "resolved" | "closed" | "reported"
+      pause_reason: "guest_in_room" | "waiting_for_linen" | "break" | "called_elsewhere"
       room_group: "P1" | "P2" | "A1S" | "A2S" | "OTHER"
+      service_refusal_reason: "do_not_disturb" | "guest_refused"
+      task_change_source: "housekeeping" | "reception" | "batch_wizard" | "system"
       task_status: "todo" | "in_progress" | "paused" | "done" | "repair_needed"
       user_role: "admin" | "manager" | "reception" | "housekeeping"
     }
@@ -523,9 +1195,13 @@ export const Constants = {
     Enums: {
       app_role: ["admin", "manager", "reception", "housekeeping"],
       cleaning_type: ["W", "P", "T", "O", "G", "S"],
+      inspection_result: ["passed", "failed"],
       issue_priority: ["low", "medium", "high", "urgent"],
       issue_status: ["open", "in_progress", "resolved", "closed", "reported"],
+      pause_reason: ["guest_in_room", "waiting_for_linen", "break", "called_elsewhere"],
       room_group: ["P1", "P2", "A1S", "A2S", "OTHER"],
+      service_refusal_reason: ["do_not_disturb", "guest_refused"],
+      task_change_source: ["housekeeping", "reception", "batch_wizard", "system"],
       task_status: ["todo", "in_progress", "paused", "done", "repair_needed"],
       user_role: ["admin", "manager", "reception", "housekeeping"],
     },
@@ -207,6 +207,7 @@ export const adminApi = {
       last_name?: string;
       role?: UserRole;
       active?: boolean;
+      shift_minutes?: number | null;
       password?: string;
       auth_id?: string;
     }
@@ -237,6 +238,7 @@ export const adminApi = {
       if (params.last_name !== undefined) updateData.last_name = params.last_name;
       if (params.role !== undefined) updateData.role = params.role;
       if (params.active !== undefined) updateData.active = params.active;
+      if (params.shift_minutes !== undefined) updateData.shift_minutes = params.shift_minutes;
 
       const { error: userError } = await client
         .from('users')
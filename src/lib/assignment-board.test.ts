@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SHIFT_MINUTES,
+  UNASSIGNED_COLUMN_ID,
+  boardDayOrder,
+  buildBoardColumns,
+  isBoardTaskLocked,
+  moveBoardTask,
+  plannedMinutes,
+  type BoardTask,
+} from './assignment-board';
+
+const anna = { id: 'anna', name: 'Anna' };
+const ewa = { id: 'ewa', name: 'Ewa' };
+
+const task = (id: string, user: { id: string; name: string } | null, time_limit: number | null = 30): BoardTask => ({
+  id, status: 'todo', time_limit, user,
+});
+
+const ids = (tasks: BoardTask[]) => tasks.map(t => t.id);
+
+describe('buildBoardColumns', () => {
+  it('gives every housekeeper a column and puts the unassigned column last', () => {
+    const columns = buildBoardColumns([task('1', null), task('2', ewa)], [{ ...anna, shift_minutes: 360 }, ewa]);
+    expect(columns.map(c => c.id)).toEqual(['anna', 'ewa', UNASSIGNED_COLUMN_ID]);
+    expect(columns.map(c => c.shiftMinutes)).toEqual([360, DEFAULT_SHIFT_MINUTES, null]);
+    expect(ids(columns[1].tasks)).toEqual(['2']);
+    expect(ids(columns[2].tasks)).toEqual(['1']);
+  });
+
+  it('keeps tasks of someone outside the housekeeper list visible', () => {
+    const columns = buildBoardColumns([task('1', { id: 'jan', name: 'Jan' })], [anna]);
+    expect(columns.map(c => c.name)).toEqual(['Anna', 'Jan', 'Nieprzypisane']);
+  });
+});
+
+describe('plannedMinutes', () => {
+  it('adds up the time limits', () => {
+    expect(plannedMinutes([task('1', anna, 30), task('2', anna, 45), task('3', anna, null)])).toBe(75);
+  });
+});
+
+describe('moveBoardTask', () => {
+  const columns = () => buildBoardColumns([task('1', anna), task('2', anna), task('3', ewa)], [anna, ewa]);
+
+  it('moves a card to another person before the card it was dropped on', () => {
+    const moved = moveBoardTask(columns(), '1', 'ewa', '3')!;
+    expect(ids(moved[0].tasks)).toEqual(['2']);
+    expect(ids(moved[1].tasks)).toEqual(['1', '3']);
+    expect(moved[1].tasks[0].user).toEqual(ewa);
+  });
+
+  it('appends a card dropped on a column and clears the assignee for unassigned', () => {
+    const moved = moveBoardTask(columns(), '3', UNASSIGNED_COLUMN_ID, null)!;
+    expect(ids(moved[2].tasks)).toEqual(['3']);
+    expect(moved[2].tasks[0].user).toBeNull();
+  });
+
+  it('reorders within a column', () => {
+    expect(ids(moveBoardTask(columns(), '2', 'anna', '1')![0].tasks)).toEqual(['2', '1']);
+  });
+
+  it('returns null when nothing changes', () => {
+    expect(moveBoardTask(columns(), '1', 'anna', '1')).toBeNull();
+  });
+});
+
+describe('isBoardTaskLocked', () => {
+  it('locks started and finished cards', () => {
+    const withStatus = (status: string) => ({ ...task('1', anna), status });
+    expect(isBoardTaskLocked(withStatus('todo'))).toBe(false);
+    expect(isBoardTaskLocked(withStatus('repair_needed'))).toBe(false);
+    expect(isBoardTaskLocked(withStatus('in_progress'))).toBe(true);
+    expect(isBoardTaskLocked(withStatus('paused'))).toBe(true);
+    expect(isBoardTaskLocked(withStatus('done'))).toBe(true);
+  });
+});
+
+describe('boardDayOrder', () => {
+  it('places the moved card inside the target block', () => {
+    expect(boardDayOrder(['1', '2', '3', '4'], '1', ['3', '4'], ['3', '1', '4'])).toEqual(['2', '3', '1', '4']);
+  });
+
+  it('puts a card dropped into an empty column last', () => {
+    expect(boardDayOrder(['1', '2', '3'], '1', [], ['1'])).toEqual(['2', '3', '1']);
+  });
+
+  it('reorders a block in place', () => {
+    expect(boardDayOrder(['1', '2', '3', '4'], '2', ['2', '3'], ['3', '2'])).toEqual(['1', '3', '2', '4']);
+  });
+});
@@ -0,0 +1,119 @@
+import { spliceGroupOrder } from '@/lib/route-order';
+
+/** Shift length assumed for a housekeeper without users.shift_minutes. */
+export const DEFAULT_SHIFT_MINUTES = 420;
+
+export const UNASSIGNED_COLUMN_ID = 'unassigned';
+
+/** Minimal task shape the assignment board works with. */
+export interface BoardTask {
+  id: string;
+  status: string;
+  time_limit: number | null;
+  user: { id: string; name: string } | null;
+}
+
+export interface BoardStaff {
+  id: string;
+  name: string;
+  shift_minutes?: number | null;
+}
+
+export interface BoardColumn<T extends BoardTask> {
+  /** Staff id, or UNASSIGNED_COLUMN_ID */
+  id: string;
+  staffId: string | null;
+  name: string;
+  /** Null for the unassigned column, which has no shift. */
+  shiftMinutes: number | null;
+  tasks: T[];
+}
+
+/** Cards that stay with their housekeeper: started work moves through a handover instead. */
+export const isBoardTaskLocked = (task: BoardTask): boolean =>
+  task.status === 'in_progress' || task.status === 'paused' || task.status === 'done';
+
+export const plannedMinutes = (tasks: BoardTask[]): number =>
+  tasks.reduce((sum, task) => sum + (task.time_limit ?? 0), 0);
+
+/**
+ * One column per housekeeper in `staff`, in that order, then anyone else who has
+ * tasks that day, then the unassigned column. Tasks keep the order they came in.
+ */
+export function buildBoardColumns<T extends BoardTask>(tasks: T[], staff: BoardStaff[]): BoardColumn<T>[] {
+  const columns = new Map<string, BoardColumn<T>>();
+  staff.forEach(person => columns.set(person.id, {
+    id: person.id,
+    staffId: person.id,
+    name: person.name,
+    shiftMinutes: person.shift_minutes ?? DEFAULT_SHIFT_MINUTES,
+    tasks: [],
+  }));
+
+  const unassigned: BoardColumn<T> = { id: UNASSIGNED_COLUMN_ID, staffId: null, name: 'Nieprzypisane', shiftMinutes: null, tasks: [] };
+  for (const task of tasks) {
+    if (!task.user) {
+      unassigned.tasks.push(task);
+      continue;
+    }
+    if (!columns.has(task.user.id)) {
+      columns.set(task.user.id, {
+        id: task.user.id,
+        staffId: task.user.id,
+        name: task.user.name,
+        shiftMinutes: DEFAULT_SHIFT_MINUTES,
+        tasks: [],
+      });
+    }
+    columns.get(task.user.id)!.tasks.push(task);
+  }
+
+  return [...columns.values(), unassigned];
+}
+
+/**
+ * Columns after dropping `taskId` into `toColumnId`, before `overTaskId` (or at the
+ * end when it is null); null when the drop changes nothing.
+ */
+export function moveBoardTask<T extends BoardTask>(
+  columns: BoardColumn<T>[],
+  taskId: string,
+  toColumnId: string,
+  overTaskId: string | null
+): BoardColumn<T>[] | null {
+  const from = columns.find(column => column.tasks.some(task => task.id === taskId));
+  const to = columns.find(column => column.id === toColumnId);
+  if (!from || !to) return null;
+
+  const task = from.tasks.find(t => t.id === taskId)!;
+  if (from.id === to.id) {
+    const oldIndex = from.tasks.indexOf(task);
+    const newIndex = overTaskId ? from.tasks.findIndex(t => t.id === overTaskId) : from.tasks.length - 1;
+    if (newIndex === -1 || newIndex === oldIndex) return null;
+    const reordered = [...from.tasks];
+    reordered.splice(oldIndex, 1);
+    reordered.splice(newIndex, 0, task);
+    return columns.map(column => column.id === from.id ? { ...column, tasks: reordered } : column);
+  }
+
+  const moved = { ...task, user: to.staffId ? { id: to.staffId, name: to.name } : null };
+  const target = [...to.tasks];
+  const overIndex = overTaskId ? target.findIndex(t => t.id === overTaskId) : -1;
+  target.splice(overIndex === -1 ? target.length : overIndex, 0, moved);
+  return columns.map(column => {
+    if (column.id === from.id) return { ...column, tasks: column.tasks.filter(t => t.id !== taskId) };
+    if (column.id === to.id) return { ...column, tasks: target };
+    return column;
+  });
+}
+
+/**
+ * The day's full task order after a card moved: the target column's new order
+ * replaces its block in `allIds`, and a card dropped into an empty column goes last.
+ */
+export function boardDayOrder(allIds: string[], taskId: string, targetOldIds: string[], targetNewIds: string[]): string[] {
+  const rest = allIds.filter(id => id !== taskId);
+  const remaining = targetOldIds.filter(id => id !== taskId);
+  if (remaining.length === 0) return [...rest, taskId];
+  return spliceGroupOrder(rest, remaining, targetNewIds);
+}
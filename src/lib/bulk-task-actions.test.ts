@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { bulkActionSkipReason, describeBulkError, summarizeBulkResults } from './bulk-task-actions';
+
+const task = (status: string) => ({ id: 't1', status, room: { name: '101' } });
+
+describe('bulkActionSkipReason', () => {
+  it('only lets tasks awaiting cleaning be flagged free', () => {
+    expect(bulkActionSkipReason(task('todo'), { kind: 'ready_to_clean', readyToClean: true })).toBeNull();
+    expect(bulkActionSkipReason(task('done'), { kind: 'ready_to_clean', readyToClean: true })).not.toBeNull();
+  });
+
+  it('leaves started tasks out of a reassignment', () => {
+    expect(bulkActionSkipReason(task('todo'), { kind: 'reassign', staffId: 'u2' })).toBeNull();
+    expect(bulkActionSkipReason(task('in_progress'), { kind: 'reassign', staffId: 'u2' })).not.toBeNull();
+    expect(bulkActionSkipReason(task('paused'), { kind: 'reassign', staffId: null })).not.toBeNull();
+  });
+
+  it('applies other actions to any task', () => {
+    expect(bulkActionSkipReason(task('done'), { kind: 'move', date: '2026-10-20' })).toBeNull();
+    expect(bulkActionSkipReason(task('in_progress'), { kind: 'delete' })).toBeNull();
+  });
+});
+
+describe('describeBulkError', () => {
+  it('explains a rejected duplicate open task', () => {
+    expect(describeBulkError({ code: '23505', message: 'An open task already exists' })).toBe('Ten pokój ma już otwarte zadanie w tym dniu.');
+  });
+
+  it('falls back to the error message', () => {
+    expect(describeBulkError(new Error('boom'))).toBe('boom');
+    expect(describeBulkError(null)).toBe('Nieznany błąd.');
+  });
+});
+
+describe('summarizeBulkResults', () => {
+  it('counts succeeded and failed tasks', () => {
+    expect(summarizeBulkResults([
+      { taskId: 'a', roomName: '101', ok: true, error: null },
+      { taskId: 'b', roomName: '102', ok: false, error: 'x' },
+      { taskId: 'c', roomName: '103', ok: true, error: null },
+    ])).toEqual({ succeeded: 2, failed: 1 });
+  });
+});
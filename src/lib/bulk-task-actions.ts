@@ -0,0 +1,66 @@
+import type { Database } from '@/integrations/supabase/types';
+
+type CleaningType = Database['public']['Enums']['cleaning_type'];
+
+/** One change applied to every selected task in the reception table. */
+export type BulkTaskAction =
+  | { kind: 'reassign'; staffId: string | null }
+  | { kind: 'move'; date: string }
+  | { kind: 'ready_to_clean'; readyToClean: boolean }
+  | { kind: 'cleaning_type'; cleaningType: CleaningType }
+  | { kind: 'delete' };
+
+/** The task fields a bulk action needs. */
+export interface BulkTaskTarget {
+  id: string;
+  status: string;
+  room: { name: string };
+  due_by?: string | null;
+  ready_at?: string | null;
+}
+
+export interface BulkTaskResult {
+  taskId: string;
+  roomName: string;
+  ok: boolean;
+  /** Why the task was not changed; null when it was. */
+  error: string | null;
+}
+
+export const BULK_ACTION_LABELS: Record<BulkTaskAction['kind'], string> = {
+  reassign: 'Zmiana personelu',
+  move: 'Przeniesienie na inny dzień',
+  ready_to_clean: 'Pokój wolny',
+  cleaning_type: 'Zmiana typu sprzątania',
+  delete: 'Usunięcie',
+};
+
+/**
+ * Why the action does not apply to the task, or null when it does. Skipped tasks
+ * are reported like failed ones without sending a request.
+ */
+export function bulkActionSkipReason(task: BulkTaskTarget, action: BulkTaskAction): string | null {
+  // Same rule as the room free switch in the table
+  if (action.kind === 'ready_to_clean' && task.status !== 'todo') {
+    return 'Dostępne tylko dla zadań do sprzątania.';
+  }
+  // A started task changes hands through the handover, which splits its timing
+  if (action.kind === 'reassign' && (task.status === 'in_progress' || task.status === 'paused')) {
+    return 'Zadanie jest rozpoczęte — przekaż je w szczegółach zadania.';
+  }
+  return null;
+}
+
+/** Reason a task could not be changed, in words reception can act on. */
+export function describeBulkError(error: unknown): string {
+  const { code, message } = (error ?? {}) as { code?: string; message?: string };
+  // prevent_duplicate_open_room_tasks: one open task per room and day
+  if (code === '23505') return 'Ten pokój ma już otwarte zadanie w tym dniu.';
+  if (code === '42501') return 'Brak uprawnień do zmiany tego zadania.';
+  return message || 'Nieznany błąd.';
+}
+
+export function summarizeBulkResults(results: BulkTaskResult[]): { succeeded: number; failed: number } {
+  const succeeded = results.filter(result => result.ok).length;
+  return { succeeded, failed: results.length - succeeded };
+}
@@ -206,4 +206,3 @@ export const renderCapacityIconPattern = (label: string): React.ReactNode => {
     </div>
   );
 };
-
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { checklistProgress, openRequiredItems, parseTaskChecklist } from './cleaning-checklist';
+
+describe('parseTaskChecklist', () => {
+  it('reads stored steps and skips malformed entries', () => {
+    expect(parseTaskChecklist([
+      { id: 'a', label: 'Łazienka', required: true, done: true },
+      { id: 'b', label: 'Balkon', required: false },
+      { label: 'no id' },
+      'junk',
+    ])).toEqual([
+      { id: 'a', label: 'Łazienka', required: true, done: true },
+      { id: 'b', label: 'Balkon', required: false, done: false },
+    ]);
+  });
+
+  it('treats a missing checklist as empty', () => {
+    expect(parseTaskChecklist(null)).toEqual([]);
+  });
+});
+
+describe('openRequiredItems', () => {
+  it('lists required steps that are not ticked', () => {
+    const open = openRequiredItems([
+      { id: 'a', label: 'Łazienka', required: true, done: true },
+      { id: 'b', label: 'Balkon', required: false, done: false },
+      { id: 'c', label: 'Pościel', required: true, done: false },
+    ]);
+    expect(open.map(i => i.id)).toEqual(['c']);
+  });
+});
+
+describe('checklistProgress', () => {
+  it('counts ticked steps out of all steps', () => {
+    expect(checklistProgress([
+      { id: 'a', label: 'Łazienka', required: true, done: true },
+      { id: 'b', label: 'Balkon', required: false, done: false },
+    ])).toEqual({ done: 1, total: 2 });
+  });
+});
@@ -0,0 +1,33 @@
+import type { Database, Json } from '@/integrations/supabase/types';
+
+/** A step defined by an admin; new tasks copy the matching steps (see build_task_checklist). */
+export type ChecklistTemplateItem = Database['public']['Tables']['cleaning_checklist_items']['Row'];
+
+/** One step of a task's checklist, as stored in tasks.checklist. */
+export interface TaskChecklistItem {
+  /** Id of the template item the step was copied from. */
+  id: string;
+  label: string;
+  required: boolean;
+  done: boolean;
+}
+
+/** Reads tasks.checklist, skipping anything that is not a checklist step. */
+export function parseTaskChecklist(value: Json | null | undefined): TaskChecklistItem[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(entry => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return [];
+    const { id, label, required, done } = entry as Record<string, Json | undefined>;
+    if (typeof id !== 'string' || typeof label !== 'string') return [];
+    return [{ id, label, required: required !== false, done: done === true }];
+  });
+}
+
+/** Required steps not ticked yet. */
+export function openRequiredItems(checklist: TaskChecklistItem[]): TaskChecklistItem[] {
+  return checklist.filter(item => item.required && !item.done);
+}
+
+export function checklistProgress(checklist: TaskChecklistItem[]): { done: number; total: number } {
+  return { done: checklist.filter(item => item.done).length, total: checklist.length };
+}
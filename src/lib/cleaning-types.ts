@@ -0,0 +1,14 @@
+import { Constants, type Database } from '@/integrations/supabase/types';
+
+export type CleaningType = Database['public']['Enums']['cleaning_type'];
+
+export const CLEANING_TYPES: readonly CleaningType[] = Constants.public.Enums.cleaning_type;
+
+export const CLEANING_TYPE_LABELS: Record<CleaningType, string> = {
+  W: 'Wyjazd',
+  P: 'Przyjazd',
+  T: 'Trakt',
+  O: 'Odświeżenie',
+  G: 'Generalne',
+  S: 'Standard',
+};
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { planDayCopy, taskCopyFor, type PlanSourceTask } from './copy-plan';
+
+const task = (id: string, overrides: Partial<PlanSourceTask> = {}): PlanSourceTask => ({
+  id,
+  room_id: `room-${id}`,
+  user_id: 'anna',
+  cleaning_type: 'T',
+  guest_count: 'd',
+  time_limit: 30,
+  display_order: null,
+  room: { name: id, group_type: 'P2' },
+  ...overrides,
+});
+
+const all = { staffId: 'all', roomGroup: 'all' as const };
+
+describe('planDayCopy', () => {
+  it('keeps the source day order', () => {
+    const plan = planDayCopy([task('102', { display_order: 2 }), task('101', { display_order: 1 }), task('103')], [], all);
+    expect(plan.map(copy => copy.task.id)).toEqual(['101', '102', '103']);
+    expect(plan.every(copy => copy.conflict === null)).toBe(true);
+  });
+
+  it('copies only the chosen housekeeper and room group', () => {
+    const tasks = [
+      task('101'),
+      task('102', { user_id: 'ewa' }),
+      task('103', { user_id: null }),
+      task('201', { room: { name: '201', group_type: 'A1S' } }),
+    ];
+    expect(planDayCopy(tasks, [], { staffId: 'anna', roomGroup: 'P2' }).map(copy => copy.task.id)).toEqual(['101']);
+    expect(planDayCopy(tasks, [], { staffId: 'unassigned', roomGroup: 'all' }).map(copy => copy.task.id)).toEqual(['103']);
+  });
+
+  it('flags rooms that already have an open task on the target day', () => {
+    const plan = planDayCopy([task('101'), task('102')], [{ id: 'x', room_id: 'room-101', user_id: 'ewa' }], all);
+    expect(plan.map(copy => copy.conflict)).toEqual(['open_task', null]);
+  });
+
+  it('flags a room planned twice', () => {
+    const plan = planDayCopy([task('101', { id: 'a' }), task('101', { id: 'b', room_id: 'room-101' })], [], all);
+    expect(plan.map(copy => copy.conflict)).toEqual([null, 'duplicate_in_plan']);
+  });
+
+  it('lets shared locations take one task per person', () => {
+    const laundry = { room_id: 'pralnia', room: { name: 'Pralnia + Magazyn', group_type: 'OTHER' } };
+    const plan = planDayCopy(
+      [task('a', { ...laundry, user_id: 'anna' }), task('b', { ...laundry, user_id: 'ewa' })],
+      [{ id: 'x', room_id: 'pralnia', user_id: 'anna' }],
+      all
+    );
+    expect(plan.map(copy => copy.conflict)).toEqual(['open_task_same_person', null]);
+  });
+});
+
+describe('taskCopyFor', () => {
+  it('creates a todo task on the new date with the deadline at the same time of day', () => {
+    const copy = taskCopyFor(task('101', { display_order: 3, due_by: new Date('2026-10-19T14:00').toISOString() }), '2026-10-20');
+    expect(copy).toMatchObject({
+      date: '2026-10-20',
+      room_id: 'room-101',
+      user_id: 'anna',
+      cleaning_type: 'T',
+      guest_count: 'd',
+      display_order: 3,
+      status: 'todo',
+      due_by: new Date('2026-10-20T14:00').toISOString(),
+    });
+  });
+
+  it('leaves out a deadline the source task did not have', () => {
+    expect(taskCopyFor(task('101'), '2026-10-20')).not.toHaveProperty('due_by');
+  });
+});
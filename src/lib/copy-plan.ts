@@ -0,0 +1,156 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { CHANGE_SOURCE_HEADER } from '@/lib/task-events';
+import { isMultipleAssignmentLocation, timeOfDay, timeOnTaskDate } from '@/lib/task-utils';
+import { describeBulkError, type BulkTaskResult } from '@/lib/bulk-task-actions';
+
+type RoomGroup = Database['public']['Enums']['room_group'];
+type TaskInsert = Database['public']['Tables']['tasks']['Insert'];
+
+const OPEN_TASK_STATUSES: Database['public']['Enums']['task_status'][] = ['todo', 'in_progress', 'paused', 'repair_needed'];
+
+/** A task on the source day, with the fields its copy keeps. */
+export interface PlanSourceTask {
+  id: string;
+  room_id: string;
+  user_id: string | null;
+  cleaning_type: Database['public']['Enums']['cleaning_type'];
+  guest_count: string;
+  time_limit: number | null;
+  display_order: number | null;
+  due_by?: string | null;
+  room: { name: string; group_type: string };
+}
+
+/** An open task already on the target day. */
+export interface PlanOpenTask {
+  id: string;
+  room_id: string;
+  user_id: string | null;
+}
+
+/** Which part of the source day to copy; staffId is a user id, 'unassigned' or 'all'. */
+export interface CopyPlanFilter {
+  staffId: string;
+  roomGroup: RoomGroup | 'all';
+}
+
+export type CopyConflictReason = 'open_task' | 'open_task_same_person' | 'duplicate_in_plan';
+
+export const COPY_CONFLICT_LABELS: Record<CopyConflictReason, string> = {
+  open_task: 'Pokój ma już otwarte zadanie w tym dniu',
+  open_task_same_person: 'Ta osoba ma już zadanie w tej lokalizacji',
+  duplicate_in_plan: 'Pokój występuje w planie więcej niż raz',
+};
+
+export interface PlannedTaskCopy {
+  task: PlanSourceTask;
+  /** Why the copy would be rejected; null when it can be created. */
+  conflict: CopyConflictReason | null;
+}
+
+export function matchesCopyPlanFilter(task: PlanSourceTask, filter: CopyPlanFilter): boolean {
+  if (filter.roomGroup !== 'all' && task.room.group_type !== filter.roomGroup) return false;
+  if (filter.staffId === 'all') return true;
+  if (filter.staffId === 'unassigned') return task.user_id === null;
+  return task.user_id === filter.staffId;
+}
+
+/**
+ * The copies the source day produces, in its display order, each checked against the
+ * open tasks on the target day: one open task per room, as prevent_duplicate_open_room_tasks
+ * enforces, or per room and person for shared locations. The trigger skips shared
+ * locations, so that rule is the app's own, as in handleAddTask and generate_recurring_tasks.
+ */
+export function planDayCopy(
+  sourceTasks: PlanSourceTask[],
+  targetOpenTasks: PlanOpenTask[],
+  filter: CopyPlanFilter
+): PlannedTaskCopy[] {
+  const occupied = targetOpenTasks.map(task => ({ room_id: task.room_id, user_id: task.user_id }));
+
+  return sourceTasks
+    .filter(task => matchesCopyPlanFilter(task, filter))
+    .sort((a, b) =>
+      (a.display_order ?? Number.MAX_SAFE_INTEGER) - (b.display_order ?? Number.MAX_SAFE_INTEGER) ||
+      a.room.name.localeCompare(b.room.name, 'pl', { numeric: true })
+    )
+    .map(task => {
+      const shared = isMultipleAssignmentLocation(task.room.name);
+      const clash = (other: { room_id: string; user_id: string | null }) =>
+        other.room_id === task.room_id && (!shared || (task.user_id !== null && other.user_id === task.user_id));
+
+      let conflict: CopyConflictReason | null = null;
+      if (targetOpenTasks.some(clash)) {
+        conflict = shared ? 'open_task_same_person' : 'open_task';
+      } else if (occupied.some(clash)) {
+        conflict = 'duplicate_in_plan';
+      }
+
+      if (!conflict) occupied.push({ room_id: task.room_id, user_id: task.user_id });
+      return { task, conflict };
+    });
+}
+
+/** A fresh todo task on `date` with the source task's room, assignee, type, guests and order. */
+export function taskCopyFor(task: PlanSourceTask, date: string): TaskInsert {
+  const dueBy = task.due_by ? timeOnTaskDate(date, timeOfDay(task.due_by)) : null;
+  return {
+    ...(dueBy ? { due_by: dueBy } : {}),
+    date,
+    room_id: task.room_id,
+    user_id: task.user_id,
+    cleaning_type: task.cleaning_type,
+    guest_count: task.guest_count,
+    time_limit: task.time_limit,
+    display_order: task.display_order,
+    status: 'todo',
+  };
+}
+
+const SOURCE_COLUMNS = 'id, room_id, user_id, cleaning_type, guest_count, time_limit, display_order, room:rooms!inner(name, group_type)';
+
+/** Every task on `sourceDate` and the open tasks already on `targetDate`. */
+export async function fetchCopyPlanTasks(
+  sourceDate: string,
+  targetDate: string
+): Promise<{ sourceTasks: PlanSourceTask[]; targetOpenTasks: PlanOpenTask[] }> {
+  let source = await supabase
+    .from('tasks')
+    .select(`${SOURCE_COLUMNS}, due_by`)
+    .eq('date', sourceDate);
+  if (source.error?.message?.includes('due_by')) {
+    console.warn('tasks.due_by not found — apply migration 20261019001100_add_task_due_by.sql in the Supabase dashboard SQL editor.');
+    source = await supabase.from('tasks').select(SOURCE_COLUMNS).eq('date', sourceDate) as typeof source;
+  }
+  if (source.error) throw source.error;
+
+  const target = await supabase
+    .from('tasks')
+    .select('id, room_id, user_id')
+    .eq('date', targetDate)
+    .in('status', OPEN_TASK_STATUSES);
+  if (target.error) throw target.error;
+
+  return {
+    sourceTasks: (source.data ?? []) as unknown as PlanSourceTask[],
+    targetOpenTasks: (target.data ?? []) as PlanOpenTask[],
+  };
+}
+
+/**
+ * Inserts one copy per task. Rows go in one at a time so a copy the duplicate
+ * trigger rejects (another task added meanwhile) does not stop the rest.
+ */
+export async function createTaskCopies(tasks: PlanSourceTask[], targetDate: string): Promise<BulkTaskResult[]> {
+  const results: BulkTaskResult[] = [];
+  for (const task of tasks) {
+    const { error } = await supabase
+      .from('tasks')
+      .insert(taskCopyFor(task, targetDate))
+      .setHeader(CHANGE_SOURCE_HEADER, 'reception');
+    if (error) console.error(`Error copying task ${task.id} to ${targetDate}:`, error);
+    results.push({ taskId: task.id, roomName: task.room.name, ok: !error, error: error ? describeBulkError(error) : null });
+  }
+  return results;
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { buildTimelineLanes, timelineHours, timelineRange, type TimelineTask } from './day-timeline';
+
+const at = (time: string) => new Date(`2026-10-19T${time}`).toISOString();
+const ms = (time: string) => new Date(`2026-10-19T${time}`).getTime();
+
+const anna = { id: 'anna', name: 'Anna' };
+const ewa = { id: 'ewa', name: 'Ewa' };
+
+const task = (id: string, overrides: Partial<TimelineTask> = {}): TimelineTask => ({
+  id,
+  status: 'done',
+  user: anna,
+  room: { name: id },
+  start_time: at('08:00'),
+  stop_time: at('08:40'),
+  pause_start: null,
+  pause_stop: null,
+  ...overrides,
+});
+
+const now = new Date(`2026-10-19T10:00`);
+
+describe('buildTimelineLanes', () => {
+  it('draws a finished task from start to stop in its assignee lane', () => {
+    const [annaLane, ewaLane] = buildTimelineLanes([task('101')], [], [], [], [anna, ewa], now);
+    expect(annaLane.bars).toEqual([
+      expect.objectContaining({ taskId: '101', start: ms('08:00'), end: ms('08:40'), running: false, pauses: [] }),
+    ]);
+    expect(ewaLane.bars).toEqual([]);
+  });
+
+  it('lets a running task reach the current time', () => {
+    const [lane] = buildTimelineLanes([task('101', { status: 'in_progress', stop_time: null })], [], [], [], [anna], now);
+    expect(lane.bars[0]).toMatchObject({ end: now.getTime(), running: true });
+  });
+
+  it('leaves out tasks that were never started', () => {
+    const [lane] = buildTimelineLanes([task('101', { status: 'todo', start_time: null, stop_time: null })], [], [], [], [anna], now);
+    expect(lane.bars).toEqual([]);
+  });
+
+  it('shades recorded pauses, including one still going on', () => {
+    const [lane] = buildTimelineLanes(
+      [task('101', { status: 'paused', stop_time: null })],
+      [
+        { task_id: '101', started_at: at('08:10'), ended_at: at('08:20') },
+        { task_id: '101', started_at: at('09:30'), ended_at: null },
+      ],
+      [], [], [anna], now
+    );
+    expect(lane.bars[0].pauses).toEqual([
+      { start: ms('08:10'), end: ms('08:20') },
+      { start: ms('09:30'), end: now.getTime() },
+    ]);
+  });
+
+  it('falls back to the pause kept on the task', () => {
+    const [lane] = buildTimelineLanes([task('101', { pause_start: at('08:05'), pause_stop: at('08:15') })], [], [], [], [anna], now);
+    expect(lane.bars[0].pauses).toEqual([{ start: ms('08:05'), end: ms('08:15') }]);
+  });
+
+  it('puts work before a handover in the lane of the person who did it', () => {
+    const lanes = buildTimelineLanes(
+      [task('101', { user: ewa, start_time: at('08:30'), stop_time: at('09:00') })],
+      [],
+      [{ task_id: '101', user_id: 'anna', started_at: at('08:00'), ended_at: at('08:30') }],
+      [], [anna, ewa], now
+    );
+    expect(lanes[0].bars[0]).toMatchObject({ start: ms('08:00'), end: ms('08:30'), handedOver: true });
+    expect(lanes[1].bars[0]).toMatchObject({ start: ms('08:30'), end: ms('09:00'), handedOver: false });
+  });
+
+  it('adds the work-log window, open until now while clocked in', () => {
+    const [annaLane, ewaLane] = buildTimelineLanes(
+      [], [], [],
+      [{ user_id: 'anna', time_in: at('07:00'), time_out: at('15:00') }, { user_id: 'ewa', time_in: at('07:30'), time_out: null }],
+      [anna, ewa], now
+    );
+    expect(annaLane.shift).toEqual({ start: ms('07:00'), end: ms('15:00') });
+    expect(ewaLane.shift).toEqual({ start: ms('07:30'), end: now.getTime() });
+  });
+});
+
+describe('timelineRange', () => {
+  it('covers bars and shifts in whole hours', () => {
+    const lanes = buildTimelineLanes(
+      [task('101', { start_time: at('08:15'), stop_time: at('09:10') })],
+      [], [],
+      [{ user_id: 'anna', time_in: at('07:45'), time_out: null }],
+      [anna], now
+    );
+    const range = timelineRange(lanes)!;
+    expect(range).toEqual({ start: ms('07:00'), end: ms('10:00') });
+    expect(timelineHours(range)).toHaveLength(4);
+  });
+
+  it('is empty before anyone starts', () => {
+    expect(timelineRange(buildTimelineLanes([], [], [], [], [anna], now))).toBeNull();
+  });
+});
@@ -0,0 +1,183 @@
+/** Minimal task shape the day timeline draws. */
+export interface TimelineTask {
+  id: string;
+  status: string;
+  user: { id: string; name: string } | null;
+  room: { name: string };
+  start_time: string | null;
+  stop_time: string | null;
+  pause_start: string | null;
+  pause_stop: string | null;
+}
+
+/** A task_pauses row; ended_at is null while the pause lasts. */
+export interface TimelinePause {
+  task_id: string;
+  started_at: string;
+  ended_at: string | null;
+}
+
+/** A task_segments row: work on a task before it was handed over. */
+export interface TimelineSegment {
+  task_id: string;
+  user_id: string | null;
+  started_at: string;
+  ended_at: string;
+}
+
+/** A work_logs row: when the person clocked in and out. */
+export interface TimelineShift {
+  user_id: string | null;
+  time_in: string | null;
+  time_out: string | null;
+}
+
+export interface TimeSpan {
+  /** Epoch milliseconds */
+  start: number;
+  end: number;
+}
+
+export interface TimelineBar extends TimeSpan {
+  taskId: string;
+  roomName: string;
+  /** Still being worked on; the bar ends at the current time. */
+  running: boolean;
+  /** Worked by this person before the task was handed over. */
+  handedOver: boolean;
+  pauses: TimeSpan[];
+}
+
+export interface TimelineLane {
+  userId: string;
+  name: string;
+  bars: TimelineBar[];
+  shift: TimeSpan | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const toTime = (value: string | null | undefined): number | null => {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? null : time;
+};
+
+const isRunning = (task: TimelineTask) => task.status === 'in_progress' || task.status === 'paused';
+
+/**
+ * Pauses of one task. task_pauses has every pause; without it (migration pending)
+ * only the last pause kept on the task row is known.
+ */
+function taskPauses(task: TimelineTask, pauses: TimelinePause[], now: number): TimeSpan[] {
+  const recorded = pauses.filter(pause => pause.task_id === task.id);
+  const spans = recorded.length > 0
+    ? recorded.map(pause => ({ start: toTime(pause.started_at), end: toTime(pause.ended_at) }))
+    : [{ start: toTime(task.pause_start), end: toTime(task.pause_stop) }];
+
+  return spans.flatMap(({ start, end }) => {
+    if (start === null) return [];
+    // A pause without an end is still going on while the task is paused
+    if (end === null || end < start) return task.status === 'paused' ? [{ start, end: now }] : [];
+    return [{ start, end }];
+  });
+}
+
+const clipPauses = (pauses: TimeSpan[], bar: TimeSpan): TimeSpan[] =>
+  pauses
+    .map(pause => ({ start: Math.max(pause.start, bar.start), end: Math.min(pause.end, bar.end) }))
+    .filter(pause => pause.end > pause.start);
+
+/**
+ * One lane per person in `staff` (in that order) plus anyone else who worked a
+ * task. Each task gives a bar from start to stop in its assignee's lane — up to
+ * `now` while it runs — and each handed-over segment a bar in the lane of the
+ * person who worked it. Tasks that were never started are left out.
+ */
+export function buildTimelineLanes(
+  tasks: TimelineTask[],
+  pauses: TimelinePause[],
+  segments: TimelineSegment[],
+  shifts: TimelineShift[],
+  staff: { id: string; name: string }[],
+  now: Date = new Date()
+): TimelineLane[] {
+  const nowTime = now.getTime();
+  const lanes = new Map<string, TimelineLane>();
+  const laneFor = (userId: string, name: string) => {
+    if (!lanes.has(userId)) lanes.set(userId, { userId, name, bars: [], shift: null });
+    return lanes.get(userId)!;
+  };
+  staff.forEach(person => laneFor(person.id, person.name));
+  const staffNames = new Map(staff.map(person => [person.id, person.name]));
+
+  for (const task of tasks) {
+    const pausesOfTask = taskPauses(task, pauses, nowTime);
+
+    segments.filter(segment => segment.task_id === task.id && segment.user_id).forEach(segment => {
+      const start = toTime(segment.started_at);
+      const end = toTime(segment.ended_at);
+      if (start === null || end === null || end <= start) return;
+      const span = { start, end };
+      laneFor(segment.user_id!, staffNames.get(segment.user_id!) ?? 'Nieznany').bars.push({
+        taskId: task.id,
+        roomName: task.room.name,
+        ...span,
+        running: false,
+        handedOver: true,
+        pauses: clipPauses(pausesOfTask, span),
+      });
+    });
+
+    const start = toTime(task.start_time);
+    if (start === null || !task.user) continue;
+    const running = isRunning(task);
+    const end = running ? nowTime : toTime(task.stop_time);
+    if (end === null || end <= start) continue;
+    const span = { start, end };
+    laneFor(task.user.id, task.user.name).bars.push({
+      taskId: task.id,
+      roomName: task.room.name,
+      ...span,
+      running,
+      handedOver: false,
+      pauses: clipPauses(pausesOfTask, span),
+    });
+  }
+
+  for (const shift of shifts) {
+    const start = toTime(shift.time_in);
+    if (!shift.user_id || start === null || !lanes.has(shift.user_id)) continue;
+    // Still clocked in: the window reaches the current time
+    const end = toTime(shift.time_out) ?? Math.max(start, nowTime);
+    lanes.get(shift.user_id)!.shift = { start, end };
+  }
+
+  lanes.forEach(lane => lane.bars.sort((a, b) => a.start - b.start));
+  return [...lanes.values()];
+}
+
+/**
+ * Whole hours covering every bar and shift window; null when there is nothing
+ * to draw yet.
+ */
+export function timelineRange(lanes: TimelineLane[]): TimeSpan | null {
+  const spans = lanes.flatMap(lane => [...lane.bars, ...(lane.shift ? [lane.shift] : [])]);
+  if (spans.length === 0) return null;
+  const start = Math.min(...spans.map(span => span.start));
+  const end = Math.max(...spans.map(span => span.end));
+  const startHour = new Date(start);
+  startHour.setMinutes(0, 0, 0);
+  const endHour = new Date(end);
+  if (endHour.getMinutes() > 0 || endHour.getSeconds() > 0 || endHour.getMilliseconds() > 0) {
+    endHour.setHours(endHour.getHours() + 1, 0, 0, 0);
+  }
+  return { start: startHour.getTime(), end: Math.max(endHour.getTime(), startHour.getTime() + HOUR_MS) };
+}
+
+/** Start of every full hour in the range, for the axis labels. */
+export function timelineHours(range: TimeSpan): number[] {
+  const hours: number[] = [];
+  for (let time = range.start; time <= range.end; time += HOUR_MS) hours.push(time);
+  return hours;
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+import { groupSearchHits, splitSnippet, type SearchHit } from './global-search';
+
+const hit = (id: string, kind: SearchHit['kind'], rank: number): SearchHit => ({
+  kind, id, rank, room_id: 'r1', room_name: '101', date: '2026-10-19', title: null, snippet: '',
+});
+
+describe('groupSearchHits', () => {
+  it('splits tasks from issues and keeps the rank order', () => {
+    const grouped = groupSearchHits([hit('i1', 'issue', 0.9), hit('t1', 'task', 0.8), hit('t2', 'task', 0.5)]);
+    expect(grouped.task.map(h => h.id)).toEqual(['t1', 't2']);
+    expect(grouped.issue.map(h => h.id)).toEqual(['i1']);
+  });
+});
+
+describe('splitSnippet', () => {
+  it('marks the found words', () => {
+    expect(splitSnippet('Zepsuta «suszarka» w łazience, brak «klucza»')).toEqual([
+      { text: 'Zepsuta ', match: false },
+      { text: 'suszarka', match: true },
+      { text: ' w łazience, brak ', match: false },
+      { text: 'klucza', match: true },
+    ]);
+  });
+
+  it('returns plain text unchanged', () => {
+    expect(splitSnippet('bez trafień')).toEqual([{ text: 'bez trafień', match: false }]);
+    expect(splitSnippet('')).toEqual([]);
+  });
+});
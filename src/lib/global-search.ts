@@ -0,0 +1,70 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/** Shortest query sent to the database; one letter would match half the notes. */
+export const MIN_SEARCH_LENGTH = 2;
+
+export type SearchHitKind = 'task' | 'issue';
+
+/** One row of search_tasks_and_issues. */
+export interface SearchHit {
+  kind: SearchHitKind;
+  id: string;
+  room_id: string;
+  room_name: string;
+  date: string;
+  /** Issue title; null for tasks. */
+  title: string | null;
+  /** Matching fragment with the found words between « and ». */
+  snippet: string;
+  rank: number;
+}
+
+export interface SearchFilter {
+  from: string | null;
+  to: string | null;
+  /** Room id, or 'all'. */
+  roomId: string;
+}
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+/** Hits split by type, each kept in rank order. */
+export function groupSearchHits(hits: SearchHit[]): Record<SearchHitKind, SearchHit[]> {
+  return {
+    task: hits.filter(hit => hit.kind === 'task'),
+    issue: hits.filter(hit => hit.kind === 'issue'),
+  };
+}
+
+/** The snippet cut into plain and highlighted parts, for rendering without HTML. */
+export function splitSnippet(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  const pattern = /«([^»]*)»/g;
+  let last = 0;
+  for (const found of snippet.matchAll(pattern)) {
+    if (found.index > last) parts.push({ text: snippet.slice(last, found.index), match: false });
+    parts.push({ text: found[1], match: true });
+    last = found.index + found[0].length;
+  }
+  if (last < snippet.length) parts.push({ text: snippet.slice(last), match: false });
+  return parts;
+}
+
+export async function searchTasksAndIssues(query: string, filter: SearchFilter): Promise<SearchHit[]> {
+  const { data, error } = await supabase.rpc('search_tasks_and_issues', {
+    p_query: query,
+    p_from: filter.from,
+    p_to: filter.to,
+    p_room_id: filter.roomId === 'all' ? null : filter.roomId,
+  });
+
+  if (error?.code === 'PGRST202') {
+    console.warn('search_tasks_and_issues not found — apply migration 20261019001500_add_full_text_search.sql in the Supabase dashboard SQL editor.');
+    throw new Error('Wyszukiwanie nie jest jeszcze dostępne.');
+  }
+  if (error) throw error;
+  return (data ?? []) as SearchHit[];
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { inspectionRatesByHousekeeper, inspectionScore, isAwaitingInspection } from './inspection';
+
+describe('inspectionScore', () => {
+  it('returns the share of passed items', () => {
+    expect(inspectionScore([{ item: 'a', ok: true }, { item: 'b', ok: true }, { item: 'c', ok: false }])).toBe(67);
+  });
+
+  it('returns null for an empty checklist', () => {
+    expect(inspectionScore([])).toBeNull();
+  });
+});
+
+describe('isAwaitingInspection', () => {
+  const done = { status: 'done', stop_time: '2026-01-10T10:30:00Z' };
+
+  it('is true for a done task without inspections', () => {
+    expect(isAwaitingInspection(done, [])).toBe(true);
+  });
+
+  it('is false once an inspection is recorded after the stop', () => {
+    expect(isAwaitingInspection(done, [{ inspected_at: '2026-01-10T11:00:00Z' }])).toBe(false);
+  });
+
+  it('is true again when the task was finished after its last inspection', () => {
+    expect(isAwaitingInspection(done, [{ inspected_at: '2026-01-10T09:00:00Z' }])).toBe(true);
+  });
+
+  it('is false for tasks that are not done', () => {
+    expect(isAwaitingInspection({ status: 'in_progress', stop_time: null }, [])).toBe(false);
+  });
+});
+
+describe('inspectionRatesByHousekeeper', () => {
+  it('counts passes and failures per housekeeper', () => {
+    const rates = inspectionRatesByHousekeeper([
+      { housekeeper_id: 'u1', result: 'passed' },
+      { housekeeper_id: 'u1', result: 'passed' },
+      { housekeeper_id: 'u1', result: 'failed' },
+      { housekeeper_id: 'u2', result: 'failed' },
+      { housekeeper_id: null, result: 'passed' },
+    ]);
+    expect(rates.u1).toEqual({ passed: 2, failed: 1, passRate: 67 });
+    expect(rates.u2).toEqual({ passed: 0, failed: 1, passRate: 0 });
+    expect(Object.keys(rates)).toHaveLength(2);
+  });
+});
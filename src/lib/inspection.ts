@@ -0,0 +1,63 @@
+import type { Database } from '@/integrations/supabase/types';
+
+type InspectionResult = Database['public']['Enums']['inspection_result'];
+
+/** Points a supervisor checks in every inspected room. */
+export const INSPECTION_CHECKLIST = [
+  'Łóżko pościelone',
+  'Łazienka czysta',
+  'Podłoga odkurzona i umyta',
+  'Kurze starte',
+  'Śmieci wyniesione',
+  'Kosmetyki i ręczniki uzupełnione',
+] as const;
+
+export interface InspectionChecklistItem {
+  item: string;
+  ok: boolean;
+}
+
+/** Share of checklist items that passed, 0–100, or null for an empty checklist. */
+export function inspectionScore(items: InspectionChecklistItem[]): number | null {
+  if (items.length === 0) return null;
+  return Math.round((items.filter(i => i.ok).length / items.length) * 100);
+}
+
+/**
+ * A Completed Task waits for inspection until it has one recorded after its
+ * latest stop. A room sent back and finished again needs a fresh inspection.
+ */
+export function isAwaitingInspection(
+  task: { status: string | null; stop_time: string | null },
+  inspections: { inspected_at: string }[]
+): boolean {
+  if (task.status !== 'done') return false;
+  if (!task.stop_time) return inspections.length === 0;
+  const stoppedAt = new Date(task.stop_time).getTime();
+  return !inspections.some(i => new Date(i.inspected_at).getTime() >= stoppedAt);
+}
+
+export interface InspectionRate {
+  passed: number;
+  failed: number;
+  /** Percentage of passed inspections, 0–100. */
+  passRate: number;
+}
+
+/** Pass/fail counts per housekeeper. Inspections without a housekeeper are skipped. */
+export function inspectionRatesByHousekeeper(
+  inspections: { housekeeper_id: string | null; result: InspectionResult }[]
+): Record<string, InspectionRate> {
+  const rates: Record<string, InspectionRate> = {};
+  inspections.forEach(inspection => {
+    if (!inspection.housekeeper_id) return;
+    if (!rates[inspection.housekeeper_id]) {
+      rates[inspection.housekeeper_id] = { passed: 0, failed: 0, passRate: 0 };
+    }
+    const rate = rates[inspection.housekeeper_id];
+    if (inspection.result === 'passed') rate.passed++;
+    else rate.failed++;
+    rate.passRate = Math.round((rate.passed / (rate.passed + rate.failed)) * 100);
+  });
+  return rates;
+}
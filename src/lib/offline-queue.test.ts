@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyQueuedActions,
+  buildTaskActionUpdate,
+  isNetworkError,
+  type QueuedTaskAction,
+  type TaskTimingSnapshot,
+} from './offline-queue';
+
+const baseTask = (overrides: Partial<TaskTimingSnapshot & { id: string }> = {}): TaskTimingSnapshot & { id: string } => ({
+  id: 't1',
+  status: 'todo',
+  start_time: null,
+  pause_start: null,
+  pause_stop: null,
+  total_pause: 0,
+  time_limit: 30,
+  ...overrides,
+});
+
+const queued = (overrides: Partial<QueuedTaskAction>): QueuedTaskAction => ({
+  taskId: 't1',
+  roomName: '101',
+  kind: 'start',
+  occurredAt: '2026-01-10T10:00:00.000Z',
+  expectedStatus: 'todo',
+  ...overrides,
+});
+
+describe('buildTaskActionUpdate', () => {
+  it('uses the device timestamp as start_time', () => {
+    const update = buildTaskActionUpdate('start', baseTask(), '2026-01-10T10:00:00.000Z');
+    expect(update).toMatchObject({ status: 'in_progress', start_time: '2026-01-10T10:00:00.000Z', stop_time: null });
+  });
+
+  it('adds the offline pause length to total_pause on resume', () => {
+    const task = baseTask({ status: 'paused', pause_start: '2026-01-10T10:10:00.000Z', total_pause: 5 });
+    const update = buildTaskActionUpdate('resume', task, '2026-01-10T10:22:30.000Z');
+    expect(update).toMatchObject({ status: 'in_progress', total_pause: 17, pause_start: null, pause_stop: '2026-01-10T10:22:30.000Z' });
+  });
+
+  it('computes actual_time and difference on stop, closing an open pause', () => {
+    const task = baseTask({
+      status: 'paused',
+      start_time: '2026-01-10T10:00:00.000Z',
+      pause_start: '2026-01-10T10:20:00.000Z',
+      total_pause: 0,
+    });
+    const update = buildTaskActionUpdate('stop', task, '2026-01-10T10:30:00.000Z');
+    expect(update).toMatchObject({ status: 'done', total_pause: 10, actual_time: 20, difference: -10 });
+  });
+
+  it('refuses to stop a task that was never started', () => {
+    expect(buildTaskActionUpdate('stop', baseTask(), '2026-01-10T10:30:00.000Z')).toBeNull();
+  });
+});
+
+describe('applyQueuedActions', () => {
+  it('projects pending actions onto the fetched tasks in order', () => {
+    const tasks = [baseTask(), baseTask({ id: 't2' })];
+    const result = applyQueuedActions(tasks, [
+      queued({ kind: 'start' }),
+      queued({ kind: 'pause', occurredAt: '2026-01-10T10:05:00.000Z', expectedStatus: 'in_progress' }),
+    ]);
+    expect(result[0]).toMatchObject({ status: 'paused', pause_start: '2026-01-10T10:05:00.000Z' });
+    expect(result[1]).toBe(tasks[1]);
+  });
+
+  it('ignores conflicted actions', () => {
+    const tasks = [baseTask()];
+    const result = applyQueuedActions(tasks, [
+      queued({ conflict: { serverStatus: 'done', detectedAt: '2026-01-10T11:00:00.000Z' } }),
+    ]);
+    expect(result).toBe(tasks);
+  });
+});
+
+describe('isNetworkError', () => {
+  it('recognises fetch failures but not server rejections', () => {
+    expect(isNetworkError({ message: 'TypeError: Failed to fetch' })).toBe(true);
+    expect(isNetworkError({ message: 'new row violates row-level security policy' })).toBe(false);
+    expect(isNetworkError(null)).toBe(false);
+  });
+});
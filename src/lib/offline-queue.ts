@@ -0,0 +1,183 @@
+import type { Database } from '@/integrations/supabase/types';
+import type { PauseReason } from '@/lib/pause-reasons';
+
+type TaskStatus = Database['public']['Enums']['task_status'];
+type TaskUpdate = Database['public']['Tables']['tasks']['Update'];
+
+export type TaskActionKind = 'start' | 'pause' | 'resume' | 'stop';
+
+/** Server state a replayed action is checked against and computed from. */
+export interface TaskTimingSnapshot {
+  status: TaskStatus;
+  start_time: string | null;
+  pause_start: string | null;
+  pause_stop: string | null;
+  total_pause: number | null;
+  time_limit: number | null;
+}
+
+export interface QueuedTaskConflict {
+  /** Status found on the server at replay time, null when the task is gone. */
+  serverStatus: TaskStatus | null;
+  message?: string;
+  detectedAt: string;
+}
+
+/**
+ * A start/pause/resume/stop captured on the device while it could not reach
+ * Supabase. `occurredAt` is the device clock at the moment of the tap, so the
+ * timings written on replay match what the housekeeper actually did.
+ */
+export interface QueuedTaskAction {
+  id?: number;
+  taskId: string;
+  roomName: string;
+  kind: TaskActionKind;
+  occurredAt: string;
+  /** Status the device saw when the action was taken. */
+  expectedStatus: TaskStatus;
+  /** Reason given for a pause. */
+  reason?: PauseReason;
+  conflict?: QueuedTaskConflict;
+}
+
+const DB_NAME = 'sleepwalker-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'task-actions';
+
+const minutesBetween = (from: string, to: string): number => {
+  const start = new Date(from).getTime();
+  const end = new Date(to).getTime();
+  if (isNaN(start) || isNaN(end)) return 0;
+  return Math.max(0, Math.floor((end - start) / 60000));
+};
+
+/**
+ * Column values written for an action taken at `occurredAt` on a task in the
+ * given state. Returns null when the action cannot apply (e.g. stopping a task
+ * that was never started).
+ */
+export function buildTaskActionUpdate(
+  kind: TaskActionKind,
+  task: TaskTimingSnapshot,
+  occurredAt: string
+): TaskUpdate | null {
+  switch (kind) {
+    case 'start':
+      return {
+        status: 'in_progress', start_time: occurredAt,
+        pause_start: null, pause_stop: null, stop_time: null,
+        actual_time: null, difference: null,
+      };
+    case 'pause':
+      return { status: 'paused', pause_start: occurredAt };
+    case 'resume': {
+      if (!task.pause_start) return null;
+      return {
+        status: 'in_progress',
+        total_pause: (task.total_pause || 0) + minutesBetween(task.pause_start, occurredAt),
+        pause_start: null, pause_stop: occurredAt,
+      };
+    }
+    case 'stop': {
+      if (!task.start_time || task.status === 'done' || task.status === 'todo') return null;
+      let totalPause = task.total_pause || 0;
+      let pauseStop = task.pause_stop;
+      if (task.status === 'paused' && task.pause_start) {
+        totalPause += minutesBetween(task.pause_start, occurredAt);
+        pauseStop = occurredAt;
+      }
+      const actualTime = Math.max(0, minutesBetween(task.start_time, occurredAt) - totalPause);
+      return {
+        status: 'done', stop_time: occurredAt, pause_start: null, pause_stop: pauseStop,
+        total_pause: totalPause, actual_time: actualTime,
+        difference: task.time_limit != null ? actualTime - task.time_limit : null,
+      };
+    }
+  }
+}
+
+/**
+ * Overlays still-pending actions on the fetched tasks so the list reflects
+ * what the housekeeper did offline. Conflicted actions are left out.
+ */
+export function applyQueuedActions<T extends TaskTimingSnapshot & { id: string }>(
+  tasks: T[],
+  actions: QueuedTaskAction[]
+): T[] {
+  const pending = actions.filter(action => !action.conflict);
+  if (pending.length === 0) return tasks;
+
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  pending.forEach(action => {
+    const task = byId.get(action.taskId);
+    if (!task) return;
+    const update = buildTaskActionUpdate(action.kind, task, action.occurredAt);
+    if (update) byId.set(action.taskId, { ...task, ...update });
+  });
+  return tasks.map(task => byId.get(task.id) ?? task);
+}
+
+/**
+ * True when a Supabase call failed because the request never reached the
+ * server, as opposed to being rejected by it.
+ */
+export function isNetworkError(error: { message?: string } | null | undefined): boolean {
+  if (!error) return false;
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(error.message ?? '');
+}
+
+const openDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+async function withStore<R>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<R> | void
+): Promise<R | undefined> {
+  const db = await openDb();
+  try {
+    return await new Promise<R | undefined>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, mode);
+      const request = run(tx.objectStore(STORE_NAME));
+      tx.oncomplete = () => resolve(request ? request.result : undefined);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/** All stored actions in the order they were taken. */
+export async function loadQueuedTaskActions(): Promise<QueuedTaskAction[]> {
+  const rows = await withStore<QueuedTaskAction[]>('readonly', store => store.getAll());
+  return (rows || []).sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+}
+
+export async function addQueuedTaskAction(action: QueuedTaskAction): Promise<QueuedTaskAction> {
+  const id = await withStore<IDBValidKey>('readwrite', store => store.add(action));
+  return { ...action, id: id as number };
+}
+
+export async function saveQueuedTaskAction(action: QueuedTaskAction): Promise<void> {
+  await withStore('readwrite', store => { store.put(action); });
+}
+
+export async function deleteQueuedTaskActions(ids: number[]): Promise<void> {
+  if (ids.length === 0) return;
+  await withStore('readwrite', store => { ids.forEach(id => store.delete(id)); });
+}
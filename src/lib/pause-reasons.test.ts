@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { pauseMinutes, sumPauseMinutesByReason } from './pause-reasons';
+
+describe('pauseMinutes', () => {
+  it('counts whole minutes between start and end', () => {
+    expect(pauseMinutes({ reason: 'break', started_at: '2026-01-10T10:00:00Z', ended_at: '2026-01-10T10:12:59Z' })).toBe(12);
+  });
+
+  it('counts an open pause up to now', () => {
+    const now = new Date('2026-01-10T10:05:00Z');
+    expect(pauseMinutes({ reason: 'break', started_at: '2026-01-10T10:00:00Z', ended_at: null }, now)).toBe(5);
+  });
+});
+
+describe('sumPauseMinutesByReason', () => {
+  it('totals minutes per reason and keeps pauses without a reason', () => {
+    const totals = sumPauseMinutesByReason([
+      { reason: 'guest_in_room', started_at: '2026-01-10T10:00:00Z', ended_at: '2026-01-10T10:10:00Z' },
+      { reason: 'guest_in_room', started_at: '2026-01-10T11:00:00Z', ended_at: '2026-01-10T11:05:00Z' },
+      { reason: null, started_at: '2026-01-10T12:00:00Z', ended_at: '2026-01-10T12:03:00Z' },
+    ]);
+    expect(totals.guest_in_room).toBe(15);
+    expect(totals.unknown).toBe(3);
+    expect(totals.break).toBe(0);
+  });
+});
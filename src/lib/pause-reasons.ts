@@ -0,0 +1,47 @@
+import { Constants, type Database } from '@/integrations/supabase/types';
+
+export type PauseReason = Database['public']['Enums']['pause_reason'];
+
+export const PAUSE_REASONS: readonly PauseReason[] = Constants.public.Enums.pause_reason;
+
+export const PAUSE_REASON_LABELS: Record<PauseReason, string> = {
+  guest_in_room: 'Gość w pokoju',
+  waiting_for_linen: 'Czekam na pościel',
+  break: 'Przerwa',
+  called_elsewhere: 'Wezwanie gdzie indziej',
+};
+
+/** Label for pauses recorded before reasons were asked for. */
+export const UNKNOWN_PAUSE_REASON_LABEL = 'Bez powodu';
+
+/** Minimal shape of a task_pauses row. */
+export interface PauseInterval {
+  reason: PauseReason | null;
+  started_at: string;
+  ended_at: string | null;
+}
+
+/** Whole minutes of a pause; a pause still open counts up to `now`. */
+export function pauseMinutes(pause: PauseInterval, now: Date = new Date()): number {
+  const start = new Date(pause.started_at).getTime();
+  const end = pause.ended_at ? new Date(pause.ended_at).getTime() : now.getTime();
+  if (isNaN(start) || isNaN(end)) return 0;
+  return Math.max(0, Math.floor((end - start) / 60000));
+}
+
+/**
+ * Total pause minutes per reason. Pauses without a reason are grouped under
+ * 'unknown' so their time is not lost from the totals.
+ */
+export function sumPauseMinutesByReason(
+  pauses: PauseInterval[],
+  now: Date = new Date()
+): Record<PauseReason | 'unknown', number> {
+  const totals = Object.fromEntries(
+    [...PAUSE_REASONS, 'unknown'].map(reason => [reason, 0])
+  ) as Record<PauseReason | 'unknown', number>;
+  pauses.forEach(pause => {
+    totals[pause.reason ?? 'unknown'] += pauseMinutes(pause, now);
+  });
+  return totals;
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+import { describeWeekdays, isoWeekday, templateAppliesOn } from './recurring-tasks';
+
+const template = {
+  active: true,
+  weekdays: [1, 2, 3, 4, 5],
+  valid_from: '2026-10-01',
+  valid_until: '2026-10-31' as string | null,
+};
+
+describe('isoWeekday', () => {
+  it('counts Monday as 1 and Sunday as 7', () => {
+    expect(isoWeekday('2026-10-19')).toBe(1);
+    expect(isoWeekday('2026-10-25')).toBe(7);
+  });
+});
+
+describe('templateAppliesOn', () => {
+  it('applies on a listed weekday inside the validity range', () => {
+    expect(templateAppliesOn(template, '2026-10-19')).toBe(true);
+  });
+
+  it('skips weekdays that are not listed', () => {
+    expect(templateAppliesOn(template, '2026-10-24')).toBe(false);
+  });
+
+  it('includes both ends of the validity range', () => {
+    expect(templateAppliesOn(template, '2026-10-01')).toBe(true);
+    expect(templateAppliesOn({ ...template, weekdays: [6] }, '2026-10-31')).toBe(true);
+    expect(templateAppliesOn(template, '2026-11-02')).toBe(false);
+  });
+
+  it('runs indefinitely without an end date', () => {
+    expect(templateAppliesOn({ ...template, valid_until: null }, '2027-03-01')).toBe(true);
+  });
+
+  it('never applies while inactive', () => {
+    expect(templateAppliesOn({ ...template, active: false }, '2026-10-19')).toBe(false);
+  });
+});
+
+describe('describeWeekdays', () => {
+  it('names the common patterns', () => {
+    expect(describeWeekdays([1, 2, 3, 4, 5, 6, 7])).toBe('Codziennie');
+    expect(describeWeekdays([5, 4, 3, 2, 1])).toBe('Pn–Pt');
+    expect(describeWeekdays([6, 7])).toBe('Weekendy');
+  });
+
+  it('lists other days in week order', () => {
+    expect(describeWeekdays([5, 1, 3])).toBe('Pn, Śr, Pt');
+  });
+});
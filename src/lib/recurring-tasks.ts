@@ -0,0 +1,55 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { CHANGE_SOURCE_HEADER } from '@/lib/task-events';
+
+export type RecurringTaskTemplate = Database['public']['Tables']['recurring_task_templates']['Row'];
+
+/** ISO weekdays, Monday = 1 … Sunday = 7, as stored in recurring_task_templates.weekdays. */
+export const WEEKDAYS = [1, 2, 3, 4, 5, 6, 7] as const;
+export const WORKDAYS = [1, 2, 3, 4, 5];
+
+export const WEEKDAY_SHORT_LABELS: Record<number, string> = {
+  1: 'Pn', 2: 'Wt', 3: 'Śr', 4: 'Cz', 5: 'Pt', 6: 'So', 7: 'Nd',
+};
+
+/** ISO weekday of a YYYY-MM-DD date, read in UTC like the rest of the task dates. */
+export function isoWeekday(date: string): number {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return day === 0 ? 7 : day;
+}
+
+/** Whether the template produces a task on `date`. Mirrors generate_recurring_tasks. */
+export function templateAppliesOn(
+  template: Pick<RecurringTaskTemplate, 'active' | 'weekdays' | 'valid_from' | 'valid_until'>,
+  date: string
+): boolean {
+  if (!template.active) return false;
+  if (date < template.valid_from) return false;
+  if (template.valid_until && date > template.valid_until) return false;
+  return template.weekdays.includes(isoWeekday(date));
+}
+
+/** Short description of a weekday pattern, e.g. "Codziennie", "Pn–Pt" or "Pn, Śr, Pt". */
+export function describeWeekdays(weekdays: number[]): string {
+  const days = [...new Set(weekdays)].sort((a, b) => a - b);
+  if (days.length === WEEKDAYS.length) return 'Codziennie';
+  if (days.length === WORKDAYS.length && WORKDAYS.every((day, i) => days[i] === day)) return 'Pn–Pt';
+  if (days.length === 2 && days[0] === 6 && days[1] === 7) return 'Weekendy';
+  return days.map(day => WEEKDAY_SHORT_LABELS[day]).join(', ');
+}
+
+/**
+ * Creates the tasks due on `date` from the active templates and returns how many
+ * were added. Safe to call repeatedly: a template produces at most one task a day.
+ */
+export async function generateRecurringTasks(date: string): Promise<{ created: number; error: { message: string } | null }> {
+  const { data, error } = await supabase
+    .rpc('generate_recurring_tasks', { p_date: date })
+    .setHeader(CHANGE_SOURCE_HEADER, 'system');
+  if (error?.code === 'PGRST202') {
+    console.warn('generate_recurring_tasks not found — apply migration 20261019000500_add_recurring_task_templates.sql in the Supabase dashboard SQL editor.');
+    return { created: 0, error: null };
+  }
+  if (error) return { created: 0, error };
+  return { created: data ?? 0, error: null };
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import type { Room } from '@/hooks/useReceptionData';
+import { capacityIdForGuests, parseImportDate, parseReservationsCsv, planTasksFromReservations } from './reservation-import';
+
+const room = (id: string, name: string, capacity_configurations: unknown = []): Room => ({
+  id, name, group_type: 'P2', capacity: 2, capacity_configurations,
+});
+
+const rooms = [
+  room('r101', '101'),
+  room('r102', '102', [{ capacity_id: 'b', capacity_label: '1+1', cleaning_types: [] }]),
+  room('r103', '103'),
+];
+
+describe('parseImportDate', () => {
+  it('reads ISO and Polish date formats', () => {
+    expect(parseImportDate('2026-10-19')).toBe('2026-10-19');
+    expect(parseImportDate('19.10.2026')).toBe('2026-10-19');
+    expect(parseImportDate('1/2/2026')).toBe('2026-02-01');
+  });
+
+  it('rejects anything else', () => {
+    expect(parseImportDate('jutro')).toBeNull();
+  });
+});
+
+describe('parseReservationsCsv', () => {
+  it('finds the columns by header name and detects the separator', () => {
+    const { reservations, issues } = parseReservationsCsv(
+      'Gość;Pokój;Przyjazd;Wyjazd;Goście\r\n"Nowak; Jan";101;17.10.2026;19.10.2026;2\r\n'
+    );
+    expect(issues).toEqual([]);
+    expect(reservations).toEqual([
+      { line: 2, room: '101', arrival: '2026-10-17', departure: '2026-10-19', guests: '2' },
+    ]);
+  });
+
+  it('reports rows it cannot read', () => {
+    const { reservations, issues } = parseReservationsCsv('room,arrival,departure,guests\n101,soon,2026-10-19,2\n');
+    expect(reservations).toEqual([]);
+    expect(issues[0]).toMatchObject({ line: 2 });
+  });
+
+  it('names the missing header columns', () => {
+    const { issues } = parseReservationsCsv('room,arrival\n101,2026-10-19\n');
+    expect(issues[0].message).toContain('wyjazd');
+  });
+});
+
+describe('capacityIdForGuests', () => {
+  it('uses an explicit label', () => {
+    expect(capacityIdForGuests('2 + 1', rooms[0])).toBe('e');
+  });
+
+  it('prefers the room configuration for a plain head count', () => {
+    expect(capacityIdForGuests('2', rooms[1])).toBe('b');
+    expect(capacityIdForGuests('2', rooms[0])).toBe('d');
+  });
+
+  it('returns null for counts no label covers', () => {
+    expect(capacityIdForGuests('9', rooms[0])).toBeNull();
+  });
+});
+
+describe('planTasksFromReservations', () => {
+  const reservation = (line: number, roomName: string, arrival: string, departure: string, guests = '2') =>
+    ({ line, room: roomName, arrival, departure, guests });
+
+  it('plans departures and stay-overs and ignores arrivals', () => {
+    const { tasks } = planTasksFromReservations([
+      reservation(2, '101', '2026-10-17', '2026-10-19'),
+      reservation(3, '103', '2026-10-18', '2026-10-21'),
+      reservation(4, '102', '2026-10-19', '2026-10-22'),
+    ], rooms, '2026-10-19');
+    expect(tasks.map(t => [t.roomId, t.cleaningType])).toEqual([['r101', 'W'], ['r103', 'T']]);
+  });
+
+  it('keeps one task per room, with the departure winning', () => {
+    const { tasks } = planTasksFromReservations([
+      reservation(2, '101', '2026-10-18', '2026-10-20'),
+      reservation(3, '101', '2026-10-15', '2026-10-19'),
+    ], rooms, '2026-10-19');
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0].cleaningType).toBe('W');
+  });
+
+  it('reports unknown rooms and guest counts', () => {
+    const { tasks, issues } = planTasksFromReservations([
+      reservation(2, '999', '2026-10-17', '2026-10-19'),
+      reservation(3, '101', '2026-10-17', '2026-10-19', 'dużo'),
+    ], rooms, '2026-10-19');
+    expect(tasks).toEqual([]);
+    expect(issues.map(issue => issue.line)).toEqual([2, 3]);
+  });
+});
@@ -0,0 +1,189 @@
+import type { Room } from '@/hooks/useReceptionData';
+import {
+  CAPACITY_ID_TO_LABEL,
+  CAPACITY_LABEL_ORDER,
+  LABEL_TO_CAPACITY_ID,
+  getLabelGuestTotal,
+  normalizeCapacityLabel,
+} from '@/lib/capacity-utils';
+
+/** One reservation from a PMS export, independent of the file format it came from. */
+export interface Reservation {
+  /** Line in the source file, for error messages. */
+  line: number;
+  room: string;
+  arrival: string;   // YYYY-MM-DD
+  departure: string; // YYYY-MM-DD
+  guests: string;
+}
+
+export interface ImportIssue {
+  line: number;
+  message: string;
+}
+
+/** A task ready to drop into the batch wizard. */
+export interface ImportedTask {
+  roomId: string;
+  cleaningType: 'W' | 'T';
+  capacityId: string;
+  notes: string;
+}
+
+// Header names seen in PMS exports, lower-cased; Polish and English
+const COLUMN_ALIASES: Record<keyof Omit<Reservation, 'line'>, string[]> = {
+  room: ['pokój', 'pokoj', 'room', 'nr pokoju', 'room number'],
+  arrival: ['przyjazd', 'arrival', 'data przyjazdu', 'check-in', 'checkin'],
+  departure: ['wyjazd', 'departure', 'data wyjazdu', 'check-out', 'checkout'],
+  guests: ['goście', 'goscie', 'osoby', 'guests', 'pax', 'liczba gości'],
+};
+
+/** Accepts YYYY-MM-DD and DD.MM.YYYY (or with slashes); returns YYYY-MM-DD or null. */
+export function parseImportDate(value: string): string | null {
+  const trimmed = value.trim();
+  let match = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+  match = trimmed.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})$/);
+  if (match) return `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+  return null;
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') { current += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else current += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+/**
+ * Reads a CSV export with a header row naming the room, arrival, departure and guest
+ * columns. Semicolon, comma and tab separators are detected from the header.
+ */
+export function parseReservationsCsv(text: string): { reservations: Reservation[]; issues: ImportIssue[] } {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const headerIndex = lines.findIndex(line => line.trim() !== '');
+  if (headerIndex === -1) return { reservations: [], issues: [{ line: 1, message: 'Plik jest pusty.' }] };
+
+  const header = lines[headerIndex];
+  const delimiter = [';', '\t', ','].find(candidate => header.includes(candidate)) ?? ';';
+  const headerCells = splitCsvLine(header, delimiter).map(cell => cell.toLowerCase());
+  const columns = {} as Record<keyof typeof COLUMN_ALIASES, number>;
+  for (const key of Object.keys(COLUMN_ALIASES) as (keyof typeof COLUMN_ALIASES)[]) {
+    columns[key] = headerCells.findIndex(cell => COLUMN_ALIASES[key].includes(cell));
+  }
+  const missing = (Object.keys(columns) as (keyof typeof columns)[]).filter(key => columns[key] === -1);
+  if (missing.length > 0) {
+    return {
+      reservations: [],
+      issues: [{ line: headerIndex + 1, message: `Brak kolumn w nagłówku: ${missing.map(key => COLUMN_ALIASES[key][0]).join(', ')}.` }],
+    };
+  }
+
+  const reservations: Reservation[] = [];
+  const issues: ImportIssue[] = [];
+  lines.slice(headerIndex + 1).forEach((line, offset) => {
+    if (line.trim() === '') return;
+    const lineNumber = headerIndex + offset + 2;
+    const cells = splitCsvLine(line, delimiter);
+    const arrival = parseImportDate(cells[columns.arrival] ?? '');
+    const departure = parseImportDate(cells[columns.departure] ?? '');
+    const room = cells[columns.room] ?? '';
+    if (!room) {
+      issues.push({ line: lineNumber, message: 'Brak numeru pokoju.' });
+    } else if (!arrival || !departure) {
+      issues.push({ line: lineNumber, message: `Nieprawidłowa data przyjazdu lub wyjazdu (pokój ${room}).` });
+    } else {
+      reservations.push({ line: lineNumber, room, arrival, departure, guests: cells[columns.guests] ?? '' });
+    }
+  });
+  return { reservations, issues };
+}
+
+function roomCapacityLabels(room: Room): string[] {
+  let configs: unknown = room.capacity_configurations;
+  if (typeof configs === 'string') {
+    try { configs = JSON.parse(configs); } catch { configs = []; }
+  }
+  if (!Array.isArray(configs)) return [];
+  return configs
+    .map((config: { capacity_id?: string; capacity_label?: string }) =>
+      normalizeCapacityLabel(config.capacity_label || CAPACITY_ID_TO_LABEL[config.capacity_id ?? ''] || ''))
+    .filter(Boolean);
+}
+
+/**
+ * Capacity id for the guest field. A label such as "2+1" is used as is; a plain head
+ * count picks the room's own configuration with that many guests, then the label of
+ * the same name, then the first standard label with that total.
+ */
+export function capacityIdForGuests(guests: string, room: Room): string | null {
+  const label = normalizeCapacityLabel(guests.replace(/\s+/g, ''));
+  if (label.includes('+')) return LABEL_TO_CAPACITY_ID[label] ?? null;
+  const total = parseInt(label, 10);
+  if (isNaN(total) || total <= 0) return null;
+  const candidates = [...roomCapacityLabels(room), label, ...CAPACITY_LABEL_ORDER];
+  const match = candidates.find(candidate => getLabelGuestTotal(candidate) === total && LABEL_TO_CAPACITY_ID[candidate]);
+  return match ? LABEL_TO_CAPACITY_ID[match] : null;
+}
+
+/**
+ * Turns reservations into the day's cleaning tasks: a departure on `date` becomes a
+ * Wyjazd clean, a stay spanning `date` a Trakt clean. Arrivals alone need no task
+ * because the room was cleaned on the previous departure. A room appears once, with
+ * the departure winning over a stay-over.
+ */
+export function planTasksFromReservations(
+  reservations: Reservation[],
+  rooms: Room[],
+  date: string
+): { tasks: ImportedTask[]; issues: ImportIssue[] } {
+  const roomsByName = new Map(rooms.map(room => [room.name.trim().toLowerCase(), room]));
+  const byRoom = new Map<string, ImportedTask>();
+  const issues: ImportIssue[] = [];
+
+  for (const reservation of reservations) {
+    const isDeparture = reservation.departure === date;
+    const isStayOver = reservation.arrival < date && reservation.departure > date;
+    if (!isDeparture && !isStayOver) continue;
+
+    const room = roomsByName.get(reservation.room.trim().toLowerCase());
+    if (!room) {
+      issues.push({ line: reservation.line, message: `Nie znaleziono pokoju "${reservation.room}".` });
+      continue;
+    }
+    const capacityId = capacityIdForGuests(reservation.guests, room);
+    if (!capacityId) {
+      issues.push({ line: reservation.line, message: `Nieznana liczba gości "${reservation.guests}" (pokój ${room.name}).` });
+      continue;
+    }
+
+    const existing = byRoom.get(room.id);
+    if (existing && (existing.cleaningType === 'W' || !isDeparture)) continue;
+    byRoom.set(room.id, {
+      roomId: room.id,
+      cleaningType: isDeparture ? 'W' : 'T',
+      capacityId,
+      notes: '',
+    });
+  }
+
+  const roomName = (task: ImportedTask) => rooms.find(room => room.id === task.roomId)?.name ?? '';
+  const tasks = [...byRoom.values()].sort((a, b) => roomName(a).localeCompare(roomName(b), 'pl', { numeric: true }));
+  return { tasks, issues };
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { orderChanges, roomFloor, spliceGroupOrder, suggestTaskOrder, type RouteTask } from './route-order';
+
+const task = (id: string, roomName: string, overrides: Partial<RouteTask> = {}): RouteTask => ({
+  id,
+  status: 'todo',
+  ready_to_clean: false,
+  cleaning_type: 'W',
+  time_limit: 30,
+  room: { name: roomName, group_type: 'P1' },
+  ...overrides,
+});
+
+const ids = (tasks: RouteTask[]) => tasks.map(t => t.id);
+
+describe('roomFloor', () => {
+  it('reads the floor from the room number', () => {
+    expect(roomFloor('214')).toBe(2);
+    expect(roomFloor('1105')).toBe(11);
+  });
+
+  it('is null for named locations', () => {
+    expect(roomFloor('Pralnia + Magazyn')).toBeNull();
+  });
+});
+
+describe('suggestTaskOrder', () => {
+  it('puts departures before stay-overs', () => {
+    const order = suggestTaskOrder([task('stay', '101', { cleaning_type: 'T' }), task('dep', '305')]);
+    expect(ids(order)).toEqual(['dep', 'stay']);
+  });
+
+  it('groups rooms by room group, then floor and number', () => {
+    const order = suggestTaskOrder([
+      task('a', '210'),
+      task('b', '12', { room: { name: '12', group_type: 'A1S' } }),
+      task('c', '105'),
+      task('d', '201'),
+    ]);
+    expect(ids(order)).toEqual(['c', 'd', 'a', 'b']);
+  });
+
+  it('brings rooms flagged ready to clean to the front', () => {
+    const order = suggestTaskOrder([task('a', '101'), task('b', '102', { cleaning_type: 'T', ready_to_clean: true })]);
+    expect(ids(order)).toEqual(['b', 'a']);
+  });
+
+  it('keeps started work first and finished work last', () => {
+    const order = suggestTaskOrder([
+      task('done', '101', { status: 'done' }),
+      task('todo', '102'),
+      task('running', '301', { status: 'in_progress', cleaning_type: 'T' }),
+    ]);
+    expect(ids(order)).toEqual(['running', 'todo', 'done']);
+  });
+
+  it('slots fixed-time locations in when the time limits reach their hour', () => {
+    // Day starts at 08:00; five one-hour rooms, breakfast room due at 10:30
+    const rooms = ['101', '102', '103', '104', '105'].map(name => task(name, name, { time_limit: 60 }));
+    const breakfast = task('breakfast', 'Śniadania', { cleaning_type: 'S', room: { name: 'Śniadania', group_type: 'OTHER' } });
+    expect(ids(suggestTaskOrder([breakfast, ...rooms]))).toEqual(['101', '102', '103', 'breakfast', '104', '105']);
+  });
+
+  it('appends fixed-time locations whose hour the route never reaches', () => {
+    const breakfast = task('breakfast', 'Śniadania', { room: { name: 'Śniadania', group_type: 'OTHER' } });
+    expect(ids(suggestTaskOrder([breakfast, task('a', '101')]))).toEqual(['a', 'breakfast']);
+  });
+});
+
+describe('orderChanges', () => {
+  it('lists only tasks whose position changes', () => {
+    expect(orderChanges(['a', 'b', 'c'], ['b', 'a', 'c'])).toEqual([
+      { id: 'b', from: 2, to: 1 },
+      { id: 'a', from: 1, to: 2 },
+    ]);
+  });
+});
+
+describe('spliceGroupOrder', () => {
+  it('replaces the group in place of its first member', () => {
+    expect(spliceGroupOrder(['x', 'a', 'y', 'b'], ['a', 'b'], ['b', 'a'])).toEqual(['x', 'b', 'a', 'y']);
+  });
+});
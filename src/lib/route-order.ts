@@ -0,0 +1,117 @@
+import { sortReadyToCleanFirst, type ReadyToCleanTask } from '@/lib/task-utils';
+import { DEFAULT_TASK_MINUTES } from '@/lib/task-time-limits';
+
+/** Minimal shape needed to suggest an order for a housekeeper's day. */
+export interface RouteTask extends ReadyToCleanTask {
+  id: string;
+  cleaning_type: string;
+  time_limit: number | null;
+  room: { name: string; group_type: string };
+}
+
+/** When the shift starts; fixed-time locations are placed by counting time limits from here. */
+export const ROUTE_DAY_START = '08:00';
+
+/**
+ * Locations that have to be done at a set time of day rather than along the route.
+ * Śniadania is cleaned once breakfast service ends; the breakfast break is taken
+ * mid-morning.
+ */
+export const FIXED_TIME_LOCATIONS: { matches: (roomName: string) => boolean; slot: string }[] = [
+  { matches: name => name === 'śniadania', slot: '10:30' },
+  { matches: name => name.includes('przerwa śniadaniowa') || name.includes('przerwa sniadaniowa'), slot: '10:00' },
+];
+
+// Departures and arrivals free or prepare a room for the next guest, so they come first
+const CLEANING_TYPE_TIER: Record<string, number> = { W: 0, P: 0, T: 1, O: 1, G: 2, S: 2 };
+const ROOM_GROUP_ORDER = ['P1', 'P2', 'A1S', 'A2S', 'OTHER'];
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+/** Floor from a room number such as "214" (2) or "1105" (11); null for named locations. */
+export function roomFloor(roomName: string): number | null {
+  const match = roomName.trim().match(/^(\d{3,4})\b/);
+  return match ? Math.floor(Number(match[1]) / 100) : null;
+}
+
+function fixedSlot(task: RouteTask): number | null {
+  const name = task.room.name.trim().toLowerCase();
+  const location = FIXED_TIME_LOCATIONS.find(l => l.matches(name));
+  return location ? toMinutes(location.slot) : null;
+}
+
+function compareRoute(a: RouteTask, b: RouteTask): number {
+  const tier = (CLEANING_TYPE_TIER[a.cleaning_type] ?? 2) - (CLEANING_TYPE_TIER[b.cleaning_type] ?? 2);
+  if (tier !== 0) return tier;
+  const group = ROOM_GROUP_ORDER.indexOf(a.room.group_type) - ROOM_GROUP_ORDER.indexOf(b.room.group_type);
+  if (group !== 0) return group;
+  const floor = (roomFloor(a.room.name) ?? Infinity) - (roomFloor(b.room.name) ?? Infinity);
+  if (floor !== 0 && !isNaN(floor)) return floor;
+  return a.room.name.localeCompare(b.room.name, 'pl', { numeric: true });
+}
+
+/**
+ * Suggested sequence for one housekeeper's tasks. Work already under way stays on
+ * top and finished tasks drop to the bottom. The rest runs departures before
+ * stay-overs, then by room group, floor and room number, with rooms flagged ready
+ * to clean ahead of all of it. Fixed-time locations are slotted in where the time
+ * limits before them add up to their hour.
+ */
+export function suggestTaskOrder<T extends RouteTask>(tasks: T[]): T[] {
+  const started = tasks.filter(t => t.status === 'in_progress' || t.status === 'paused');
+  const done = tasks.filter(t => t.status === 'done');
+  const open = tasks.filter(t => !started.includes(t) && !done.includes(t));
+
+  const fixed = open
+    .map(task => ({ task, slot: fixedSlot(task) }))
+    .filter((entry): entry is { task: T; slot: number } => entry.slot !== null)
+    .sort((a, b) => a.slot - b.slot);
+  const route = sortReadyToCleanFirst(open.filter(t => fixedSlot(t) === null).sort(compareRoute));
+
+  const sequence: T[] = [...started];
+  let clock = toMinutes(ROUTE_DAY_START);
+  const add = (task: T) => {
+    sequence.push(task);
+    clock += task.time_limit ?? DEFAULT_TASK_MINUTES;
+  };
+  let nextFixed = 0;
+  for (const task of route) {
+    while (nextFixed < fixed.length && clock >= fixed[nextFixed].slot) add(fixed[nextFixed++].task);
+    add(task);
+  }
+  fixed.slice(nextFixed).forEach(entry => sequence.push(entry.task));
+  return [...sequence, ...done];
+}
+
+export interface OrderChange {
+  id: string;
+  from: number;
+  to: number;
+}
+
+/** Positions (1-based) of tasks that move between the two orders. */
+export function orderChanges(currentIds: string[], suggestedIds: string[]): OrderChange[] {
+  const before = new Map(currentIds.map((id, index) => [id, index + 1]));
+  return suggestedIds
+    .map((id, index) => ({ id, from: before.get(id) ?? index + 1, to: index + 1 }))
+    .filter(change => change.from !== change.to);
+}
+
+/** Replaces the block of `groupIds` inside `allIds` with `newGroupIds`, at the block's first position. */
+export function spliceGroupOrder(allIds: string[], groupIds: string[], newGroupIds: string[]): string[] {
+  const groupIdSet = new Set(groupIds);
+  const result: string[] = [];
+  let inserted = false;
+  for (const id of allIds) {
+    if (!groupIdSet.has(id)) {
+      result.push(id);
+    } else if (!inserted) {
+      result.push(...newGroupIds);
+      inserted = true;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { countAttemptsByUser, formatAttemptBadge } from './service-refusals';
+
+describe('formatAttemptBadge', () => {
+  it('shows the latest reason and the number of attempts', () => {
+    expect(formatAttemptBadge({ attempt_count: 2, last_attempt_reason: 'do_not_disturb' })).toBe('DND · 2×');
+    expect(formatAttemptBadge({ attempt_count: 1, last_attempt_reason: 'guest_refused' })).toBe('Odmowa · 1×');
+  });
+
+  it('returns null for a task without attempts or before the migration', () => {
+    expect(formatAttemptBadge({ attempt_count: 0, last_attempt_reason: null })).toBeNull();
+    expect(formatAttemptBadge({})).toBeNull();
+  });
+});
+
+describe('countAttemptsByUser', () => {
+  it('counts attempts per housekeeper and reason', () => {
+    const counts = countAttemptsByUser([
+      { user_id: 'u1', reason: 'do_not_disturb' },
+      { user_id: 'u1', reason: 'do_not_disturb' },
+      { user_id: 'u1', reason: 'guest_refused' },
+      { user_id: null, reason: 'guest_refused' },
+    ]);
+    expect(counts.u1).toEqual({ do_not_disturb: 2, guest_refused: 1 });
+    expect(counts.unknown).toEqual({ do_not_disturb: 0, guest_refused: 1 });
+  });
+});
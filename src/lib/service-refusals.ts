@@ -0,0 +1,59 @@
+import { Constants, type Database } from '@/integrations/supabase/types';
+
+export type ServiceRefusalReason = Database['public']['Enums']['service_refusal_reason'];
+
+export const SERVICE_REFUSAL_REASONS: readonly ServiceRefusalReason[] = Constants.public.Enums.service_refusal_reason;
+
+export const SERVICE_REFUSAL_REASON_LABELS: Record<ServiceRefusalReason, string> = {
+  do_not_disturb: 'Nie przeszkadzać (DND)',
+  guest_refused: 'Gość odmówił',
+};
+
+/** Compact labels for badges. */
+export const SERVICE_REFUSAL_SHORT_LABELS: Record<ServiceRefusalReason, string> = {
+  do_not_disturb: 'DND',
+  guest_refused: 'Odmowa',
+};
+
+/** Refusal fields kept on a task row. */
+export interface AttemptTask {
+  attempt_count?: number | null;
+  last_attempt_reason?: ServiceRefusalReason | null;
+  retry_at?: string | null;
+}
+
+/** Minimal shape of a task_attempts row. */
+export interface ServiceAttempt {
+  user_id: string | null;
+  reason: ServiceRefusalReason;
+}
+
+export function attemptCount(task: AttemptTask): number {
+  return task.attempt_count ?? 0;
+}
+
+/** Badge text for a task with refused attempts, e.g. "DND · 2×"; null without any. */
+export function formatAttemptBadge(task: AttemptTask): string | null {
+  const count = attemptCount(task);
+  if (count === 0) return null;
+  const label = task.last_attempt_reason ? SERVICE_REFUSAL_SHORT_LABELS[task.last_attempt_reason] : 'Próby';
+  return `${label} · ${count}×`;
+}
+
+/**
+ * Refused attempts per housekeeper and reason. Attempts without a housekeeper are
+ * grouped under 'unknown'.
+ */
+export function countAttemptsByUser(
+  attempts: ServiceAttempt[]
+): Record<string, Record<ServiceRefusalReason, number>> {
+  const counts: Record<string, Record<ServiceRefusalReason, number>> = {};
+  attempts.forEach(attempt => {
+    const key = attempt.user_id ?? 'unknown';
+    counts[key] ??= Object.fromEntries(
+      SERVICE_REFUSAL_REASONS.map(reason => [reason, 0])
+    ) as Record<ServiceRefusalReason, number>;
+    counts[key][attempt.reason] += 1;
+  });
+  return counts;
+}
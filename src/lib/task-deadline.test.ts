@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  deadlineLevel,
+  findDeadlineAlerts,
+  minutesUntilDue,
+  remainingWorkMinutes,
+  sortByDeadline,
+  sortReadyThenDeadline,
+  type DeadlineTask,
+} from './task-deadline';
+
+const NOW = new Date('2026-01-10T11:00:00Z').getTime();
+
+const task = (overrides: Partial<DeadlineTask>): DeadlineTask => ({
+  id: 't1', status: 'todo', time_limit: 45,
+  start_time: null, pause_start: null, total_pause: 0,
+  room: { name: '101' }, user: { name: 'Anna Nowak' },
+  due_by: '2026-01-10T13:00:00Z',
+  ...overrides,
+});
+
+describe('minutesUntilDue', () => {
+  it('counts down to the deadline and goes negative after it', () => {
+    expect(minutesUntilDue(task({}), NOW)).toBe(120);
+    expect(minutesUntilDue(task({ due_by: '2026-01-10T10:45:00Z' }), NOW)).toBe(-15);
+  });
+
+  it('is null without a deadline', () => {
+    expect(minutesUntilDue(task({ due_by: null }), NOW)).toBeNull();
+  });
+});
+
+describe('remainingWorkMinutes', () => {
+  it('is the whole limit for a task not started yet', () => {
+    expect(remainingWorkMinutes(task({}), NOW)).toBe(45);
+  });
+
+  it('leaves out the minutes already worked', () => {
+    expect(remainingWorkMinutes(task({ status: 'in_progress', start_time: '2026-01-10T10:30:00Z' }), NOW)).toBe(15);
+  });
+});
+
+describe('deadlineLevel', () => {
+  it('is ok with enough time for the work and the margin', () => {
+    expect(deadlineLevel(task({}), NOW)).toBe('ok');
+  });
+
+  it('is at risk when the time left does not cover the work plus the margin', () => {
+    expect(deadlineLevel(task({ due_by: '2026-01-10T12:10:00Z' }), NOW)).toBe('at_risk');
+  });
+
+  it('is overdue once the deadline has passed', () => {
+    expect(deadlineLevel(task({ due_by: '2026-01-10T10:59:00Z' }), NOW)).toBe('overdue');
+  });
+
+  it('is null for a finished task or one without a deadline', () => {
+    expect(deadlineLevel(task({ status: 'done', due_by: '2026-01-10T10:00:00Z' }), NOW)).toBeNull();
+    expect(deadlineLevel(task({ due_by: null }), NOW)).toBeNull();
+  });
+});
+
+describe('findDeadlineAlerts', () => {
+  it('lists at-risk and overdue tasks, soonest deadline first', () => {
+    const alerts = findDeadlineAlerts([
+      task({ id: 'ok' }),
+      task({ id: 'risk', due_by: '2026-01-10T12:00:00Z' }),
+      task({ id: 'late', due_by: '2026-01-10T10:30:00Z' }),
+    ], NOW);
+    expect(alerts.map(alert => [alert.taskId, alert.level])).toEqual([['late', 'overdue'], ['risk', 'at_risk']]);
+    expect(alerts[1]).toMatchObject({ roomName: '101', staffName: 'Anna Nowak', minutesLeft: 60, remainingMinutes: 45 });
+  });
+});
+
+describe('sortByDeadline', () => {
+  it('puts open tasks with a deadline first, earliest first, and keeps the rest in order', () => {
+    const tasks = [
+      { id: 'a', status: 'todo', due_by: null },
+      { id: 'b', status: 'todo', due_by: '2026-01-10T14:00:00Z' },
+      { id: 'c', status: 'done', due_by: '2026-01-10T09:00:00Z' },
+      { id: 'd', status: 'todo', due_by: '2026-01-10T12:00:00Z' },
+      { id: 'e', status: 'todo', due_by: null },
+    ];
+    expect(sortByDeadline(tasks).map(t => t.id)).toEqual(['d', 'b', 'a', 'c', 'e']);
+  });
+});
+
+describe('sortReadyThenDeadline', () => {
+  it('keeps rooms ready to clean ahead of rooms with a deadline', () => {
+    const tasks = [
+      { id: 'plain', status: 'todo', due_by: null },
+      { id: 'due', status: 'todo', due_by: '2026-01-10T12:00:00Z' },
+      { id: 'ready', status: 'todo', ready_to_clean: true, due_by: null },
+      { id: 'ready-due', status: 'todo', ready_to_clean: true, due_by: '2026-01-10T13:00:00Z' },
+    ];
+    expect(sortReadyThenDeadline(tasks, new Date(NOW)).map(t => t.id)).toEqual(['ready-due', 'ready', 'due', 'plain']);
+  });
+});
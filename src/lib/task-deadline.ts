@@ -0,0 +1,108 @@
+import { workedMinutes, type OverrunTask } from '@/lib/task-overrun';
+import { isAwaitingCleaning, sortReadyToCleanFirst, type ReadyToCleanTask } from '@/lib/task-utils';
+
+/** Slack kept before a deadline; less than this beyond the remaining work puts it at risk. */
+export const DEADLINE_WARNING_MINUTES = 30;
+
+export type DeadlineLevel = 'ok' | 'at_risk' | 'overdue';
+
+export interface DeadlineTask extends OverrunTask {
+  date?: string;
+  /** When the room has to be finished by (early arrival, VIP). */
+  due_by?: string | null;
+}
+
+/** The fields needed to place a single task against its deadline. */
+type DeadlineTiming = Pick<DeadlineTask, 'status' | 'due_by' | 'time_limit' | 'start_time' | 'pause_start' | 'total_pause'>;
+
+export interface DeadlineAlert {
+  taskId: string;
+  roomName: string;
+  staffName: string | null;
+  level: Exclude<DeadlineLevel, 'ok'>;
+  dueBy: string;
+  /** Minutes until the deadline; negative once it has passed. */
+  minutesLeft: number;
+  /** Minutes of the time limit still to be worked. */
+  remainingMinutes: number;
+}
+
+const dueTime = (task: Pick<DeadlineTask, 'due_by'>): number | null => {
+  if (!task.due_by) return null;
+  const time = new Date(task.due_by).getTime();
+  return isNaN(time) ? null : time;
+};
+
+/** Whole minutes until the deadline (negative once passed), or null without one. */
+export function minutesUntilDue(task: Pick<DeadlineTask, 'due_by'>, now: number): number | null {
+  const due = dueTime(task);
+  return due === null ? null : Math.floor((due - now) / 60000);
+}
+
+/** Part of the time limit not worked yet; tasks without a limit count as none. */
+export function remainingWorkMinutes(task: DeadlineTiming, now: number): number {
+  if (!task.time_limit) return 0;
+  const worked = workedMinutes(task, now) ?? 0;
+  return Math.max(0, task.time_limit - worked);
+}
+
+/**
+ * How a task stands against its deadline. At risk when the time left does not
+ * cover the remaining work plus DEADLINE_WARNING_MINUTES; null for a finished
+ * task or one without a deadline.
+ */
+export function deadlineLevel(task: DeadlineTiming, now: number): DeadlineLevel | null {
+  if (task.status === 'done') return null;
+  const minutesLeft = minutesUntilDue(task, now);
+  if (minutesLeft === null) return null;
+  if (minutesLeft < 0) return 'overdue';
+  return minutesLeft < remainingWorkMinutes(task, now) + DEADLINE_WARNING_MINUTES ? 'at_risk' : 'ok';
+}
+
+/** Alerts for every open task at risk of missing its deadline, soonest deadline first. */
+export function findDeadlineAlerts(tasks: DeadlineTask[], now: number): DeadlineAlert[] {
+  const alerts: DeadlineAlert[] = [];
+  for (const task of tasks) {
+    const level = deadlineLevel(task, now);
+    if (level !== 'at_risk' && level !== 'overdue') continue;
+    alerts.push({
+      taskId: task.id,
+      roomName: task.room?.name ?? '',
+      staffName: task.user?.name ?? null,
+      level,
+      dueBy: task.due_by!,
+      minutesLeft: minutesUntilDue(task, now)!,
+      remainingMinutes: remainingWorkMinutes(task, now),
+    });
+  }
+  return alerts.sort((a, b) => a.minutesLeft - b.minutesLeft);
+}
+
+/**
+ * Open tasks with a deadline first, earliest deadline first. The sort is stable,
+ * so everything else keeps the order it was given in.
+ */
+export function sortByDeadline<T extends { status?: string | null; due_by?: string | null }>(tasks: T[]): T[] {
+  const key = (task: T) => (task.status === 'done' ? null : dueTime(task));
+  return [...tasks].sort((a, b) => {
+    const dueA = key(a);
+    const dueB = key(b);
+    if (dueA === null || dueB === null) return (dueA === null ? 1 : 0) - (dueB === null ? 1 : 0);
+    return dueA - dueB;
+  });
+}
+
+/**
+ * Housekeeping order: rooms ready to clean, then rooms with a deadline, then the
+ * rest as sortReadyToCleanFirst leaves them (rooms ready soon first). Deadlines
+ * also order the rooms within the ready group.
+ */
+export function sortReadyThenDeadline<T extends ReadyToCleanTask & Pick<DeadlineTask, 'due_by'>>(
+  tasks: T[],
+  now: Date = new Date()
+): T[] {
+  const ordered = sortReadyToCleanFirst(tasks, now);
+  const ready = ordered.filter(task => isAwaitingCleaning(task, now));
+  const rest = ordered.filter(task => !isAwaitingCleaning(task, now));
+  return [...sortByDeadline(ready), ...sortByDeadline(rest)];
+}
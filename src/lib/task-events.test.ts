@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { describeTaskEventChanges, formatTaskFieldValue, type TaskEventLookups } from './task-events';
+
+const lookups: TaskEventLookups = {
+  staffName: id => ({ 'user-alina': 'Alina Nowak', 'user-ewa': 'Ewa Kot' } as Record<string, string>)[id],
+  roomName: id => ({ 'room-101': '101' } as Record<string, string>)[id],
+};
+
+describe('formatTaskFieldValue', () => {
+  it('names staff and rooms by id', () => {
+    expect(formatTaskFieldValue('user_id', 'user-alina', lookups)).toBe('Alina Nowak');
+    expect(formatTaskFieldValue('room_id', 'room-101', lookups)).toBe('101');
+    expect(formatTaskFieldValue('user_id', 'user-gone', lookups)).toBe('nieznany pracownik');
+  });
+
+  it('labels statuses, cleaning types and capacities', () => {
+    expect(formatTaskFieldValue('status', 'in_progress', lookups)).toBe('W trakcie');
+    expect(formatTaskFieldValue('cleaning_type', 'W', lookups)).toBe('Wyjazd');
+    expect(formatTaskFieldValue('guest_count', 'b', lookups)).toBe('1+1');
+  });
+
+  it('formats flags, minutes and empty values', () => {
+    expect(formatTaskFieldValue('ready_to_clean', false, lookups)).toBe('Nie');
+    expect(formatTaskFieldValue('time_limit', 45, lookups)).toBe('45 min');
+    expect(formatTaskFieldValue('reception_notes', null, lookups)).toBeNull();
+    expect(formatTaskFieldValue('reception_notes', '', lookups)).toBeNull();
+  });
+});
+
+describe('describeTaskEventChanges', () => {
+  it('lists known fields first, in timeline order', () => {
+    const changes = {
+      ready_to_clean: { old: true, new: false },
+      user_id: { old: 'user-ewa', new: 'user-alina' },
+      status: { old: 'todo', new: 'in_progress' },
+    };
+    expect(describeTaskEventChanges(changes, lookups)).toEqual([
+      { field: 'status', label: 'Status', from: 'Do sprzątania', to: 'W trakcie' },
+      { field: 'user_id', label: 'Pracownik', from: 'Ewa Kot', to: 'Alina Nowak' },
+      { field: 'ready_to_clean', label: 'Gotowy do sprzątania', from: 'Tak', to: 'Nie' },
+    ]);
+  });
+
+  it('keeps columns it has no label for under their own name', () => {
+    expect(describeTaskEventChanges({ recurring_template_id: { old: null, new: 'tpl-1' } }, lookups)).toEqual([
+      { field: 'recurring_template_id', label: 'recurring_template_id', from: null, to: 'tpl-1' },
+    ]);
+  });
+
+  it('hides the generated search vector', () => {
+    const changes = {
+      reception_notes: { old: null, new: 'VIP' },
+      search_vector: { old: null, new: "'vip':1B" },
+    };
+    expect(describeTaskEventChanges(changes, lookups)).toEqual([
+      { field: 'reception_notes', label: 'Notatki recepcji', from: null, to: 'VIP' },
+    ]);
+  });
+
+  it('ignores malformed changes', () => {
+    expect(describeTaskEventChanges(null, lookups)).toEqual([]);
+    expect(describeTaskEventChanges([], lookups)).toEqual([]);
+  });
+});
@@ -0,0 +1,124 @@
+import type { Database, Json } from '@/integrations/supabase/types';
+import { CAPACITY_ID_TO_LABEL } from '@/lib/capacity-utils';
+import { SERVICE_REFUSAL_REASON_LABELS, type ServiceRefusalReason } from '@/lib/service-refusals';
+import { CLEANING_TYPE_LABELS } from '@/lib/cleaning-types';
+
+export type TaskChangeSource = Database['public']['Enums']['task_change_source'];
+export type TaskEvent = Database['public']['Tables']['task_events']['Row'];
+
+/** Request header the task_events trigger reads to record where a change came from. */
+export const CHANGE_SOURCE_HEADER = 'x-change-source';
+
+export const CHANGE_SOURCE_LABELS: Record<TaskChangeSource, string> = {
+  housekeeping: 'Aplikacja sprzątania',
+  reception: 'Recepcja',
+  batch_wizard: 'Kreator zadań',
+  system: 'System',
+};
+
+/** Field labels in the order changes are listed; other fields follow by column name. */
+export const TASK_FIELD_LABELS: Record<string, string> = {
+  status: 'Status',
+  user_id: 'Pracownik',
+  room_id: 'Pokój',
+  date: 'Data',
+  cleaning_type: 'Typ',
+  guest_count: 'Goście',
+  time_limit: 'Limit czasu',
+  ready_to_clean: 'Gotowy do sprzątania',
+  ready_to_clean_at: 'Gotowy od',
+  ready_at: 'Wolny od (plan)',
+  due_by: 'Termin',
+  attempt_count: 'Nieudane próby',
+  last_attempt_reason: 'Powód ostatniej próby',
+  last_attempt_at: 'Ostatnia próba',
+  retry_at: 'Ponowienie o',
+  reception_notes: 'Notatki recepcji',
+  housekeeping_notes: 'Notatki sprzątania',
+  start_time: 'Start',
+  pause_start: 'Początek pauzy',
+  pause_stop: 'Koniec pauzy',
+  total_pause: 'Suma pauz',
+  stop_time: 'Koniec',
+  actual_time: 'Czas rzeczywisty',
+  difference: 'Różnica',
+  issue_flag: 'Zgłoszony problem',
+  issue_description: 'Opis problemu',
+  issue_photo: 'Zdjęcie problemu',
+  checklist: 'Lista kontrolna',
+  display_order: 'Kolejność',
+  deleted_at: 'W koszu od',
+  deleted_by: 'Usunięte przez',
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  todo: 'Do sprzątania',
+  in_progress: 'W trakcie',
+  paused: 'Wstrzymane',
+  done: 'Skończone',
+  repair_needed: 'Naprawa',
+};
+
+/** Generated columns the trigger now ignores; older events still carry them. */
+const HIDDEN_FIELDS = new Set(['search_vector']);
+
+const MINUTE_FIELDS = new Set(['time_limit', 'actual_time', 'difference', 'total_pause']);
+const TIMESTAMP_FIELDS = new Set(['start_time', 'stop_time', 'pause_start', 'pause_stop', 'ready_to_clean_at', 'ready_at', 'due_by', 'last_attempt_at', 'retry_at', 'deleted_at']);
+
+/** Names for the ids stored in a task row. */
+export interface TaskEventLookups {
+  staffName: (userId: string) => string | undefined;
+  roomName: (roomId: string) => string | undefined;
+}
+
+export interface TaskFieldChange {
+  field: string;
+  label: string;
+  /** null when the field had no value (and for every field of a created task) */
+  from: string | null;
+  to: string | null;
+}
+
+const formatTime = (value: string) => {
+  const date = new Date(value);
+  return isNaN(date.getTime())
+    ? value
+    : date.toLocaleTimeString('pl-PL', { hour: '2-digit', minute: '2-digit' });
+};
+
+/** Human-readable value of one task field as stored in the event's changes. */
+export function formatTaskFieldValue(field: string, value: Json | undefined, lookups: TaskEventLookups): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'boolean') return value ? 'Tak' : 'Nie';
+  if (typeof value === 'object') return 'zmieniona';
+  const text = String(value);
+  if (field === 'status') return STATUS_LABELS[text] ?? text;
+  if (field === 'cleaning_type') return CLEANING_TYPE_LABELS[text] ?? text;
+  if (field === 'guest_count') return CAPACITY_ID_TO_LABEL[text] ?? text;
+  if (field === 'last_attempt_reason') return SERVICE_REFUSAL_REASON_LABELS[text as ServiceRefusalReason] ?? text;
+  if (field === 'user_id' || field === 'deleted_by') return lookups.staffName(text) ?? 'nieznany pracownik';
+  if (field === 'room_id') return lookups.roomName(text) ?? 'nieznany pokój';
+  if (MINUTE_FIELDS.has(field)) return `${text} min`;
+  if (TIMESTAMP_FIELDS.has(field)) return formatTime(text);
+  return text;
+}
+
+/** The changed fields of an event, formatted for the history timeline. */
+export function describeTaskEventChanges(changes: Json, lookups: TaskEventLookups): TaskFieldChange[] {
+  if (!changes || typeof changes !== 'object' || Array.isArray(changes)) return [];
+  const order = Object.keys(TASK_FIELD_LABELS);
+  const rank = (field: string) => (order.includes(field) ? order.indexOf(field) : order.length);
+
+  return Object.entries(changes)
+    .filter(([field]) => !HIDDEN_FIELDS.has(field))
+    .sort(([a], [b]) => rank(a) - rank(b) || a.localeCompare(b))
+    .map(([field, change]) => {
+      const values = change && typeof change === 'object' && !Array.isArray(change) ? change : {};
+      return {
+        field,
+        label: TASK_FIELD_LABELS[field] ?? field,
+        from: formatTaskFieldValue(field, values.old, lookups),
+        to: formatTaskFieldValue(field, values.new, lookups),
+      };
+    });
+}
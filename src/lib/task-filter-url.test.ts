@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_TASK_FILTERS,
+  hasTaskFilterParams,
+  parseTaskFilterState,
+  parseTaskFilters,
+  readTaskFilterParams,
+  writeTaskFilterParams,
+} from './task-filter-url';
+
+describe('task filter URL', () => {
+  it('reads defaults from an empty query string', () => {
+    expect(readTaskFilterParams(new URLSearchParams())).toEqual({ ...DEFAULT_TASK_FILTERS, scope: 'upcoming' });
+  });
+
+  it('round-trips every filter', () => {
+    const state = { date: '2026-10-20', status: 'todo' as const, staffId: 'anna', roomGroup: 'P2' as const, roomId: 'r1', scope: 'archive' as const };
+    const params = writeTaskFilterParams(new URLSearchParams(), state);
+    expect(params.toString()).toBe('date=2026-10-20&status=todo&staff=anna&group=P2&room=r1&scope=archive');
+    expect(readTaskFilterParams(params)).toEqual(state);
+  });
+
+  it('leaves defaults out and keeps unrelated parameters', () => {
+    const params = writeTaskFilterParams(
+      new URLSearchParams('tab=x&status=todo'),
+      { ...DEFAULT_TASK_FILTERS, scope: 'upcoming' }
+    );
+    expect(params.toString()).toBe('tab=x');
+  });
+
+  it('ignores values the filters do not know', () => {
+    expect(readTaskFilterParams(new URLSearchParams('date=jutro&status=lost&group=P9&scope=old'))).toEqual({
+      ...DEFAULT_TASK_FILTERS,
+      scope: 'upcoming',
+    });
+  });
+});
+
+describe('parseTaskFilters', () => {
+  it('fills in what a saved preset leaves out', () => {
+    expect(parseTaskFilters({ staffId: 'anna', status: 'todo' })).toEqual({ ...DEFAULT_TASK_FILTERS, staffId: 'anna', status: 'todo' });
+  });
+});
+
+describe('parseTaskFilterState', () => {
+  it('keeps an archive scope and opens older presets on the upcoming tasks', () => {
+    expect(parseTaskFilterState({ roomGroup: 'P2', scope: 'archive' })).toEqual({ ...DEFAULT_TASK_FILTERS, roomGroup: 'P2', scope: 'archive' });
+    expect(parseTaskFilterState({ roomGroup: 'P2' }).scope).toBe('upcoming');
+  });
+});
+
+describe('hasTaskFilterParams', () => {
+  it('ignores query parameters that are not filters', () => {
+    expect(hasTaskFilterParams(new URLSearchParams('tab=x'))).toBe(false);
+    expect(hasTaskFilterParams(new URLSearchParams('tab=x&scope=archive'))).toBe(true);
+  });
+});
@@ -0,0 +1,102 @@
+import { Constants, type Database } from '@/integrations/supabase/types';
+
+type TaskStatus = Database['public']['Enums']['task_status'];
+type RoomGroup = Database['public']['Enums']['room_group'];
+
+/** The reception task filters, as kept in useReceptionData. */
+export interface TaskFilterValues {
+  date: string | null;
+  status: TaskStatus | 'all';
+  staffId: string;
+  roomGroup: RoomGroup | 'all';
+  roomId: string;
+}
+
+/** The filters together with the task list scope, as kept in the URL and in presets. */
+export interface TaskFilterState extends TaskFilterValues {
+  scope: 'upcoming' | 'archive';
+}
+
+export const DEFAULT_TASK_FILTERS: TaskFilterValues = {
+  date: null,
+  status: 'all',
+  staffId: 'all',
+  roomGroup: 'all',
+  roomId: 'all',
+};
+
+// Query string keys; a filter at its default value is left out of the URL
+const PARAMS = {
+  date: 'date',
+  status: 'status',
+  staffId: 'staff',
+  roomGroup: 'group',
+  roomId: 'room',
+  scope: 'scope',
+} as const;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const oneOf = <T extends string>(values: readonly T[], value: string | null | undefined): value is T =>
+  value != null && (values as readonly string[]).includes(value);
+
+/**
+ * Filters from a query string or a saved preset. Unknown values fall back to
+ * their default, so a hand-edited link cannot break the task query.
+ */
+export function parseTaskFilters(source: Partial<Record<keyof TaskFilterValues, unknown>>): TaskFilterValues {
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() !== '' ? value : null);
+  const date = text(source.date);
+  const status = text(source.status);
+  const roomGroup = text(source.roomGroup);
+  return {
+    date: date && DATE_PATTERN.test(date) ? date : null,
+    status: oneOf(Constants.public.Enums.task_status, status) ? status : 'all',
+    staffId: text(source.staffId) ?? 'all',
+    roomGroup: oneOf(Constants.public.Enums.room_group, roomGroup) ? roomGroup : 'all',
+    roomId: text(source.roomId) ?? 'all',
+  };
+}
+
+/** As parseTaskFilters, plus the scope; anything but 'archive' means upcoming. */
+export function parseTaskFilterState(source: Partial<Record<keyof TaskFilterState, unknown>>): TaskFilterState {
+  return {
+    ...parseTaskFilters(source),
+    scope: source.scope === 'archive' ? 'archive' : 'upcoming',
+  };
+}
+
+export function readTaskFilterParams(params: URLSearchParams): TaskFilterState {
+  return parseTaskFilterState({
+    date: params.get(PARAMS.date),
+    status: params.get(PARAMS.status),
+    staffId: params.get(PARAMS.staffId),
+    roomGroup: params.get(PARAMS.roomGroup),
+    roomId: params.get(PARAMS.roomId),
+    scope: params.get(PARAMS.scope),
+  });
+}
+
+/** Whether the query string sets any of the filters. */
+export function hasTaskFilterParams(params: URLSearchParams): boolean {
+  return Object.values(PARAMS).some(key => params.has(key));
+}
+
+/** A copy of `params` carrying the filters; other query parameters are kept. */
+export function writeTaskFilterParams(params: URLSearchParams, state: TaskFilterState): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const values: Record<keyof TaskFilterState, string | null> = {
+    date: state.date,
+    status: state.status === 'all' ? null : state.status,
+    staffId: state.staffId === 'all' ? null : state.staffId,
+    roomGroup: state.roomGroup === 'all' ? null : state.roomGroup,
+    roomId: state.roomId === 'all' ? null : state.roomId,
+    scope: state.scope === 'upcoming' ? null : state.scope,
+  };
+  (Object.keys(PARAMS) as (keyof TaskFilterState)[]).forEach(key => {
+    const value = values[key];
+    if (value === null) next.delete(PARAMS[key]);
+    else next.set(PARAMS[key], value);
+  });
+  return next;
+}
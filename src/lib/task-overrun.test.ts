@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { findOverrunAlerts, overrunAlertFor, workedMinutes, type OverrunTask } from './task-overrun';
+
+const NOW = new Date('2026-01-10T11:00:00Z').getTime();
+
+const task = (overrides: Partial<OverrunTask>): OverrunTask => ({
+  id: 't1', status: 'in_progress', time_limit: 60,
+  start_time: '2026-01-10T10:00:00Z', pause_start: null, total_pause: 0,
+  room: { name: '101' }, user: { name: 'Anna Nowak' },
+  ...overrides,
+});
+
+describe('workedMinutes', () => {
+  it('leaves out accumulated pauses', () => {
+    expect(workedMinutes(task({ total_pause: 15 }), NOW)).toBe(45);
+  });
+
+  it('leaves out the pause still running', () => {
+    expect(workedMinutes(task({ status: 'paused', pause_start: '2026-01-10T10:50:00Z' }), NOW)).toBe(50);
+  });
+
+  it('is null for a task that was never started', () => {
+    expect(workedMinutes(task({ start_time: null }), NOW)).toBeNull();
+  });
+});
+
+describe('overrunAlertFor', () => {
+  it('flags a task past its limit', () => {
+    const alert = overrunAlertFor(task({ time_limit: 50 }), NOW, 80);
+    expect(alert).toMatchObject({ level: 'over', elapsedMinutes: 60, timeLimit: 50, percent: 120, roomName: '101' });
+  });
+
+  it('warns once the set percentage of the limit is used', () => {
+    expect(overrunAlertFor(task({ time_limit: 70 }), NOW, 80)?.level).toBe('warning');
+    expect(overrunAlertFor(task({ time_limit: 70 }), NOW, 90)).toBeNull();
+  });
+
+  it('treats reaching the limit exactly as a warning, not an overrun', () => {
+    expect(overrunAlertFor(task({ time_limit: 60 }), NOW, 80)?.level).toBe('warning');
+  });
+
+  it('ignores tasks that are not in progress or have no limit', () => {
+    expect(overrunAlertFor(task({ status: 'paused', time_limit: 10 }), NOW, 80)).toBeNull();
+    expect(overrunAlertFor(task({ time_limit: null }), NOW, 80)).toBeNull();
+  });
+});
+
+describe('findOverrunAlerts', () => {
+  it('lists the most overdue task first', () => {
+    const alerts = findOverrunAlerts([
+      task({ id: 'a', time_limit: 55 }),
+      task({ id: 'b', time_limit: 30 }),
+      task({ id: 'c', time_limit: 120 }),
+    ], NOW, 80);
+    expect(alerts.map(alert => alert.taskId)).toEqual(['b', 'a']);
+  });
+});
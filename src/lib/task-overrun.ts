@@ -0,0 +1,74 @@
+/** Share of the time limit after which a running task is flagged as at risk. */
+export const DEFAULT_OVERRUN_WARNING_PERCENT = 80;
+export const OVERRUN_WARNING_PERCENT_OPTIONS = [50, 75, 80, 90] as const;
+
+export type OverrunLevel = 'warning' | 'over';
+
+export interface OverrunTask {
+  id: string;
+  status: string;
+  time_limit: number | null;
+  start_time: string | null;
+  pause_start: string | null;
+  total_pause: number | null;
+  room: { name: string } | null;
+  user: { name: string } | null;
+}
+
+export interface OverrunAlert {
+  taskId: string;
+  roomName: string;
+  staffName: string | null;
+  level: OverrunLevel;
+  elapsedMinutes: number;
+  timeLimit: number;
+  /** Elapsed time as a percentage of the limit. */
+  percent: number;
+}
+
+/**
+ * Minutes worked on a started task up to `now`, without pauses. Same sum as
+ * useTaskTimer on the housekeeper's screen, rounded down to whole minutes.
+ */
+export function workedMinutes(
+  task: Pick<OverrunTask, 'status' | 'start_time' | 'pause_start' | 'total_pause'>,
+  now: number
+): number | null {
+  if (!task.start_time) return null;
+  const start = new Date(task.start_time).getTime();
+  if (isNaN(start)) return null;
+  let currentPauseMs = 0;
+  if (task.status === 'paused' && task.pause_start) {
+    const pauseStart = new Date(task.pause_start).getTime();
+    if (!isNaN(pauseStart)) currentPauseMs = Math.max(0, now - pauseStart);
+  }
+  const elapsedMs = now - start - (task.total_pause || 0) * 60000 - currentPauseMs;
+  return Math.max(0, Math.floor(elapsedMs / 60000));
+}
+
+/** Alert for a task in progress that has used `warningPercent` of its limit or more. */
+export function overrunAlertFor(task: OverrunTask, now: number, warningPercent: number): OverrunAlert | null {
+  if (task.status !== 'in_progress' || !task.time_limit || task.time_limit <= 0) return null;
+  const elapsed = workedMinutes(task, now);
+  if (elapsed === null) return null;
+  const percent = Math.floor((elapsed / task.time_limit) * 100);
+  const level: OverrunLevel | null = elapsed > task.time_limit ? 'over' : percent >= warningPercent ? 'warning' : null;
+  if (!level) return null;
+  return {
+    taskId: task.id,
+    roomName: task.room?.name ?? '',
+    staffName: task.user?.name ?? null,
+    level,
+    elapsedMinutes: elapsed,
+    timeLimit: task.time_limit,
+    percent,
+  };
+}
+
+/** Alerts for every running task past the threshold, most overdue first. */
+export function findOverrunAlerts(tasks: OverrunTask[], now: number, warningPercent: number): OverrunAlert[] {
+  return tasks
+    .map(task => overrunAlertFor(task, now, warningPercent))
+    .filter((alert): alert is OverrunAlert => alert !== null)
+    .sort((a, b) => b.percent - a.percent);
+}
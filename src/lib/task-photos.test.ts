@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockLimit, mockIn, mockRemove } = vi.hoisted(() => ({
+  mockLimit: vi.fn(),
+  mockIn: vi.fn(),
+  mockRemove: vi.fn(),
+}));
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn(() => ({
+      select: () => ({ limit: mockLimit }),
+      delete: () => ({ in: mockIn }),
+    })),
+    storage: { from: vi.fn(() => ({ remove: mockRemove })) },
+  },
+}));
+
+import { MAX_TASK_PHOTO_BYTES, sweepOrphanedTaskPhotos, taskPhotoPath, validateTaskPhoto } from './task-photos';
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockLimit.mockResolvedValue({ data: [{ storage_path: 'task-1/1_0.jpg' }, { storage_path: 'task-2/2_0.png' }], error: null });
+  mockIn.mockResolvedValue({ error: null });
+  mockRemove.mockResolvedValue({ data: [], error: null });
+});
+
+const photo = (name: string, type: string, size = 1000) => {
+  const file = new File(['x'], name, { type });
+  Object.defineProperty(file, 'size', { value: size });
+  return file;
+};
+
+describe('validateTaskPhoto', () => {
+  it('accepts images the bucket allows', () => {
+    expect(validateTaskPhoto(photo('room.jpg', 'image/jpeg'))).toBeNull();
+    expect(validateTaskPhoto(photo('room.webp', 'image/webp'))).toBeNull();
+  });
+
+  it('rejects other file types', () => {
+    expect(validateTaskPhoto(photo('notes.pdf', 'application/pdf'))).toContain('notes.pdf');
+  });
+
+  it('rejects files over the size limit', () => {
+    expect(validateTaskPhoto(photo('big.png', 'image/png', MAX_TASK_PHOTO_BYTES + 1))).toContain('5 MB');
+  });
+});
+
+describe('taskPhotoPath', () => {
+  it('stores photos under the task id so they can be removed with the task', () => {
+    expect(taskPhotoPath('task-1', photo('Pokój.JPG', 'image/jpeg'), 2, 1700000000000)).toBe('task-1/1700000000000_2.jpg');
+  });
+
+  it('falls back to jpg when the file has no extension', () => {
+    expect(taskPhotoPath('task-1', photo('camera', 'image/jpeg'), 0, 1)).toBe('task-1/1_0.jpg');
+  });
+});
+
+describe('sweepOrphanedTaskPhotos', () => {
+  it('removes the recorded files and then their rows', async () => {
+    await expect(sweepOrphanedTaskPhotos()).resolves.toBe(2);
+    expect(mockRemove).toHaveBeenCalledWith(['task-1/1_0.jpg', 'task-2/2_0.png']);
+    expect(mockIn).toHaveBeenCalledWith('storage_path', ['task-1/1_0.jpg', 'task-2/2_0.png']);
+  });
+
+  it('keeps the rows when storage refuses, so the next sweep retries', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockRemove.mockResolvedValue({ data: null, error: { message: 'denied' } });
+    await expect(sweepOrphanedTaskPhotos()).resolves.toBe(0);
+    expect(mockIn).not.toHaveBeenCalled();
+  });
+
+  it('does nothing when no paths are recorded', async () => {
+    mockLimit.mockResolvedValue({ data: [], error: null });
+    await expect(sweepOrphanedTaskPhotos()).resolves.toBe(0);
+    expect(mockRemove).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,110 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/** Bucket for photos of finished work; files are stored under `<task id>/`. */
+export const TASK_PHOTOS_BUCKET = 'task-photos';
+
+/** Same limits as the bucket itself. */
+export const TASK_PHOTO_MIME_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
+export const MAX_TASK_PHOTO_BYTES = 5 * 1024 * 1024;
+
+/** Reason the file cannot be uploaded, or null when it is fine. */
+export function validateTaskPhoto(file: File): string | null {
+  if (!TASK_PHOTO_MIME_TYPES.includes(file.type)) return `${file.name}: dozwolone są tylko zdjęcia JPG, PNG i WebP.`;
+  if (file.size > MAX_TASK_PHOTO_BYTES) return `${file.name}: zdjęcie jest większe niż 5 MB.`;
+  return null;
+}
+
+export function taskPhotoPath(taskId: string, file: File, index: number, now = Date.now()): string {
+  const dot = file.name.lastIndexOf('.');
+  const ext = dot > 0 ? file.name.slice(dot + 1).toLowerCase() : 'jpg';
+  return `${taskId}/${now}_${index}.${ext}`;
+}
+
+/**
+ * Uploads the photos and records them on the task. If any step fails the files
+ * uploaded so far are removed again, so a retry starts clean.
+ */
+export async function uploadTaskPhotos(
+  taskId: string,
+  uploadedBy: string | null,
+  files: File[]
+): Promise<{ error: { message: string } | null }> {
+  const uploaded: { storage_path: string; photo_url: string }[] = [];
+  const now = Date.now();
+
+  for (const [index, file] of files.entries()) {
+    const path = taskPhotoPath(taskId, file, index, now);
+    const { data, error } = await supabase.storage.from(TASK_PHOTOS_BUCKET).upload(path, file);
+    if (error || !data) {
+      await removeStoredFiles(uploaded.map(photo => photo.storage_path));
+      return { error: error ?? { message: 'Photo upload failed unexpectedly (no data returned).' } };
+    }
+    const { data: { publicUrl } } = supabase.storage.from(TASK_PHOTOS_BUCKET).getPublicUrl(data.path);
+    uploaded.push({ storage_path: data.path, photo_url: publicUrl });
+  }
+
+  const { error } = await supabase
+    .from('task_photos')
+    .insert(uploaded.map(photo => ({ ...photo, task_id: taskId, uploaded_by: uploadedBy })));
+  if (error) {
+    await removeStoredFiles(uploaded.map(photo => photo.storage_path));
+    return { error };
+  }
+  return { error: null };
+}
+
+async function removeStoredFiles(paths: string[]) {
+  if (paths.length === 0) return;
+  const { error } = await supabase.storage.from(TASK_PHOTOS_BUCKET).remove(paths);
+  if (error) console.warn('Could not remove task photos from storage:', paths, error);
+}
+
+/**
+ * Removes every file stored for the task. Called after the task is deleted; the
+ * task_photos rows go with the task through ON DELETE CASCADE.
+ */
+export async function removeTaskPhotoFiles(taskId: string): Promise<void> {
+  const { data, error } = await supabase.storage.from(TASK_PHOTOS_BUCKET).list(taskId);
+  if (error) {
+    console.warn('Could not list task photos for cleanup:', taskId, error);
+    return;
+  }
+  await removeStoredFiles((data || []).map(file => `${taskId}/${file.name}`));
+}
+
+/** Storage API limit on the number of files removed in one request. */
+const MAX_FILES_PER_REMOVE = 1000;
+
+/**
+ * Removes the files of tasks that purge_expired_tasks deleted from the trash,
+ * whose paths it records in orphaned_task_photos. Rows are deleted only once their
+ * files are gone, so a failed sweep is retried next time. Returns how many files
+ * were removed.
+ */
+export async function sweepOrphanedTaskPhotos(): Promise<number> {
+  const { data, error } = await supabase
+    .from('orphaned_task_photos')
+    .select('storage_path')
+    .limit(MAX_FILES_PER_REMOVE);
+  if (error?.message?.includes('orphaned_task_photos')) {
+    console.warn('orphaned_task_photos table not found — apply migration 20261019002000_record_purged_task_photos.sql in the Supabase dashboard SQL editor.');
+    return 0;
+  }
+  if (error) {
+    console.warn('Could not list orphaned task photos:', error);
+    return 0;
+  }
+
+  const paths = (data || []).map(row => row.storage_path);
+  if (paths.length === 0) return 0;
+
+  const { error: removeError } = await supabase.storage.from(TASK_PHOTOS_BUCKET).remove(paths);
+  if (removeError) {
+    console.warn('Could not remove orphaned task photos from storage:', paths, removeError);
+    return 0;
+  }
+
+  const { error: deleteError } = await supabase.from('orphaned_task_photos').delete().in('storage_path', paths);
+  if (deleteError) console.warn('Could not clear swept task photo paths:', deleteError);
+  return paths.length;
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { cleaningMinutesByUser, currentSegmentMinutes } from './task-segments';
+
+describe('cleaningMinutesByUser', () => {
+  it('credits a task without handovers to its assignee', () => {
+    const tasks = [{ id: 't1', status: 'done', user_id: 'anna', actual_time: 30 }];
+    expect(cleaningMinutesByUser(tasks, [])).toEqual({ anna: 30 });
+  });
+
+  it('splits a handed-over task between the segments and the person who finished it', () => {
+    const tasks = [{ id: 't1', status: 'done', user_id: 'basia', actual_time: 50 }];
+    const segments = [{ task_id: 't1', user_id: 'anna', worked_minutes: 35 }];
+    expect(cleaningMinutesByUser(tasks, segments)).toEqual({ anna: 35, basia: 15 });
+  });
+
+  it('adds up several segments and tasks per person', () => {
+    const tasks = [
+      { id: 't1', status: 'done', user_id: 'basia', actual_time: 40 },
+      { id: 't2', status: 'done', user_id: 'anna', actual_time: 20 },
+    ];
+    const segments = [
+      { task_id: 't1', user_id: 'anna', worked_minutes: 10 },
+      { task_id: 't1', user_id: 'celina', worked_minutes: 5 },
+    ];
+    expect(cleaningMinutesByUser(tasks, segments)).toEqual({ anna: 30, celina: 5, basia: 25 });
+  });
+
+  it('skips unfinished tasks and never credits negative remainders', () => {
+    const tasks = [
+      { id: 't1', status: 'in_progress', user_id: 'basia', actual_time: null },
+      { id: 't2', status: 'done', user_id: 'basia', actual_time: 10 },
+    ];
+    const segments = [
+      { task_id: 't1', user_id: 'anna', worked_minutes: 20 },
+      { task_id: 't2', user_id: 'anna', worked_minutes: 15 },
+    ];
+    expect(cleaningMinutesByUser(tasks, segments)).toEqual({ anna: 15 });
+  });
+});
+
+describe('currentSegmentMinutes', () => {
+  const now = new Date('2026-10-19T10:00:00Z');
+
+  it('counts minutes since the start without earlier pauses', () => {
+    const task = { status: 'in_progress', start_time: '2026-10-19T09:00:00Z', pause_start: null, total_pause: 15 };
+    expect(currentSegmentMinutes(task, now)).toBe(45);
+  });
+
+  it('stops counting when the task was paused', () => {
+    const task = { status: 'paused', start_time: '2026-10-19T09:00:00Z', pause_start: '2026-10-19T09:40:00Z', total_pause: 10 };
+    expect(currentSegmentMinutes(task, now)).toBe(30);
+  });
+
+  it('is 0 for a task that has not started', () => {
+    expect(currentSegmentMinutes({ status: 'todo', start_time: null, pause_start: null, total_pause: null }, now)).toBe(0);
+  });
+});
@@ -0,0 +1,70 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type TaskSegment = Database['public']['Tables']['task_segments']['Row'];
+
+/** Minimal shape of a task_segments row. */
+export interface HandedOverSegment {
+  task_id: string;
+  user_id: string | null;
+  worked_minutes: number;
+}
+
+/** Minimal shape of a task for crediting its time. */
+export interface CreditedTask {
+  id: string;
+  status: string;
+  user_id: string | null;
+  actual_time: number | null;
+}
+
+/**
+ * Cleaning minutes per housekeeper for finished tasks. Each handed-over segment
+ * is credited to the person who worked it; whatever is left of actual_time
+ * belongs to the person who finished the task.
+ */
+export function cleaningMinutesByUser(
+  tasks: CreditedTask[],
+  segments: HandedOverSegment[]
+): Record<string, number> {
+  const segmentsByTask = new Map<string, HandedOverSegment[]>();
+  segments.forEach(segment => {
+    segmentsByTask.set(segment.task_id, [...(segmentsByTask.get(segment.task_id) ?? []), segment]);
+  });
+
+  const totals: Record<string, number> = {};
+  const credit = (userId: string | null, minutes: number) => {
+    if (!userId || minutes <= 0) return;
+    totals[userId] = (totals[userId] ?? 0) + minutes;
+  };
+
+  tasks.forEach(task => {
+    if (task.status !== 'done' || task.actual_time === null) return;
+    const taskSegments = segmentsByTask.get(task.id) ?? [];
+    taskSegments.forEach(segment => credit(segment.user_id, segment.worked_minutes));
+    const handedOver = taskSegments.reduce((sum, segment) => sum + segment.worked_minutes, 0);
+    credit(task.user_id, Math.max(0, task.actual_time - handedOver));
+  });
+
+  return totals;
+}
+
+/** Minimal shape of a task's running timer. */
+export interface RunningTaskTimer {
+  status: string;
+  start_time: string | null;
+  pause_start: string | null;
+  total_pause: number | null;
+}
+
+/**
+ * Whole minutes worked since the task was started (or last handed over), without
+ * pauses — what task_handover credits to the current assignee.
+ */
+export function currentSegmentMinutes(task: RunningTaskTimer, now: Date = new Date()): number {
+  if (!task.start_time) return 0;
+  const start = new Date(task.start_time).getTime();
+  if (isNaN(start)) return 0;
+  const pauseStart = task.status === 'paused' && task.pause_start ? new Date(task.pause_start).getTime() : NaN;
+  const end = isNaN(pauseStart) ? now.getTime() : pauseStart;
+  return Math.max(0, Math.floor((end - start) / 60000) - (task.total_pause ?? 0));
+}
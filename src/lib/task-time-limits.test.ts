@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { findLimit, getTimeLimitFromRoom, limitsGuestCount, resolveTimeLimit, type TimeLimitRow } from './task-time-limits';
+
+const configured = {
+  group_type: 'P2',
+  capacity_configurations: [
+    { capacity_id: 'd', capacity_label: '2', cleaning_types: [{ type: 'W', time_limit: 45 }] },
+    { capacity_label: '1+1', cleaning_types: [{ type: 'W', time_limit: '50' }] },
+  ],
+};
+const breakfastRoom = {
+  group_type: 'OTHER',
+  capacity_configurations: JSON.stringify([{ capacity_id: 'other', capacity_label: '', cleaning_types: [{ type: 'S', time_limit: 20 }] }]),
+};
+const bare = { group_type: 'A1S', capacity_configurations: null };
+
+const limits: TimeLimitRow[] = [
+  { group_type: 'A1S', cleaning_type: 'W', guest_count: '3', time_limit: 70 },
+  { group_type: 'OTHER', cleaning_type: 'G', guest_count: '2', time_limit: 15 },
+];
+
+describe('getTimeLimitFromRoom', () => {
+  it('matches the guest count, deriving the id from the label where missing', () => {
+    expect(getTimeLimitFromRoom(configured, 'd', 'W')).toBe(45);
+    expect(getTimeLimitFromRoom(configured, 'b', 'W')).toBe(50);
+    expect(getTimeLimitFromRoom(configured, 'f', 'W')).toBeNull();
+  });
+
+  it('uses the single configuration of OTHER rooms for any guest count', () => {
+    expect(getTimeLimitFromRoom(breakfastRoom, '3', 'S')).toBe(20);
+    expect(getTimeLimitFromRoom(bare, 'd', 'W')).toBeNull();
+  });
+});
+
+describe('limits table', () => {
+  it('keys rows by the total guest count', () => {
+    expect(limitsGuestCount('e')).toBe(3);
+    expect(limitsGuestCount('2')).toBe(2);
+    expect(limitsGuestCount('other')).toBeNull();
+  });
+
+  it('falls back to the limits table when the room sets no limit', () => {
+    expect(findLimit(limits, 'A1S', 'e', 'W')).toBe(70);
+    expect(resolveTimeLimit(bare, 'e', 'W', limits)).toBe(70);
+    expect(resolveTimeLimit(configured, 'd', 'W', limits)).toBe(45);
+    expect(resolveTimeLimit(bare, 'a', 'W', limits)).toBeNull();
+  });
+});
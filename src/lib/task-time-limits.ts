@@ -0,0 +1,143 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { CAPACITY_ID_TO_LABEL, LABEL_TO_CAPACITY_ID, getLabelGuestTotal, normalizeCapacityLabel } from '@/lib/capacity-utils';
+
+type CleaningType = Database['public']['Enums']['cleaning_type'];
+
+/** Minutes assumed for a task when neither its room nor the limits table sets a limit. */
+export const DEFAULT_TASK_MINUTES = 30;
+
+export interface CapacityConfiguration {
+  capacity_id: string;
+  capacity_label: string;
+  cleaning_types: Array<{ type: CleaningType; time_limit: number }>;
+}
+
+/** The room fields the time limit lookup reads. */
+export interface TimeLimitRoom {
+  group_type: string;
+  capacity_configurations?: unknown;
+}
+
+export type TimeLimitRow = Pick<
+  Database['public']['Tables']['limits']['Row'],
+  'group_type' | 'cleaning_type' | 'guest_count' | 'time_limit'
+>;
+
+/** The room's capacity_configurations, with capacity_id derived from the label where missing. */
+export function parseCapacityConfigurations(room: TimeLimitRoom | null): CapacityConfiguration[] {
+  if (!room || !room.capacity_configurations) return [];
+
+  try {
+    let configs: any[] = [];
+    if (typeof room.capacity_configurations === 'string') {
+      configs = JSON.parse(room.capacity_configurations);
+    } else if (Array.isArray(room.capacity_configurations)) {
+      configs = room.capacity_configurations;
+    }
+
+    return configs.map((config: any) => {
+      // Prefer capacity_id, fallback to deriving from capacity_label
+      let capacityId = config.capacity_id;
+      const capacityLabel = config.capacity_label || '';
+
+      if (!capacityId && capacityLabel) {
+        capacityId = LABEL_TO_CAPACITY_ID[normalizeCapacityLabel(capacityLabel)] || '';
+      }
+
+      return {
+        capacity_id: capacityId || 'd', // Default fallback
+        capacity_label: capacityLabel,
+        cleaning_types: Array.isArray(config.cleaning_types)
+          ? config.cleaning_types.map((ct: any) => ({
+              type: ct.type as CleaningType,
+              time_limit: Number(ct.time_limit) || DEFAULT_TASK_MINUTES,
+            }))
+          : [],
+      };
+    });
+  } catch (e) {
+    console.error("Error parsing capacity_configurations:", e);
+    return [];
+  }
+}
+
+/**
+ * Time limit configured on the room for a guest count and cleaning type, or null
+ * when the room has no matching entry. OTHER rooms keep a single configuration,
+ * stored under capacity_id 'other' whatever guest count is picked.
+ */
+export function getTimeLimitFromRoom(room: TimeLimitRoom | null, capacityId: string, cleaningType: string): number | null {
+  const configs = parseCapacityConfigurations(room);
+  if (!room || configs.length === 0) return null;
+
+  const config = room.group_type === 'OTHER'
+    ? configs.find(c => c.capacity_id === 'other') ?? configs[0]
+    : configs.find(c => c.capacity_id === capacityId);
+
+  return config?.cleaning_types.find(ct => ct.type === cleaningType)?.time_limit ?? null;
+}
+
+/**
+ * Guest count the limits table keys its rows by: a letter capacity_id is summed
+ * from its label ("2+1" = 3); OTHER rooms store the number itself.
+ */
+export function limitsGuestCount(capacityId: string): number | null {
+  if (capacityId.length === 1 && /[a-z]/.test(capacityId)) {
+    const label = CAPACITY_ID_TO_LABEL[capacityId];
+    return label ? getLabelGuestTotal(label) : null;
+  }
+  const parsed = parseInt(capacityId, 10);
+  return isNaN(parsed) ? null : parsed;
+}
+
+/** Limit from the global limits table rows, or null when none matches. */
+export function findLimit(limits: TimeLimitRow[], groupType: string, capacityId: string, cleaningType: string): number | null {
+  const guestCount = limitsGuestCount(capacityId);
+  if (guestCount === null) return null;
+  const row = limits.find(limit =>
+    limit.group_type === groupType &&
+    limit.cleaning_type === cleaningType &&
+    Number(limit.guest_count) === guestCount
+  );
+  return row?.time_limit ?? null;
+}
+
+/** The room's own limit first, then the global limits table. */
+export function resolveTimeLimit(
+  room: TimeLimitRoom | null,
+  capacityId: string,
+  cleaningType: string,
+  limits: TimeLimitRow[]
+): number | null {
+  if (!room) return null;
+  return getTimeLimitFromRoom(room, capacityId, cleaningType) ?? findLimit(limits, room.group_type, capacityId, cleaningType);
+}
+
+/** Rows of the global limits table, optionally for one room group and cleaning type. */
+export async function fetchTimeLimits(filter: { groupType?: string; cleaningType?: string } = {}): Promise<TimeLimitRow[]> {
+  let query = supabase.from('limits').select('group_type, cleaning_type, guest_count, time_limit');
+  if (filter.groupType) query = query.eq('group_type', filter.groupType as TimeLimitRow['group_type']);
+  if (filter.cleaningType) query = query.eq('cleaning_type', filter.cleaningType as CleaningType);
+  const { data, error } = await query;
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Time limit for a new or edited task, as resolveTimeLimit but loading only the
+ * limits rows it needs. Null when nothing is configured or the table cannot be read.
+ */
+export async function resolveTaskTimeLimit(room: TimeLimitRoom | null, capacityId: string, cleaningType: string): Promise<number | null> {
+  if (!room) return null;
+  const fromRoom = getTimeLimitFromRoom(room, capacityId, cleaningType);
+  if (fromRoom !== null) return fromRoom;
+
+  try {
+    const limits = await fetchTimeLimits({ groupType: room.group_type, cleaningType });
+    return findLimit(limits, room.group_type, capacityId, cleaningType);
+  } catch (error) {
+    console.warn("Could not fetch time limit from the limits table:", error);
+    return null;
+  }
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+import { canChangeStatus, transitionFor } from './task-transitions';
+
+describe('transitionFor', () => {
+  it('maps the timing steps to their actions', () => {
+    expect(transitionFor('todo', 'in_progress')).toBe('start');
+    expect(transitionFor('repair_needed', 'in_progress')).toBe('start');
+    expect(transitionFor('in_progress', 'paused')).toBe('pause');
+    expect(transitionFor('paused', 'in_progress')).toBe('resume');
+    expect(transitionFor('in_progress', 'done')).toBe('stop');
+    expect(transitionFor('paused', 'done')).toBe('stop');
+  });
+
+  it('returns null for changes outside the state machine', () => {
+    expect(transitionFor('done', 'todo')).toBeNull();
+    expect(transitionFor('todo', 'done')).toBeNull();
+    expect(transitionFor('todo', 'paused')).toBeNull();
+  });
+});
+
+describe('canChangeStatus', () => {
+  it('allows timing steps, putting a task back to todo and marking it for repair', () => {
+    expect(canChangeStatus('todo', 'in_progress')).toBe(true);
+    expect(canChangeStatus('done', 'todo')).toBe(true);
+    expect(canChangeStatus('in_progress', 'repair_needed')).toBe(true);
+    expect(canChangeStatus('paused', 'paused')).toBe(true);
+  });
+
+  it('refuses jumps that would leave the timings inconsistent', () => {
+    expect(canChangeStatus('todo', 'done')).toBe(false);
+    expect(canChangeStatus('todo', 'paused')).toBe(false);
+    expect(canChangeStatus('done', 'in_progress')).toBe(false);
+  });
+});
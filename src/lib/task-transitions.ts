@@ -0,0 +1,73 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { TaskActionKind } from '@/lib/offline-queue';
+import type { PauseReason } from '@/lib/pause-reasons';
+import { CHANGE_SOURCE_HEADER, type TaskChangeSource } from '@/lib/task-events';
+
+type TaskStatus = Database['public']['Enums']['task_status'];
+
+/** Postgres function that performs each timing action. */
+export const TASK_TRANSITION_FUNCTIONS = {
+  start: 'task_start',
+  pause: 'task_pause',
+  resume: 'task_resume',
+  stop: 'task_finish',
+} as const;
+
+/** SQLSTATE raised when the task's status does not allow the action. */
+export const INVALID_TRANSITION_CODE = '55000';
+
+/** SQLSTATE raised by task_finish while the task's required photo is missing. */
+export const PHOTO_REQUIRED_CODE = 'PT001';
+
+/**
+ * The timing action that moves a task between two statuses, or null when the
+ * change is not a step of the state machine (e.g. an admin reopening a task).
+ */
+export function transitionFor(from: TaskStatus, to: TaskStatus): TaskActionKind | null {
+  if (to === 'in_progress' && (from === 'todo' || from === 'repair_needed')) return 'start';
+  if (to === 'paused' && from === 'in_progress') return 'pause';
+  if (to === 'in_progress' && from === 'paused') return 'resume';
+  if (to === 'done' && (from === 'in_progress' || from === 'paused')) return 'stop';
+  return null;
+}
+
+/**
+ * Whether reception may change a task's status from `from` to `to`: a step of the
+ * state machine, or putting the task back to todo or marking it for repair.
+ * task_update_details refuses every other change.
+ */
+export function canChangeStatus(from: TaskStatus, to: TaskStatus): boolean {
+  return from === to || transitionFor(from, to) !== null || to === 'todo' || to === 'repair_needed';
+}
+
+export interface TaskTransitionOptions {
+  /** Only passed when replaying an offline action; otherwise the database clock is used. */
+  occurredAt?: string;
+  /** Why the task is being paused; recorded in task_pauses. */
+  reason?: PauseReason;
+  /** Where the action was taken, for the task history. Defaults to the housekeeping app. */
+  source?: TaskChangeSource;
+}
+
+/** Runs a timing action on the server. */
+export async function runTaskTransition(
+  taskId: string,
+  kind: TaskActionKind,
+  { occurredAt, reason, source = 'housekeeping' }: TaskTransitionOptions = {}
+) {
+  const args = {
+    p_task_id: taskId,
+    ...(occurredAt ? { p_at: occurredAt } : {}),
+    ...(kind === 'pause' && reason ? { p_reason: reason } : {}),
+  };
+  const { error } = await supabase.rpc(TASK_TRANSITION_FUNCTIONS[kind], args).setHeader(CHANGE_SOURCE_HEADER, source);
+
+  // Without the functions (migration pending) the action fails instead of
+  // writing timings from the device clock.
+  if (error?.code === 'PGRST202') {
+    console.warn('Task transition functions not found — apply migration 20261019000000_task_state_machine_rpcs.sql in the Supabase dashboard SQL editor.');
+  }
+
+  return { error };
+}
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { TRASH_RETENTION_DAYS, trashDaysLeft } from './task-trash';
+
+describe('trashDaysLeft', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+
+  it('counts the full retention period for a task deleted just now', () => {
+    expect(trashDaysLeft('2026-10-19T12:00:00Z', now)).toBe(TRASH_RETENTION_DAYS);
+  });
+
+  it('rounds a part of a day up', () => {
+    expect(trashDaysLeft('2026-09-19T13:00:00Z', now)).toBe(1);
+  });
+
+  it('is zero once the retention period has passed', () => {
+    expect(trashDaysLeft('2026-09-01T12:00:00Z', now)).toBe(0);
+    expect(trashDaysLeft('not a date', now)).toBe(0);
+  });
+});
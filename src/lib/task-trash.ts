@@ -0,0 +1,12 @@
+/** Days a deleted task can be restored before purge_expired_tasks removes it for good. */
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Whole days left to restore a task deleted at `deletedAt`; 0 once it is due for purging. */
+export function trashDaysLeft(deletedAt: string, now: Date = new Date()): number {
+  const deleted = new Date(deletedAt).getTime();
+  if (isNaN(deleted)) return 0;
+  const left = deleted + TRASH_RETENTION_DAYS * DAY_MS - now.getTime();
+  return Math.max(0, Math.ceil(left / DAY_MS));
+}
@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { isAwaitingCleaning, sortReadyToCleanFirst } from './task-utils';
+import { isAwaitingCleaning, isReadySoon, minutesUntilReady, sortReadyToCleanFirst, timeOfDay, timeOnTaskDate } from './task-utils';
+
+const now = new Date('2026-10-19T10:30:00Z');
 
 describe('isAwaitingCleaning', () => {
   it('is true for an open task flagged ready to clean', () => {
@@ -17,6 +19,32 @@ describe('isAwaitingCleaning', () => {
   it('is false for a done task even when flagged', () => {
     expect(isAwaitingCleaning({ status: 'done', ready_to_clean: true })).toBe(false);
   });
+
+  it('is true once the scheduled ready_at has passed, before the flag is set', () => {
+    expect(isAwaitingCleaning({ status: 'todo', ready_to_clean: false, ready_at: '2026-10-19T10:00:00Z' }, now)).toBe(true);
+  });
+
+  it('is false while the scheduled ready_at is still ahead', () => {
+    expect(isAwaitingCleaning({ status: 'todo', ready_to_clean: false, ready_at: '2026-10-19T11:00:00Z' }, now)).toBe(false);
+  });
+});
+
+describe('minutesUntilReady', () => {
+  it('counts whole minutes up to ready_at, rounding up', () => {
+    expect(minutesUntilReady({ status: 'todo', ready_at: '2026-10-19T11:00:30Z' }, now)).toBe(31);
+  });
+
+  it('is null without a schedule, once the room is ready, or for a done task', () => {
+    expect(minutesUntilReady({ status: 'todo' }, now)).toBeNull();
+    expect(minutesUntilReady({ status: 'todo', ready_to_clean: true, ready_at: '2026-10-19T11:00:00Z' }, now)).toBeNull();
+    expect(minutesUntilReady({ status: 'todo', ready_at: '2026-10-19T10:00:00Z' }, now)).toBeNull();
+    expect(minutesUntilReady({ status: 'done', ready_at: '2026-10-19T11:00:00Z' }, now)).toBeNull();
+  });
+
+  it('is ready soon only within the next hour', () => {
+    expect(isReadySoon({ status: 'todo', ready_at: '2026-10-19T11:30:00Z' }, now)).toBe(true);
+    expect(isReadySoon({ status: 'todo', ready_at: '2026-10-19T11:31:00Z' }, now)).toBe(false);
+  });
 });
 
 describe('sortReadyToCleanFirst', () => {
@@ -60,4 +88,43 @@ describe('sortReadyToCleanFirst', () => {
 
     expect(tasks.map(t => t.id)).toEqual(['a', 'b']);
   });
+
+  it('puts rooms that become free soon after the ready ones, earliest first', () => {
+    const tasks = [
+      { id: 'a', status: 'todo', ready_to_clean: false },
+      { id: 'b', status: 'todo', ready_to_clean: false, ready_at: '2026-10-19T11:00:00Z' },
+      { id: 'c', status: 'todo', ready_to_clean: false, ready_at: '2026-10-19T10:45:00Z' },
+      { id: 'd', status: 'todo', ready_to_clean: false, ready_at: '2026-10-19T14:00:00Z' },
+      { id: 'e', status: 'todo', ready_to_clean: true },
+    ];
+
+    expect(sortReadyToCleanFirst(tasks, now).map(t => t.id)).toEqual(['e', 'c', 'b', 'a', 'd']);
+  });
+});
+
+describe('timeOnTaskDate', () => {
+  it('combines the task date with a local time', () => {
+    expect(timeOnTaskDate('2026-10-19', '11:00')).toBe(new Date(2026, 9, 19, 11, 0).toISOString());
+  });
+
+  it('is null for a missing or malformed time', () => {
+    expect(timeOnTaskDate('2026-10-19', '')).toBeNull();
+    expect(timeOnTaskDate('2026-10-19', '25:99')).toBeNull();
+    expect(timeOnTaskDate('', '11:00')).toBeNull();
+  });
+});
+
+describe('timeOfDay', () => {
+  it('is the local time of a timestamp', () => {
+    expect(timeOfDay(new Date(2026, 9, 19, 9, 5).toISOString())).toBe('09:05');
+  });
+
+  it('round-trips with timeOnTaskDate', () => {
+    expect(timeOfDay(timeOnTaskDate('2026-10-19', '13:30'))).toBe('13:30');
+  });
+
+  it('is empty when there is no time', () => {
+    expect(timeOfDay(null)).toBe('');
+    expect(timeOfDay('not a date')).toBe('');
+  });
 });
@@ -2,21 +2,89 @@
 export interface ReadyToCleanTask {
   status?: string | null;
   ready_to_clean?: boolean | null;
+  /** When the room is expected to be free; the flag turns on by itself at that time. */
+  ready_at?: string | null;
 }
 
+/** How far ahead a scheduled release counts as "ready soon" and shows a countdown. */
+export const READY_SOON_MINUTES = 60;
+
+const readyAtTime = (task: ReadyToCleanTask): number | null => {
+  if (!task.ready_at) return null;
+  const time = new Date(task.ready_at).getTime();
+  return isNaN(time) ? null : time;
+};
+
 /**
  * A room flagged ready to clean stops being urgent once its task is finished,
- * so a done task never counts as awaiting cleaning.
+ * so a done task never counts as awaiting cleaning. A scheduled ready_at that
+ * has passed counts as flagged, even before the database job has caught up.
  */
-export const isAwaitingCleaning = (task: ReadyToCleanTask): boolean =>
-  !!task.ready_to_clean && task.status !== 'done';
+export const isAwaitingCleaning = (task: ReadyToCleanTask, now: Date = new Date()): boolean => {
+  if (task.status === 'done') return false;
+  if (task.ready_to_clean) return true;
+  const readyAt = readyAtTime(task);
+  return readyAt !== null && readyAt <= now.getTime();
+};
 
 /**
- * Rooms flagged ready to clean go to the top of the list. The sort is stable,
- * so everything else keeps the order it was given in.
+ * Whole minutes (rounded up) until a scheduled room becomes free, or null when
+ * there is nothing to count down to: no ready_at, already awaiting cleaning, or done.
  */
-export function sortReadyToCleanFirst<T extends ReadyToCleanTask>(tasks: T[]): T[] {
-  return [...tasks].sort(
-    (a, b) => Number(isAwaitingCleaning(b)) - Number(isAwaitingCleaning(a))
-  );
+export function minutesUntilReady(task: ReadyToCleanTask, now: Date = new Date()): number | null {
+  const readyAt = readyAtTime(task);
+  if (readyAt === null || task.status === 'done' || isAwaitingCleaning(task, now)) return null;
+  return Math.ceil((readyAt - now.getTime()) / 60000);
 }
+
+/** Scheduled to become free within READY_SOON_MINUTES. */
+export const isReadySoon = (task: ReadyToCleanTask, now: Date = new Date()): boolean => {
+  const minutes = minutesUntilReady(task, now);
+  return minutes !== null && minutes <= READY_SOON_MINUTES;
+};
+
+/**
+ * Rooms flagged ready to clean go to the top of the list, followed by rooms that
+ * become free soon (earliest first). The sort is stable, so everything else keeps
+ * the order it was given in.
+ */
+export function sortReadyToCleanFirst<T extends ReadyToCleanTask>(tasks: T[], now: Date = new Date()): T[] {
+  const rank = (task: T) => (isAwaitingCleaning(task, now) ? 0 : isReadySoon(task, now) ? 1 : 2);
+  return [...tasks].sort((a, b) => {
+    const byRank = rank(a) - rank(b);
+    if (byRank !== 0 || rank(a) !== 1) return byRank;
+    return (readyAtTime(a) ?? 0) - (readyAtTime(b) ?? 0);
+  });
+}
+
+/**
+ * ISO timestamp for a local "HH:mm" on the task's date, as stored in ready_at and
+ * due_by; null when either part is missing or invalid.
+ */
+export function timeOnTaskDate(date: string, time: string): string | null {
+  if (!date || !/^\d{2}:\d{2}$/.test(time)) return null;
+  const timestamp = new Date(`${date}T${time}`);
+  return isNaN(timestamp.getTime()) ? null : timestamp.toISOString();
+}
+
+/** Local "HH:mm" of a stored timestamp, for time inputs; empty when there is none. */
+export function timeOfDay(value: string | null | undefined): string {
+  if (!value) return '';
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return '';
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+/**
+ * Locations several housekeepers can work on the same day (one open task per person),
+ * matching the exceptions in prevent_duplicate_open_room_tasks.
+ */
+export const isMultipleAssignmentLocation = (roomName: string | null | undefined): boolean => {
+  if (!roomName) return false;
+
+  const normalizedName = roomName.trim().toLowerCase();
+  return normalizedName.includes('pralnia') ||
+    normalizedName === 'śniadania' ||
+    normalizedName.includes('przerwa śniadaniowa') ||
+    normalizedName.includes('przerwa sniadaniowa');
+};
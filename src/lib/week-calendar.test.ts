@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildWeekRows,
+  matchesWeekFilter,
+  shiftWeek,
+  weekDates,
+  weekMoveBlockReason,
+  weekStartOf,
+  type WeekTask,
+} from './week-calendar';
+
+const room101 = { id: 'r101', name: '101', group_type: 'P1' };
+const room12 = { id: 'r12', name: '12', group_type: 'P1' };
+const room201 = { id: 'r201', name: '201', group_type: 'A1S' };
+const laundry = { id: 'pralnia', name: 'Pralnia + Magazyn', group_type: 'OTHER' };
+
+const task = (id: string, overrides: Partial<WeekTask> = {}): WeekTask => ({
+  id,
+  date: '2026-10-20',
+  status: 'todo',
+  cleaning_type: 'W',
+  room: room101,
+  user: { id: 'anna', name: 'Anna' },
+  ...overrides,
+});
+
+const all = { status: 'all', staffId: 'all', roomGroup: 'all', roomId: 'all' };
+
+describe('week dates', () => {
+  it('starts the week on Monday', () => {
+    expect(weekStartOf('2026-10-22')).toBe('2026-10-19');
+    expect(weekStartOf('2026-10-25')).toBe('2026-10-19');
+    expect(weekStartOf('2026-10-19')).toBe('2026-10-19');
+  });
+
+  it('lists seven days and moves by whole weeks across a month', () => {
+    expect(weekDates('2026-10-26')).toEqual([
+      '2026-10-26', '2026-10-27', '2026-10-28', '2026-10-29', '2026-10-30', '2026-10-31', '2026-11-01',
+    ]);
+    expect(shiftWeek('2026-10-26', 1)).toBe('2026-11-02');
+    expect(shiftWeek('2026-10-26', -1)).toBe('2026-10-19');
+  });
+});
+
+describe('buildWeekRows', () => {
+  const dates = weekDates('2026-10-19');
+
+  it('gives every room a row ordered by group and number', () => {
+    const rows = buildWeekRows([room201, room101, room12], [], dates);
+    expect(rows.map(row => row.room.name)).toEqual(['12', '101', '201']);
+    expect(rows[0].cells).toEqual({});
+  });
+
+  it('puts each task into the cell of its room and day, skipping other weeks', () => {
+    const rows = buildWeekRows(
+      [room101, laundry],
+      [task('1'), task('2', { date: '2026-10-27' }), task('3', { room: laundry }), task('4', { room: laundry })],
+      dates
+    );
+    expect(rows[0].cells['2026-10-20'].map(t => t.id)).toEqual(['1']);
+    expect(rows[1].cells['2026-10-20'].map(t => t.id)).toEqual(['3', '4']);
+    expect(Object.keys(rows[0].cells)).toEqual(['2026-10-20']);
+  });
+});
+
+describe('matchesWeekFilter', () => {
+  it('applies the list filters', () => {
+    expect(matchesWeekFilter(task('1'), all)).toBe(true);
+    expect(matchesWeekFilter(task('1'), { ...all, staffId: 'ewa' })).toBe(false);
+    expect(matchesWeekFilter(task('1', { user: null }), { ...all, staffId: 'unassigned' })).toBe(true);
+    expect(matchesWeekFilter(task('1'), { ...all, roomGroup: 'A1S' })).toBe(false);
+    expect(matchesWeekFilter(task('1'), { ...all, status: 'done' })).toBe(false);
+  });
+});
+
+describe('weekMoveBlockReason', () => {
+  const today = '2026-10-19';
+
+  it('lets a task not started yet move to a free day', () => {
+    expect(weekMoveBlockReason(task('1'), '2026-10-22', [], today)).toBeNull();
+  });
+
+  it('keeps started tasks and past days out', () => {
+    expect(weekMoveBlockReason(task('1', { status: 'in_progress' }), '2026-10-22', [], today)).not.toBeNull();
+    expect(weekMoveBlockReason(task('1'), '2026-10-18', [], today)).not.toBeNull();
+  });
+
+  it('refuses a day on which the room already has an open task', () => {
+    expect(weekMoveBlockReason(task('1'), '2026-10-22', [task('2', { date: '2026-10-22' })], today))
+      .toBe('Ten pokój ma już otwarte zadanie w tym dniu.');
+    expect(weekMoveBlockReason(task('1'), '2026-10-22', [task('2', { status: 'done' })], today)).toBeNull();
+  });
+
+  it('allows several tasks a day in the laundry', () => {
+    expect(weekMoveBlockReason(task('1', { room: laundry }), '2026-10-22', [task('2', { room: laundry })], today)).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+import { addDays, format, startOfWeek } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { isMultipleAssignmentLocation } from '@/lib/task-utils';
+
+/** Minimal task shape a calendar cell shows. */
+export interface WeekTask {
+  id: string;
+  date: string;
+  status: string;
+  cleaning_type: string;
+  due_by?: string | null;
+  ready_at?: string | null;
+  room: { id: string; name: string; group_type: string };
+  user: { id: string; name: string } | null;
+}
+
+export interface WeekRoom {
+  id: string;
+  name: string;
+  group_type: string;
+}
+
+export interface WeekRow<T extends WeekTask> {
+  room: WeekRoom;
+  /** Tasks of the room keyed by date; days without one are missing. */
+  cells: Record<string, T[]>;
+}
+
+/** Which rooms and tasks the calendar shows; 'all' lets everything through. */
+export interface WeekCalendarFilter {
+  status: string;
+  staffId: string;
+  roomGroup: string;
+  roomId: string;
+}
+
+const GROUP_ORDER = ['P1', 'P2', 'A1S', 'A2S', 'OTHER'];
+const OPEN_STATUSES = new Set(['todo', 'in_progress', 'paused', 'repair_needed']);
+
+const parseDate = (date: string) => new Date(`${date}T12:00:00`);
+
+/** Monday of the week the date falls in, as yyyy-MM-dd. */
+export function weekStartOf(date: string): string {
+  return format(startOfWeek(parseDate(date), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+}
+
+/** The seven dates of the week starting on `start`. */
+export function weekDates(start: string): string[] {
+  return Array.from({ length: 7 }, (_, day) => format(addDays(parseDate(start), day), 'yyyy-MM-dd'));
+}
+
+export function shiftWeek(start: string, weeks: number): string {
+  return format(addDays(parseDate(start), weeks * 7), 'yyyy-MM-dd');
+}
+
+export function matchesWeekFilter(task: WeekTask, filter: WeekCalendarFilter): boolean {
+  if (filter.status !== 'all' && task.status !== filter.status) return false;
+  if (filter.staffId === 'unassigned' && task.user !== null) return false;
+  if (filter.staffId !== 'all' && filter.staffId !== 'unassigned' && task.user?.id !== filter.staffId) return false;
+  if (filter.roomGroup !== 'all' && task.room.group_type !== filter.roomGroup) return false;
+  if (filter.roomId !== 'all' && task.room.id !== filter.roomId) return false;
+  return true;
+}
+
+/**
+ * One row per room, ordered by group and then by name, so an empty cell can
+ * still take a new task. Tasks outside `dates` are left out.
+ */
+export function buildWeekRows<T extends WeekTask>(rooms: WeekRoom[], tasks: T[], dates: string[]): WeekRow<T>[] {
+  const inWeek = new Set(dates);
+  const rows = new Map<string, WeekRow<T>>(
+    [...rooms]
+      .sort((a, b) => {
+        const groupA = GROUP_ORDER.indexOf(a.group_type);
+        const groupB = GROUP_ORDER.indexOf(b.group_type);
+        if (groupA !== groupB) return (groupA === -1 ? GROUP_ORDER.length : groupA) - (groupB === -1 ? GROUP_ORDER.length : groupB);
+        return a.name.localeCompare(b.name, 'pl', { numeric: true });
+      })
+      .map(room => [room.id, { room, cells: {} }])
+  );
+
+  for (const task of tasks) {
+    const row = rows.get(task.room.id);
+    if (!row || !inWeek.has(task.date)) continue;
+    (row.cells[task.date] ??= []).push(task);
+  }
+  return [...rows.values()];
+}
+
+/**
+ * Why the task cannot be dragged to `date`, or null when it can. Only tasks not
+ * started yet move, never into the past, and not onto a day on which the room
+ * already has an open task (the duplicate trigger would refuse it anyway).
+ */
+export function weekMoveBlockReason(task: WeekTask, date: string, dayTasks: WeekTask[], today: string): string | null {
+  if (task.status !== 'todo') return 'Przenieść można tylko zadanie, którego jeszcze nie rozpoczęto.';
+  if (date < today) return 'Nie można przenieść zadania na miniony dzień.';
+  const occupied = dayTasks.some(other => other.id !== task.id && OPEN_STATUSES.has(other.status));
+  if (occupied && !isMultipleAssignmentLocation(task.room.name)) return 'Ten pokój ma już otwarte zadanie w tym dniu.';
+  return null;
+}
+
+const WEEK_COLUMNS = 'id, date, status, cleaning_type, room:rooms!inner(id, name, group_type), user:users!tasks_user_id_fkey(id, name)';
+
+/** Tasks of the week, independent of the date filter of the task list. */
+export async function fetchWeekTasks(dates: string[]): Promise<WeekTask[]> {
+  const from = dates[0];
+  const to = dates[dates.length - 1];
+  let result = await supabase
+    .from('tasks')
+    .select(`${WEEK_COLUMNS}, ready_at, due_by`)
+    .gte('date', from)
+    .lte('date', to)
+    .order('created_at', { ascending: true });
+  if (result.error?.message?.includes('due_by') || result.error?.message?.includes('ready_at')) {
+    console.warn('tasks.ready_at or tasks.due_by not found — apply migrations 20261019001000_add_task_ready_at.sql and 20261019001100_add_task_due_by.sql in the Supabase dashboard SQL editor.');
+    result = await supabase
+      .from('tasks')
+      .select(WEEK_COLUMNS)
+      .gte('date', from)
+      .lte('date', to)
+      .order('created_at', { ascending: true }) as typeof result;
+  }
+  if (result.error) throw result.error;
+  return (result.data ?? []) as unknown as WeekTask[];
+}
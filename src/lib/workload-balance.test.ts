@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { balanceWorkload, type BalanceTask } from './workload-balance';
+
+const task = (id: string, roomGroup: string, minutes: number): BalanceTask => ({ id, roomGroup, minutes });
+const people = (...ids: string[]) => ids.map(id => ({ id, minutes: 0 }));
+
+describe('balanceWorkload', () => {
+  it('evens out the planned minutes', () => {
+    const plan = balanceWorkload(
+      [task('a', 'P1', 60), task('b', 'P2', 50), task('c', 'A1S', 40), task('d', 'A2S', 30)],
+      people('anna', 'maria'),
+      null
+    );
+    expect(plan.minutes).toEqual({ anna: 90, maria: 90 });
+    expect(plan.unassigned).toEqual([]);
+  });
+
+  it('keeps a room group with one person when that stays near the even share', () => {
+    const plan = balanceWorkload(
+      [task('a', 'P1', 30), task('b', 'P1', 30), task('c', 'P2', 30), task('d', 'P2', 30)],
+      people('anna', 'maria'),
+      null
+    );
+    expect(plan.assignments.a).toBe(plan.assignments.b);
+    expect(plan.assignments.c).toBe(plan.assignments.d);
+    expect(plan.assignments.a).not.toBe(plan.assignments.c);
+  });
+
+  it('splits a group that is too big for one person', () => {
+    const plan = balanceWorkload(
+      [task('a', 'P1', 40), task('b', 'P1', 40), task('c', 'P1', 40), task('d', 'P1', 40)],
+      people('anna', 'maria'),
+      null
+    );
+    expect(plan.minutes).toEqual({ anna: 80, maria: 80 });
+  });
+
+  it('counts minutes people already have', () => {
+    const plan = balanceWorkload([task('a', 'P1', 30), task('b', 'P2', 30)], [{ id: 'anna', minutes: 60 }, { id: 'maria', minutes: 0 }], null);
+    expect(plan.assignments).toEqual({ a: 'maria', b: 'maria' });
+  });
+
+  it('leaves tasks unassigned rather than pass the per-person maximum', () => {
+    const plan = balanceWorkload([task('a', 'P1', 50), task('b', 'P1', 50), task('c', 'P1', 50)], people('anna', 'maria'), 60);
+    expect(Object.keys(plan.assignments)).toHaveLength(2);
+    expect(plan.unassigned).toHaveLength(1);
+    expect(Math.max(...Object.values(plan.minutes))).toBeLessThanOrEqual(60);
+  });
+
+  it('assigns nothing without people', () => {
+    expect(balanceWorkload([task('a', 'P1', 30)], [], null).unassigned).toEqual(['a']);
+  });
+});
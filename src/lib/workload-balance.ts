@@ -0,0 +1,75 @@
+// How far above the even share a person may go to keep a room group together
+const GROUP_SLACK = 1.1;
+
+export interface BalanceTask {
+  id: string;
+  roomGroup: string;
+  minutes: number;
+}
+
+export interface BalancePerson {
+  id: string;
+  /** Minutes already planned for this person. */
+  minutes: number;
+}
+
+export interface BalancePlan {
+  /** Task id → person id */
+  assignments: Record<string, string>;
+  /** Tasks nobody could take without passing the per-person maximum */
+  unassigned: string[];
+  /** Planned minutes per person, including what they had before */
+  minutes: Record<string, number>;
+}
+
+/**
+ * Spreads tasks across people so their planned minutes come out as even as possible.
+ * Rooms of one group go to one person when that keeps them near the even share;
+ * otherwise the group is split, largest task first, preferring people who already
+ * have rooms from it. Nobody goes over `maxMinutes` (when given).
+ */
+export function balanceWorkload(tasks: BalanceTask[], people: BalancePerson[], maxMinutes: number | null): BalancePlan {
+  const minutes: Record<string, number> = Object.fromEntries(people.map(person => [person.id, person.minutes]));
+  const groupsByPerson: Record<string, Set<string>> = Object.fromEntries(people.map(person => [person.id, new Set<string>()]));
+  const assignments: Record<string, string> = {};
+  const unassigned: string[] = [];
+  if (people.length === 0) return { assignments, unassigned: tasks.map(task => task.id), minutes };
+
+  const total = tasks.reduce((sum, task) => sum + task.minutes, 0) + people.reduce((sum, person) => sum + person.minutes, 0);
+  const target = (total / people.length) * GROUP_SLACK;
+  const fits = (personId: string, extra: number) => maxMinutes === null || minutes[personId] + extra <= maxMinutes;
+  // Least loaded first; ties keep the order people were picked in
+  const byLoad = () => [...people].sort((a, b) => minutes[a.id] - minutes[b.id]);
+
+  const assign = (task: BalanceTask, personId: string) => {
+    assignments[task.id] = personId;
+    minutes[personId] += task.minutes;
+    groupsByPerson[personId].add(task.roomGroup);
+  };
+
+  const blocks = new Map<string, BalanceTask[]>();
+  tasks.forEach(task => blocks.set(task.roomGroup, [...(blocks.get(task.roomGroup) ?? []), task]));
+  const blockMinutes = (block: BalanceTask[]) => block.reduce((sum, task) => sum + task.minutes, 0);
+  const orderedBlocks = [...blocks.values()].sort((a, b) => blockMinutes(b) - blockMinutes(a));
+
+  for (const block of orderedBlocks) {
+    const size = blockMinutes(block);
+    const whole = byLoad().find(person => fits(person.id, size) && minutes[person.id] + size <= target);
+    if (whole) {
+      block.forEach(task => assign(task, whole.id));
+      continue;
+    }
+
+    for (const task of [...block].sort((a, b) => b.minutes - a.minutes)) {
+      const candidates = byLoad().filter(person => fits(person.id, task.minutes));
+      const sameGroup = candidates.find(person =>
+        groupsByPerson[person.id].has(task.roomGroup) && minutes[person.id] + task.minutes <= target
+      );
+      const person = sameGroup ?? candidates[0];
+      if (person) assign(task, person.id);
+      else unassigned.push(task.id);
+    }
+  }
+
+  return { assignments, unassigned, minutes };
+}
@@ -4,6 +4,7 @@ import { AdminSidebar } from "@/components/admin/AdminSidebar";
 import { useAuth } from "@/contexts/AuthContext";
 import { useReceptionData } from "@/hooks/useReceptionData";
 import { useReceptionActions } from "@/hooks/useReceptionActions";
+import { GlobalSearchDialog } from "@/components/reception/GlobalSearchDialog";
 import { useToast } from "@/hooks/use-toast";
 
 // Import reception pages
@@ -15,6 +16,10 @@ import Issues from "./reception/Issues";
 import Reports from "./admin/Reports";
 import Users from "./admin/Users";
 import Rooms from "./admin/Rooms";
+import Inspections from "./admin/Inspections";
+import Checklists from "./admin/Checklists";
+import RecurringTasks from "./admin/RecurringTasks";
+import Trash from "./admin/Trash";
 
 export default function Admin() {
   const { signOut, userRole } = useAuth();
@@ -42,6 +47,14 @@ export default function Admin() {
           <div className="sticky top-0 z-10 bg-background border-b px-4 py-3 flex items-center gap-2">
             <SidebarTrigger />
             <h2 className="text-lg font-semibold">Panel administratora</h2>
+            <GlobalSearchDialog
+              availableRooms={receptionData.availableRooms}
+              allStaff={receptionData.allStaff}
+              onUpdateTask={receptionActions.handleUpdateTask}
+              isUpdatingTask={receptionActions.isUpdatingTask}
+              onHandoverTask={receptionActions.handleHandoverTask}
+              isHandingOverTask={receptionActions.isHandingOverTask}
+            />
           </div>
 
           <div className="container mx-auto p-4 md:p-6">
@@ -59,6 +72,10 @@ export default function Admin() {
                     isSubmittingTask={receptionActions.isSubmittingTask}
                     handleReportNewIssue={receptionActions.handleReportNewIssue}
                     isSubmittingNewIssue={receptionActions.isSubmittingNewIssue}
+                    overrunAlerts={receptionData.overrun.alerts}
+                    overrunWarningPercent={receptionData.overrun.warningPercent}
+                    onOverrunWarningPercentChange={receptionData.overrun.setWarningPercent}
+                    deadlineAlerts={receptionData.deadlines.alerts}
                     basePath="/admin"
                   />
                 }
@@ -81,6 +98,7 @@ export default function Admin() {
                     onRoomGroupChange={receptionData.filterSetters.setRoomGroup}
                     onRoomChange={receptionData.filterSetters.setRoomId}
                     onClearFilters={receptionData.actions.clearFilters}
+                    onApplyFilters={receptionData.actions.applyFilters}
                     onRefresh={receptionData.actions.refresh}
                     onAddTask={receptionActions.handleAddTask}
                     onSaveWorkLog={receptionActions.handleSaveWorkLog}
@@ -90,11 +108,22 @@ export default function Admin() {
                     onUpdateTask={receptionActions.handleUpdateTask}
                     onDeleteTask={receptionActions.handleDeleteTask}
                     onToggleReadyToClean={receptionActions.handleToggleReadyToClean}
+                    onScheduleReadyToClean={receptionActions.handleScheduleReadyToClean}
                     updatingReadyToCleanTaskId={receptionActions.updatingReadyToCleanTaskId}
+                    onScheduleRetry={receptionActions.handleScheduleRetry}
+                    schedulingRetryTaskId={receptionActions.schedulingRetryTaskId}
                     isUpdatingTask={receptionActions.isUpdatingTask}
                     isDeletingTask={receptionActions.isDeletingTask}
+                    onHandoverTask={receptionActions.handleHandoverTask}
+                    isHandingOverTask={receptionActions.isHandingOverTask}
+                    onAssignTask={receptionActions.handleAssignTask}
+                    onBulkAction={receptionActions.handleBulkTaskAction}
+                    onMoveTask={receptionActions.handleMoveTaskToDate}
+                    isApplyingBulkAction={receptionActions.isApplyingBulkAction}
                     onSetTaskFetchScope={receptionData.filterSetters.setTaskFetchScope}
+                    taskFetchScope={receptionData.taskFetchScope}
                     allTasksTotalCount={receptionData.allTasksTotalCount}
+                    overrunAlerts={receptionData.overrun.alerts}
                   />
                 }
               />
@@ -111,8 +140,12 @@ export default function Admin() {
 
               {/* Admin-specific routes */}
               <Route path="reports" element={<Reports />} />
+              <Route path="inspections" element={<Inspections />} />
+              <Route path="recurring" element={<RecurringTasks />} />
+              <Route path="trash" element={<Trash />} />
               <Route path="users" element={canManageUsersAndRooms ? <Users /> : <Navigate to="/unauthorized" replace />} />
               <Route path="rooms" element={canManageUsersAndRooms ? <Rooms /> : <Navigate to="/unauthorized" replace />} />
+              <Route path="checklists" element={canManageUsersAndRooms ? <Checklists /> : <Navigate to="/unauthorized" replace />} />
             </Routes>
           </div>
         </main>
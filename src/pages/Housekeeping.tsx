@@ -11,11 +11,11 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { LogOut, Play, Pause, Square, AlertTriangle, MessageSquare, Camera, Check, Info, RefreshCw } from "lucide-react";
+import { LogOut, Play, Pause, Square, AlertTriangle, MessageSquare, Camera, Check, Info, RefreshCw, CloudOff } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import type { Database } from "@/integrations/supabase/types";
+import type { Database, Json } from "@/integrations/supabase/types";
 import { cn } from "@/lib/utils";
-import { sortReadyToCleanFirst } from "@/lib/task-utils";
+import { sortReadyThenDeadline } from "@/lib/task-deadline";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { format } from "date-fns";
@@ -26,6 +26,8 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/component
 // Import the new hooks and components
 import { useHousekeepingTasks } from '@/hooks/useHousekeepingTasks';
 import { useTaskActions } from '@/hooks/useTaskActions';
+import { useOfflineTaskQueue } from '@/hooks/useOfflineTaskQueue';
+import { applyQueuedActions, type TaskActionKind } from '@/lib/offline-queue';
 import { TaskCard } from '@/components/housekeeping/TaskCard';
 
 
@@ -56,6 +58,12 @@ export interface Task { // Export if used by other components/hooks
   issue_description: string | null;
   issue_photo: string | null;
   ready_to_clean?: boolean; // Set by reception/manager/admin when the room is free to clean
+  ready_at?: string | null; // Scheduled release time; the room counts as ready from then on
+  due_by?: string | null; // Must be finished by then (early arrival, VIP)
+  attempt_count?: number; // Visits refused by the guest (DND or refusal), see lib/service-refusals
+  last_attempt_reason?: Database["public"]["Enums"]["service_refusal_reason"] | null;
+  retry_at?: string | null; // When reception wants the next attempt
+  checklist?: Json | null; // Steps for this cleaning type, see lib/cleaning-checklist
   priority?: boolean; // Schema-dependent
   created_at: string;
   // Add actual_time and difference if they are part of the Task type after calculations
@@ -75,6 +83,10 @@ const getStatusLabel = (status: Task['status'] | null | undefined): string => {
   };
   return labels[status] || (status.charAt(0).toUpperCase() + status.slice(1).replace(/_/g, ' '));
 };
+
+const queuedActionLabels: Record<TaskActionKind, string> = {
+  start: "Start", pause: "Pauza", resume: "Wznów", stop: "Stop",
+};
 // --- END Utility Functions ---
 
 
@@ -82,6 +94,9 @@ const getStatusLabel = (status: Task['status'] | null | undefined): string => {
 type TaskStatusFilter = Database["public"]["Enums"]["task_status"] | 'all';
 const statusFilters: TaskStatusFilter[] = ['all', 'todo', 'in_progress', 'paused', 'done'];
 
+// How often scheduled rooms are re-checked, so countdowns and the list order stay current
+const READY_COUNTDOWN_INTERVAL_MS = 30_000;
+
 
 // --- Timer Hook ---
 export function useTaskTimer(task: Task | null): number | null {
@@ -163,9 +178,12 @@ export default function Housekeeping() {
   const { signOut, userId, user } = useAuth();
 
   // Destructure fetchTasks from the hook
-  const { tasks, loading, activeTaskId, setActiveTaskId, fetchTasks } = useHousekeepingTasks();
+  const { tasks: fetchedTasks, loading, activeTaskId, setActiveTaskId, fetchTasks } = useHousekeepingTasks();
+  const offlineQueue = useOfflineTaskQueue(fetchTasks);
+  // Show actions still waiting to sync as if they had already been applied
+  const tasks = useMemo(() => applyQueuedActions(fetchedTasks, offlineQueue.actions), [fetchedTasks, offlineQueue.actions]);
   // Pass fetchTasks to useTaskActions
-  const taskActions = useTaskActions(tasks, setActiveTaskId, activeTaskId, fetchTasks);
+  const taskActions = useTaskActions(tasks, setActiveTaskId, activeTaskId, fetchTasks, offlineQueue);
 
   // Local state for filter and active tab
   const [statusFilter, setStatusFilter] = useState<TaskStatusFilter>('all');
@@ -173,6 +191,12 @@ export default function Housekeeping() {
   const [dateFilter, setDateFilter] = useState<string>(''); // For date filtering
   const [userName, setUserName] = useState<string>('');
   const [filtersOpen, setFiltersOpen] = useState<boolean>(false);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), READY_COUNTDOWN_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
 
   // Fetch user first name
   useEffect(() => {
@@ -236,9 +260,10 @@ export default function Housekeeping() {
 
     // For open tab, 'all' means all open statuses (already filtered in openTasks)
     // For all tab, show all tasks regardless of status.
-    // Rooms flagged ready to clean go to the top.
-    return sortReadyToCleanFirst(baseTasks);
-  }, [activeTab, openTasks, tasks, statusFilter, dateFilter]);
+    // Rooms flagged ready to clean go to the top, then rooms with a deadline,
+    // then rooms that become free soon.
+    return sortReadyThenDeadline(baseTasks, now);
+  }, [activeTab, openTasks, tasks, statusFilter, dateFilter, now]);
 
   // Progress Calculation Memo - based on today's tasks only
   const progress = useMemo(() => {
@@ -286,7 +311,18 @@ export default function Housekeeping() {
             </div>
             
             {/* Actions - Right side */}
-            <div className="flex-1 flex justify-end gap-2">
+            <div className="flex-1 flex justify-end items-center gap-2">
+              {offlineQueue.pending.length > 0 && (
+                <Badge
+                  variant="secondary"
+                  className="gap-1 cursor-pointer"
+                  onClick={() => offlineQueue.replay()}
+                  title="Akcje czekające na połączenie — kliknij, aby wysłać"
+                >
+                  <CloudOff className="h-4 w-4" />
+                  {offlineQueue.pending.length}
+                </Badge>
+              )}
               <Button
                 variant="ghost"
                 size="icon"
@@ -313,6 +349,31 @@ export default function Housekeeping() {
 
       {/* Main Content with Tabs */}
       <main className="container mx-auto p-4">
+        {offlineQueue.conflicts.length > 0 && (
+          <Card className="mb-4 border-destructive">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2 text-destructive">
+                <AlertTriangle className="h-5 w-5" />
+                Nie wysłano akcji zapisanych bez połączenia
+              </CardTitle>
+              <CardDescription>
+                Zadanie zostało w międzyczasie zmienione na serwerze. Sprawdź jego stan i w razie potrzeby powtórz akcję.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-1 text-sm">
+              {offlineQueue.conflicts.map(action => (
+                <div key={action.id}>
+                  <strong>{action.roomName}</strong>: {queuedActionLabels[action.kind]} ({format(new Date(action.occurredAt), 'HH:mm')})
+                  {action.conflict?.serverStatus && <> — na serwerze: {getStatusLabel(action.conflict.serverStatus)}</>}
+                  {action.conflict?.message && <span className="text-muted-foreground"> — {action.conflict.message}</span>}
+                </div>
+              ))}
+            </CardContent>
+            <CardFooter>
+              <Button variant="outline" size="sm" onClick={offlineQueue.dismissConflicts}>Rozumiem</Button>
+            </CardFooter>
+          </Card>
+        )}
         {loading ? (
           <div className="flex items-center justify-center py-12">
             <div className="h-8 w-8 animate-spin rounded-full border-4 border-brand-primary border-t-transparent" />
@@ -500,8 +561,10 @@ export default function Housekeeping() {
                     task={task}
                     isActive={activeTaskId === task.id}
                     activeTaskId={activeTaskId}
+                    now={now}
                     onStart={taskActions.handleStart}
                     onPause={taskActions.handlePause}
+                    onRecordRefusal={taskActions.handleRecordRefusal}
                     onResume={taskActions.handleResume}
                     onStop={taskActions.handleStop}
                     onSaveNote={taskActions.handleSaveNote}
@@ -648,8 +711,10 @@ export default function Housekeeping() {
                     task={task}
                     isActive={activeTaskId === task.id}
                     activeTaskId={activeTaskId}
+                    now={now}
                     onStart={taskActions.handleStart}
                     onPause={taskActions.handlePause}
+                    onRecordRefusal={taskActions.handleRecordRefusal}
                     onResume={taskActions.handleResume}
                     onStop={taskActions.handleStop}
                     onSaveNote={taskActions.handleSaveNote}
@@ -5,6 +5,7 @@ import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { ReceptionSidebar } from "@/components/reception/ReceptionSidebar";
 import { useReceptionData } from "@/hooks/useReceptionData";
 import { useReceptionActions } from "@/hooks/useReceptionActions";
+import { GlobalSearchDialog } from "@/components/reception/GlobalSearchDialog";
 
 // Import view components
 import Dashboard from "./reception/Dashboard";
@@ -24,8 +25,11 @@ export default function Reception() {
     refreshing,
     filters,
     filterSetters,
+    taskFetchScope,
     actions: dataActions,
     stats,
+    overrun,
+    deadlines,
     allTasksTotalCount,
     fetchWorkLogs
   } = useReceptionData();
@@ -43,9 +47,18 @@ export default function Reception() {
     handleUpdateTask, // Needed for Tasks
     isUpdatingTask,   // Needed for Tasks
     handleToggleReadyToClean,    // Needed for Tasks
+    handleScheduleReadyToClean,  // Needed for Tasks
     updatingReadyToCleanTaskId,  // Needed for Tasks
+    handleScheduleRetry,         // Needed for Tasks
+    schedulingRetryTaskId,       // Needed for Tasks
     handleDeleteTask, // Needed for Tasks
     isDeletingTask,   // Needed for Tasks
+    handleHandoverTask, // Needed for Tasks
+    isHandingOverTask,  // Needed for Tasks
+    handleAssignTask,     // Needed for Tasks
+    handleBulkTaskAction, // Needed for Tasks
+    handleMoveTaskToDate, // Needed for Tasks
+    isApplyingBulkAction, // Needed for Tasks
   } = useReceptionActions(
     availableRooms,
     dataActions.refresh, // onTaskAdded
@@ -65,6 +78,14 @@ export default function Reception() {
           <div className="sticky top-0 z-10 bg-background border-b px-4 py-3 flex items-center gap-2">
             <SidebarTrigger />
             <h2 className="text-lg font-semibold">Panel recepcji</h2>
+            <GlobalSearchDialog
+              availableRooms={availableRooms}
+              allStaff={allStaff}
+              onUpdateTask={handleUpdateTask}
+              isUpdatingTask={isUpdatingTask}
+              onHandoverTask={handleHandoverTask}
+              isHandingOverTask={isHandingOverTask}
+            />
           </div>
 
           <div className="container mx-auto p-4 md:p-6">
@@ -81,6 +102,10 @@ export default function Reception() {
                     isSubmittingTask={isSubmittingTask}
                     handleReportNewIssue={handleReportNewIssue}
                     isSubmittingNewIssue={isSubmittingNewIssue}
+                    overrunAlerts={overrun.alerts}
+                    overrunWarningPercent={overrun.warningPercent}
+                    onOverrunWarningPercentChange={overrun.setWarningPercent}
+                    deadlineAlerts={deadlines.alerts}
                   />
                 }
               />
@@ -102,6 +127,7 @@ export default function Reception() {
                     onRoomGroupChange={filterSetters.setRoomGroup}
                     onRoomChange={filterSetters.setRoomId}
                     onClearFilters={dataActions.clearFilters}
+                    onApplyFilters={dataActions.applyFilters}
                     onRefresh={dataActions.refresh}
                     onAddTask={handleAddTask}
                     onSaveWorkLog={handleSaveWorkLog}
@@ -111,11 +137,22 @@ export default function Reception() {
                     onUpdateTask={handleUpdateTask}
                     onDeleteTask={handleDeleteTask}
                     onToggleReadyToClean={handleToggleReadyToClean}
+                    onScheduleReadyToClean={handleScheduleReadyToClean}
                     updatingReadyToCleanTaskId={updatingReadyToCleanTaskId}
+                    onScheduleRetry={handleScheduleRetry}
+                    schedulingRetryTaskId={schedulingRetryTaskId}
                     isUpdatingTask={isUpdatingTask}
                     isDeletingTask={isDeletingTask}
+                    onHandoverTask={handleHandoverTask}
+                    isHandingOverTask={isHandingOverTask}
+                    onAssignTask={handleAssignTask}
+                    onBulkAction={handleBulkTaskAction}
+                    onMoveTask={handleMoveTaskToDate}
+                    isApplyingBulkAction={isApplyingBulkAction}
                     onSetTaskFetchScope={filterSetters.setTaskFetchScope}
+                    taskFetchScope={taskFetchScope}
                     allTasksTotalCount={allTasksTotalCount}
+                    overrunAlerts={overrun.alerts}
                   />
                 }
               />
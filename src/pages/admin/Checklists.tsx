@@ -0,0 +1,271 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, ListChecks, Loader2, Plus, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { Database } from "@/integrations/supabase/types";
+import type { ChecklistTemplateItem } from "@/lib/cleaning-checklist";
+import { CLEANING_TYPES, CLEANING_TYPE_LABELS, type CleaningType } from "@/lib/cleaning-types";
+
+type RoomGroup = Database["public"]["Enums"]["room_group"];
+
+const ROOM_GROUP_LABELS: Record<RoomGroup, string> = {
+  P1: "Pokoje P1", P2: "Pokoje P2", A1S: "Apartamenty A1S", A2S: "Apartamenty A2S", OTHER: "Inne Przestrzenie",
+};
+
+const GENERAL = "general";
+
+export default function Checklists() {
+  const { toast } = useToast();
+  const [items, setItems] = useState<ChecklistTemplateItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [cleaningType, setCleaningType] = useState<CleaningType>("W");
+  const [roomGroup, setRoomGroup] = useState<RoomGroup | typeof GENERAL>(GENERAL);
+  const [newLabel, setNewLabel] = useState("");
+  const [newRequired, setNewRequired] = useState(true);
+  const [photoRequiredTypes, setPhotoRequiredTypes] = useState<CleaningType[]>([]);
+
+  const fetchItems = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("cleaning_checklist_items")
+      .select("*")
+      .order("position", { ascending: true })
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching checklist items:", error);
+      toast({
+        title: "Błąd",
+        description: error.message?.includes("cleaning_checklist_items")
+          ? "Brak tabeli list kontrolnych — zastosuj migrację 20261019000300_add_cleaning_checklists.sql."
+          : "Nie udało się pobrać list kontrolnych",
+        variant: "destructive",
+      });
+    } else {
+      setItems(data || []);
+    }
+    setLoading(false);
+  }, [toast]);
+
+  const fetchSettings = useCallback(async () => {
+    const { data, error } = await supabase.from("cleaning_type_settings").select("cleaning_type, photo_required");
+    if (error) {
+      // Table may not exist yet (migration pending) — photos then stay optional.
+      console.error("Error fetching cleaning type settings:", error);
+      return;
+    }
+    setPhotoRequiredTypes((data || []).filter(row => row.photo_required).map(row => row.cleaning_type));
+  }, []);
+
+  useEffect(() => {
+    fetchItems();
+    fetchSettings();
+  }, [fetchItems, fetchSettings]);
+
+  const selectedGroup = roomGroup === GENERAL ? null : roomGroup;
+  const visibleItems = useMemo(
+    () => items.filter(item => item.cleaning_type === cleaningType && item.room_group === selectedGroup),
+    [items, cleaningType, selectedGroup]
+  );
+  const hasGeneralList = items.some(item => item.cleaning_type === cleaningType && item.room_group === null);
+
+  // Runs a write, then reloads the list; returns false when it failed.
+  const save = async (run: () => Promise<{ error: { message: string } | null }>, failure: string) => {
+    setIsSaving(true);
+    try {
+      const { error } = await run();
+      if (error) throw error;
+      await fetchItems();
+      return true;
+    } catch (error) {
+      console.error(failure, error);
+      toast({ title: "Błąd", description: failure, variant: "destructive" });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const label = newLabel.trim();
+    if (!label) return;
+    const position = visibleItems.length > 0 ? Math.max(...visibleItems.map(item => item.position)) + 1 : 0;
+    const added = await save(
+      async () => await supabase.from("cleaning_checklist_items").insert({
+        cleaning_type: cleaningType, room_group: selectedGroup, label, position, required: newRequired,
+      }),
+      "Nie udało się dodać punktu"
+    );
+    if (added) setNewLabel("");
+  };
+
+  const handleTogglePhotoRequired = async (photoRequired: boolean) => {
+    setIsSaving(true);
+    const { error } = await supabase
+      .from("cleaning_type_settings")
+      .upsert({ cleaning_type: cleaningType, photo_required: photoRequired, updated_at: new Date().toISOString() });
+    if (error) {
+      console.error("Error saving photo requirement:", error);
+      toast({ title: "Błąd", description: "Nie udało się zapisać wymogu zdjęcia", variant: "destructive" });
+    } else {
+      await fetchSettings();
+    }
+    setIsSaving(false);
+  };
+
+  const handleToggleRequired = (item: ChecklistTemplateItem, required: boolean) =>
+    save(
+      async () => await supabase.from("cleaning_checklist_items").update({ required }).eq("id", item.id),
+      "Nie udało się zapisać zmiany"
+    );
+
+  const handleDelete = (item: ChecklistTemplateItem) =>
+    save(
+      async () => await supabase.from("cleaning_checklist_items").delete().eq("id", item.id),
+      "Nie udało się usunąć punktu"
+    );
+
+  // Swaps positions with the neighbour; positions are renumbered so duplicates cannot stick.
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= visibleItems.length) return;
+    const reordered = [...visibleItems];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    return save(async () => {
+      for (const [position, item] of reordered.entries()) {
+        if (item.position === position) continue;
+        const { error } = await supabase.from("cleaning_checklist_items").update({ position }).eq("id", item.id);
+        if (error) return { error };
+      }
+      return { error: null };
+    }, "Nie udało się zmienić kolejności");
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Listy kontrolne</h1>
+        <p className="text-muted-foreground mt-1">
+          Kroki sprzątania dla każdego typu, odhaczane przez pokojowe w trakcie zadania
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        <div className="space-y-1">
+          <Label>Typ sprzątania</Label>
+          <Select value={cleaningType} onValueChange={(value) => setCleaningType(value as CleaningType)}>
+            <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {CLEANING_TYPES.map(type => (
+                <SelectItem key={type} value={type}>{type} — {CLEANING_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Grupa pokoi</Label>
+          <Select value={roomGroup} onValueChange={(value) => setRoomGroup(value as RoomGroup | typeof GENERAL)}>
+            <SelectTrigger className="w-56"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={GENERAL}>Wszystkie grupy (ogólna)</SelectItem>
+              {(Object.keys(ROOM_GROUP_LABELS) as RoomGroup[]).map(group => (
+                <SelectItem key={group} value={group}>{ROOM_GROUP_LABELS[group]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2 self-end h-10">
+          <Switch
+            id="photo-required"
+            checked={photoRequiredTypes.includes(cleaningType)}
+            onCheckedChange={handleTogglePhotoRequired}
+            disabled={isSaving}
+          />
+          <Label htmlFor="photo-required">Wymagaj zdjęcia po sprzątaniu ({cleaningType})</Label>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            {CLEANING_TYPE_LABELS[cleaningType]} · {selectedGroup ? ROOM_GROUP_LABELS[selectedGroup] : "lista ogólna"}
+          </CardTitle>
+          <CardDescription>
+            {selectedGroup
+              ? visibleItems.length > 0
+                ? "Ta lista zastępuje listę ogólną dla tej grupy pokoi."
+                : hasGeneralList
+                  ? "Brak osobnej listy — ta grupa korzysta z listy ogólnej."
+                  : "Brak listy dla tej grupy."
+              : "Stosowana dla grup pokoi bez własnej listy."}
+            {" "}Zmiany dotyczą nowych zadań.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : visibleItems.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Brak punktów.</p>
+          ) : (
+            <ol className="space-y-2">
+              {visibleItems.map((item, index) => (
+                <li key={item.id} className="flex items-center gap-3 rounded-md border p-2">
+                  <span className="w-6 text-center text-sm text-muted-foreground">{index + 1}.</span>
+                  <span className="flex-1 text-sm">{item.label}</span>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`required-${item.id}`}
+                      checked={item.required}
+                      disabled={isSaving}
+                      onCheckedChange={(checked) => handleToggleRequired(item, checked)}
+                    />
+                    <Label htmlFor={`required-${item.id}`} className="text-xs text-muted-foreground">Wymagane</Label>
+                  </div>
+                  <Button variant="ghost" size="icon" disabled={isSaving || index === 0} onClick={() => handleMove(index, -1)} title="W górę">
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" disabled={isSaving || index === visibleItems.length - 1} onClick={() => handleMove(index, 1)} title="W dół">
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" disabled={isSaving} onClick={() => handleDelete(item)} title="Usuń">
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          <form
+            className="flex flex-wrap items-center gap-3 pt-4 border-t"
+            onSubmit={(e) => { e.preventDefault(); handleAdd(); }}
+          >
+            <Input
+              value={newLabel}
+              onChange={(e) => setNewLabel(e.target.value)}
+              placeholder="Nowy punkt, np. Zmiana pościeli"
+              className="flex-1 min-w-[200px]"
+              maxLength={200}
+            />
+            <div className="flex items-center gap-2">
+              <Switch id="new-required" checked={newRequired} onCheckedChange={setNewRequired} />
+              <Label htmlFor="new-required" className="text-sm">Wymagane</Label>
+            </div>
+            <Button type="submit" disabled={isSaving || !newLabel.trim()}>
+              <Plus className="h-4 w-4 mr-1" />
+              Dodaj
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
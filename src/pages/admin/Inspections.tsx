@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ClipboardCheck, Loader2, RefreshCw } from "lucide-react";
+import { InspectionDialog } from "@/components/admin/InspectionDialog";
+import { useInspectionQueue, type InspectableTask } from "@/hooks/useInspectionQueue";
+import { formatMinutesAsHm } from "@/lib/utils";
+
+const formatStopTime = (stopTime: string | null) => (stopTime ? format(new Date(stopTime), "dd.MM HH:mm") : "-");
+
+export default function Inspections() {
+  const { queue, inspected, loading, isSubmitting, refresh, inspect } = useInspectionQueue();
+  const [selectedTask, setSelectedTask] = useState<InspectableTask | null>(null);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Kontrole</h1>
+          <p className="text-muted-foreground mt-1">
+            Skończone zadania z ostatnich 7 dni czekające na kontrolę
+          </p>
+        </div>
+        <Button variant="outline" size="icon" onClick={refresh} disabled={loading} title="Odśwież">
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ClipboardCheck className="h-5 w-5" />
+                Do kontroli ({queue.length})
+              </CardTitle>
+              <CardDescription>Kontrola jest opcjonalna — niesprawdzone pokoje pozostają skończone.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {queue.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Brak pokoi do kontroli.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Pokój</TableHead>
+                      <TableHead>Typ</TableHead>
+                      <TableHead>Pracownik</TableHead>
+                      <TableHead>Skończone</TableHead>
+                      <TableHead>Czas</TableHead>
+                      <TableHead className="text-right">Akcja</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {queue.map(task => (
+                      <TableRow key={task.id}>
+                        <TableCell className="font-medium">{task.room.name}</TableCell>
+                        <TableCell>{task.cleaning_type}</TableCell>
+                        <TableCell>{task.user?.name ?? "-"}</TableCell>
+                        <TableCell>{formatStopTime(task.stop_time)}</TableCell>
+                        <TableCell>{formatMinutesAsHm(task.actual_time)}</TableCell>
+                        <TableCell className="text-right">
+                          <Button size="sm" onClick={() => setSelectedTask(task)}>Skontroluj</Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Ostatnie kontrole</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {inspected.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Brak kontroli w tym okresie.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Pokój</TableHead>
+                      <TableHead>Pracownik</TableHead>
+                      <TableHead>Wynik</TableHead>
+                      <TableHead>Ocena</TableHead>
+                      <TableHead>Uwagi</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {inspected.map(task => {
+                      const latest = task.inspections[0];
+                      return (
+                        <TableRow key={task.id}>
+                          <TableCell className="font-medium">{task.room.name}</TableCell>
+                          <TableCell>{task.user?.name ?? "-"}</TableCell>
+                          <TableCell>
+                            {latest.result === "passed"
+                              ? <Badge className="bg-green-600 text-white">Zaliczone</Badge>
+                              : <Badge variant="destructive">Odesłane</Badge>}
+                          </TableCell>
+                          <TableCell>{latest.score != null ? `${latest.score}%` : "-"}</TableCell>
+                          <TableCell className="max-w-xs truncate">{latest.comments ?? "-"}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <InspectionDialog
+        task={selectedTask}
+        onOpenChange={(open) => { if (!open) setSelectedTask(null); }}
+        onSubmit={inspect}
+        isSubmitting={isSubmitting}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,428 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Loader2, Plus, Repeat, Trash2, Wand2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { CAPACITY_ID_TO_LABEL, getCapacitySortKey, normalizeCapacityLabel } from "@/lib/capacity-utils";
+import {
+  fetchTimeLimits,
+  parseCapacityConfigurations,
+  resolveTimeLimit,
+  type TimeLimitRoom,
+  type TimeLimitRow,
+} from "@/lib/task-time-limits";
+import {
+  WEEKDAYS,
+  WEEKDAY_SHORT_LABELS,
+  describeWeekdays,
+  generateRecurringTasks,
+  templateAppliesOn,
+  type RecurringTaskTemplate,
+} from "@/lib/recurring-tasks";
+import { CLEANING_TYPES, CLEANING_TYPE_LABELS, type CleaningType } from "@/lib/cleaning-types";
+
+const UNASSIGNED = "unassigned";
+
+type TemplateRoom = TimeLimitRoom & { id: string; name: string };
+
+// OTHER locations take a plain number of guests (as in AddTaskDialog)
+const OTHER_GUEST_COUNTS = Array.from({ length: 10 }, (_, i) => String(i + 1));
+
+/** Guest counts the room is configured for, as capacity_id and label. */
+const guestOptionsFor = (room: TemplateRoom | undefined): { value: string; label: string }[] => {
+  if (!room) return [];
+  if (room.group_type === "OTHER") return OTHER_GUEST_COUNTS.map(count => ({ value: count, label: count }));
+
+  const configured = parseCapacityConfigurations(room).map(config => ({
+    value: config.capacity_id,
+    label: normalizeCapacityLabel(config.capacity_label) || CAPACITY_ID_TO_LABEL[config.capacity_id] || config.capacity_id,
+  }));
+  const options = configured.length > 0
+    ? configured
+    : Object.entries(CAPACITY_ID_TO_LABEL).map(([value, label]) => ({ value, label }));
+  return [...new Map(options.map(option => [option.value, option])).values()]
+    .sort((a, b) => getCapacitySortKey(a.label) - getCapacitySortKey(b.label));
+};
+
+const getTodayDateString = () => new Date().toISOString().split("T")[0];
+
+interface TemplateForm {
+  roomId: string;
+  cleaningType: CleaningType;
+  staffId: string;
+  guestCount: string;
+  timeLimit: string;
+  notes: string;
+  weekdays: string[];
+  validFrom: string;
+  validUntil: string;
+}
+
+const emptyForm = (): TemplateForm => ({
+  roomId: "",
+  cleaningType: "S",
+  staffId: UNASSIGNED,
+  guestCount: "",
+  timeLimit: "",
+  notes: "",
+  weekdays: WEEKDAYS.map(String),
+  validFrom: getTodayDateString(),
+  validUntil: "",
+});
+
+export default function RecurringTasks() {
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<RecurringTaskTemplate[]>([]);
+  const [rooms, setRooms] = useState<TemplateRoom[]>([]);
+  const [timeLimits, setTimeLimits] = useState<TimeLimitRow[]>([]);
+  const [staff, setStaff] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [form, setForm] = useState<TemplateForm>(emptyForm);
+
+  const fetchTemplates = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("recurring_task_templates")
+      .select("*")
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching recurring task templates:", error);
+      toast({
+        title: "Błąd",
+        description: error.message?.includes("recurring_task_templates")
+          ? "Brak tabeli szablonów — zastosuj migrację 20261019000500_add_recurring_task_templates.sql."
+          : "Nie udało się pobrać szablonów",
+        variant: "destructive",
+      });
+    } else {
+      setTemplates(data || []);
+    }
+    setLoading(false);
+  }, [toast]);
+
+  const fetchOptions = useCallback(async () => {
+    const [roomsResult, staffResult, limits] = await Promise.all([
+      supabase.from("rooms").select("id, name, group_type, capacity_configurations").eq("active", true).order("name"),
+      supabase.from("users").select("id, name").eq("active", true).eq("role", "housekeeping").order("name"),
+      fetchTimeLimits().catch(error => {
+        console.warn("Could not load the limits table:", error);
+        return [];
+      }),
+    ]);
+    if (roomsResult.error) console.error("Error fetching rooms:", roomsResult.error);
+    if (staffResult.error) console.error("Error fetching staff:", staffResult.error);
+    // capacity_configurations is missing from the generated types
+    setRooms((roomsResult.data || []) as unknown as TemplateRoom[]);
+    setStaff(staffResult.data || []);
+    setTimeLimits(limits);
+  }, []);
+
+  useEffect(() => {
+    fetchTemplates();
+    fetchOptions();
+  }, [fetchTemplates, fetchOptions]);
+
+  const roomsById = useMemo(() => new Map(rooms.map(room => [room.id, room])), [rooms]);
+  const staffNames = useMemo(() => new Map(staff.map(person => [person.id, person.name])), [staff]);
+  const today = getTodayDateString();
+
+  const updateForm = <K extends keyof TemplateForm>(key: K, value: TemplateForm[K]) =>
+    setForm(prev => ({ ...prev, [key]: value }));
+
+  const selectedRoom = roomsById.get(form.roomId);
+  const guestOptions = useMemo(() => guestOptionsFor(selectedRoom), [selectedRoom]);
+  // Same limit a task added by hand would get; the field overrides it
+  const defaultTimeLimit = form.guestCount
+    ? resolveTimeLimit(selectedRoom ?? null, form.guestCount, form.cleaningType, timeLimits)
+    : null;
+
+  const handleRoomChange = (roomId: string) =>
+    setForm(prev => ({ ...prev, roomId, guestCount: guestOptionsFor(roomsById.get(roomId))[0]?.value ?? "" }));
+
+  // Runs a write, then reloads the list; returns false when it failed.
+  const save = async (run: () => Promise<{ error: { message: string } | null }>, failure: string) => {
+    setIsSaving(true);
+    try {
+      const { error } = await run();
+      if (error) throw error;
+      await fetchTemplates();
+      return true;
+    } catch (error) {
+      console.error(failure, error);
+      toast({ title: "Błąd", description: failure, variant: "destructive" });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const formError = !form.roomId
+    ? "Wybierz lokalizację"
+    : !form.guestCount
+      ? "Wybierz liczbę gości"
+    : form.weekdays.length === 0
+      ? "Wybierz co najmniej jeden dzień"
+      : form.validUntil && form.validUntil < form.validFrom
+        ? "Data końcowa jest wcześniejsza niż początkowa"
+        : null;
+
+  const handleAdd = async () => {
+    if (formError) return;
+    const timeLimit = parseInt(form.timeLimit, 10);
+    const added = await save(
+      async () => await supabase.from("recurring_task_templates").insert({
+        room_id: form.roomId,
+        cleaning_type: form.cleaningType,
+        user_id: form.staffId === UNASSIGNED ? null : form.staffId,
+        guest_count: form.guestCount,
+        time_limit: isNaN(timeLimit) || timeLimit <= 0 ? defaultTimeLimit : timeLimit,
+        reception_notes: form.notes.trim() || null,
+        weekdays: form.weekdays.map(Number).sort((a, b) => a - b),
+        valid_from: form.validFrom,
+        valid_until: form.validUntil || null,
+      }),
+      "Nie udało się dodać szablonu"
+    );
+    if (added) setForm(emptyForm());
+  };
+
+  const handleToggleActive = (template: RecurringTaskTemplate, active: boolean) =>
+    save(
+      async () => await supabase
+        .from("recurring_task_templates")
+        .update({ active, updated_at: new Date().toISOString() })
+        .eq("id", template.id),
+      "Nie udało się zapisać zmiany"
+    );
+
+  const handleDelete = (template: RecurringTaskTemplate) =>
+    save(
+      async () => await supabase.from("recurring_task_templates").delete().eq("id", template.id),
+      "Nie udało się usunąć szablonu"
+    );
+
+  const handleGenerateToday = async () => {
+    setIsGenerating(true);
+    const { created, error } = await generateRecurringTasks(today);
+    if (error) {
+      console.error("Error generating recurring tasks:", error);
+      toast({ title: "Błąd", description: "Nie udało się utworzyć zadań z szablonów", variant: "destructive" });
+    } else {
+      toast({
+        title: "Zadania cykliczne",
+        description: created > 0
+          ? `Utworzono zadania na dziś: ${created}.`
+          : "Wszystkie dzisiejsze zadania z szablonów już istnieją.",
+      });
+    }
+    setIsGenerating(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Zadania cykliczne</h1>
+          <p className="text-muted-foreground mt-1">
+            Szablony zadań tworzonych automatycznie każdego dnia, np. dla pralni czy śniadań
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleGenerateToday} disabled={isGenerating}>
+          {isGenerating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Wand2 className="h-4 w-4 mr-2" />}
+          Utwórz dzisiejsze zadania
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Repeat className="h-5 w-5" />
+            Szablony ({templates.length})
+          </CardTitle>
+          <CardDescription>
+            Zadania powstają w nocy oraz przy otwarciu panelu recepcji. Pokój, który ma już otwarte zadanie
+            w danym dniu, jest pomijany.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : templates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Brak szablonów.</p>
+          ) : (
+            <ul className="space-y-2">
+              {templates.map(template => (
+                <li key={template.id} className="flex flex-wrap items-center gap-3 rounded-md border p-3 text-sm">
+                  <div className="flex-1 min-w-[200px]">
+                    <div className="font-medium">
+                      {roomsById.get(template.room_id)?.name ?? "Nieznana lokalizacja"}
+                      <span className="text-muted-foreground font-normal"> · {CLEANING_TYPE_LABELS[template.cleaning_type]}</span>
+                    </div>
+                    <div className="text-muted-foreground">
+                      {describeWeekdays(template.weekdays)}
+                      {" · "}
+                      {template.user_id ? staffNames.get(template.user_id) ?? "Nieaktywny pracownik" : "Nieprzypisane"}
+                      {" · "}
+                      od {template.valid_from}{template.valid_until ? ` do ${template.valid_until}` : ""}
+                      {template.time_limit !== null && ` · ${template.time_limit} min`}
+                    </div>
+                  </div>
+                  {templateAppliesOn(template, today) && <Badge variant="secondary">Dziś</Badge>}
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`active-${template.id}`}
+                      checked={template.active}
+                      disabled={isSaving}
+                      onCheckedChange={(checked) => handleToggleActive(template, checked)}
+                    />
+                    <Label htmlFor={`active-${template.id}`} className="text-xs text-muted-foreground">Aktywny</Label>
+                  </div>
+                  <Button variant="ghost" size="icon" disabled={isSaving} onClick={() => handleDelete(template)} title="Usuń">
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Nowy szablon</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="grid gap-4 md:grid-cols-2"
+            onSubmit={(e) => { e.preventDefault(); handleAdd(); }}
+          >
+            <div className="space-y-1">
+              <Label>Lokalizacja</Label>
+              <Select value={form.roomId} onValueChange={handleRoomChange}>
+                <SelectTrigger><SelectValue placeholder="Wybierz lokalizację" /></SelectTrigger>
+                <SelectContent>
+                  {rooms.map(room => (
+                    <SelectItem key={room.id} value={room.id}>{room.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Typ sprzątania</Label>
+              <Select value={form.cleaningType} onValueChange={(value) => updateForm("cleaningType", value as CleaningType)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {CLEANING_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{type} — {CLEANING_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Domyślnie przypisany</Label>
+              <Select value={form.staffId} onValueChange={(value) => updateForm("staffId", value)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>Nieprzypisane</SelectItem>
+                  {staff.map(person => (
+                    <SelectItem key={person.id} value={person.id}>{person.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="template-guests">Goście</Label>
+                <Select value={form.guestCount} onValueChange={(value) => updateForm("guestCount", value)} disabled={!selectedRoom}>
+                  <SelectTrigger id="template-guests"><SelectValue placeholder="—" /></SelectTrigger>
+                  <SelectContent>
+                    {guestOptions.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="template-limit">Limit (min)</Label>
+                <Input
+                  id="template-limit"
+                  type="number"
+                  min={1}
+                  value={form.timeLimit}
+                  onChange={(e) => updateForm("timeLimit", e.target.value)}
+                  placeholder={defaultTimeLimit !== null ? String(defaultTimeLimit) : "Brak"}
+                />
+              </div>
+            </div>
+            <div className="space-y-1 md:col-span-2">
+              <Label>Dni tygodnia</Label>
+              <ToggleGroup
+                type="multiple"
+                variant="outline"
+                className="justify-start"
+                value={form.weekdays}
+                onValueChange={(value) => updateForm("weekdays", value)}
+              >
+                {WEEKDAYS.map(day => (
+                  <ToggleGroupItem key={day} value={String(day)} className="w-11">
+                    {WEEKDAY_SHORT_LABELS[day]}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="template-from">Obowiązuje od</Label>
+                <Input
+                  id="template-from"
+                  type="date"
+                  value={form.validFrom}
+                  onChange={(e) => updateForm("validFrom", e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="template-until">Obowiązuje do</Label>
+                <Input
+                  id="template-until"
+                  type="date"
+                  value={form.validUntil}
+                  min={form.validFrom}
+                  onChange={(e) => updateForm("validUntil", e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="template-notes">Notatka dla pokojowej</Label>
+              <Input
+                id="template-notes"
+                value={form.notes}
+                onChange={(e) => updateForm("notes", e.target.value)}
+                maxLength={500}
+                placeholder="Opcjonalnie"
+              />
+            </div>
+            <div className="flex items-center justify-end gap-3 md:col-span-2">
+              {formError && <span className="text-sm text-muted-foreground">{formError}</span>}
+              <Button type="submit" disabled={isSaving || !!formError}>
+                <Plus className="h-4 w-4 mr-1" />
+                Dodaj szablon
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -6,6 +6,8 @@ import { TaskPerformanceChart } from '@/components/admin/reports/TaskPerformance
 import { IssueMetricsChart } from '@/components/admin/reports/IssueMetricsChart';
 import { StaffPerformanceChart } from '@/components/admin/reports/StaffPerformanceChart';
 import { RoomAnalyticsChart } from '@/components/admin/reports/RoomAnalyticsChart';
+import { PauseReasonChart } from '@/components/admin/reports/PauseReasonChart';
+import { ServiceAttemptsChart } from '@/components/admin/reports/ServiceAttemptsChart';
 import { useAdminReports } from '@/hooks/useAdminReports';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Loader2 } from 'lucide-react';
@@ -19,7 +21,7 @@ export default function Reports() {
     to: today,
   });
 
-  const { tasks, issues, workLogs, rooms, loading, error } = useAdminReports(dateRange);
+  const { tasks, issues, workLogs, rooms, pauses, segments, inspections, attempts, loading, error } = useAdminReports(dateRange);
 
   return (
     <div className="space-y-6">
@@ -74,6 +76,28 @@ export default function Reports() {
             <TaskPerformanceChart tasks={tasks} />
           </div>
 
+          {/* Pause Breakdown Section */}
+          <div className="space-y-4">
+            <div>
+              <h2 className="text-2xl font-semibold">Pauzy w sprzątaniu</h2>
+              <p className="text-muted-foreground">
+                Czas i liczba pauz według powodu
+              </p>
+            </div>
+            <PauseReasonChart pauses={pauses} />
+          </div>
+
+          {/* Refused Visits Section */}
+          <div className="space-y-4">
+            <div>
+              <h2 className="text-2xl font-semibold">Odmowy sprzątania</h2>
+              <p className="text-muted-foreground">
+                Wizyty przerwane przez DND lub odmowę gościa
+              </p>
+            </div>
+            <ServiceAttemptsChart tasks={tasks} attempts={attempts} />
+          </div>
+
           {/* Issue Metrics Section */}
           <div className="space-y-4">
             <div>
@@ -93,7 +117,7 @@ export default function Reports() {
                 Analiza pracy i produktywności personelu
               </p>
             </div>
-            <StaffPerformanceChart tasks={tasks} workLogs={workLogs} />
+            <StaffPerformanceChart tasks={tasks} workLogs={workLogs} segments={segments} inspections={inspections} />
           </div>
 
           {/* Room Analytics Section */}
@@ -5,8 +5,9 @@ import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { Plus, Edit, Trash2, DoorOpen, Calendar, ArrowUpDown, ArrowUp, ArrowDown } from "lucide-react";
+import { Plus, Edit, Trash2, DoorOpen, Calendar, ArrowUpDown, ArrowUp, ArrowDown, Camera } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { supabaseAdmin } from "@/integrations/supabase/admin-client";
 import { useToast } from "@/hooks/use-toast";
@@ -40,6 +41,7 @@ export default function Rooms() {
   const [isSaving, setIsSaving] = useState(false);
   const [typeSortDirection, setTypeSortDirection] = useState<"asc" | "desc" | null>(null);
   const [createdSortDirection, setCreatedSortDirection] = useState<"asc" | "desc" | null>(null);
+  const [updatingPhotoRoomId, setUpdatingPhotoRoomId] = useState<string | null>(null);
 
   const fetchRooms = async () => {
     try {
@@ -67,6 +69,28 @@ export default function Rooms() {
     fetchRooms();
   }, []);
 
+  const handleTogglePhotoRequired = async (room: Room, photoRequired: boolean) => {
+    setUpdatingPhotoRoomId(room.id);
+    const { error } = await supabase
+      .from("rooms")
+      .update({ photo_required: photoRequired })
+      .eq("id", room.id);
+
+    if (error) {
+      console.error("Error updating photo requirement:", error);
+      toast({
+        title: "Błąd",
+        description: error.message?.includes("photo_required")
+          ? "Brak kolumny photo_required — zastosuj migrację 20261019000400_add_task_photos.sql."
+          : "Nie udało się zapisać wymogu zdjęcia",
+        variant: "destructive",
+      });
+    } else {
+      setRooms(prev => prev.map(r => (r.id === room.id ? { ...r, photo_required: photoRequired } : r)));
+    }
+    setUpdatingPhotoRoomId(null);
+  };
+
   const filteredRooms = rooms.filter(room => {
     const matchesGroup = groupFilter === "all" || room.group_type === groupFilter;
     return matchesGroup;
@@ -905,6 +929,12 @@ export default function Rooms() {
                       {createdSortDirection === null && <ArrowUpDown className="ml-2 h-4 w-4" />}
                     </Button>
                   </TableHead>
+                  <TableHead>
+                    <div className="flex items-center gap-1" title="Wymagaj zdjęcia po sprzątaniu">
+                      <Camera className="h-4 w-4" />
+                      Zdjęcie
+                    </div>
+                  </TableHead>
                   <TableHead className="text-right">Akcje</TableHead>
                 </TableRow>
               </TableHeader>
@@ -924,6 +954,14 @@ export default function Rooms() {
                         {new Date(room.created_at || new Date()).toLocaleDateString()}
                       </div>
                     </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={room.photo_required ?? false}
+                        onCheckedChange={(checked) => handleTogglePhotoRequired(room, checked)}
+                        disabled={updatingPhotoRoomId === room.id}
+                        aria-label={`Wymagaj zdjęcia dla pokoju ${room.name}`}
+                      />
+                    </TableCell>
                     <TableCell className="text-right">
                       <div className="flex gap-2 justify-end">
                         <Button
@@ -0,0 +1,207 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { Database } from "@/integrations/supabase/types";
+import { removeTaskPhotoFiles, sweepOrphanedTaskPhotos } from "@/lib/task-photos";
+import { CHANGE_SOURCE_HEADER } from "@/lib/task-events";
+import { TRASH_RETENTION_DAYS, trashDaysLeft } from "@/lib/task-trash";
+import { CLEANING_TYPE_LABELS } from "@/lib/cleaning-types";
+
+type DeletedTask = Database["public"]["Functions"]["list_deleted_tasks"]["Returns"][number];
+
+const STATUS_LABELS: Record<string, string> = {
+  todo: "Do sprzątania", in_progress: "W trakcie", paused: "Wstrzymane", done: "Skończone", repair_needed: "Naprawa",
+};
+
+const formatDeletedAt = (value: string) =>
+  new Date(value).toLocaleString("pl-PL", { day: "2-digit", month: "2-digit", hour: "2-digit", minute: "2-digit" });
+
+export default function Trash() {
+  const { toast } = useToast();
+  const [tasks, setTasks] = useState<DeletedTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyTaskId, setBusyTaskId] = useState<string | null>(null);
+  const [taskToPurge, setTaskToPurge] = useState<DeletedTask | null>(null);
+
+  const fetchDeletedTasks = useCallback(async () => {
+    const { data, error } = await supabase.rpc("list_deleted_tasks");
+
+    if (error) {
+      console.error("Error fetching deleted tasks:", error);
+      toast({
+        title: "Błąd",
+        description: error.code === "PGRST202"
+          ? "Brak kosza — zastosuj migrację 20261019000800_soft_delete_tasks.sql."
+          : "Nie udało się pobrać usuniętych zadań",
+        variant: "destructive",
+      });
+    } else {
+      setTasks(data || []);
+    }
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    fetchDeletedTasks();
+  }, [fetchDeletedTasks]);
+
+  // The nightly purge cannot reach storage; it leaves the paths of its tasks' photos to remove here.
+  useEffect(() => {
+    sweepOrphanedTaskPhotos();
+  }, []);
+
+  const handleRestore = async (task: DeletedTask) => {
+    setBusyTaskId(task.id);
+    const { error } = await supabase
+      .rpc("restore_task", { p_task_id: task.id })
+      .setHeader(CHANGE_SOURCE_HEADER, "reception");
+    if (error) {
+      console.error("Error restoring task:", error);
+      toast({
+        title: "Błąd",
+        description: error.code === "23505"
+          ? `${task.room_name ?? "Pokój"} ma już otwarte zadanie w tym dniu. Zamknij je lub usuń przed przywróceniem.`
+          : `Nie udało się przywrócić zadania: ${error.message}`,
+        variant: "destructive",
+      });
+    } else {
+      toast({ title: "Przywrócono zadanie", description: `${task.room_name ?? "Zadanie"} wróciło na listę zadań.` });
+      await fetchDeletedTasks();
+    }
+    setBusyTaskId(null);
+  };
+
+  const handlePurge = async (task: DeletedTask) => {
+    setTaskToPurge(null);
+    setBusyTaskId(task.id);
+    const { error } = await supabase.rpc("purge_task", { p_task_id: task.id });
+    if (error) {
+      console.error("Error purging task:", error);
+      toast({ title: "Błąd", description: `Nie udało się usunąć zadania: ${error.message}`, variant: "destructive" });
+    } else {
+      // The photo rows went with the task; the files in storage have to be removed separately.
+      await removeTaskPhotoFiles(task.id);
+      toast({ title: "Usunięto trwale", description: `${task.room_name ?? "Zadanie"} usunięto z kosza.` });
+      await fetchDeletedTasks();
+    }
+    setBusyTaskId(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Kosz</h1>
+        <p className="text-muted-foreground mt-1">
+          Usunięte zadania można przywrócić przez {TRASH_RETENTION_DAYS} dni. Potem są usuwane automatycznie.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Trash2 className="h-5 w-5" />
+            Usunięte zadania ({tasks.length})
+          </CardTitle>
+          <CardDescription>
+            Przywrócone zadanie wraca z zapisanym czasem i notatkami. Nie da się go przywrócić, jeśli pokój ma już
+            inne otwarte zadanie tego dnia.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : tasks.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Kosz jest pusty.</p>
+          ) : (
+            <ul className="space-y-2">
+              {tasks.map(task => {
+                const daysLeft = trashDaysLeft(task.deleted_at);
+                return (
+                  <li key={task.id} className="flex flex-wrap items-center gap-3 rounded-md border p-3 text-sm">
+                    <div className="flex-1 min-w-[220px]">
+                      <div className="font-medium">
+                        {task.room_name ?? "Nieznana lokalizacja"}
+                        <span className="text-muted-foreground font-normal">
+                          {" · "}{CLEANING_TYPE_LABELS[task.cleaning_type] ?? task.cleaning_type}
+                          {" · "}{task.date}
+                        </span>
+                      </div>
+                      <div className="text-muted-foreground">
+                        {task.staff_name ?? "Nieprzypisane"}
+                        {" · "}
+                        {STATUS_LABELS[task.status] ?? task.status}
+                        {task.actual_time !== null && ` · ${task.actual_time} min`}
+                      </div>
+                      {(task.reception_notes || task.housekeeping_notes) && (
+                        <div className="text-muted-foreground italic truncate max-w-xl">
+                          {[task.reception_notes, task.housekeeping_notes].filter(Boolean).join(" · ")}
+                        </div>
+                      )}
+                      <div className="text-xs text-muted-foreground mt-1">
+                        Usunięto {formatDeletedAt(task.deleted_at)}
+                        {task.deleted_by_name && ` przez ${task.deleted_by_name}`}
+                      </div>
+                    </div>
+                    <Badge variant={daysLeft <= 3 ? "destructive" : "secondary"}>
+                      {daysLeft === 1 ? "1 dzień" : `${daysLeft} dni`}
+                    </Badge>
+                    <Button variant="outline" size="sm" disabled={busyTaskId !== null} onClick={() => handleRestore(task)}>
+                      {busyTaskId === task.id ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-2" />}
+                      Przywróć
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={busyTaskId !== null}
+                      onClick={() => setTaskToPurge(task)}
+                      title="Usuń trwale"
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={taskToPurge !== null} onOpenChange={(open) => !open && setTaskToPurge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Usunąć trwale?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Zadanie dla {taskToPurge?.room_name ?? "tej lokalizacji"} z dnia {taskToPurge?.date} zostanie usunięte
+              razem z historią, pauzami i zdjęciami. Tej operacji nie można cofnąć.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Anuluj</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => taskToPurge && handlePurge(taskToPurge)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Usuń trwale
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
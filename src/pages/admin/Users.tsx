@@ -17,6 +17,7 @@ import { userCreationSchema } from "@/lib/validation";
 import { generatePassword } from "@/lib/passwordGenerator";
 import { PasswordStrengthIndicator } from "@/components/admin/PasswordStrengthIndicator";
 import { CredentialShareDialog } from "@/components/admin/CredentialShareDialog";
+import { DEFAULT_SHIFT_MINUTES } from "@/lib/assignment-board";
 
 type User = Database["public"]["Tables"]["users"]["Row"];
 
@@ -51,6 +52,7 @@ export default function Users() {
     last_name: "",
     role: "housekeeping" as UserRole,
     active: true,
+    shift_minutes: "",
   });
 
   const adminClientAvailable = adminApi.isAvailable();
@@ -93,6 +95,7 @@ export default function Users() {
         last_name: "",
         role: "housekeeping" as UserRole,
         active: true,
+        shift_minutes: "",
       });
       setValidationErrors({});
       setShowPassword(false);
@@ -267,6 +270,7 @@ export default function Users() {
         last_name: "",
         role: "housekeeping" as UserRole,
         active: true,
+        shift_minutes: "",
       });
       setValidationErrors({});
       await fetchUsers();
@@ -302,6 +306,10 @@ export default function Users() {
         }
       }
 
+      // Only sent when changed, so other edits still save before migration
+      // 20261019001300 adds the column
+      const shiftMinutes = formData.shift_minutes ? parseInt(formData.shift_minutes, 10) : null;
+
       // Update user via admin API
       await adminApi.updateUser(selectedUser.id, {
         name: formData.name,
@@ -309,6 +317,7 @@ export default function Users() {
         last_name: formData.last_name,
         role: formData.role,
         active: formData.active,
+        shift_minutes: shiftMinutes !== (selectedUser.shift_minutes ?? null) ? shiftMinutes : undefined,
         password: formData.password && selectedUser.auth_id && (await supabase.auth.getUser()).data.user?.id !== selectedUser.auth_id ? formData.password : undefined,
         auth_id: selectedUser.auth_id,
       });
@@ -376,6 +385,7 @@ export default function Users() {
       last_name: user.last_name || "",
       role: user.role,
       active: user.active,
+      shift_minutes: user.shift_minutes != null ? String(user.shift_minutes) : "",
     }));
     setIsEditDialogOpen(true);
   };
@@ -820,6 +830,20 @@ export default function Users() {
                 </SelectContent>
               </Select>
             </div>
+            {formData.role === "housekeeping" && (
+              <div className="space-y-2">
+                <Label htmlFor="edit-shift_minutes">Długość zmiany (minuty)</Label>
+                <Input
+                  id="edit-shift_minutes"
+                  type="number"
+                  min={1}
+                  max={1440}
+                  value={formData.shift_minutes}
+                  onChange={(e) => setFormData({ ...formData, shift_minutes: e.target.value })}
+                  placeholder={`${DEFAULT_SHIFT_MINUTES} (domyślnie)`}
+                />
+              </div>
+            )}
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsEditDialogOpen(false)}>
@@ -1,18 +1,26 @@
 // src/pages/housekeeping/TaskDetails.tsx
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, LogOut, Play, Pause, Square, AlertTriangle, Sparkles } from "lucide-react";
+import { ArrowLeft, LogOut, Play, Pause, Square, AlertTriangle, Sparkles, DoorClosed } from "lucide-react";
 import { useHousekeepingTasks } from "@/hooks/useHousekeepingTasks";
 import { useTaskActions } from "@/hooks/useTaskActions";
+import { useOfflineTaskQueue } from "@/hooks/useOfflineTaskQueue";
+import { applyQueuedActions } from "@/lib/offline-queue";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { cn } from "@/lib/utils";
 import { TaskTimerDisplay, useTaskTimer } from "@/pages/Housekeeping";
 import { isAwaitingCleaning } from "@/lib/task-utils";
 import { SecondaryTaskActions } from "@/components/housekeeping/SecondaryTaskActions";
+import { PauseReasonDialog } from "@/components/housekeeping/PauseReasonDialog";
+import { RefusalDialog } from "@/components/housekeeping/RefusalDialog";
+import { TaskChecklist } from "@/components/housekeeping/TaskChecklist";
+import { TaskPhotoPicker } from "@/components/housekeeping/TaskPhotoPicker";
+import { openRequiredItems, parseTaskChecklist } from "@/lib/cleaning-checklist";
+import { Dialog } from "@/components/ui/dialog";
 import type { Task } from "@/pages/Housekeeping";
 import { CAPACITY_ID_TO_LABEL, renderCapacityIconPattern } from "@/lib/capacity-utils";
 import { supabase } from "@/integrations/supabase/client";
@@ -63,12 +71,42 @@ export default function TaskDetails() {
     const { taskId } = useParams<{ taskId: string }>();
     const navigate = useNavigate();
     const { signOut } = useAuth();
-    const { tasks, loading, activeTaskId, setActiveTaskId, fetchTasks } = useHousekeepingTasks();
-    const taskActions = useTaskActions(tasks, setActiveTaskId, activeTaskId, fetchTasks);
+    const { tasks: fetchedTasks, loading, activeTaskId, setActiveTaskId, fetchTasks } = useHousekeepingTasks();
+    const offlineQueue = useOfflineTaskQueue(fetchTasks);
+    const tasks = useMemo(() => applyQueuedActions(fetchedTasks, offlineQueue.actions), [fetchedTasks, offlineQueue.actions]);
+    const taskActions = useTaskActions(tasks, setActiveTaskId, activeTaskId, fetchTasks, offlineQueue);
     const [taskIssues, setTaskIssues] = useState<TaskIssue[]>([]);
     const [loadingIssues, setLoadingIssues] = useState(false);
+    const [isPauseDialogOpen, setIsPauseDialogOpen] = useState(false);
+    const [isRefusalDialogOpen, setIsRefusalDialogOpen] = useState(false);
+    const [isStopDialogOpen, setIsStopDialogOpen] = useState(false);
+    const [isStopping, setIsStopping] = useState(false);
+    const [stopPhotos, setStopPhotos] = useState<File[]>([]);
+    const [needsPhoto, setNeedsPhoto] = useState(false);
 
     const task = tasks.find(t => t.id === taskId);
+    const taskStatus = task?.status;
+
+    // Whether the room or cleaning type requires an "after" photo that is not attached yet
+    useEffect(() => {
+        if (!taskId || (taskStatus !== 'in_progress' && taskStatus !== 'paused') || !navigator.onLine) {
+            setNeedsPhoto(false);
+            return;
+        }
+
+        const checkPhotoRequirement = async () => {
+            const { data, error } = await supabase.rpc('task_needs_photo', { p_task_id: taskId });
+            if (error) {
+                // Function may not exist yet (migration pending) — treat photos as optional.
+                console.error('Error checking photo requirement:', error);
+                setNeedsPhoto(false);
+                return;
+            }
+            setNeedsPhoto(!!data);
+        };
+
+        checkPhotoRequirement();
+    }, [taskId, taskStatus]);
 
     // Fetch all issues for this task
     useEffect(() => {
@@ -142,11 +180,14 @@ export default function TaskDetails() {
         return null;
     }
 
+    const checklist = parseTaskChecklist(task.checklist);
+    const openChecklistItems = openRequiredItems(checklist);
     const isActive = activeTaskId === task.id;
     const canStart = (task.status === 'todo' || task.status === 'repair_needed') && !activeTaskId;
     const canPause = task.status === 'in_progress' && isActive;
     const canResume = task.status === 'paused' && !activeTaskId;
     const canStop = (task.status === 'in_progress' || task.status === 'paused') && isActive;
+    const canRecordRefusal = ['todo', 'in_progress', 'paused'].includes(task.status) && (!activeTaskId || isActive);
 
     return (
         <div className="min-h-screen bg-background pb-24">
@@ -296,6 +337,16 @@ export default function TaskDetails() {
                             </div>
                         )}
 
+                        {checklist.length > 0 && (
+                            <div className="pt-4 border-t">
+                                <TaskChecklist
+                                    items={checklist}
+                                    disabled={task.status !== 'in_progress' && task.status !== 'paused'}
+                                    onToggle={(itemId, done) => taskActions.handleToggleChecklistItem(task.id, itemId, done)}
+                                />
+                            </div>
+                        )}
+
                         {/* Timer Display */}
                         {task.start_time && (
                             <div className="pt-4 border-t">
@@ -332,13 +383,23 @@ export default function TaskDetails() {
                             size="lg"
                             variant="secondary"
                             className="w-full h-16 text-lg border-status-paused/30 text-status-paused hover:bg-status-paused/10"
-                            onClick={() => taskActions.handlePause(task.id)}
+                            onClick={() => setIsPauseDialogOpen(true)}
                         >
                             <Pause className="mr-2 h-6 w-6" />
                             Wstrzymaj
                         </Button>
                     )}
 
+                    <Dialog open={isPauseDialogOpen} onOpenChange={setIsPauseDialogOpen}>
+                        {isPauseDialogOpen && (
+                            <PauseReasonDialog
+                                task={task}
+                                onSelect={taskActions.handlePause}
+                                onClose={() => setIsPauseDialogOpen(false)}
+                            />
+                        )}
+                    </Dialog>
+
                     {canResume && (
                         <Button
                             size="lg"
@@ -350,8 +411,37 @@ export default function TaskDetails() {
                         </Button>
                     )}
 
+                    {canRecordRefusal && (
+                        <Button
+                            size="lg"
+                            variant="outline"
+                            className="w-full h-16 text-lg"
+                            onClick={() => setIsRefusalDialogOpen(true)}
+                        >
+                            <DoorClosed className="mr-2 h-6 w-6" />
+                            DND / Gość odmówił
+                        </Button>
+                    )}
+
+                    <Dialog open={isRefusalDialogOpen} onOpenChange={setIsRefusalDialogOpen}>
+                        {isRefusalDialogOpen && (
+                            <RefusalDialog
+                                task={task}
+                                onSelect={taskActions.handleRecordRefusal}
+                                onClose={() => setIsRefusalDialogOpen(false)}
+                            />
+                        )}
+                    </Dialog>
+
                     {canStop && (
-                        <AlertDialog>
+                        <AlertDialog
+                            open={isStopDialogOpen}
+                            onOpenChange={(open) => {
+                                if (isStopping) return;
+                                setIsStopDialogOpen(open);
+                                if (!open) setStopPhotos([]);
+                            }}
+                        >
                             <AlertDialogTrigger asChild>
                                 <Button
                                     size="lg"
@@ -369,10 +459,43 @@ export default function TaskDetails() {
                                         Czy na pewno chcesz zakończyć to zadanie? Ta akcja oznaczy zadanie jako ukończone.
                                     </AlertDialogDescription>
                                 </AlertDialogHeader>
+                                {openChecklistItems.length > 0 && (
+                                    <div className="rounded-md border border-orange-200 bg-orange-50 p-3 text-sm text-orange-800 dark:bg-orange-900/30 dark:border-orange-700 dark:text-orange-200">
+                                        <p className="font-semibold flex items-center mb-1">
+                                            <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+                                            Niezaznaczone wymagane punkty ({openChecklistItems.length})
+                                        </p>
+                                        <ul className="list-disc pl-6">
+                                            {openChecklistItems.map(item => <li key={item.id}>{item.label}</li>)}
+                                        </ul>
+                                    </div>
+                                )}
+                                <TaskPhotoPicker
+                                    taskId={task.id}
+                                    photos={stopPhotos}
+                                    onChange={setStopPhotos}
+                                    required={needsPhoto}
+                                    disabled={isStopping}
+                                />
                                 <AlertDialogFooter>
-                                    <AlertDialogCancel>Anuluj</AlertDialogCancel>
-                                    <AlertDialogAction onClick={() => taskActions.handleStop(task.id)}>
-                                        Zakończ zadanie
+                                    <AlertDialogCancel disabled={isStopping}>Anuluj</AlertDialogCancel>
+                                    <AlertDialogAction
+                                        disabled={isStopping || (needsPhoto && stopPhotos.length === 0)}
+                                        onClick={async (e) => {
+                                            // Keep the dialog open while photos upload, and on failure
+                                            e.preventDefault();
+                                            setIsStopping(true);
+                                            const stopped = await taskActions.handleStop(task.id, { allowOpenChecklist: true, photos: stopPhotos });
+                                            setIsStopping(false);
+                                            if (stopped) {
+                                                setStopPhotos([]);
+                                                setIsStopDialogOpen(false);
+                                            }
+                                        }}
+                                    >
+                                        {isStopping
+                                            ? "Zapisywanie..."
+                                            : openChecklistItems.length > 0 ? "Zakończ mimo to" : "Zakończ zadanie"}
                                     </AlertDialogAction>
                                 </AlertDialogFooter>
                             </AlertDialogContent>
@@ -7,8 +7,12 @@ import { StatsCards } from "@/components/reception/StatsCards";
 import { AddTaskDialog } from "@/components/reception/AddTaskDialog";
 // *** Import the new dialog ***
 import { ReportNewIssueDialog } from "@/components/reception/ReportNewIssueDialog";
+import { RunningLatePanel } from "@/components/reception/RunningLatePanel";
+import { DeadlinesAtRiskPanel } from "@/components/reception/DeadlinesAtRiskPanel";
 import type { Room, Staff } from "@/hooks/useReceptionData";
 import type { NewTaskState } from "@/hooks/useReceptionActions";
+import type { OverrunAlert } from "@/lib/task-overrun";
+import type { DeadlineAlert } from "@/lib/task-deadline";
 
 
 interface DashboardProps {
@@ -27,6 +31,12 @@ interface DashboardProps {
   // *** Add props for ReportNewIssueDialog ***
   handleReportNewIssue: (roomId: string, description: string, photo: File | null) => Promise<boolean>;
   isSubmittingNewIssue: boolean;
+  // Running tasks at or past their time limit, kept live by useReceptionData
+  overrunAlerts: OverrunAlert[];
+  overrunWarningPercent: number;
+  onOverrunWarningPercentChange: (percent: number) => void;
+  // Open tasks at risk of missing their due-by time
+  deadlineAlerts?: DeadlineAlert[];
   // Base path for navigation links (defaults to /reception)
   basePath?: string;
 }
@@ -41,6 +51,10 @@ export default function Dashboard({
   // *** Destructure new props ***
   handleReportNewIssue,
   isSubmittingNewIssue,
+  overrunAlerts,
+  overrunWarningPercent,
+  onOverrunWarningPercentChange,
+  deadlineAlerts = [],
   basePath = "/reception"
 }: DashboardProps) {
   return (
@@ -53,6 +67,12 @@ export default function Dashboard({
         </p>
       </div>
       <StatsCards stats={stats} />
+      <RunningLatePanel
+        alerts={overrunAlerts}
+        warningPercent={overrunWarningPercent}
+        onWarningPercentChange={onOverrunWarningPercentChange}
+      />
+      <DeadlinesAtRiskPanel alerts={deadlineAlerts} />
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         {/* ... Links Cards ... */}
         <Card className="hover:shadow-lg transition-shadow cursor-pointer">
@@ -4,16 +4,31 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableHeader, TableRow, TableHead } from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { RefreshCw, Download, GripVertical, List, Users, CalendarDays, Tag } from "lucide-react";
+import { RefreshCw, Download, GripVertical, List, Users, CalendarDays, Tag, Route, Columns3, ChartGantt, CalendarRange } from "lucide-react";
 import { CAPACITY_ID_TO_LABEL } from "@/lib/capacity-utils";
 import { TaskFilters, type RoomGroupOption } from "@/components/reception/TaskFilters";
 import { TaskTableRow } from "@/components/reception/TaskTableRow";
 import { AddTaskDialog } from "@/components/reception/AddTaskDialog";
 import { BatchTaskWizard } from "@/components/reception/BatchTaskWizard";
+import { CopyDayPlanDialog } from "@/components/reception/CopyDayPlanDialog";
+import { AssignmentBoard, type BoardMove } from "@/components/reception/AssignmentBoard";
+import { DayTimeline } from "@/components/reception/DayTimeline";
+import { WeekCalendar } from "@/components/reception/WeekCalendar";
+import { useFilterPresets, type FilterPreset } from "@/hooks/useFilterPresets";
+import type { TaskFilterState } from "@/lib/task-filter-url";
 import { TaskDetailDialog } from "@/components/reception/TaskDetailDialog";
 import { TaskSummaryFooter } from "@/components/reception/TaskSummaryFooter";
+import { BulkTaskActionBar } from "@/components/reception/BulkTaskActionBar";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useTaskOrder } from "@/hooks/useTaskOrder";
+import { useToast } from "@/hooks/use-toast";
 import { sortReadyToCleanFirst } from "@/lib/task-utils";
+import { spliceGroupOrder, suggestTaskOrder } from "@/lib/route-order";
+import { boardDayOrder } from "@/lib/assignment-board";
+import { SuggestedOrderDialog } from "@/components/reception/SuggestedOrderDialog";
+import type { OverrunAlert } from "@/lib/task-overrun";
+import type { TaskChangeSource } from "@/lib/task-events";
+import type { BulkTaskAction, BulkTaskResult, BulkTaskTarget } from "@/lib/bulk-task-actions";
 import {
   DndContext,
   closestCenter,
@@ -49,6 +64,12 @@ export interface Task {
   difference: number | null;
   issue_flag: boolean;
   ready_to_clean?: boolean;
+  ready_at?: string | null;
+  due_by?: string | null;
+  attempt_count?: number;
+  last_attempt_reason?: Database["public"]["Enums"]["service_refusal_reason"] | null;
+  last_attempt_at?: string | null;
+  retry_at?: string | null;
   issue_description: string | null; // Added based on TaskTableRow usage
   issue_photo: string | null; // Added based on TaskTableRow usage
   housekeeping_notes: string | null;
@@ -60,6 +81,7 @@ export interface Task {
   total_pause: number | null; // Keep if needed by TaskDetailDialog or logic
   display_order?: number | null;
   created_at?: string;
+  updated_at?: string;
 }
 
 export interface Staff {
@@ -191,7 +213,7 @@ function tasksToCsv(tasks: Task[]): string {
     const diff = task.difference != null ? (task.difference > 0 ? "+" : "") + String(task.difference) : "";
     const issue = task.issue_flag ? (task.issue_description ? `Tak: ${task.issue_description}` : "Tak") : "Nie";
     const notes = [task.housekeeping_notes, task.reception_notes].filter(Boolean).join("; ") || "";
-    const roomFree = task.ready_to_clean ? "Tak" : "Nie";
+    const roomFree = task.ready_to_clean ? "Tak" : task.ready_at ? `Od ${new Date(task.ready_at).toLocaleTimeString("pl-PL", { hour: "2-digit", minute: "2-digit" })}` : "Nie";
     return [status, room, roomFree, type, guests, notes, staff, date, issue, limit, actual, diff].map(escapeCsvCell).join(",");
   });
   return [headers.join(","), ...rows].join("\n");
@@ -229,7 +251,7 @@ interface TasksProps {
   onRoomChange: (roomId: string) => void;
   onClearFilters: () => void;
   onRefresh: () => void;
-  onAddTask: (task: any) => Promise<boolean>;
+  onAddTask: (task: any, source?: TaskChangeSource) => Promise<boolean>;
   onSaveWorkLog: (log: any) => Promise<boolean>;
   initialNewTaskState: any;
   isSubmittingTask: boolean;
@@ -237,11 +259,24 @@ interface TasksProps {
   onUpdateTask: (taskId: string, updates: any) => Promise<boolean>;
   onDeleteTask: (taskId: string) => Promise<boolean>;
   onToggleReadyToClean: (taskId: string, readyToClean: boolean) => Promise<boolean>;
+  onScheduleReadyToClean?: (taskId: string, readyAt: string | null) => Promise<boolean>;
   updatingReadyToCleanTaskId: string | null;
+  onScheduleRetry?: (taskId: string, retryAt: string | null) => Promise<boolean>;
+  schedulingRetryTaskId?: string | null;
   isUpdatingTask: boolean;
   isDeletingTask: boolean;
+  onHandoverTask?: (taskId: string, newStaffId: string) => Promise<boolean>;
+  isHandingOverTask?: boolean;
+  onAssignTask?: (taskId: string, staffId: string | null) => Promise<{ updatedAt: string | null } | null>;
+  onBulkAction?: (tasks: BulkTaskTarget[], action: BulkTaskAction) => Promise<BulkTaskResult[]>;
+  onMoveTask?: (task: BulkTaskTarget, date: string) => Promise<boolean>;
+  isApplyingBulkAction?: boolean;
   onSetTaskFetchScope: (scope: 'upcoming' | 'archive') => void;
+  /** Scope the filters were opened with (from the URL); picks the first tab. */
+  taskFetchScope?: 'upcoming' | 'archive';
+  onApplyFilters?: (filters: TaskFilterState) => void;
   allTasksTotalCount: number;
+  overrunAlerts?: OverrunAlert[];
 }
 
 type TaskTableRowProps = Parameters<typeof TaskTableRow>[0];
@@ -290,24 +325,43 @@ export default function Tasks({
   onUpdateTask,
   onDeleteTask,
   onToggleReadyToClean,
+  onScheduleReadyToClean,
   updatingReadyToCleanTaskId,
+  onScheduleRetry,
+  schedulingRetryTaskId = null,
   isUpdatingTask,
   isDeletingTask,
+  onHandoverTask,
+  isHandingOverTask = false,
+  onAssignTask,
+  onBulkAction,
+  onMoveTask,
+  isApplyingBulkAction = false,
   onSetTaskFetchScope,
+  taskFetchScope = 'upcoming',
+  onApplyFilters,
   allTasksTotalCount,
+  overrunAlerts = [],
 }: TasksProps) {
   const [selectedTaskForDetail, setSelectedTaskForDetail] = useState<Task | null>(null);
   const [isDetailDialogOpen, setIsDetailDialogOpen] = useState(false);
-  const [activeTab, setActiveTab] = useState<"today" | "open" | "archive">("today");
+  // A shared link opens the tab its filters belong to
+  const [activeTab, setActiveTab] = useState<"today" | "open" | "archive">(() =>
+    taskFetchScope === 'archive' ? 'archive' : filters.date ? 'open' : 'today'
+  );
   const [dateRangeFrom, setDateRangeFrom] = useState<string | null>(null);
   const [dateRangeTo, setDateRangeTo] = useState<string | null>(null);
-  const [viewMode, setViewMode] = useState<'flat' | 'grouped' | 'status'>(() => {
+  const [viewMode, setViewMode] = useState<'flat' | 'grouped' | 'status' | 'board' | 'timeline' | 'week'>(() => {
     const stored = localStorage.getItem('taskListViewMode');
-    return (stored === 'flat' || stored === 'grouped' || stored === 'status') ? stored : 'flat';
+    return (stored === 'flat' || stored === 'grouped' || stored === 'status' || stored === 'board' || stored === 'timeline' || stored === 'week') ? stored : 'flat';
   });
   const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
   const [optimisticTaskIds, setOptimisticTaskIds] = useState<string[] | null>(null);
+  const [orderSuggestion, setOrderSuggestion] = useState<{ staffName: string; tasks: Task[] } | null>(null);
+  const [isSavingOrder, setIsSavingOrder] = useState(false);
   const taskOrder = useTaskOrder();
+  const filterPresets = useFilterPresets();
+  const { toast } = useToast();
   const sensors = useSensors(
     useSensor(PointerSensor),
     useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
@@ -320,10 +374,24 @@ export default function Tasks({
     };
   }, [activeTab, onSetTaskFetchScope]);
 
+  // A preset or the back button can switch the scope; show the tab it belongs to
+  useEffect(() => {
+    if (taskFetchScope === 'archive') setActiveTab('archive');
+    else setActiveTab(tab => tab === 'archive' ? 'today' : tab);
+  }, [taskFetchScope]);
+
   useEffect(() => {
     localStorage.setItem('taskListViewMode', viewMode);
   }, [viewMode]);
 
+  // Same presets under every tab's filters
+  const presetProps = onApplyFilters ? {
+    presets: filterPresets.presets,
+    onApplyPreset: (preset: FilterPreset) => onApplyFilters(preset.filters),
+    onSavePreset: (name: string) => filterPresets.savePreset(name, { ...filters, scope: taskFetchScope }),
+    onDeletePreset: filterPresets.deletePreset,
+  } : {};
+
   const handleViewDetails = (task: Task) => {
     setSelectedTaskForDetail(task);
     setIsDetailDialogOpen(true);
@@ -456,6 +524,59 @@ export default function Tasks({
     return optimisticTaskIds.map(id => map.get(id)).filter((t): t is Task => t !== undefined);
   }, [filteredTasks, optimisticTaskIds, activeTab]);
 
+  // Bulk selection only covers what the current tab and filters show
+  const [selectedTaskIds, setSelectedTaskIds] = useState<Set<string>>(() => new Set());
+
+  useEffect(() => {
+    setSelectedTaskIds(new Set());
+  }, [activeTab]);
+
+  useEffect(() => {
+    setSelectedTaskIds(prev => {
+      const visible = new Set(filteredTasks.map(t => t.id));
+      const next = new Set([...prev].filter(id => visible.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [filteredTasks]);
+
+  const selectedTasks = useMemo(
+    () => filteredTasks.filter(t => selectedTaskIds.has(t.id)),
+    [filteredTasks, selectedTaskIds]
+  );
+
+  const handleSelectTask = useCallback((taskId: string, selected: boolean) => {
+    setSelectedTaskIds(prev => {
+      const next = new Set(prev);
+      if (selected) next.add(taskId);
+      else next.delete(taskId);
+      return next;
+    });
+  }, []);
+
+  const handleSelectMany = (taskList: Task[], selected: boolean) => {
+    setSelectedTaskIds(prev => {
+      const next = new Set(prev);
+      taskList.forEach(t => (selected ? next.add(t.id) : next.delete(t.id)));
+      return next;
+    });
+  };
+
+  const selectionState = (taskList: Task[]): boolean | 'indeterminate' => {
+    const count = taskList.filter(t => selectedTaskIds.has(t.id)).length;
+    if (count === 0) return false;
+    return count === taskList.length ? true : 'indeterminate';
+  };
+
+  const bulkActionBar = onBulkAction && (
+    <BulkTaskActionBar
+      selectedTasks={selectedTasks}
+      staff={allStaff}
+      onApply={onBulkAction}
+      isApplying={isApplyingBulkAction}
+      onSelectionChange={(ids) => setSelectedTaskIds(new Set(ids))}
+    />
+  );
+
   type GroupEntry = { staffName: string; staffId: string | null; tasks: Task[] };
 
   const groupedTasks = useMemo((): [string, GroupEntry][] | null => {
@@ -525,6 +646,30 @@ export default function Tasks({
     });
   }, []);
 
+  // Shows the new order right away, then saves it in one go. If another user changed
+  // any of these tasks in the meantime nothing is saved and the list is reloaded.
+  const saveOrder = useCallback(async (orderedIds: string[], updatedAtOverrides: Record<string, string | null> = {}) => {
+    const tasksById = new Map(filteredTasks.map(t => [t.id, t]));
+    setOptimisticTaskIds(orderedIds);
+    const { conflict, error } = await taskOrder.reorder(
+      orderedIds.map(id => ({ id, updated_at: id in updatedAtOverrides ? updatedAtOverrides[id] : tasksById.get(id)?.updated_at }))
+    );
+    setOptimisticTaskIds(null);
+    if (conflict) {
+      toast({
+        title: "Kolejność zmieniona przez kogoś innego",
+        description: "Zadania zostały w międzyczasie zmienione. Lista została odświeżona — ustaw kolejność ponownie.",
+        variant: "destructive",
+      });
+    } else if (error) {
+      toast({
+        title: "Błąd",
+        description: `Nie udało się zapisać kolejności: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  }, [filteredTasks, taskOrder, toast]);
+
   const handleFlatDragEnd = useCallback(async (event: DragEndEvent) => {
     const { active, over } = event;
     if (!over || active.id === over.id) return;
@@ -533,11 +678,9 @@ export default function Tasks({
     const newIndex = ids.indexOf(over.id as string);
     if (oldIndex === -1 || newIndex === -1) return;
     const newIds = arrayMove(ids, oldIndex, newIndex);
-    setOptimisticTaskIds(newIds);
-    await taskOrder.reorder(newIds);
-    setOptimisticTaskIds(null);
+    await saveOrder(newIds);
     onRefresh();
-  }, [displayTasks, taskOrder, onRefresh]);
+  }, [displayTasks, saveOrder, onRefresh]);
 
   const handleGroupedDragEnd = useCallback(async (event: DragEndEvent) => {
     const { active, over } = event;
@@ -562,11 +705,39 @@ export default function Tasks({
         newAllIds.push(id);
       }
     }
-    setOptimisticTaskIds(newAllIds);
-    await taskOrder.reorder(newAllIds);
-    setOptimisticTaskIds(null);
+    await saveOrder(newAllIds);
     onRefresh();
-  }, [groupedTasks, displayTasks, taskOrder, onRefresh]);
+  }, [groupedTasks, displayTasks, saveOrder, onRefresh]);
+
+  // A card moved on the assignment board: reassign first when it changed columns,
+  // then save the day's order with the task's fresh updated_at.
+  const handleBoardMove = useCallback(async (move: BoardMove) => {
+    const overrides: Record<string, string | null> = {};
+    if (move.reassigned) {
+      const assigned = await onAssignTask?.(move.taskId, move.staffId);
+      if (!assigned) {
+        onRefresh();
+        return;
+      }
+      overrides[move.taskId] = assigned.updatedAt;
+    }
+    const newAllIds = boardDayOrder(displayTasks.map(t => t.id), move.taskId, move.targetOldIds, move.targetNewIds);
+    await saveOrder(newAllIds, overrides);
+    onRefresh();
+  }, [onAssignTask, displayTasks, saveOrder, onRefresh]);
+
+  // Saves the suggested sequence for one housekeeper in place of their current block
+  const handleApplySuggestedOrder = useCallback(async () => {
+    if (!orderSuggestion) return;
+    const groupIds = orderSuggestion.tasks.map(t => t.id);
+    const newGroupIds = suggestTaskOrder(orderSuggestion.tasks).map(t => t.id);
+    const newAllIds = spliceGroupOrder(displayTasks.map(t => t.id), groupIds, newGroupIds);
+    setIsSavingOrder(true);
+    await saveOrder(newAllIds);
+    setIsSavingOrder(false);
+    setOrderSuggestion(null);
+    onRefresh();
+  }, [orderSuggestion, displayTasks, saveOrder, onRefresh]);
 
   const handleDayGroupDragEnd = useCallback(async (event: DragEndEvent) => {
     const { active, over } = event;
@@ -591,11 +762,9 @@ export default function Tasks({
         newAllIds.push(id);
       }
     }
-    setOptimisticTaskIds(newAllIds);
-    await taskOrder.reorder(newAllIds);
-    setOptimisticTaskIds(null);
+    await saveOrder(newAllIds);
     onRefresh();
-  }, [dayGroupedTasks, displayTasks, taskOrder, onRefresh]);
+  }, [dayGroupedTasks, displayTasks, saveOrder, onRefresh]);
 
   // Calculate totals based on the filtered tasks
   const taskTotals = useMemo(() => {
@@ -631,9 +800,18 @@ export default function Tasks({
     };
   }, [filteredTasks]);
 
-  const tableHeaders = (withDragCol: boolean) => (
+  const tableHeaders = (withDragCol: boolean, taskList: Task[]) => (
     <TableHeader>
       <TableRow className="bg-muted/50 sticky top-0 z-10">
+        {onBulkAction && (
+          <TableHead className="w-8">
+            <Checkbox
+              checked={selectionState(taskList)}
+              onCheckedChange={(checked) => handleSelectMany(taskList, checked === true)}
+              aria-label="Zaznacz wszystkie"
+            />
+          </TableHead>
+        )}
         {withDragCol && <TableHead className="w-8" />}
         <TableHead className="font-semibold w-[100px]">Status</TableHead>
         <TableHead className="font-semibold text-center w-[100px]">Pokój</TableHead>
@@ -652,18 +830,29 @@ export default function Tasks({
     </TableHeader>
   );
 
-  const commonRowProps = { staff: allStaff, onViewDetails: handleViewDetails, onDeleteTask: handleDelete, isDeleting: isDeletingTask, onToggleReadyToClean };
+  const commonRowProps = { staff: allStaff, onViewDetails: handleViewDetails, onDeleteTask: handleDelete, isDeleting: isDeletingTask, onToggleReadyToClean, onScheduleReadyToClean, onScheduleRetry };
+
+  const overrunByTaskId = useMemo(
+    () => new Map(overrunAlerts.map(alert => [alert.taskId, alert])),
+    [overrunAlerts]
+  );
 
   // Per-task because only the row being toggled should show a pending state
   const rowProps = (task: Task) => ({
     ...commonRowProps,
     isTogglingReadyToClean: updatingReadyToCleanTaskId === task.id,
+    isSchedulingRetry: schedulingRetryTaskId === task.id,
+    overrun: overrunByTaskId.get(task.id) ?? null,
+    ...(onBulkAction && {
+      isSelected: selectedTaskIds.has(task.id),
+      onSelectChange: handleSelectTask,
+    }),
   });
 
   const renderFlatTable = (taskList: Task[], draggable: boolean) => (
     <div className="overflow-x-auto max-h-[calc(8*3.5rem)] overflow-y-auto">
       <Table>
-        {tableHeaders(draggable)}
+        {tableHeaders(draggable, taskList)}
         <TableBody>
           {draggable ? (
             <SortableContext items={taskList.map(t => t.id)} strategy={verticalListSortingStrategy}>
@@ -683,23 +872,36 @@ export default function Tasks({
         const isCollapsed = collapsedGroups.has(key);
         return (
           <div key={key} className="border rounded-lg overflow-hidden">
-            <button
-              className="w-full flex items-center justify-between px-4 py-2 bg-muted/40 hover:bg-muted/70 transition-colors text-sm font-medium"
-              onClick={() => toggleGroupCollapsed(key)}
-            >
-              <div className="flex items-center gap-2">
-                <Users className="h-4 w-4 text-muted-foreground" />
-                <span>{group.staffName}</span>
-                <span className="text-xs text-muted-foreground font-normal">({group.tasks.length})</span>
-              </div>
-              <span className="text-muted-foreground text-xs">{isCollapsed ? '▶' : '▼'}</span>
-            </button>
+            <div className="flex items-center bg-muted/40">
+              <button
+                className="flex-1 flex items-center justify-between px-4 py-2 hover:bg-muted/70 transition-colors text-sm font-medium"
+                onClick={() => toggleGroupCollapsed(key)}
+              >
+                <div className="flex items-center gap-2">
+                  <Users className="h-4 w-4 text-muted-foreground" />
+                  <span>{group.staffName}</span>
+                  <span className="text-xs text-muted-foreground font-normal">({group.tasks.length})</span>
+                </div>
+                <span className="text-muted-foreground text-xs">{isCollapsed ? '▶' : '▼'}</span>
+              </button>
+              {draggable && group.staffId && group.tasks.length > 1 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 mx-1 text-xs"
+                  onClick={() => setOrderSuggestion({ staffName: group.staffName, tasks: group.tasks })}
+                >
+                  <Route className="h-3.5 w-3.5 mr-1" />
+                  Zaproponuj kolejność
+                </Button>
+              )}
+            </div>
             {!isCollapsed && (
               draggable ? (
                 <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleGroupedDragEnd}>
                   <div className="overflow-x-auto">
                     <Table>
-                      {tableHeaders(true)}
+                      {tableHeaders(true, group.tasks)}
                       <TableBody>
                         <SortableContext items={group.tasks.map(t => t.id)} strategy={verticalListSortingStrategy}>
                           {group.tasks.map(task => <SortableTaskRow key={task.id} task={task} {...rowProps(task)} />)}
@@ -711,7 +913,7 @@ export default function Tasks({
               ) : (
                 <div className="overflow-x-auto">
                   <Table>
-                    {tableHeaders(false)}
+                    {tableHeaders(false, group.tasks)}
                     <TableBody>
                       {group.tasks.map(task => <TaskTableRow key={task.id} task={task} {...rowProps(task)} />)}
                     </TableBody>
@@ -757,7 +959,7 @@ export default function Tasks({
                 <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDayGroupDragEnd}>
                   <div className="overflow-x-auto">
                     <Table>
-                      {tableHeaders(true)}
+                      {tableHeaders(true, group.tasks)}
                       <TableBody>
                         <SortableContext items={group.tasks.map(t => t.id)} strategy={verticalListSortingStrategy}>
                           {group.tasks.map(task => <SortableTaskRow key={task.id} task={task} {...rowProps(task)} />)}
@@ -769,7 +971,7 @@ export default function Tasks({
               ) : (
                 <div className="overflow-x-auto">
                   <Table>
-                    {tableHeaders(false)}
+                    {tableHeaders(false, group.tasks)}
                     <TableBody>
                       {group.tasks.map(task => <TaskTableRow key={task.id} task={task} {...rowProps(task)} />)}
                     </TableBody>
@@ -806,7 +1008,7 @@ export default function Tasks({
               ) : (
                 <div className="overflow-x-auto">
                   <Table>
-                    {tableHeaders(false)}
+                    {tableHeaders(false, tasks)}
                     <TableBody>
                       {tasks.map(task => <TaskTableRow key={task.id} task={task} {...rowProps(task)} />)}
                     </TableBody>
@@ -836,7 +1038,7 @@ export default function Tasks({
     ) : taskList.length === 0 ? renderEmpty(emptyMessage) : renderFlatTable(taskList, false)
   );
 
-  const viewToggle = (groupIcon: JSX.Element, showStatusButton?: boolean) => (
+  const viewToggle = (groupIcon: JSX.Element, showStatusButton?: boolean, showWeekButton?: boolean) => (
     <div className="flex items-center gap-2 ml-auto">
       <span className="text-sm text-muted-foreground">Widok:</span>
       <div className="flex rounded-md border overflow-hidden">
@@ -851,6 +1053,21 @@ export default function Tasks({
             <Tag className="h-4 w-4" />
           </Button>
         )}
+        {showStatusButton && onAssignTask && (
+          <Button variant={viewMode === 'board' ? 'default' : 'ghost'} size="sm" className="rounded-none h-8 px-2 border-l" onClick={() => setViewMode('board')} aria-label="Tablica przydziałów">
+            <Columns3 className="h-4 w-4" />
+          </Button>
+        )}
+        {showStatusButton && (
+          <Button variant={viewMode === 'timeline' ? 'default' : 'ghost'} size="sm" className="rounded-none h-8 px-2 border-l" onClick={() => setViewMode('timeline')} aria-label="Oś czasu">
+            <ChartGantt className="h-4 w-4" />
+          </Button>
+        )}
+        {showWeekButton && onMoveTask && (
+          <Button variant={viewMode === 'week' ? 'default' : 'ghost'} size="sm" className="rounded-none h-8 px-2 border-l" onClick={() => setViewMode('week')} aria-label="Kalendarz tygodnia">
+            <CalendarRange className="h-4 w-4" />
+          </Button>
+        )}
       </div>
     </div>
   );
@@ -878,9 +1095,10 @@ export default function Tasks({
           <BatchTaskWizard
             availableRooms={availableRooms}
             allStaff={allStaff}
-            onSubmit={onAddTask}
+            onSubmit={task => onAddTask(task, 'batch_wizard')}
             isSubmitting={isSubmittingTask}
           />
+          <CopyDayPlanDialog allStaff={allStaff} onCopied={onRefresh} />
         </div>
       </div>
 
@@ -920,6 +1138,7 @@ export default function Tasks({
                 lockedDate={todayDate}
                 availableStatusValues={validStatuses}
                 showUnassigned={hasUnassigned}
+                {...presetProps}
               />
               {isFilterActive && (
                 <p className="mt-2 text-xs text-muted-foreground">Wyczyść filtry, aby zmienić kolejność zadań.</p>
@@ -932,6 +1151,7 @@ export default function Tasks({
               <CardTitle>Zadania dzisiaj ({displayTasks.length} zadań)</CardTitle>
             </CardHeader>
             <CardContent className="p-0">
+              {bulkActionBar}
               {loading && !refreshing ? (
                 <div className="flex items-center justify-center py-12">
                   <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
@@ -941,6 +1161,21 @@ export default function Tasks({
                 renderGroupedView(displayTasks, groupedTasks, canDragToday)
               ) : viewMode === 'status' && statusGroupedTasks ? (
                 renderStatusGroupedView(statusGroupedTasks)
+              ) : viewMode === 'timeline' ? (
+                <DayTimeline
+                  tasks={displayTasks}
+                  staff={housekeepingStaff}
+                  workLogs={workLogs}
+                  onSelectTask={handleViewDetails}
+                />
+              ) : viewMode === 'board' && onAssignTask ? (
+                <AssignmentBoard
+                  tasks={displayTasks}
+                  staff={housekeepingStaff}
+                  canDrag={!isFilterActive}
+                  onMove={handleBoardMove}
+                  onViewDetails={handleViewDetails}
+                />
               ) : (
                 <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={canDragToday ? handleFlatDragEnd : () => {}}>
                   {renderFlatTable(displayTasks, canDragToday)}
@@ -955,7 +1190,7 @@ export default function Tasks({
             <CardHeader className="py-4">
               <div className="flex items-center gap-4">
                 <CardTitle className="text-lg">Filtry</CardTitle>
-                {viewToggle(<CalendarDays className="h-4 w-4" />)}
+                {viewToggle(<CalendarDays className="h-4 w-4" />, false, true)}
               </div>
             </CardHeader>
             <CardContent className="pt-0 pb-4">
@@ -978,6 +1213,7 @@ export default function Tasks({
                 allowPastDates={false}
                 availableStatusValues={validStatuses}
                 showUnassigned={hasUnassigned}
+                {...presetProps}
               />
             </CardContent>
           </Card>
@@ -985,13 +1221,30 @@ export default function Tasks({
           <Card>
             <CardHeader>
               <CardTitle>
-                {filters.date
+                {viewMode === 'week' && onMoveTask
+                  ? "Kalendarz tygodnia"
+                  : filters.date
                   ? `Zadania otwarte dla ${getDisplayDate(filters.date)} (${filteredTasks.length} zadań)`
                   : `Zadania otwarte — przyszłe daty (${filteredTasks.length} zadań)`}
               </CardTitle>
             </CardHeader>
             <CardContent className="p-0">
-              {loading && !refreshing ? (
+              {bulkActionBar}
+              {viewMode === 'week' && onMoveTask ? (
+                <WeekCalendar
+                  tasks={tasks}
+                  availableRooms={availableRooms}
+                  allStaff={allStaff}
+                  filter={filters}
+                  initialDate={filters.date}
+                  today={todayDate}
+                  initialNewTaskState={initialNewTaskState}
+                  onAddTask={onAddTask}
+                  isSubmittingTask={isSubmittingTask}
+                  onMoveTask={onMoveTask}
+                  onViewDetails={handleViewDetails}
+                />
+              ) : loading && !refreshing ? (
                 <div className="flex items-center justify-center py-12">
                   <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
                   <span className="ml-2">Ładowanie zadań...</span>
@@ -1034,6 +1287,7 @@ export default function Tasks({
                 showDateRange={true}
                 availableStatusValues={validStatuses}
                 showUnassigned={hasUnassigned}
+                {...presetProps}
                 dateRangeFrom={dateRangeFrom}
                 dateRangeTo={dateRangeTo}
                 onDateRangeChange={(from, to) => {
@@ -1066,6 +1320,7 @@ export default function Tasks({
               </Button>
             </CardHeader>
             <CardContent className="p-0">
+              {bulkActionBar}
               {renderTaskTable(
                 filteredTasks,
                 dateRangeFrom != null || dateRangeTo != null
@@ -1077,6 +1332,18 @@ export default function Tasks({
         </TabsContent>
       </Tabs>
 
+      {orderSuggestion && (
+        <SuggestedOrderDialog
+          open
+          onOpenChange={(open) => { if (!open && !isSavingOrder) setOrderSuggestion(null); }}
+          staffName={orderSuggestion.staffName}
+          currentTasks={orderSuggestion.tasks}
+          suggestedTasks={suggestTaskOrder(orderSuggestion.tasks)}
+          onConfirm={handleApplySuggestedOrder}
+          isSaving={isSavingOrder}
+        />
+      )}
+
       {/* Task Detail Dialog */}
       <TaskDetailDialog
         task={selectedTaskForDetail}
@@ -1086,6 +1353,8 @@ export default function Tasks({
         onOpenChange={setIsDetailDialogOpen}
         onUpdate={onUpdateTask}
         isUpdating={isUpdatingTask}
+        onHandover={onHandoverTask}
+        isHandingOver={isHandingOverTask}
       />
 
       {/* Render the TaskSummaryFooter */}
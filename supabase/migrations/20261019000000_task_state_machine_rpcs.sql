@@ -0,0 +1,209 @@
+-- Task timing state machine: start, pause, resume and finish run on the server.
+-- Each function locks the task row, checks the status transition is allowed and
+-- computes the timings with the database clock, so a wrong phone clock or two
+-- open tabs can no longer corrupt start/stop times or pause totals.
+--
+-- p_at is only passed when replaying an action queued offline on the device. It
+-- is clamped to the database clock and to the task's previous transition, so it
+-- can move a timestamp back to when the tap happened but never into the future
+-- or before the step it follows.
+--
+-- Invalid transitions raise SQLSTATE 55000 (object_not_in_prerequisite_state).
+--
+-- The functions are SECURITY DEFINER, so row level security does not apply to
+-- them: they check the caller themselves, and EXECUTE is revoked from PUBLIC and
+-- anon so the anon key cannot reach them at all.
+
+-- True for the service role (admin client) and for jobs the database runs itself
+-- (pg_cron, the SQL editor); never for a request made with the anon or a user key.
+CREATE OR REPLACE FUNCTION public.is_server_caller()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(auth.role(), '') = 'service_role' OR session_user = 'postgres';
+$$;
+
+CREATE OR REPLACE FUNCTION public.lock_task_for_transition(p_task_id uuid)
+RETURNS public.tasks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task public.tasks;
+BEGIN
+  SELECT * INTO v_task FROM public.tasks WHERE id = p_task_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task % not found', p_task_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Mirrors the "Users can update relevant tasks" policy, which SECURITY DEFINER bypasses.
+  -- A caller without a user id is refused unless it is the service role or a database job.
+  IF NOT public.is_server_caller() AND NOT (
+    public.has_role(auth.uid(), 'admin'::app_role) OR
+    public.has_role(auth.uid(), 'manager'::app_role) OR
+    public.has_role(auth.uid(), 'reception'::app_role) OR
+    (public.has_role(auth.uid(), 'housekeeping'::app_role) AND v_task.user_id IN (
+      SELECT id FROM public.users WHERE auth_id = auth.uid()
+    ))
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to change this task' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN v_task;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.task_start(p_task_id uuid, p_at timestamptz DEFAULT NULL)
+RETURNS public.tasks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task public.tasks;
+  v_at timestamptz := LEAST(COALESCE(p_at, now()), now());
+BEGIN
+  v_task := public.lock_task_for_transition(p_task_id);
+
+  IF v_task.status NOT IN ('todo', 'repair_needed') THEN
+    RAISE EXCEPTION 'Cannot start a task with status %', v_task.status USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  UPDATE public.tasks
+  SET status = 'in_progress',
+      start_time = v_at,
+      pause_start = NULL,
+      pause_stop = NULL,
+      stop_time = NULL,
+      total_pause = 0,
+      actual_time = NULL,
+      difference = NULL
+  WHERE id = p_task_id
+  RETURNING * INTO v_task;
+
+  RETURN v_task;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.task_pause(p_task_id uuid, p_at timestamptz DEFAULT NULL)
+RETURNS public.tasks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task public.tasks;
+  v_at timestamptz;
+BEGIN
+  v_task := public.lock_task_for_transition(p_task_id);
+
+  IF v_task.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Cannot pause a task with status %', v_task.status USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  v_at := GREATEST(LEAST(COALESCE(p_at, now()), now()), v_task.start_time, v_task.pause_stop);
+
+  UPDATE public.tasks
+  SET status = 'paused',
+      pause_start = v_at
+  WHERE id = p_task_id
+  RETURNING * INTO v_task;
+
+  RETURN v_task;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.task_resume(p_task_id uuid, p_at timestamptz DEFAULT NULL)
+RETURNS public.tasks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task public.tasks;
+  v_at timestamptz;
+BEGIN
+  v_task := public.lock_task_for_transition(p_task_id);
+
+  IF v_task.status <> 'paused' OR v_task.pause_start IS NULL THEN
+    RAISE EXCEPTION 'Cannot resume a task with status %', v_task.status USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  v_at := GREATEST(LEAST(COALESCE(p_at, now()), now()), v_task.pause_start);
+
+  UPDATE public.tasks
+  SET status = 'in_progress',
+      total_pause = COALESCE(total_pause, 0) + (EXTRACT(EPOCH FROM (v_at - v_task.pause_start))::integer / 60),
+      pause_start = NULL,
+      pause_stop = v_at
+  WHERE id = p_task_id
+  RETURNING * INTO v_task;
+
+  RETURN v_task;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.task_finish(p_task_id uuid, p_at timestamptz DEFAULT NULL)
+RETURNS public.tasks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task public.tasks;
+  v_at timestamptz;
+  v_total_pause integer;
+  v_pause_stop timestamptz;
+  v_actual integer;
+BEGIN
+  v_task := public.lock_task_for_transition(p_task_id);
+
+  IF v_task.status NOT IN ('in_progress', 'paused') OR v_task.start_time IS NULL THEN
+    RAISE EXCEPTION 'Cannot finish a task with status %', v_task.status USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  v_at := GREATEST(LEAST(COALESCE(p_at, now()), now()), v_task.start_time, v_task.pause_start, v_task.pause_stop);
+  v_total_pause := COALESCE(v_task.total_pause, 0);
+  v_pause_stop := v_task.pause_stop;
+
+  IF v_task.status = 'paused' AND v_task.pause_start IS NOT NULL THEN
+    v_total_pause := v_total_pause + EXTRACT(EPOCH FROM (v_at - v_task.pause_start))::integer / 60;
+    v_pause_stop := v_at;
+  END IF;
+
+  v_actual := GREATEST(0, EXTRACT(EPOCH FROM (v_at - v_task.start_time))::integer / 60 - v_total_pause);
+
+  -- calculate_task_times recomputes the same values from stop_time; setting them
+  -- here keeps the result independent of that trigger.
+  UPDATE public.tasks
+  SET status = 'done',
+      stop_time = v_at,
+      pause_start = NULL,
+      pause_stop = v_pause_stop,
+      total_pause = v_total_pause,
+      actual_time = v_actual,
+      difference = CASE WHEN time_limit IS NOT NULL THEN v_actual - time_limit END
+  WHERE id = p_task_id
+  RETURNING * INTO v_task;
+
+  RETURN v_task;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_server_caller() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.lock_task_for_transition(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.task_start(uuid, timestamptz) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.task_pause(uuid, timestamptz) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.task_resume(uuid, timestamptz) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.task_finish(uuid, timestamptz) FROM PUBLIC, anon;
+
+-- task_update_details runs as the caller and takes the same lock
+GRANT EXECUTE ON FUNCTION public.lock_task_for_transition(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.task_start(uuid, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.task_pause(uuid, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.task_resume(uuid, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.task_finish(uuid, timestamptz) TO authenticated;
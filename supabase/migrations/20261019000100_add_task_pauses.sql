@@ -0,0 +1,116 @@
+-- Pause history: one row per pause interval, with the reason the housekeeper gave.
+-- tasks keeps pause_start/pause_stop/total_pause for the running timer; this table
+-- keeps how many pauses there were and why, after the task is done.
+
+DO $$ BEGIN
+  CREATE TYPE public.pause_reason AS ENUM ('guest_in_room', 'waiting_for_linen', 'break', 'called_elsewhere');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.task_pauses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  -- NULL for pauses recorded by clients that did not ask for a reason yet
+  reason public.pause_reason,
+  started_at timestamptz NOT NULL,
+  ended_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS task_pauses_task_id_idx ON public.task_pauses (task_id);
+CREATE INDEX IF NOT EXISTS task_pauses_started_at_idx ON public.task_pauses (started_at);
+
+ALTER TABLE public.task_pauses ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written only by task_pause and the close trigger below (both SECURITY DEFINER).
+DROP POLICY IF EXISTS "Users can view relevant task pauses" ON public.task_pauses;
+CREATE POLICY "Users can view relevant task pauses"
+ON public.task_pauses FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'admin'::app_role) OR
+  public.has_role(auth.uid(), 'manager'::app_role) OR
+  public.has_role(auth.uid(), 'reception'::app_role) OR
+  (public.has_role(auth.uid(), 'housekeeping'::app_role) AND task_id IN (
+    SELECT t.id FROM public.tasks t
+    JOIN public.users u ON u.id = t.user_id
+    WHERE u.auth_id = auth.uid()
+  ))
+);
+
+-- task_pause gains a reason; drop the old signature so it is not left as an overload.
+DROP FUNCTION IF EXISTS public.task_pause(uuid, timestamptz);
+
+CREATE OR REPLACE FUNCTION public.task_pause(
+  p_task_id uuid,
+  p_at timestamptz DEFAULT NULL,
+  p_reason public.pause_reason DEFAULT NULL
+)
+RETURNS public.tasks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task public.tasks;
+  v_at timestamptz;
+BEGIN
+  v_task := public.lock_task_for_transition(p_task_id);
+
+  IF v_task.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Cannot pause a task with status %', v_task.status USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  v_at := GREATEST(LEAST(COALESCE(p_at, now()), now()), v_task.start_time, v_task.pause_stop);
+
+  UPDATE public.tasks
+  SET status = 'paused',
+      pause_start = v_at
+  WHERE id = p_task_id
+  RETURNING * INTO v_task;
+
+  INSERT INTO public.task_pauses (task_id, user_id, reason, started_at)
+  VALUES (p_task_id, v_task.user_id, p_reason, v_at);
+
+  RETURN v_task;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.task_pause(uuid, timestamptz, public.pause_reason) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.task_pause(uuid, timestamptz, public.pause_reason) TO authenticated;
+
+-- Leaving 'paused' (resume, finish, or a direct status change by reception) closes the
+-- open pause. task_resume and task_finish set pause_stop to the end of the pause; for
+-- any other change pause_stop still holds an older pause, so the current time is used.
+CREATE OR REPLACE FUNCTION public.close_open_task_pause()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'paused' AND NEW.status <> 'paused' THEN
+    UPDATE public.task_pauses
+    SET ended_at = CASE
+      WHEN NEW.pause_stop IS DISTINCT FROM OLD.pause_stop AND NEW.pause_stop IS NOT NULL THEN NEW.pause_stop
+      ELSE now()
+    END
+    WHERE task_id = NEW.id AND ended_at IS NULL;
+  END IF;
+
+  -- A restart resets total_pause, so the earlier run's pauses no longer add up to it.
+  IF NEW.start_time IS DISTINCT FROM OLD.start_time AND NEW.status = 'in_progress' AND OLD.status IN ('todo', 'repair_needed') THEN
+    DELETE FROM public.task_pauses WHERE task_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS close_open_task_pause ON public.tasks;
+
+CREATE TRIGGER close_open_task_pause
+  AFTER UPDATE ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.close_open_task_pause();
@@ -0,0 +1,118 @@
+-- Supervisor inspection of Completed Tasks. Inspection is optional: a done task
+-- stays done whether or not anyone inspects it. A manager or admin scores the room
+-- against a checklist and either passes it or sends it back to the same housekeeper,
+-- which reopens the task with the inspector's comments in reception_notes.
+
+DO $$ BEGIN
+  CREATE TYPE public.inspection_result AS ENUM ('passed', 'failed');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.task_inspections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  inspector_id uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  -- Housekeeper assigned when the room was inspected; kept for pass/fail rates
+  housekeeper_id uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  result public.inspection_result NOT NULL,
+  -- [{ "item": "Łazienka czysta", "ok": true }, ...]
+  checklist jsonb NOT NULL DEFAULT '[]'::jsonb,
+  score integer CHECK (score BETWEEN 0 AND 100),
+  comments text,
+  -- Timing of the attempt that was inspected; a reopened task resets its own timings
+  actual_time integer,
+  inspected_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS task_inspections_task_id_idx ON public.task_inspections (task_id);
+CREATE INDEX IF NOT EXISTS task_inspections_housekeeper_id_idx ON public.task_inspections (housekeeper_id);
+
+ALTER TABLE public.task_inspections ENABLE ROW LEVEL SECURITY;
+
+-- Housekeepers can read inspections of their own tasks to see why a room came back.
+DROP POLICY IF EXISTS "Users can view relevant task inspections" ON public.task_inspections;
+CREATE POLICY "Users can view relevant task inspections"
+ON public.task_inspections FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'admin'::app_role) OR
+  public.has_role(auth.uid(), 'manager'::app_role) OR
+  public.has_role(auth.uid(), 'reception'::app_role) OR
+  (public.has_role(auth.uid(), 'housekeeping'::app_role) AND housekeeper_id IN (
+    SELECT id FROM public.users WHERE auth_id = auth.uid()
+  ))
+);
+
+-- Rows are written only by inspect_task.
+CREATE OR REPLACE FUNCTION public.inspect_task(
+  p_task_id uuid,
+  p_passed boolean,
+  p_checklist jsonb DEFAULT '[]'::jsonb,
+  p_score integer DEFAULT NULL,
+  p_comments text DEFAULT NULL
+)
+RETURNS public.task_inspections
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task public.tasks;
+  v_inspector_id uuid;
+  v_inspection public.task_inspections;
+BEGIN
+  -- SECURITY DEFINER bypasses row level security, so the caller is checked here
+  IF NOT public.is_server_caller() AND NOT (
+    public.has_role(auth.uid(), 'admin'::app_role) OR
+    public.has_role(auth.uid(), 'manager'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Only admin and manager can inspect tasks' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_task FROM public.tasks WHERE id = p_task_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task % not found', p_task_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_task.status <> 'done' THEN
+    RAISE EXCEPTION 'Only completed tasks can be inspected' USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  IF NOT p_passed AND COALESCE(btrim(p_comments), '') = '' THEN
+    RAISE EXCEPTION 'A failed inspection needs comments for the housekeeper' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT id INTO v_inspector_id FROM public.users WHERE auth_id = auth.uid();
+
+  INSERT INTO public.task_inspections (
+    task_id, inspector_id, housekeeper_id, result, checklist, score, comments, actual_time
+  )
+  VALUES (
+    p_task_id, v_inspector_id, v_task.user_id,
+    CASE WHEN p_passed THEN 'passed'::public.inspection_result ELSE 'failed'::public.inspection_result END,
+    COALESCE(p_checklist, '[]'::jsonb), p_score, NULLIF(btrim(p_comments), ''), v_task.actual_time
+  )
+  RETURNING * INTO v_inspection;
+
+  -- Send the room back: same housekeeper, open again, comments where they will see them.
+  IF NOT p_passed THEN
+    UPDATE public.tasks
+    SET status = 'todo',
+        start_time = NULL,
+        stop_time = NULL,
+        pause_start = NULL,
+        pause_stop = NULL,
+        total_pause = 0,
+        actual_time = NULL,
+        difference = NULL,
+        reception_notes = concat_ws(E'\n', NULLIF(reception_notes, ''), 'Kontrola: ' || btrim(p_comments))
+    WHERE id = p_task_id;
+  END IF;
+
+  RETURN v_inspection;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.inspect_task(uuid, boolean, jsonb, integer, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.inspect_task(uuid, boolean, jsonb, integer, text) TO authenticated;
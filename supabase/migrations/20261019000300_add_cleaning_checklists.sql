@@ -0,0 +1,144 @@
+-- Cleaning checklists: an ordered list of steps per cleaning type (W, P, T, O, G, S),
+-- optionally narrowed to a room group. When a group has its own list for a cleaning
+-- type it replaces the general one; otherwise the general list (room_group NULL) applies.
+--
+-- Each task carries a copy of its checklist in tasks.checklist, taken when the task is
+-- created, so editing the templates does not change tasks already in progress and the
+-- ticked list stays with the task for reception to see:
+--   [{ "id": "<template item id>", "label": "Zmiana pościeli", "required": true, "done": false }, ...]
+
+CREATE TABLE IF NOT EXISTS public.cleaning_checklist_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  cleaning_type public.cleaning_type NOT NULL,
+  -- NULL: applies to every room group without a list of its own
+  room_group public.room_group,
+  label text NOT NULL CHECK (btrim(label) <> ''),
+  position integer NOT NULL DEFAULT 0,
+  required boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS cleaning_checklist_items_type_group_idx
+  ON public.cleaning_checklist_items (cleaning_type, room_group, position);
+
+ALTER TABLE public.cleaning_checklist_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view checklist items" ON public.cleaning_checklist_items;
+CREATE POLICY "Authenticated users can view checklist items"
+ON public.cleaning_checklist_items FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Admin can manage checklist items" ON public.cleaning_checklist_items;
+CREATE POLICY "Admin can manage checklist items"
+ON public.cleaning_checklist_items FOR ALL
+USING (public.has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (public.has_role(auth.uid(), 'admin'::app_role));
+
+ALTER TABLE public.tasks ADD COLUMN IF NOT EXISTS checklist jsonb;
+
+-- The checklist a new task of this cleaning type and room group starts with, or NULL.
+CREATE OR REPLACE FUNCTION public.build_task_checklist(
+  p_cleaning_type public.cleaning_type,
+  p_room_group public.room_group
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_agg(
+    jsonb_build_object('id', i.id, 'label', i.label, 'required', i.required, 'done', false)
+    ORDER BY i.position, i.created_at
+  )
+  FROM public.cleaning_checklist_items i
+  WHERE i.cleaning_type = p_cleaning_type
+    AND i.room_group IS NOT DISTINCT FROM (
+      CASE WHEN EXISTS (
+        SELECT 1 FROM public.cleaning_checklist_items g
+        WHERE g.cleaning_type = p_cleaning_type AND g.room_group = p_room_group
+      ) THEN p_room_group END
+    );
+$$;
+
+-- Fills tasks.checklist on insert, and again when reception changes the room or
+-- cleaning type before anything has been ticked.
+CREATE OR REPLACE FUNCTION public.populate_task_checklist()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room_group public.room_group;
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.checklist IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (
+    (NEW.cleaning_type IS NOT DISTINCT FROM OLD.cleaning_type AND NEW.room_id IS NOT DISTINCT FROM OLD.room_id)
+    OR EXISTS (SELECT 1 FROM jsonb_array_elements(COALESCE(OLD.checklist, '[]'::jsonb)) e WHERE (e->>'done')::boolean)
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT group_type INTO v_room_group FROM public.rooms WHERE id = NEW.room_id;
+  NEW.checklist := public.build_task_checklist(NEW.cleaning_type, v_room_group);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS populate_task_checklist ON public.tasks;
+
+CREATE TRIGGER populate_task_checklist
+  BEFORE INSERT OR UPDATE OF cleaning_type, room_id ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.populate_task_checklist();
+
+-- Ticks or unticks one item. Done server-side so quick taps on two items cannot
+-- overwrite each other with a stale copy of the list.
+CREATE OR REPLACE FUNCTION public.set_task_checklist_item(
+  p_task_id uuid,
+  p_item_id text,
+  p_done boolean
+)
+RETURNS public.tasks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task public.tasks;
+BEGIN
+  v_task := public.lock_task_for_transition(p_task_id);
+
+  IF v_task.status NOT IN ('in_progress', 'paused') THEN
+    RAISE EXCEPTION 'Checklist can only be ticked during the task, status is %', v_task.status USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(v_task.checklist, '[]'::jsonb)) e WHERE e->>'id' = p_item_id
+  ) THEN
+    RAISE EXCEPTION 'Checklist item % not found on task %', p_item_id, p_task_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  UPDATE public.tasks
+  SET checklist = (
+    SELECT jsonb_agg(
+      CASE WHEN e->>'id' = p_item_id THEN jsonb_set(e, '{done}', to_jsonb(p_done)) ELSE e END
+      ORDER BY ord
+    )
+    FROM jsonb_array_elements(v_task.checklist) WITH ORDINALITY AS x(e, ord)
+  )
+  WHERE id = p_task_id
+  RETURNING * INTO v_task;
+
+  RETURN v_task;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.build_task_checklist(public.cleaning_type, public.room_group) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_task_checklist_item(uuid, text, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.build_task_checklist(public.cleaning_type, public.room_group) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_task_checklist_item(uuid, text, boolean) TO authenticated;
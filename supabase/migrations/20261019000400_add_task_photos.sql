@@ -0,0 +1,102 @@
+-- Photos of the finished work, attached by the housekeeper when stopping a task.
+-- Files live in the task-photos bucket (created with the issue-photos bucket);
+-- task_photos keeps one row per file so the gallery can list them and the files
+-- can be removed from storage when the task is deleted.
+--
+-- A photo can be required per room (rooms.photo_required) or per cleaning type
+-- (cleaning_type_settings.photo_required). task_needs_photo tells the client whether
+-- a task may not be finished yet because its required photo is missing.
+
+CREATE TABLE IF NOT EXISTS public.task_photos (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  uploaded_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  -- Path inside the task-photos bucket
+  storage_path text NOT NULL,
+  photo_url text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS task_photos_task_id_idx ON public.task_photos (task_id);
+
+ALTER TABLE public.task_photos ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view relevant task photos" ON public.task_photos;
+CREATE POLICY "Users can view relevant task photos"
+ON public.task_photos FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'admin'::app_role) OR
+  public.has_role(auth.uid(), 'manager'::app_role) OR
+  public.has_role(auth.uid(), 'reception'::app_role) OR
+  (public.has_role(auth.uid(), 'housekeeping'::app_role) AND task_id IN (
+    SELECT t.id FROM public.tasks t
+    JOIN public.users u ON u.id = t.user_id
+    WHERE u.auth_id = auth.uid()
+  ))
+);
+
+DROP POLICY IF EXISTS "Users can add photos to relevant tasks" ON public.task_photos;
+CREATE POLICY "Users can add photos to relevant tasks"
+ON public.task_photos FOR INSERT
+WITH CHECK (
+  public.has_role(auth.uid(), 'admin'::app_role) OR
+  public.has_role(auth.uid(), 'manager'::app_role) OR
+  public.has_role(auth.uid(), 'reception'::app_role) OR
+  (public.has_role(auth.uid(), 'housekeeping'::app_role) AND task_id IN (
+    SELECT t.id FROM public.tasks t
+    JOIN public.users u ON u.id = t.user_id
+    WHERE u.auth_id = auth.uid()
+  ))
+);
+
+DROP POLICY IF EXISTS "Reception and admin can delete task photo rows" ON public.task_photos;
+CREATE POLICY "Reception and admin can delete task photo rows"
+ON public.task_photos FOR DELETE
+USING (
+  public.has_role(auth.uid(), 'admin'::app_role) OR
+  public.has_role(auth.uid(), 'manager'::app_role) OR
+  public.has_role(auth.uid(), 'reception'::app_role)
+);
+
+ALTER TABLE public.rooms ADD COLUMN IF NOT EXISTS photo_required boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS public.cleaning_type_settings (
+  cleaning_type public.cleaning_type PRIMARY KEY,
+  photo_required boolean NOT NULL DEFAULT false,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.cleaning_type_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view cleaning type settings" ON public.cleaning_type_settings;
+CREATE POLICY "Authenticated users can view cleaning type settings"
+ON public.cleaning_type_settings FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Admin can manage cleaning type settings" ON public.cleaning_type_settings;
+CREATE POLICY "Admin can manage cleaning type settings"
+ON public.cleaning_type_settings FOR ALL
+USING (public.has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (public.has_role(auth.uid(), 'admin'::app_role));
+
+-- True when the task's room or cleaning type requires a photo and none is attached yet.
+CREATE OR REPLACE FUNCTION public.task_needs_photo(p_task_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (
+    COALESCE(r.photo_required, false) OR COALESCE(s.photo_required, false)
+  ) AND NOT EXISTS (
+    SELECT 1 FROM public.task_photos p WHERE p.task_id = t.id
+  )
+  FROM public.tasks t
+  JOIN public.rooms r ON r.id = t.room_id
+  LEFT JOIN public.cleaning_type_settings s ON s.cleaning_type = t.cleaning_type
+  WHERE t.id = p_task_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.task_needs_photo(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.task_needs_photo(uuid) TO authenticated;
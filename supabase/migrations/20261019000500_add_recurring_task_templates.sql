@@ -0,0 +1,159 @@
+-- Recurring task templates for locations that need the same tasks every day
+-- (Pralnia + Magazyn, Przerwa śniadaniowa, Śniadania), so reception no longer
+-- re-enters them by hand.
+--
+-- A template names the location, cleaning type, default assignee, the ISO weekdays
+-- it runs on (1 = Monday … 7 = Sunday) and the dates it is valid for.
+-- generate_recurring_tasks(date) creates that day's tasks. It runs nightly through
+-- pg_cron where the extension is available and again whenever the reception panel
+-- opens, so it is safe to call repeatedly: tasks.recurring_template_id records which
+-- template a task came from and each template produces at most one task per day.
+--
+-- Generated tasks go through prevent_duplicate_open_room_tasks like any other
+-- insert; a template whose room already has an open task that day is skipped.
+
+CREATE TABLE IF NOT EXISTS public.recurring_task_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id uuid NOT NULL REFERENCES public.rooms(id) ON DELETE CASCADE,
+  cleaning_type public.cleaning_type NOT NULL,
+  -- Default assignee; NULL leaves the generated task unassigned
+  user_id uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  guest_count text NOT NULL DEFAULT '1',
+  time_limit integer,
+  reception_notes text,
+  weekdays smallint[] NOT NULL DEFAULT '{1,2,3,4,5,6,7}',
+  valid_from date NOT NULL DEFAULT CURRENT_DATE,
+  valid_until date,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT recurring_task_templates_weekdays_check
+    CHECK (cardinality(weekdays) > 0 AND weekdays <@ '{1,2,3,4,5,6,7}'::smallint[]),
+  CONSTRAINT recurring_task_templates_validity_check
+    CHECK (valid_until IS NULL OR valid_until >= valid_from)
+);
+
+ALTER TABLE public.recurring_task_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view recurring task templates" ON public.recurring_task_templates;
+CREATE POLICY "Staff can view recurring task templates"
+ON public.recurring_task_templates FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'admin'::app_role) OR
+  public.has_role(auth.uid(), 'manager'::app_role) OR
+  public.has_role(auth.uid(), 'reception'::app_role)
+);
+
+DROP POLICY IF EXISTS "Admin and manager can manage recurring task templates" ON public.recurring_task_templates;
+CREATE POLICY "Admin and manager can manage recurring task templates"
+ON public.recurring_task_templates FOR ALL
+USING (
+  public.has_role(auth.uid(), 'admin'::app_role) OR
+  public.has_role(auth.uid(), 'manager'::app_role)
+)
+WITH CHECK (
+  public.has_role(auth.uid(), 'admin'::app_role) OR
+  public.has_role(auth.uid(), 'manager'::app_role)
+);
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS recurring_template_id uuid
+  REFERENCES public.recurring_task_templates(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS tasks_recurring_template_date_key
+  ON public.tasks (recurring_template_id, date)
+  WHERE recurring_template_id IS NOT NULL;
+
+-- Creates the tasks due on p_date and returns how many were added.
+CREATE OR REPLACE FUNCTION public.generate_recurring_tasks(p_date date DEFAULT CURRENT_DATE)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tpl record;
+  next_order integer;
+  created integer := 0;
+BEGIN
+  -- pg_cron runs as the database; signed-in callers must be staff
+  IF NOT public.is_server_caller() AND NOT (
+    public.has_role(auth.uid(), 'admin'::app_role) OR
+    public.has_role(auth.uid(), 'manager'::app_role) OR
+    public.has_role(auth.uid(), 'reception'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to generate recurring tasks' USING ERRCODE = '42501';
+  END IF;
+
+  -- Two panels opening at once must not both insert the same day
+  PERFORM pg_advisory_xact_lock(hashtext('generate_recurring_tasks'), p_date - DATE '2000-01-01');
+
+  FOR tpl IN
+    SELECT t.*
+    FROM public.recurring_task_templates t
+    JOIN public.rooms r ON r.id = t.room_id
+    WHERE t.active
+      AND r.active
+      AND t.valid_from <= p_date
+      AND (t.valid_until IS NULL OR t.valid_until >= p_date)
+      AND EXTRACT(ISODOW FROM p_date)::smallint = ANY (t.weekdays)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.tasks existing
+        WHERE existing.recurring_template_id = t.id AND existing.date = p_date
+      )
+    ORDER BY r.name, t.created_at
+  LOOP
+    -- Multiple-assignment locations are exempt from the room-wide check in
+    -- prevent_duplicate_open_room_tasks, but one person still gets only one open
+    -- task there per day (same rule as adding a task by hand).
+    IF tpl.user_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM public.tasks existing
+      WHERE existing.date = p_date
+        AND existing.room_id = tpl.room_id
+        AND existing.user_id = tpl.user_id
+        AND existing.status <> 'done'
+    ) THEN
+      CONTINUE;
+    END IF;
+
+    -- Today's tasks are manually ordered; append after the last ordered one
+    next_order := NULL;
+    IF p_date = CURRENT_DATE THEN
+      SELECT COALESCE(MAX(display_order), 0) + 1 INTO next_order
+      FROM public.tasks
+      WHERE date = p_date AND display_order IS NOT NULL;
+    END IF;
+
+    BEGIN
+      INSERT INTO public.tasks (
+        date, room_id, cleaning_type, guest_count, time_limit, reception_notes,
+        user_id, status, display_order, recurring_template_id
+      ) VALUES (
+        p_date, tpl.room_id, tpl.cleaning_type, tpl.guest_count, tpl.time_limit, tpl.reception_notes,
+        tpl.user_id, 'todo', next_order, tpl.id
+      );
+      created := created + 1;
+    EXCEPTION WHEN unique_violation THEN
+      -- The room already has an open task that day (prevent_duplicate_open_room_tasks)
+      CONTINUE;
+    END;
+  END LOOP;
+
+  RETURN created;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_recurring_tasks(date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_recurring_tasks(date) TO authenticated;
+
+-- Nightly run shortly after midnight (UTC, the same day boundary the panels use)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'generate-recurring-tasks',
+      '5 0 * * *',
+      'SELECT public.generate_recurring_tasks(CURRENT_DATE)'
+    );
+  END IF;
+END $$;
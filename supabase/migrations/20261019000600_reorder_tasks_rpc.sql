@@ -0,0 +1,62 @@
+-- Saving a new task order used to send one UPDATE per task. A failure part way
+-- left display_order half-applied, and two receptionists dragging at the same
+-- time silently overwrote each other. reorder_tasks applies the whole order in
+-- one transaction and refuses it when any task changed after the caller loaded it.
+
+-- p_task_ids is the full order (position 1 first); p_loaded_updated_at holds the
+-- updated_at of each task as the caller last saw it, in the same order.
+CREATE OR REPLACE FUNCTION public.reorder_tasks(
+  p_task_ids uuid[],
+  p_loaded_updated_at timestamptz[]
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stale integer;
+  v_updated integer;
+BEGIN
+  IF NOT (
+    public.has_role(auth.uid(), 'admin'::app_role) OR
+    public.has_role(auth.uid(), 'manager'::app_role) OR
+    public.has_role(auth.uid(), 'reception'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to reorder tasks' USING ERRCODE = '42501';
+  END IF;
+
+  IF cardinality(p_task_ids) IS DISTINCT FROM cardinality(p_loaded_updated_at) THEN
+    RAISE EXCEPTION 'Expected one updated_at per task' USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock in id order so two overlapping reorders cannot deadlock
+  PERFORM 1
+  FROM public.tasks
+  WHERE id = ANY (p_task_ids)
+  ORDER BY id
+  FOR UPDATE;
+
+  -- A task that was deleted or edited since the caller loaded it makes the order stale
+  SELECT count(*) INTO v_stale
+  FROM unnest(p_task_ids, p_loaded_updated_at) AS o(task_id, loaded_updated_at)
+  LEFT JOIN public.tasks t ON t.id = o.task_id
+  WHERE t.id IS NULL OR t.updated_at IS DISTINCT FROM o.loaded_updated_at;
+
+  IF v_stale > 0 THEN
+    RAISE EXCEPTION 'Task order changed since it was loaded (% tasks)', v_stale USING ERRCODE = '40001';
+  END IF;
+
+  UPDATE public.tasks t
+  SET display_order = o.position
+  FROM unnest(p_task_ids) WITH ORDINALITY AS o(task_id, position)
+  WHERE t.id = o.task_id
+    AND t.display_order IS DISTINCT FROM o.position;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reorder_tasks(uuid[], timestamptz[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reorder_tasks(uuid[], timestamptz[]) TO authenticated;
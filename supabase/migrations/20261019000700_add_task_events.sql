@@ -0,0 +1,105 @@
+-- Audit trail for tasks: every insert and update of a task row writes one
+-- task_events row with who made the change, where it came from and the old and
+-- new value of each field that changed.
+--
+-- The source is read from the x-change-source request header, which the app sets
+-- on each write (housekeeping app, reception, batch wizard). Changes made outside
+-- the API (pg_cron, SQL editor) are recorded as 'system'.
+
+DO $$ BEGIN
+  CREATE TYPE public.task_change_source AS ENUM ('housekeeping', 'reception', 'batch_wizard', 'system');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.task_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  -- NULL when nobody was signed in (pg_cron, service role)
+  actor_id uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  -- NULL for writes from clients that do not send the header yet
+  source public.task_change_source,
+  action text NOT NULL CHECK (action IN ('created', 'updated')),
+  -- { "<column>": { "old": <value>, "new": <value> } }
+  changes jsonb NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS task_events_task_id_created_at_idx ON public.task_events (task_id, created_at);
+
+ALTER TABLE public.task_events ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written only by the trigger below (SECURITY DEFINER).
+DROP POLICY IF EXISTS "Staff can view task events" ON public.task_events;
+CREATE POLICY "Staff can view task events"
+ON public.task_events FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'admin'::app_role) OR
+  public.has_role(auth.uid(), 'manager'::app_role) OR
+  public.has_role(auth.uid(), 'reception'::app_role)
+);
+
+CREATE OR REPLACE FUNCTION public.log_task_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Bookkeeping columns that change on every write and say nothing about the task
+  v_ignored text[] := ARRAY['id', 'created_at', 'updated_at'];
+  v_headers text;
+  v_header_source text;
+  v_source public.task_change_source;
+  v_actor uuid;
+  v_changes jsonb;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT jsonb_object_agg(n.key, jsonb_build_object('old', NULL, 'new', n.value))
+    INTO v_changes
+    FROM jsonb_each(to_jsonb(NEW)) n
+    WHERE n.value <> 'null'::jsonb
+      AND n.key <> ALL (v_ignored);
+  ELSE
+    SELECT jsonb_object_agg(n.key, jsonb_build_object('old', o.value, 'new', n.value))
+    INTO v_changes
+    FROM jsonb_each(to_jsonb(NEW)) n
+    JOIN jsonb_each(to_jsonb(OLD)) o ON o.key = n.key
+    WHERE n.value IS DISTINCT FROM o.value
+      AND n.key <> ALL (v_ignored);
+  END IF;
+
+  IF v_changes IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_headers := current_setting('request.headers', true);
+  IF v_headers IS NULL OR v_headers = '' THEN
+    v_source := 'system';
+  ELSE
+    v_header_source := v_headers::json ->> 'x-change-source';
+    IF v_header_source IN ('housekeeping', 'reception', 'batch_wizard', 'system') THEN
+      v_source := v_header_source::public.task_change_source;
+    END IF;
+  END IF;
+
+  SELECT id INTO v_actor FROM public.users WHERE auth_id = auth.uid();
+
+  INSERT INTO public.task_events (task_id, actor_id, source, action, changes)
+  VALUES (
+    NEW.id,
+    v_actor,
+    v_source,
+    CASE WHEN TG_OP = 'INSERT' THEN 'created' ELSE 'updated' END,
+    v_changes
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS task_events_trigger ON public.tasks;
+CREATE TRIGGER task_events_trigger
+AFTER INSERT OR UPDATE ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.log_task_event();
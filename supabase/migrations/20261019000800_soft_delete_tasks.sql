@@ -0,0 +1,271 @@
+-- Soft delete for tasks. Deleting a task moves it to the trash (deleted_at,
+-- deleted_by) instead of removing the row, so a task deleted by mistake can be
+-- restored with its recorded times and notes. Trashed tasks are hidden from every
+-- query through RLS; the admin "Kosz" view reads them through list_deleted_tasks.
+-- Tasks are purged for good 30 days after they were deleted.
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES public.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS tasks_deleted_at_idx ON public.tasks (deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Restrictive, so it applies on top of the role policies in 20260509143100_manager_role_permissions.sql.
+DROP POLICY IF EXISTS "Deleted tasks are hidden" ON public.tasks;
+CREATE POLICY "Deleted tasks are hidden"
+ON public.tasks AS RESTRICTIVE FOR SELECT
+USING (deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Deleted tasks cannot be edited" ON public.tasks;
+CREATE POLICY "Deleted tasks cannot be edited"
+ON public.tasks AS RESTRICTIVE FOR UPDATE
+USING (deleted_at IS NULL);
+
+-- A trashed task no longer occupies its room: skip it on both sides of the check.
+CREATE OR REPLACE FUNCTION public.prevent_duplicate_open_room_tasks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  conflicting_task_id UUID;
+  room_name TEXT;
+  normalized_room_name TEXT;
+BEGIN
+  -- Skip validation when either date or room is missing, or the task is in the trash
+  IF NEW.date IS NULL OR NEW.room_id IS NULL OR NEW.deleted_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Default missing status to 'todo' to treat it as open
+  IF NEW.status IS NULL THEN
+    NEW.status := 'todo';
+  END IF;
+
+  -- Only enforce when the resulting status is an open one
+  IF NEW.status <> 'done' THEN
+    -- Get the room name to check if it's one of the special rooms
+    SELECT r.name INTO room_name
+    FROM public.rooms r
+    WHERE r.id = NEW.room_id;
+
+    -- Allow multiple tasks for these specific rooms
+    -- Check if room name contains or matches any of the special room keywords
+    -- This handles "Pralnia + Magazyn", "pralnia", etc.
+    IF room_name IS NOT NULL THEN
+      normalized_room_name := LOWER(TRIM(room_name));
+
+      -- pralnia, śniadania, przerwa śniadaniowa (with or without special chars)
+      IF POSITION('pralnia' IN normalized_room_name) > 0 OR
+         normalized_room_name = 'śniadania' OR
+         POSITION('przerwa śniadaniowa' IN normalized_room_name) > 0 OR
+         POSITION('przerwa sniadaniowa' IN normalized_room_name) > 0 THEN
+        RETURN NEW;
+      END IF;
+    END IF;
+
+    -- For all other rooms, check for duplicates
+    SELECT t.id
+      INTO conflicting_task_id
+    FROM public.tasks t
+    WHERE t.date = NEW.date
+      AND t.room_id = NEW.room_id
+      AND t.status <> 'done'
+      AND t.deleted_at IS NULL
+      AND (TG_OP = 'INSERT' OR t.id <> NEW.id)
+    LIMIT 1;
+
+    IF conflicting_task_id IS NOT NULL THEN
+      RAISE EXCEPTION
+        USING MESSAGE = 'An open task already exists for this room on this date. Close it before creating another.',
+              ERRCODE = '23505',
+              DETAIL = format('room_id=%s date=%s existing_task_id=%s', NEW.room_id, NEW.date, conflicting_task_id),
+              HINT = 'Mark the existing task as done before creating a new one.';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- Moves a task to the trash.
+CREATE OR REPLACE FUNCTION public.soft_delete_task(p_task_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (
+    public.has_role(auth.uid(), 'admin'::app_role) OR
+    public.has_role(auth.uid(), 'manager'::app_role) OR
+    public.has_role(auth.uid(), 'reception'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to delete tasks' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.tasks
+  SET deleted_at = now(),
+      deleted_by = (SELECT id FROM public.users WHERE auth_id = auth.uid())
+  WHERE id = p_task_id
+    AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task % not found', p_task_id USING ERRCODE = 'no_data_found';
+  END IF;
+END;
+$$;
+
+-- Takes a task back out of the trash. Fails with unique_violation when its room
+-- got another open task that day in the meantime.
+CREATE OR REPLACE FUNCTION public.restore_task(p_task_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (
+    public.has_role(auth.uid(), 'admin'::app_role) OR
+    public.has_role(auth.uid(), 'manager'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to restore tasks' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.tasks
+  SET deleted_at = NULL,
+      deleted_by = NULL
+  WHERE id = p_task_id
+    AND deleted_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task % is not in the trash', p_task_id USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+END;
+$$;
+
+-- Everything in the trash, newest first, with the names the view shows.
+CREATE OR REPLACE FUNCTION public.list_deleted_tasks()
+RETURNS TABLE (
+  id uuid,
+  date date,
+  status public.task_status,
+  cleaning_type public.cleaning_type,
+  room_name text,
+  staff_name text,
+  actual_time integer,
+  reception_notes text,
+  housekeeping_notes text,
+  deleted_at timestamptz,
+  deleted_by_name text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (
+    public.has_role(auth.uid(), 'admin'::app_role) OR
+    public.has_role(auth.uid(), 'manager'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to view deleted tasks' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    t.id, t.date, t.status, t.cleaning_type,
+    r.name,
+    COALESCE(NULLIF(TRIM(CONCAT_WS(' ', staff.first_name, staff.last_name)), ''), staff.name),
+    t.actual_time, t.reception_notes, t.housekeeping_notes,
+    t.deleted_at,
+    COALESCE(NULLIF(TRIM(CONCAT_WS(' ', deleter.first_name, deleter.last_name)), ''), deleter.name)
+  FROM public.tasks t
+  LEFT JOIN public.rooms r ON r.id = t.room_id
+  LEFT JOIN public.users staff ON staff.id = t.user_id
+  LEFT JOIN public.users deleter ON deleter.id = t.deleted_by
+  WHERE t.deleted_at IS NOT NULL
+  ORDER BY t.deleted_at DESC;
+END;
+$$;
+
+-- Removes one trashed task for good (task_pauses, task_photos etc. go with it).
+CREATE OR REPLACE FUNCTION public.purge_task(p_task_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (
+    public.has_role(auth.uid(), 'admin'::app_role) OR
+    public.has_role(auth.uid(), 'manager'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to purge tasks' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.tasks WHERE id = p_task_id AND deleted_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task % is not in the trash', p_task_id USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+END;
+$$;
+
+-- Removes tasks that have been in the trash longer than 30 days (TRASH_RETENTION_DAYS
+-- in src/lib/task-trash.ts) and returns how many went. The period is fixed so no
+-- caller can shorten it and empty the whole trash. Their photo files are left to
+-- the Kosz view, which removes them once the purge has recorded their paths
+-- (20261019002000_record_purged_task_photos.sql).
+DROP FUNCTION IF EXISTS public.purge_expired_tasks(integer);
+
+CREATE OR REPLACE FUNCTION public.purge_expired_tasks()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  purged integer;
+BEGIN
+  -- pg_cron runs as the database; signed-in callers must be admin or manager
+  IF NOT public.is_server_caller() AND NOT (
+    public.has_role(auth.uid(), 'admin'::app_role) OR
+    public.has_role(auth.uid(), 'manager'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to purge tasks' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.tasks
+  WHERE deleted_at IS NOT NULL
+    AND deleted_at < now() - interval '30 days';
+
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.soft_delete_task(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.restore_task(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.list_deleted_tasks() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.purge_task(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.purge_expired_tasks() FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.soft_delete_task(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.restore_task(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.list_deleted_tasks() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.purge_task(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.purge_expired_tasks() TO authenticated;
+
+-- Nightly purge, after the recurring tasks are generated
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'purge-expired-tasks',
+      '15 0 * * *',
+      'SELECT public.purge_expired_tasks()'
+    );
+  END IF;
+END $$;
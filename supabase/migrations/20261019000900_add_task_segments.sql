@@ -0,0 +1,231 @@
+-- Mid-task handover. When a housekeeper's shift ends (or they go home sick) with a
+-- task in progress or paused, reception hands the rest of it to someone else. The
+-- time worked so far is closed as a segment credited to the first person; the task
+-- then continues for the new user_id from the handover moment.
+--
+-- task_segments holds the handed-over segments only. The time after the last
+-- handover belongs to tasks.user_id, so a task's actual_time is the sum of its
+-- segments plus the current run (start_time..stop_time minus total_pause, where
+-- start_time and total_pause are reset at each handover).
+
+CREATE TABLE IF NOT EXISTS public.task_segments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  started_at timestamptz NOT NULL,
+  ended_at timestamptz NOT NULL,
+  worked_minutes integer NOT NULL DEFAULT 0,
+  pause_minutes integer NOT NULL DEFAULT 0,
+  handed_over_to uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS task_segments_task_id_idx ON public.task_segments (task_id);
+CREATE INDEX IF NOT EXISTS task_segments_user_id_idx ON public.task_segments (user_id);
+
+ALTER TABLE public.task_segments ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written only by task_handover (SECURITY DEFINER).
+DROP POLICY IF EXISTS "Users can view relevant task segments" ON public.task_segments;
+CREATE POLICY "Users can view relevant task segments"
+ON public.task_segments FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'admin'::app_role) OR
+  public.has_role(auth.uid(), 'manager'::app_role) OR
+  public.has_role(auth.uid(), 'reception'::app_role) OR
+  (public.has_role(auth.uid(), 'housekeeping'::app_role) AND (
+    user_id IN (SELECT id FROM public.users WHERE auth_id = auth.uid()) OR
+    task_id IN (
+      SELECT t.id FROM public.tasks t
+      JOIN public.users u ON u.id = t.user_id
+      WHERE u.auth_id = auth.uid()
+    )
+  ))
+);
+
+-- Minutes already credited to earlier assignees of a task.
+CREATE OR REPLACE FUNCTION public.task_handed_over_minutes(p_task_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(worked_minutes), 0)::integer FROM public.task_segments WHERE task_id = p_task_id;
+$$;
+
+-- Closes the current assignee's segment and gives the rest of the task to p_user_id.
+-- The task is left paused from the handover moment, so the time until the new
+-- person resumes it is not counted against either of them.
+CREATE OR REPLACE FUNCTION public.task_handover(p_task_id uuid, p_user_id uuid, p_at timestamptz DEFAULT NULL)
+RETURNS public.tasks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task public.tasks;
+  v_at timestamptz;
+  v_pause integer;
+BEGIN
+  IF NOT (
+    public.has_role(auth.uid(), 'admin'::app_role) OR
+    public.has_role(auth.uid(), 'manager'::app_role) OR
+    public.has_role(auth.uid(), 'reception'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to hand over tasks' USING ERRCODE = '42501';
+  END IF;
+
+  v_task := public.lock_task_for_transition(p_task_id);
+
+  IF v_task.status NOT IN ('in_progress', 'paused') OR v_task.start_time IS NULL THEN
+    RAISE EXCEPTION 'Cannot hand over a task with status %', v_task.status USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  IF p_user_id IS NULL OR p_user_id IS NOT DISTINCT FROM v_task.user_id THEN
+    RAISE EXCEPTION 'Hand the task over to a different person' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE id = p_user_id) THEN
+    RAISE EXCEPTION 'User % not found', p_user_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  v_at := GREATEST(LEAST(COALESCE(p_at, now()), now()), v_task.start_time, v_task.pause_start, v_task.pause_stop);
+  v_pause := COALESCE(v_task.total_pause, 0);
+
+  IF v_task.status = 'paused' AND v_task.pause_start IS NOT NULL THEN
+    v_pause := v_pause + EXTRACT(EPOCH FROM (v_at - v_task.pause_start))::integer / 60;
+  END IF;
+
+  INSERT INTO public.task_segments (task_id, user_id, started_at, ended_at, worked_minutes, pause_minutes, handed_over_to)
+  VALUES (
+    p_task_id,
+    v_task.user_id,
+    v_task.start_time,
+    v_at,
+    GREATEST(0, EXTRACT(EPOCH FROM (v_at - v_task.start_time))::integer / 60 - v_pause),
+    v_pause,
+    p_user_id
+  );
+
+  -- The task stays (or becomes) paused, so close_open_task_pause does not fire.
+  UPDATE public.task_pauses
+  SET ended_at = v_at
+  WHERE task_id = p_task_id AND ended_at IS NULL;
+
+  UPDATE public.tasks
+  SET user_id = p_user_id,
+      status = 'paused',
+      start_time = v_at,
+      pause_start = v_at,
+      pause_stop = NULL,
+      total_pause = 0
+  WHERE id = p_task_id
+  RETURNING * INTO v_task;
+
+  RETURN v_task;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.task_handed_over_minutes(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.task_handed_over_minutes(uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.task_handover(uuid, uuid, timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.task_handover(uuid, uuid, timestamptz) TO authenticated;
+
+-- task_finish adds the handed-over segments to the final run.
+CREATE OR REPLACE FUNCTION public.task_finish(p_task_id uuid, p_at timestamptz DEFAULT NULL)
+RETURNS public.tasks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task public.tasks;
+  v_at timestamptz;
+  v_total_pause integer;
+  v_pause_stop timestamptz;
+  v_actual integer;
+BEGIN
+  v_task := public.lock_task_for_transition(p_task_id);
+
+  IF v_task.status NOT IN ('in_progress', 'paused') OR v_task.start_time IS NULL THEN
+    RAISE EXCEPTION 'Cannot finish a task with status %', v_task.status USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  v_at := GREATEST(LEAST(COALESCE(p_at, now()), now()), v_task.start_time, v_task.pause_start, v_task.pause_stop);
+  v_total_pause := COALESCE(v_task.total_pause, 0);
+  v_pause_stop := v_task.pause_stop;
+
+  IF v_task.status = 'paused' AND v_task.pause_start IS NOT NULL THEN
+    v_total_pause := v_total_pause + EXTRACT(EPOCH FROM (v_at - v_task.pause_start))::integer / 60;
+    v_pause_stop := v_at;
+  END IF;
+
+  v_actual := GREATEST(0, EXTRACT(EPOCH FROM (v_at - v_task.start_time))::integer / 60 - v_total_pause)
+    + public.task_handed_over_minutes(p_task_id);
+
+  -- calculate_task_times recomputes the same values from stop_time; setting them
+  -- here keeps the result independent of that trigger.
+  UPDATE public.tasks
+  SET status = 'done',
+      stop_time = v_at,
+      pause_start = NULL,
+      pause_stop = v_pause_stop,
+      total_pause = v_total_pause,
+      actual_time = v_actual,
+      difference = CASE WHEN time_limit IS NOT NULL THEN v_actual - time_limit END
+  WHERE id = p_task_id
+  RETURNING * INTO v_task;
+
+  RETURN v_task;
+END;
+$$;
+
+-- Same as 20250201_preserve_manual_actual_time.sql, plus the handed-over segments.
+CREATE OR REPLACE FUNCTION public.calculate_task_times()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Only recalculate actual_time/difference when start_time or stop_time changed
+  -- This preserves admin manual overrides of actual_time
+  IF (TG_OP = 'UPDATE') AND
+     (OLD.start_time IS NOT DISTINCT FROM NEW.start_time) AND
+     (OLD.stop_time IS NOT DISTINCT FROM NEW.stop_time) THEN
+    NEW.updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF NEW.stop_time IS NOT NULL AND NEW.start_time IS NOT NULL THEN
+    NEW.actual_time := EXTRACT(EPOCH FROM (NEW.stop_time - NEW.start_time))::INTEGER / 60 - COALESCE(NEW.total_pause, 0)
+      + public.task_handed_over_minutes(NEW.id);
+    IF NEW.time_limit IS NOT NULL THEN
+      NEW.difference := NEW.actual_time - NEW.time_limit;
+    END IF;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- A restart throws away the earlier run, including its handed-over segments.
+CREATE OR REPLACE FUNCTION public.clear_task_segments_on_restart()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.start_time IS DISTINCT FROM OLD.start_time AND NEW.status = 'in_progress' AND OLD.status IN ('todo', 'repair_needed') THEN
+    DELETE FROM public.task_segments WHERE task_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS clear_task_segments_on_restart ON public.tasks;
+
+CREATE TRIGGER clear_task_segments_on_restart
+  AFTER UPDATE ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.clear_task_segments_on_restart();
@@ -0,0 +1,98 @@
+-- Scheduled readiness. Reception can set the time a room is expected to be free
+-- (ready_at, e.g. the 11:00 checkout) instead of waiting to flip ready_to_clean by
+-- hand. release_scheduled_tasks turns the flag on once that time has passed; it
+-- runs every minute through pg_cron. Clients also treat a passed ready_at as
+-- ready, so the list is right between runs and where pg_cron is not installed.
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS ready_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS tasks_ready_at_idx
+  ON public.tasks (ready_at)
+  WHERE ready_at IS NOT NULL AND NOT ready_to_clean;
+
+-- Same as 20260815000000_add_ready_to_clean_to_tasks.sql, extended to ready_at:
+-- only admin, manager and reception may schedule it, a scheduled release stamps
+-- ready_to_clean_at with the scheduled time, and clearing the flag by hand drops
+-- the schedule so the room is not released again.
+CREATE OR REPLACE FUNCTION public.enforce_ready_to_clean_permissions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.ready_to_clean IS DISTINCT FROM OLD.ready_to_clean OR NEW.ready_at IS DISTINCT FROM OLD.ready_at THEN
+    -- Only the service role (admin client) and database jobs such as the pg_cron run
+    -- of release_scheduled_tasks change the flag without a user; anyone else needs a role.
+    IF NOT public.is_server_caller() AND NOT (
+      public.has_role(auth.uid(), 'admin'::app_role) OR
+      public.has_role(auth.uid(), 'manager'::app_role) OR
+      public.has_role(auth.uid(), 'reception'::app_role)
+    ) THEN
+      RAISE EXCEPTION 'Only admin, manager and reception can change ready_to_clean';
+    END IF;
+  END IF;
+
+  IF NEW.ready_to_clean IS DISTINCT FROM OLD.ready_to_clean THEN
+    NEW.ready_to_clean_at := CASE
+      WHEN NEW.ready_to_clean THEN LEAST(now(), COALESCE(NEW.ready_at, now()))
+      ELSE NULL
+    END;
+
+    IF NOT NEW.ready_to_clean AND NEW.ready_at IS NOT DISTINCT FROM OLD.ready_at THEN
+      NEW.ready_at := NULL;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Turns ready_to_clean on for every open task whose ready_at has passed and
+-- returns how many were released.
+CREATE OR REPLACE FUNCTION public.release_scheduled_tasks()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  released integer;
+BEGIN
+  -- SECURITY DEFINER bypasses row level security: pg_cron runs as the database,
+  -- signed-in callers must be allowed to set the flag
+  IF NOT public.is_server_caller() AND NOT (
+    public.has_role(auth.uid(), 'admin'::app_role) OR
+    public.has_role(auth.uid(), 'manager'::app_role) OR
+    public.has_role(auth.uid(), 'reception'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to release tasks' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.tasks
+  SET ready_to_clean = true
+  WHERE ready_at IS NOT NULL
+    AND ready_at <= now()
+    AND NOT ready_to_clean
+    AND status <> 'done'
+    AND deleted_at IS NULL;
+
+  GET DIAGNOSTICS released = ROW_COUNT;
+  RETURN released;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_scheduled_tasks() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.release_scheduled_tasks() TO authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'release-scheduled-tasks',
+      '* * * * *',
+      'SELECT public.release_scheduled_tasks()'
+    );
+  END IF;
+END $$;
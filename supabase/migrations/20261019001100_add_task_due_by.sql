@@ -0,0 +1,11 @@
+-- Task deadlines. due_by is the time a room has to be finished by, e.g. 13:00
+-- for an early arrival or a VIP. Reception sets it as a time on the task's date;
+-- the housekeeping list puts these rooms right after the ones ready to clean and
+-- reception lists the deadlines that are at risk of being missed.
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS due_by timestamptz;
+
+CREATE INDEX IF NOT EXISTS tasks_due_by_idx
+  ON public.tasks (due_by)
+  WHERE due_by IS NOT NULL AND status <> 'done';
@@ -0,0 +1,98 @@
+-- Refused service. On stay-overs the housekeeper often finds a do-not-disturb sign
+-- or the guest turns the cleaning down. task_record_refusal logs the attempt with
+-- its reason and time and puts the task back to 'todo', so it is neither left
+-- looking untouched nor counted as done. Reception can then set retry_at for
+-- another try later the same day.
+--
+-- task_attempts holds one row per refused attempt; tasks keeps the count and the
+-- latest attempt so lists can show them without a join.
+
+DO $$ BEGIN
+  CREATE TYPE public.service_refusal_reason AS ENUM ('do_not_disturb', 'guest_refused');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.task_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  reason public.service_refusal_reason NOT NULL,
+  note text,
+  attempted_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS task_attempts_task_id_idx ON public.task_attempts (task_id);
+CREATE INDEX IF NOT EXISTS task_attempts_attempted_at_idx ON public.task_attempts (attempted_at);
+
+ALTER TABLE public.task_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written only by task_record_refusal (SECURITY DEFINER).
+DROP POLICY IF EXISTS "Users can view relevant task attempts" ON public.task_attempts;
+CREATE POLICY "Users can view relevant task attempts"
+ON public.task_attempts FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'admin'::app_role) OR
+  public.has_role(auth.uid(), 'manager'::app_role) OR
+  public.has_role(auth.uid(), 'reception'::app_role) OR
+  (public.has_role(auth.uid(), 'housekeeping'::app_role) AND task_id IN (
+    SELECT t.id FROM public.tasks t
+    JOIN public.users u ON u.id = t.user_id
+    WHERE u.auth_id = auth.uid()
+  ))
+);
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS attempt_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_attempt_at timestamptz,
+  ADD COLUMN IF NOT EXISTS last_attempt_reason public.service_refusal_reason,
+  ADD COLUMN IF NOT EXISTS retry_at timestamptz;
+
+-- Records a refused attempt and returns the task to 'todo'. A run already started
+-- is dropped: the room was not cleaned, so none of that time counts.
+CREATE OR REPLACE FUNCTION public.task_record_refusal(
+  p_task_id uuid,
+  p_reason public.service_refusal_reason,
+  p_note text DEFAULT NULL,
+  p_at timestamptz DEFAULT NULL
+)
+RETURNS public.tasks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task public.tasks;
+  v_at timestamptz;
+BEGIN
+  v_task := public.lock_task_for_transition(p_task_id);
+
+  IF v_task.status NOT IN ('todo', 'in_progress', 'paused') THEN
+    RAISE EXCEPTION 'Cannot record a refusal for a task with status %', v_task.status USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  v_at := LEAST(COALESCE(p_at, now()), now());
+
+  INSERT INTO public.task_attempts (task_id, user_id, reason, note, attempted_at)
+  VALUES (p_task_id, v_task.user_id, p_reason, NULLIF(btrim(p_note), ''), v_at);
+
+  UPDATE public.tasks
+  SET status = 'todo',
+      start_time = NULL,
+      pause_start = NULL,
+      pause_stop = NULL,
+      total_pause = 0,
+      attempt_count = attempt_count + 1,
+      last_attempt_at = v_at,
+      last_attempt_reason = p_reason,
+      retry_at = NULL
+  WHERE id = p_task_id
+  RETURNING * INTO v_task;
+
+  RETURN v_task;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.task_record_refusal(uuid, public.service_refusal_reason, text, timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.task_record_refusal(uuid, public.service_refusal_reason, text, timestamptz) TO authenticated;
@@ -0,0 +1,14 @@
+-- Shift length per person, in minutes. The reception assignment board compares
+-- each housekeeper's planned time limits against it. NULL means the standard
+-- 7-hour shift the app assumes when nothing is set.
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS shift_minutes integer;
+
+DO $$
+BEGIN
+  ALTER TABLE public.users
+    ADD CONSTRAINT users_shift_minutes_check CHECK (shift_minutes IS NULL OR shift_minutes BETWEEN 1 AND 1440);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
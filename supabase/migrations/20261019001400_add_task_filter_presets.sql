@@ -0,0 +1,28 @@
+-- Named task filter presets ("P2 departures today", "Alina open tasks") that
+-- reception and admins save from the task filters and pick again later.
+--
+-- A preset belongs to one user and only that user sees it. filters holds the
+-- filter values as the app keeps them (date, status, staffId, roomGroup, roomId,
+-- and scope for the upcoming or archived tasks);
+-- the app falls back to defaults for anything missing or unknown.
+
+CREATE TABLE IF NOT EXISTS public.task_filter_presets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  filters jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT task_filter_presets_name_check CHECK (length(trim(name)) > 0)
+);
+
+-- Saving under an existing name replaces that preset
+CREATE UNIQUE INDEX IF NOT EXISTS task_filter_presets_user_name_key
+  ON public.task_filter_presets (user_id, name);
+
+ALTER TABLE public.task_filter_presets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users manage their own filter presets" ON public.task_filter_presets;
+CREATE POLICY "Users manage their own filter presets"
+ON public.task_filter_presets FOR ALL
+USING (user_id IN (SELECT id FROM public.users WHERE auth_id = auth.uid()))
+WITH CHECK (user_id IN (SELECT id FROM public.users WHERE auth_id = auth.uid()));
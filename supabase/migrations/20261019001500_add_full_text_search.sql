@@ -0,0 +1,122 @@
+-- Full-text search over task notes and issues, for the global search in the
+-- reception and admin panels ("suszarka", "klucz" — whatever phrase reception
+-- remembers from a note).
+--
+-- tasks.search_vector covers reception_notes, housekeeping_notes and
+-- issue_description; issues.search_vector covers title (weighted higher),
+-- description and notes. Both are generated columns with GIN indexes.
+--
+-- The 'simple' configuration is used: Postgres ships no Polish dictionary, so
+-- words are not stemmed. search_tasks_and_issues matches every word of the
+-- query as a prefix instead, so "suszark" finds "suszarka" and "suszarki".
+--
+-- The function runs as the caller, so row level security decides what can be
+-- found (trashed tasks stay hidden).
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    to_tsvector('simple'::regconfig,
+      coalesce(reception_notes, '') || ' ' ||
+      coalesce(housekeeping_notes, '') || ' ' ||
+      coalesce(issue_description, ''))
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS tasks_search_vector_idx ON public.tasks USING gin (search_vector);
+
+ALTER TABLE public.issues
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple'::regconfig, coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('simple'::regconfig, coalesce(description, '') || ' ' || coalesce(notes, '')), 'B')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS issues_search_vector_idx ON public.issues USING gin (search_vector);
+
+-- Ranked matches from both tables. p_from/p_to bound the task date or the day an
+-- issue was reported; p_room_id limits the results to one room. The snippet marks
+-- matched words with « and ».
+CREATE OR REPLACE FUNCTION public.search_tasks_and_issues(
+  p_query text,
+  p_from date DEFAULT NULL,
+  p_to date DEFAULT NULL,
+  p_room_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 50
+)
+RETURNS TABLE (
+  kind text,
+  id uuid,
+  room_id uuid,
+  room_name text,
+  date date,
+  title text,
+  snippet text,
+  rank real
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_query tsquery;
+  v_options constant text := 'StartSel="«", StopSel="»", MaxWords=20, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "';
+BEGIN
+  -- Every word as a prefix, all of them required; punctuation is dropped
+  SELECT to_tsquery('simple', string_agg(w || ':*', ' & '))
+  INTO v_query
+  FROM (
+    SELECT regexp_replace(word, '[^[:alnum:]]', '', 'g') AS w
+    FROM regexp_split_to_table(lower(coalesce(p_query, '')), '\s+') AS word
+  ) words
+  WHERE w <> '';
+
+  IF v_query IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT *
+  FROM (
+    SELECT
+      'task'::text,
+      t.id,
+      t.room_id,
+      r.name,
+      t.date,
+      NULL::text,
+      ts_headline('simple',
+        concat_ws(' · ', t.reception_notes, t.housekeeping_notes, t.issue_description),
+        v_query, v_options),
+      ts_rank(t.search_vector, v_query)
+    FROM public.tasks t
+    JOIN public.rooms r ON r.id = t.room_id
+    WHERE t.search_vector @@ v_query
+      AND (p_from IS NULL OR t.date >= p_from)
+      AND (p_to IS NULL OR t.date <= p_to)
+      AND (p_room_id IS NULL OR t.room_id = p_room_id)
+
+    UNION ALL
+
+    SELECT
+      'issue'::text,
+      i.id,
+      i.room_id,
+      r.name,
+      i.reported_at::date,
+      i.title,
+      ts_headline('simple',
+        concat_ws(' · ', i.description, i.notes),
+        v_query, v_options),
+      ts_rank(i.search_vector, v_query)
+    FROM public.issues i
+    JOIN public.rooms r ON r.id = i.room_id
+    WHERE i.search_vector @@ v_query
+      AND (p_from IS NULL OR i.reported_at::date >= p_from)
+      AND (p_to IS NULL OR i.reported_at::date <= p_to)
+      AND (p_room_id IS NULL OR i.room_id = p_room_id)
+  ) AS hits
+  ORDER BY 8 DESC, 5 DESC
+  LIMIT greatest(1, least(coalesce(p_limit, 50), 200));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_tasks_and_issues(text, date, date, uuid, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.search_tasks_and_issues(text, date, date, uuid, integer) TO authenticated;
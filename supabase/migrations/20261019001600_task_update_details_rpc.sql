@@ -0,0 +1,70 @@
+-- Reception edits of a task (details dialog, bulk actions) that include a status
+-- change run in one transaction: the status step and the other edited columns are
+-- written together or not at all.
+--
+-- Steps of the timing state machine go through task_start/task_pause/task_resume/
+-- task_finish, so their timings still come from the database clock. Besides those,
+-- a task can only be put back to 'todo' or marked 'repair_needed'; any other jump
+-- (e.g. todo -> done, which would leave no start or stop time) raises SQLSTATE 55000.
+--
+-- p_changes holds the edited columns keyed by column name; columns it leaves out
+-- are not touched. The update runs with the caller's rights, so the tasks policies
+-- and triggers apply as for a direct update.
+
+CREATE OR REPLACE FUNCTION public.task_update_details(
+  p_task_id uuid,
+  p_status public.task_status,
+  p_changes jsonb DEFAULT '{}'::jsonb
+)
+RETURNS public.tasks
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_task public.tasks;
+BEGIN
+  v_task := public.lock_task_for_transition(p_task_id);
+
+  IF p_status IS DISTINCT FROM v_task.status THEN
+    IF p_status = 'in_progress' AND v_task.status IN ('todo', 'repair_needed') THEN
+      PERFORM public.task_start(p_task_id);
+    ELSIF p_status = 'paused' AND v_task.status = 'in_progress' THEN
+      PERFORM public.task_pause(p_task_id);
+    ELSIF p_status = 'in_progress' AND v_task.status = 'paused' THEN
+      PERFORM public.task_resume(p_task_id);
+    ELSIF p_status = 'done' AND v_task.status IN ('in_progress', 'paused') THEN
+      PERFORM public.task_finish(p_task_id);
+    ELSIF p_status IN ('todo', 'repair_needed') THEN
+      UPDATE public.tasks SET status = p_status WHERE id = p_task_id;
+    ELSE
+      RAISE EXCEPTION 'Cannot change a task from % to %', v_task.status, p_status USING ERRCODE = 'object_not_in_prerequisite_state';
+    END IF;
+  END IF;
+
+  -- After the status step, so an admin's corrected actual time is not overwritten by task_finish
+  IF p_changes <> '{}'::jsonb THEN
+    UPDATE public.tasks
+    SET room_id = CASE WHEN p_changes ? 'room_id' THEN (p_changes->>'room_id')::uuid ELSE room_id END,
+        cleaning_type = CASE WHEN p_changes ? 'cleaning_type' THEN (p_changes->>'cleaning_type')::public.cleaning_type ELSE cleaning_type END,
+        guest_count = CASE WHEN p_changes ? 'guest_count' THEN p_changes->>'guest_count' ELSE guest_count END,
+        user_id = CASE WHEN p_changes ? 'user_id' THEN (p_changes->>'user_id')::uuid ELSE user_id END,
+        reception_notes = CASE WHEN p_changes ? 'reception_notes' THEN p_changes->>'reception_notes' ELSE reception_notes END,
+        date = CASE WHEN p_changes ? 'date' THEN (p_changes->>'date')::date ELSE date END,
+        due_by = CASE WHEN p_changes ? 'due_by' THEN (p_changes->>'due_by')::timestamptz ELSE due_by END,
+        ready_at = CASE WHEN p_changes ? 'ready_at' THEN (p_changes->>'ready_at')::timestamptz ELSE ready_at END,
+        ready_to_clean = CASE WHEN p_changes ? 'ready_to_clean' THEN (p_changes->>'ready_to_clean')::boolean ELSE ready_to_clean END,
+        time_limit = CASE WHEN p_changes ? 'time_limit' THEN (p_changes->>'time_limit')::integer ELSE time_limit END,
+        actual_time = CASE WHEN p_changes ? 'actual_time' THEN (p_changes->>'actual_time')::integer ELSE actual_time END,
+        difference = CASE WHEN p_changes ? 'difference' THEN (p_changes->>'difference')::integer ELSE difference END
+    WHERE id = p_task_id
+    RETURNING * INTO v_task;
+  ELSE
+    SELECT * INTO v_task FROM public.tasks WHERE id = p_task_id;
+  END IF;
+
+  RETURN v_task;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.task_update_details(uuid, public.task_status, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.task_update_details(uuid, public.task_status, jsonb) TO authenticated;
@@ -0,0 +1,72 @@
+-- A task whose room or cleaning type requires a photo can no longer be finished
+-- without one, whichever way the finish arrives: the housekeeping app, an action
+-- replayed from the offline queue or a status change by reception. task_finish
+-- raises SQLSTATE PT001 while task_needs_photo is true.
+--
+-- Same as the task_finish in 20261019000900_add_task_segments.sql, plus the check.
+CREATE OR REPLACE FUNCTION public.task_finish(p_task_id uuid, p_at timestamptz DEFAULT NULL)
+RETURNS public.tasks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task public.tasks;
+  v_at timestamptz;
+  v_total_pause integer;
+  v_pause_stop timestamptz;
+  v_actual integer;
+BEGIN
+  v_task := public.lock_task_for_transition(p_task_id);
+
+  IF v_task.status NOT IN ('in_progress', 'paused') OR v_task.start_time IS NULL THEN
+    RAISE EXCEPTION 'Cannot finish a task with status %', v_task.status USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  IF public.task_needs_photo(p_task_id) THEN
+    RAISE EXCEPTION 'Task % needs a photo before it can be finished', p_task_id USING ERRCODE = 'PT001';
+  END IF;
+
+  v_at := GREATEST(LEAST(COALESCE(p_at, now()), now()), v_task.start_time, v_task.pause_start, v_task.pause_stop);
+  v_total_pause := COALESCE(v_task.total_pause, 0);
+  v_pause_stop := v_task.pause_stop;
+
+  IF v_task.status = 'paused' AND v_task.pause_start IS NOT NULL THEN
+    v_total_pause := v_total_pause + EXTRACT(EPOCH FROM (v_at - v_task.pause_start))::integer / 60;
+    v_pause_stop := v_at;
+  END IF;
+
+  v_actual := GREATEST(0, EXTRACT(EPOCH FROM (v_at - v_task.start_time))::integer / 60 - v_total_pause)
+    + public.task_handed_over_minutes(p_task_id);
+
+  -- calculate_task_times recomputes the same values from stop_time; setting them
+  -- here keeps the result independent of that trigger.
+  UPDATE public.tasks
+  SET status = 'done',
+      stop_time = v_at,
+      pause_start = NULL,
+      pause_stop = v_pause_stop,
+      total_pause = v_total_pause,
+      actual_time = v_actual,
+      difference = CASE WHEN time_limit IS NOT NULL THEN v_actual - time_limit END
+  WHERE id = p_task_id
+  RETURNING * INTO v_task;
+
+  RETURN v_task;
+END;
+$$;
+
+-- uploadTaskPhotos removes the files it already uploaded when a later step fails.
+-- Housekeepers may delete only their own files that no task_photos row points to,
+-- so they can clean up after themselves but not remove photos already attached.
+DROP POLICY IF EXISTS "Uploaders can delete their unattached task photos" ON storage.objects;
+CREATE POLICY "Uploaders can delete their unattached task photos"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'task-photos' AND
+  owner = auth.uid() AND
+  NOT EXISTS (
+    SELECT 1 FROM public.task_photos p WHERE p.storage_path = storage.objects.name
+  )
+);
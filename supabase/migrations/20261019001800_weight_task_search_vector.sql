@@ -0,0 +1,22 @@
+-- Weights for tasks.search_vector, on the same scale as issues.search_vector.
+-- Unweighted task vectors ranked every task hit at weight D, below any issue
+-- title or description, so with the shared limit issue hits pushed matching
+-- tasks out of the results.
+--
+-- The problem reported on the task (issue_description) weighs like an issue
+-- title (A); the reception and housekeeping notes like an issue description (B).
+-- A generated column cannot be altered, so it is dropped and added again; the
+-- index goes with it.
+
+DROP INDEX IF EXISTS public.tasks_search_vector_idx;
+ALTER TABLE public.tasks DROP COLUMN IF EXISTS search_vector;
+
+ALTER TABLE public.tasks
+  ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple'::regconfig, coalesce(issue_description, '')), 'A') ||
+    setweight(to_tsvector('simple'::regconfig,
+      coalesce(reception_notes, '') || ' ' ||
+      coalesce(housekeeping_notes, '')), 'B')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS tasks_search_vector_idx ON public.tasks USING gin (search_vector);
@@ -0,0 +1,63 @@
+-- tasks.search_vector is a generated column, so it changes with every insert
+-- and every edit of the notes or the issue description. log_task_event() logged
+-- it as a change of its own; it is bookkeeping like updated_at and is ignored.
+-- Events already recorded keep the field; the history timeline hides it.
+
+CREATE OR REPLACE FUNCTION public.log_task_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Bookkeeping columns that change on every write and say nothing about the task
+  v_ignored text[] := ARRAY['id', 'created_at', 'updated_at', 'search_vector'];
+  v_headers text;
+  v_header_source text;
+  v_source public.task_change_source;
+  v_actor uuid;
+  v_changes jsonb;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT jsonb_object_agg(n.key, jsonb_build_object('old', NULL, 'new', n.value))
+    INTO v_changes
+    FROM jsonb_each(to_jsonb(NEW)) n
+    WHERE n.value <> 'null'::jsonb
+      AND n.key <> ALL (v_ignored);
+  ELSE
+    SELECT jsonb_object_agg(n.key, jsonb_build_object('old', o.value, 'new', n.value))
+    INTO v_changes
+    FROM jsonb_each(to_jsonb(NEW)) n
+    JOIN jsonb_each(to_jsonb(OLD)) o ON o.key = n.key
+    WHERE n.value IS DISTINCT FROM o.value
+      AND n.key <> ALL (v_ignored);
+  END IF;
+
+  IF v_changes IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_headers := current_setting('request.headers', true);
+  IF v_headers IS NULL OR v_headers = '' THEN
+    v_source := 'system';
+  ELSE
+    v_header_source := v_headers::json ->> 'x-change-source';
+    IF v_header_source IN ('housekeeping', 'reception', 'batch_wizard', 'system') THEN
+      v_source := v_header_source::public.task_change_source;
+    END IF;
+  END IF;
+
+  SELECT id INTO v_actor FROM public.users WHERE auth_id = auth.uid();
+
+  INSERT INTO public.task_events (task_id, actor_id, source, action, changes)
+  VALUES (
+    NEW.id,
+    v_actor,
+    v_source,
+    CASE WHEN TG_OP = 'INSERT' THEN 'created' ELSE 'updated' END,
+    v_changes
+  );
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,65 @@
+-- The nightly purge_expired_tasks deletes tasks from the database only: their
+-- task_photos rows go with them through ON DELETE CASCADE, but the files stay in
+-- the task-photos bucket, since storage objects can only be removed through the
+-- Storage API. The purge now records the paths of those files in
+-- orphaned_task_photos before deleting the tasks, and the Kosz view removes the
+-- recorded files from the bucket (sweepOrphanedTaskPhotos in src/lib/task-photos.ts).
+
+CREATE TABLE IF NOT EXISTS public.orphaned_task_photos (
+  -- Path inside the task-photos bucket
+  storage_path text PRIMARY KEY,
+  purged_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.orphaned_task_photos ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written only by purge_expired_tasks (SECURITY DEFINER).
+DROP POLICY IF EXISTS "Admin and manager can view orphaned task photos" ON public.orphaned_task_photos;
+CREATE POLICY "Admin and manager can view orphaned task photos"
+ON public.orphaned_task_photos FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'admin'::app_role) OR
+  public.has_role(auth.uid(), 'manager'::app_role)
+);
+
+DROP POLICY IF EXISTS "Admin and manager can delete orphaned task photos" ON public.orphaned_task_photos;
+CREATE POLICY "Admin and manager can delete orphaned task photos"
+ON public.orphaned_task_photos FOR DELETE
+USING (
+  public.has_role(auth.uid(), 'admin'::app_role) OR
+  public.has_role(auth.uid(), 'manager'::app_role)
+);
+
+CREATE OR REPLACE FUNCTION public.purge_expired_tasks()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  purged integer;
+BEGIN
+  -- pg_cron runs as the database; signed-in callers must be admin or manager
+  IF NOT public.is_server_caller() AND NOT (
+    public.has_role(auth.uid(), 'admin'::app_role) OR
+    public.has_role(auth.uid(), 'manager'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to purge tasks' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.orphaned_task_photos (storage_path)
+  SELECT p.storage_path
+  FROM public.task_photos p
+  JOIN public.tasks t ON t.id = p.task_id
+  WHERE t.deleted_at IS NOT NULL
+    AND t.deleted_at < now() - interval '30 days'
+  ON CONFLICT (storage_path) DO NOTHING;
+
+  DELETE FROM public.tasks
+  WHERE deleted_at IS NOT NULL
+    AND deleted_at < now() - interval '30 days';
+
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$;